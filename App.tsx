@@ -1,24 +1,77 @@
-import React, { useState, useCallback, useEffect } from 'react';
-import { Household, Expense, Notification, Rule, Budget, BucketGoal, Trip, Subscription } from './types';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { Household, Expense, Notification, Rule, Budget, BucketGoal, Trip, Subscription, Settlement, ImportBatch, Income, CategoryCorrection, Member, MemberAvatar, ApprovalRequest, PendingAnalysis } from './types';
 import Dashboard from './components/Dashboard';
 import ExpenseTracker from './components/ExpenseTracker';
+import SettleUp from './components/SettleUp';
 import BucketGoals from './components/BucketGoals';
 import TripPlanner from './components/TripPlanner';
 import AiReport from './components/AiReport';
 import Settings from './components/Settings';
 import AddExpenseModal from './components/AddExpenseModal';
 import BottomNavBar from './components/BottomNavBar';
-import { BellIcon, ChartIcon, Cog6ToothIcon, DashboardIcon, MoneyIcon, PiggyBankIcon, PlaneIcon, PlusIcon, ArrowUpTrayIcon, ArrowPathIcon, LightBulbIcon, ChatBubbleBottomCenterTextIcon } from './components/icons/Icons';
+import { BellIcon, ChartIcon, Cog6ToothIcon, DashboardIcon, MoneyIcon, PiggyBankIcon, PlaneIcon, PlusIcon, ArrowUpTrayIcon, ArrowPathIcon, LightBulbIcon, ChatBubbleBottomCenterTextIcon, ArrowsRightLeftIcon, LockClosedIcon } from './components/icons/Icons';
 import NotificationPanel from './components/NotificationPanel';
-import { detectAnomalousExpense } from './services/geminiService';
+import { analyzeReceiptWithGemini, detectAnomalousExpense } from './services/geminiService';
+import { getAiErrorMessage, isOfflineError } from './services/aiValidation';
 import FileImport from './components/FileImport';
 import Subscriptions from './components/Subscriptions';
 import SavingsCoach from './components/SavingsCoach';
 import AiChat from './components/AiChat';
 import Button from './components/common/Button';
+import Avatar from './components/common/Avatar';
+import RuleSuggestionsTray from './components/RuleSuggestionsTray';
+import LockScreen from './components/LockScreen';
+import DatabaseUnlockScreen from './components/DatabaseUnlockScreen';
+import MigrationErrorScreen from './components/MigrationErrorScreen';
+import { MigrationError } from './services/migrations';
+import PendingAnalysesTray from './components/PendingAnalysesTray';
+import { getNetExpenseAmount } from './utils/incomeUtils';
+import { detectAnomaly } from './utils/anomalyDetection';
+import { getRuleSubscriptions, previewRule } from './utils/ruleEngine';
+import { getCategoryFamilyIds } from './utils/categoryUtils';
+import { syncCategoryClassifier } from './utils/categoryClassifier';
+import { getActiveMembers } from './utils/memberUtils';
+import { hasPermission, splitRestrictedUpdate, buildDeleteExpenseRequest, mergeBudgets, ApprovalDraft } from './utils/permissions';
+import { createCategoryCorrection, buildSuggestedRule, RuleSuggestion } from './utils/ruleSuggestions';
+import { buildExpenseFromReceipt, isAwaitingAnalysis } from './utils/pendingAnalyses';
+import { withLockIfAvailable } from './utils/locks';
+import { configureLlm } from './services/llmProviders';
+import { BackupSnapshot } from './services/backupFormat';
+import { ConflictResolutions } from './utils/backupDiff';
 import * as db from './services/db';
 
-export type View = 'dashboard' | 'expenses' | 'goals' | 'trips' | 'reports' | 'settings' | 'import' | 'subscriptions' | 'savings';
+// Which member is using the app on this device. Kept outside the database because it differs per device.
+const CURRENT_MEMBER_STORAGE_KEY = 'financely-current-member';
+
+// Held while receipts scanned offline are analyzed, so two tabs don't add the same expense.
+const ANALYSIS_LOCK_NAME = 'financelyai-receipt-analysis';
+
+// Any of these resets the auto-lock countdown.
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'scroll', 'touchstart'] as const;
+
+export type View = 'dashboard' | 'expenses' | 'settle' | 'goals' | 'trips' | 'reports' | 'settings' | 'import' | 'subscriptions' | 'savings';
+
+// The parts of the household an updateHousehold call with `data` changes. Removing a category removes
+// its budget; removing a trip removes its expenses and unlinks refunds of them.
+const getUpdatedSlices = (data: Partial<Omit<Household, 'id'>>): db.HouseholdSlice[] => {
+    const slices = new Set<db.HouseholdSlice>();
+    Object.keys(data).forEach(key => {
+        switch (key) {
+            case 'name': case 'emailAlertsEnabled': case 'monthlyIncome': case 'autoLockMinutes':
+                slices.add('settings');
+                break;
+            case 'categories':
+                slices.add('categories').add('budgets');
+                break;
+            case 'trips':
+                slices.add('trips').add('expenses').add('incomes');
+                break;
+            default:
+                slices.add(key as db.HouseholdSlice);
+        }
+    });
+    return [...slices];
+};
 
 const formatCurrencyForNotif = (amountInCents: number): string => {
     const amount = amountInCents / 100;
@@ -31,95 +84,506 @@ const App: React.FC = () => {
   const [isAddExpenseModalOpen, setAddExpenseModalOpen] = useState(false);
   const [isNotificationPanelOpen, setNotificationPanelOpen] = useState(false);
   const [isChatOpen, setIsChatOpen] = useState(false);
+  const [isMemberMenuOpen, setMemberMenuOpen] = useState(false);
+  const [storedMemberId, setStoredMemberId] = useState(() => localStorage.getItem(CURRENT_MEMBER_STORAGE_KEY));
+  // The member signed in this session. Kept in memory only, so a reload asks for a PIN again.
+  const [sessionMemberId, setSessionMemberId] = useState<string | null>(null);
+  const [isLocked, setIsLocked] = useState(false);
+  // The stored database is encrypted and waiting for its passphrase.
+  const [isDatabaseLocked, setIsDatabaseLocked] = useState(false);
+  const [isEncrypted, setIsEncrypted] = useState(false);
+  // The stored data couldn't be upgraded to this version; the app can't run on it.
+  const [migrationError, setMigrationError] = useState<MigrationError | null>(null);
 
   const reloadData = useCallback(async () => {
     const data = await db.loadHouseholdData();
+    setIsEncrypted(await db.isEncryptionEnabled());
+    if (data) configureLlm(data.aiSettings);
     setHousehold(data);
   }, []);
 
+  // Reloads only the parts of the household a change touched.
+  const refresh = useCallback(async (...slices: db.HouseholdSlice[]) => {
+    const data = await db.loadHouseholdSlices(slices);
+    if (!data) return;
+    if (data.aiSettings) configureLlm(data.aiSettings);
+    setHousehold(prev => prev && { ...prev, ...data });
+  }, []);
+
+  // Opens the database, or shows why it couldn't be upgraded. Returns false in that case.
+  const openDatabase = useCallback(async (open: () => Promise<unknown>): Promise<boolean> => {
+    try {
+        await open();
+        return true;
+    } catch (err) {
+        if (!(err instanceof MigrationError)) throw err;
+        setMigrationError(err);
+        return false;
+    }
+  }, []);
+
   useEffect(() => {
     const init = async () => {
-        await db.initDB();
-        await reloadData();
+        if (await db.isDatabaseLocked()) {
+            setIsDatabaseLocked(true);
+            return;
+        }
+        if (await openDatabase(db.initDB)) await reloadData();
     };
     init();
-  }, [reloadData]);
+  }, [reloadData, openDatabase]);
+
+  // Another tab saved, or this tab's last change lost a race with one; either way show what is stored.
+  useEffect(() => db.onDatabaseChange(change => {
+    if (change === 'locked') {
+        setIsDatabaseLocked(true);
+        return;
+    }
+    if (change === 'saveFailed') {
+        alert("Your latest changes couldn't be saved to this browser's storage. They will be lost when the app is closed.");
+        return;
+    }
+    if (change === 'staleWrite') {
+        alert("Your latest changes weren't saved because the data was changed in another tab at the same time. The latest data has been loaded, so please make the changes again.");
+    }
+    reloadData();
+  }), [reloadData]);
+
+  const activeMembers = household ? getActiveMembers(household.members) : [];
+  // The member last used on this device, falling back to the first active member if they were archived or removed.
+  const rememberedMember = activeMembers.find(m => m.id === storedMemberId) || activeMembers[0];
+  // A remembered member without a PIN is signed in straight away; otherwise the lock screen asks who is using the app.
+  const currentMember = activeMembers.find(m => m.id === sessionMemberId)
+    || (!isLocked && rememberedMember && !rememberedMember.hasPin ? rememberedMember : undefined);
+  const currentMemberId = currentMember?.id || '';
+  const autoLockMinutes = household?.autoLockMinutes || 0;
+
+  // The database checks permissions against whoever is using the app.
+  useEffect(() => {
+    db.setActingMember(currentMemberId || null);
+  }, [currentMemberId]);
+
+  // The category classifier learns from the whole history. `household.expenses` is replaced whenever any expense changes.
+  useEffect(() => {
+    if (!household) return;
+    db.listExpenses({})
+        .then(syncCategoryClassifier)
+        .catch(err => console.error("Failed to load expenses for the category classifier:", err));
+  }, [household?.expenses]);
+
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [isAnalyzingReceipts, setIsAnalyzingReceipts] = useState(false);
+  // Analyzes the receipts scanned while offline. Set on each render once the household has loaded.
+  const analyzePendingReceiptsRef = useRef<(() => Promise<void>) | null>(null);
+  const awaitingAnalysisCount = household ? household.pendingAnalyses.filter(isAwaitingAnalysis).length : 0;
+
+  useEffect(() => {
+    const updateOnline = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+    return () => {
+        window.removeEventListener('online', updateOnline);
+        window.removeEventListener('offline', updateOnline);
+    };
+  }, []);
+
+  // Runs when the connection comes back, and whenever a receipt is queued or finished.
+  useEffect(() => {
+    if (isOnline && currentMemberId && awaitingAnalysisCount > 0) {
+        analyzePendingReceiptsRef.current?.();
+    }
+  }, [isOnline, currentMemberId, awaitingAnalysisCount]);
+
+  const lock = useCallback(() => {
+    setSessionMemberId(null);
+    setIsLocked(true);
+    setMemberMenuOpen(false);
+  }, []);
+
+  useEffect(() => {
+    if (!currentMemberId || autoLockMinutes <= 0) return;
+    let timer = window.setTimeout(lock, autoLockMinutes * 60 * 1000);
+    const resetTimer = () => {
+        window.clearTimeout(timer);
+        timer = window.setTimeout(lock, autoLockMinutes * 60 * 1000);
+    };
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, resetTimer, { passive: true }));
+    return () => {
+        window.clearTimeout(timer);
+        ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, resetTimer));
+    };
+  }, [currentMemberId, autoLockMinutes, lock]);
+
+  // Unlocking also opens the database, which may run a failing upgrade.
+  const handleUnlockDatabase = async (passphrase: string) => {
+    let unlocked = false;
+    if (!(await openDatabase(async () => { unlocked = await db.unlockDatabase(passphrase); }))) return true;
+    if (!unlocked) return false;
+    setIsDatabaseLocked(false);
+    await reloadData();
+    return true;
+  };
+
+  const handleRecoverDatabase = async (recoveryKey: string, newPassphrase: string) => {
+    let recovered = false;
+    if (!(await openDatabase(async () => { recovered = await db.recoverDatabase(recoveryKey, newPassphrase); }))) return true;
+    if (!recovered) return false;
+    setIsDatabaseLocked(false);
+    await reloadData();
+    return true;
+  };
+
+  if (migrationError) {
+    return <MigrationErrorScreen error={migrationError} onDownloadCopy={db.exportPreMigrationCopy} />;
+  }
+
+  if (isDatabaseLocked) {
+    return <DatabaseUnlockScreen onUnlock={handleUnlockDatabase} onRecover={handleRecoverDatabase} />;
+  }
 
   if (!household) {
     return <div className="flex justify-center items-center h-screen text-white">Loading Financial Data...</div>;
   }
 
-  const unreadNotificationsCount = household.notifications.filter(n => !n.isRead).length;
+  const handleUnlock = (memberId: string) => {
+    localStorage.setItem(CURRENT_MEMBER_STORAGE_KEY, memberId);
+    setStoredMemberId(memberId);
+    setSessionMemberId(memberId);
+    setIsLocked(false);
+  };
 
-  const handleAddExpense = async (newExpense: Omit<Expense, 'id'>) => {
-    const expenseWithId: Expense = {
-        ...newExpense,
-        id: `exp-${crypto.randomUUID()}`
-    };
+  if (!currentMember) {
+    return <LockScreen members={activeMembers} initialMemberId={rememberedMember?.id} onCheckPin={db.checkMemberPin} onUnlock={handleUnlock} />;
+  }
 
+  const pendingApprovalsCount = hasPermission(currentMember, 'approveRequests') ? household.approvalRequests.filter(r => r.status === 'pending').length : 0;
+  const unreadNotificationsCount = household.notifications.filter(n => !n.isRead).length + pendingApprovalsCount;
+
+  // Switching to a member with a PIN goes through the lock screen.
+  const handleSwitchMember = (memberId: string) => {
+    setMemberMenuOpen(false);
+    if (memberId === currentMemberId) return;
+    if (activeMembers.find(m => m.id === memberId)?.hasPin) {
+        localStorage.setItem(CURRENT_MEMBER_STORAGE_KEY, memberId);
+        setStoredMemberId(memberId);
+        lock();
+        return;
+    }
+    handleUnlock(memberId);
+  };
+
+  const handleSetPin = async (memberId: string, pin: string | null, currentPin: string) => {
+      await db.setMemberPin(memberId, pin, currentPin);
+      await refresh('members');
+  };
+
+  // Encryption state lives in the db module; Settings re-renders with it.
+  const handleEnableEncryption = async (passphrase: string) => {
+      const recoveryKey = await db.enableEncryption(passphrase);
+      setIsEncrypted(await db.isEncryptionEnabled());
+      return recoveryKey;
+  };
+
+  const handleDisableEncryption = async (passphrase: string) => {
+      const disabled = await db.disableEncryption(passphrase);
+      setIsEncrypted(await db.isEncryptionEnabled());
+      return disabled;
+  };
+
+  const handleRestoreBackup = async (snapshot: BackupSnapshot) => {
+      await db.restoreBackup(snapshot);
+      await reloadData();
+  };
+
+  const handleMergeBackup = async (snapshot: BackupSnapshot, resolutions: ConflictResolutions) => {
+      await db.mergeBackup(snapshot, resolutions);
+      await reloadData();
+  };
+
+  // Budget and unusual-spending alerts for a new expense. `priorExpenses` are all the household's
+  // expenses recorded before it, not only the recent ones in `household.expenses`.
+  const buildExpenseNotifications = async (newExpense: Expense, priorExpenses: Expense[]): Promise<Notification[]> => {
     const notificationsToAdd: Notification[] = [];
 
-    // 1. Budget Alert Check
-    const budget = household.budgets.find(b => b.categoryId === newExpense.categoryId);
-    if (budget && budget.amount > 0) {
+    // 1. Budget Alert Check (trip expenses count against the trip budget instead).
+    // A sub-category's spend also counts towards its parent's budget.
+    const matchingBudgets = household.budgets.filter(b => getCategoryFamilyIds(household.categories, b.categoryId).includes(newExpense.categoryId));
+    matchingBudgets.forEach(budget => {
+        if (budget.amount <= 0 || newExpense.tripId) return;
+        const categoryIds = getCategoryFamilyIds(household.categories, budget.categoryId);
         const now = new Date();
         const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-        const expensesForCategoryThisMonth = household.expenses.filter(
-            e => e.categoryId === newExpense.categoryId && new Date(e.date) >= startOfMonth
+        const expensesForCategoryThisMonth = priorExpenses.filter(
+            e => categoryIds.includes(e.categoryId) && new Date(e.date) >= startOfMonth
         );
-        const spentBefore = expensesForCategoryThisMonth.reduce((sum, e) => sum + e.amount, 0);
+        const spentBefore = expensesForCategoryThisMonth.reduce((sum, e) => sum + getNetExpenseAmount(e, household.incomes), 0);
         const spentAfter = spentBefore + newExpense.amount;
         const ninetyPercentBudget = budget.amount * 0.9;
-        const categoryName = household.categories.find(c => c.id === newExpense.categoryId)?.name || 'a category';
+        const categoryName = household.categories.find(c => c.id === budget.categoryId)?.name || 'a category';
 
         if (spentBefore < budget.amount && spentAfter >= budget.amount) {
             notificationsToAdd.push({ id: `notif-budget-exceeded-${crypto.randomUUID()}`, message: `You've exceeded your ${formatCurrencyForNotif(budget.amount)} budget for ${categoryName}!`, date: new Date().toISOString(), type: 'error', isRead: false });
         } else if (spentBefore < ninetyPercentBudget && spentAfter >= ninetyPercentBudget && spentAfter < budget.amount) {
             notificationsToAdd.push({ id: `notif-budget-warning-${crypto.randomUUID()}`, message: `You're approaching your ${formatCurrencyForNotif(budget.amount)} budget for ${categoryName}.`, date: new Date().toISOString(), type: 'warning', isRead: false });
         }
+    });
+
+    // 2. Anomaly Detection Check (local statistics; the AI only reviews what they flag, if enabled)
+    const anomaly = detectAnomaly(newExpense, priorExpenses, household.categories);
+    if (anomaly.isAnomalous) {
+        let message = `Unusual Spending Alert: ${anomaly.reasoning}`;
+        let type: Notification['type'] = 'warning';
+        if (household.aiSettings.anomalySecondOpinion && navigator.onLine) {
+            try {
+                const verdict = await detectAnomalousExpense(household, newExpense, anomaly.reasoning, priorExpenses);
+                if (verdict.isAnomalous) {
+                    message += ` AI review: ${verdict.reasoning}`;
+                } else {
+                    message += ` AI review: this looks normal${verdict.reasoning ? ` (${verdict.reasoning})` : ''}.`;
+                    type = 'info';
+                }
+            } catch (error) {
+                console.error("Failed to get an AI second opinion on unusual spending:", error);
+            }
+        }
+        notificationsToAdd.push({ id: `notif-anomaly-${crypto.randomUUID()}`, message, date: new Date().toISOString(), type, isRead: false });
     }
 
-    // 2. Anomaly Detection Check
+    return notificationsToAdd;
+  };
+
+  const buildRuleSubscriptions = (newExpenses: Expense[]): Subscription[] => {
+    return getRuleSubscriptions(newExpenses, household.rules, household.subscriptions)
+        .map(s => ({ ...s, id: `sub-${crypto.randomUUID()}` }));
+  };
+
+  const handleQueueReceipt = async (receipt: Pick<PendingAnalysis, 'imageDataUrl' | 'date' | 'memberId' | 'tripId'>) => {
+    await db.addPendingAnalysis({
+        ...receipt,
+        id: `pending-${crypto.randomUUID()}`,
+        createdBy: currentMemberId,
+        createdAt: new Date().toISOString(),
+        attempts: 0,
+    });
+    await refresh('pendingAnalyses');
+  };
+
+  // Each receipt's expense is added as soon as it is read; going offline again stops the run until the next reconnect.
+  analyzePendingReceiptsRef.current = () => withLockIfAvailable(ANALYSIS_LOCK_NAME, async lockHeld => {
+    if (!lockHeld) return;
+    setIsAnalyzingReceipts(true);
+    const addedExpenses: Expense[] = [];
     try {
-        const anomalyResult = await detectAnomalousExpense(household, expenseWithId);
-        if (anomalyResult.isAnomalous) {
-            notificationsToAdd.push({ id: `notif-anomaly-${crypto.randomUUID()}`, message: `Unusual Spending Alert: ${anomalyResult.reasoning}`, date: new Date().toISOString(), type: 'warning', isRead: false });
+        const history = await db.listExpenses({ tripId: null });
+        for (const pending of household.pendingAnalyses.filter(isAwaitingAnalysis)) {
+            try {
+                const analysis = await analyzeReceiptWithGemini(pending.imageDataUrl, household);
+                const expense = buildExpenseFromReceipt(pending, analysis, household);
+                const notifications = await buildExpenseNotifications(expense, [...history, ...addedExpenses.filter(e => !e.tripId)]);
+                notifications.push({
+                    id: `notif-receipt-${crypto.randomUUID()}`,
+                    message: `Added "${expense.description}" (${formatCurrencyForNotif(expense.amount)}) from a receipt scanned while offline.`,
+                    date: new Date().toISOString(),
+                    type: 'success',
+                    isRead: false,
+                });
+                if (await db.completePendingAnalysis(pending.id, expense, notifications, buildRuleSubscriptions([expense]))) {
+                    addedExpenses.push(expense);
+                }
+            } catch (error) {
+                if (isOfflineError(error)) break;
+                console.error("Failed to analyze a receipt scanned offline:", error);
+                await db.recordPendingAnalysisFailure(pending.id, getAiErrorMessage(error, 'The AI could not read the receipt.'));
+            }
         }
-    } catch (error) {
-        console.error("Failed to check for anomalous spending:", error);
+    } finally {
+        setIsAnalyzingReceipts(false);
+        await refresh('pendingAnalyses', 'expenses', 'notifications', 'subscriptions');
     }
+  });
 
-    await db.addExpense(expenseWithId, notificationsToAdd);
-    await reloadData();
+  const handleRetryPendingAnalysis = async (id: string) => {
+    await db.retryPendingAnalysis(id);
+    await refresh('pendingAnalyses');
+  };
+
+  const handleDiscardPendingAnalysis = async (id: string) => {
+    await db.deletePendingAnalysis(id);
+    await refresh('pendingAnalyses');
+  };
+
+  const handleAddExpense = async (newExpense: Omit<Expense, 'id'>) => {
+    const expenseWithId: Expense = {
+        ...newExpense,
+        id: `exp-${crypto.randomUUID()}`,
+        createdBy: currentMemberId,
+    };
+    const notificationsToAdd = await buildExpenseNotifications(expenseWithId, await db.listExpenses({ tripId: null }));
+    await db.addExpense(expenseWithId, notificationsToAdd, buildRuleSubscriptions([expenseWithId]));
+    await refresh('expenses', 'notifications', 'subscriptions');
+  };
+
+  const withCorrectionIds = (corrections: Omit<CategoryCorrection, 'id' | 'createdAt'>[]): CategoryCorrection[] => {
+    return corrections.map(c => ({ ...c, id: `corr-${crypto.randomUUID()}`, createdAt: new Date().toISOString() }));
+  };
+
+  const handleImportBatch = async (batch: Omit<ImportBatch, 'id' | 'createdAt'>, newExpenses: Omit<Expense, 'id'>[], newIncomes: Omit<Income, 'id'>[], corrections: Omit<CategoryCorrection, 'id' | 'createdAt'>[]) => {
+    const batchWithId: ImportBatch = { ...batch, id: `import-${crypto.randomUUID()}`, createdAt: new Date().toISOString(), createdBy: currentMemberId };
+    const expensesWithIds: Expense[] = newExpenses.map(e => ({ ...e, id: `exp-${crypto.randomUUID()}`, importBatchId: batchWithId.id, createdBy: currentMemberId }));
+    const incomesWithIds: Income[] = newIncomes.map(i => ({ ...i, id: `inc-${crypto.randomUUID()}`, importBatchId: batchWithId.id }));
+    // Each row is checked as if the rows before it had already been added.
+    const history = await db.listExpenses({ tripId: null });
+    const notificationsToAdd = (await Promise.all(expensesWithIds.map((e, index) =>
+        buildExpenseNotifications(e, [...history, ...expensesWithIds.slice(0, index).filter(prior => !prior.tripId)])
+    ))).flat();
+    await db.addImportBatch(batchWithId, expensesWithIds, incomesWithIds, notificationsToAdd, buildRuleSubscriptions(expensesWithIds));
+    await db.addCategoryCorrections(withCorrectionIds(corrections));
+    await refresh('importBatches', 'expenses', 'incomes', 'notifications', 'subscriptions', 'categoryCorrections');
+  };
+
+  const handleRollbackImportBatch = async (batchId: string) => {
+      await db.deleteImportBatch(batchId);
+      await refresh('importBatches', 'expenses', 'incomes');
   };
   
+  const handleUpdateExpense = async (expense: Expense) => {
+      const previous = await db.getExpense(expense.id);
+      const correction = previous && createCategoryCorrection(expense, previous.categoryId, expense.categoryId);
+      await db.updateExpense({ ...expense, updatedBy: currentMemberId }, correction ? withCorrectionIds([correction]) : []);
+      await refresh('expenses', 'categoryCorrections');
+  };
+
+  // Rule suggestions learned from category corrections
+  const handleAcceptRuleSuggestion = async (suggestion: RuleSuggestion): Promise<Rule> => {
+      const rule = buildSuggestedRule(suggestion, household.rules);
+      await db.updateHousehold({ rules: [...household.rules, rule] });
+      await db.resolveCategoryCorrections(suggestion.corrections.map(c => c.id));
+      await refresh('rules', 'categoryCorrections');
+      return rule;
+  };
+
+  const handleDismissRuleSuggestion = async (suggestion: RuleSuggestion) => {
+      await db.resolveCategoryCorrections(suggestion.corrections.map(c => c.id));
+      await refresh('categoryCorrections');
+  };
+
+  const handleApplyRuleToHistory = async (rule: Rule) => {
+      const allExpenses = await db.listExpenses({});
+      await db.updateExpenses(previewRule(rule, household.rules, allExpenses).map(item => ({ ...item.after, updatedBy: currentMemberId })));
+      await refresh('expenses');
+  };
+
+  const handleDeleteExpense = async (expenseId: string) => {
+      const expense = await db.getExpense(expenseId);
+      if (expense && !hasPermission(currentMember, 'deleteExpenses')) {
+          await requestApproval([buildDeleteExpenseRequest(expense)]);
+          await refresh('approvalRequests');
+      } else {
+          await db.deleteExpense(expenseId);
+          // Refunds of the expense are unlinked from it.
+          await refresh('expenses', 'incomes');
+      }
+  };
+
+  const handleAddSettlement = async (settlement: Omit<Settlement, 'id'>) => {
+      await db.addSettlement({ ...settlement, id: `settle-${crypto.randomUUID()}` });
+      await refresh('settlements');
+  };
+
+  const handleDeleteSettlement = async (settlementId: string) => {
+      await db.deleteSettlement(settlementId);
+      await refresh('settlements');
+  };
+
+  const handleMergeCategories = async (sourceId: string, targetId: string) => {
+      await db.mergeCategories(sourceId, targetId);
+      await refresh('categories', 'expenses', 'rules', 'subscriptions', 'budgets', 'categoryCorrections');
+  };
+
+  const handleSaveMember = async (member: Member, avatar?: MemberAvatar | null) => {
+      await db.saveMember(member, avatar);
+      await refresh('members');
+  };
+
+  const handleRemoveMember = async (memberId: string, reassignToId: string | null) => {
+      await db.removeMember(memberId, reassignToId);
+      await refresh('members', 'expenses', 'incomes', 'settlements', 'rules', 'approvalRequests');
+  };
+
+  // Changes the current member's role doesn't allow are sent to the owners instead of being applied.
+  const requestApproval = async (drafts: ApprovalDraft[]) => {
+      const createdAt = new Date().toISOString();
+      await db.addApprovalRequests(drafts.map(d => ({ ...d, id: `approval-${crypto.randomUUID()}`, requestedBy: currentMemberId, status: 'pending' as const, createdAt })));
+      alert(drafts.length === 1
+          ? `This needs an owner's approval, so a request was sent: ${drafts[0].summary}.`
+          : `These changes need an owner's approval, so ${drafts.length} requests were sent.`);
+  };
+
+  const handleResolveApproval = async (request: ApprovalRequest, approve: boolean) => {
+      const { payload } = request;
+      const changedSlices: db.HouseholdSlice[] = ['approvalRequests', 'notifications'];
+      if (approve) {
+          switch (request.action) {
+              case 'setBudgets':
+                  await db.updateHousehold({ budgets: mergeBudgets(household.budgets, payload.budgets || []) });
+                  changedSlices.push('budgets');
+                  break;
+              case 'setMonthlyIncome':
+                  await db.updateHousehold({ monthlyIncome: payload.monthlyIncome });
+                  changedSlices.push('settings');
+                  break;
+              case 'deleteExpense':
+                  await db.deleteExpense(payload.targetId);
+                  changedSlices.push('expenses', 'incomes');
+                  break;
+              case 'deleteTrip':
+                  await db.updateHousehold({ trips: household.trips.filter(t => t.id !== payload.targetId) });
+                  changedSlices.push(...getUpdatedSlices({ trips: [] }));
+                  break;
+          }
+      }
+      const requesterName = household.members.find(m => m.id === request.requestedBy)?.name || 'A former member';
+      await db.resolveApprovalRequest(request.id, approve ? 'approved' : 'rejected', {
+          id: `notif-approval-${crypto.randomUUID()}`,
+          message: `${currentMember.name} ${approve ? 'approved' : 'rejected'} ${requesterName}'s request: ${request.summary}.`,
+          date: new Date().toISOString(),
+          type: approve ? 'success' : 'info',
+          isRead: false,
+      });
+      await refresh(...changedSlices);
+  };
+
   const updateHouseholdData = async (data: Partial<Omit<Household, 'id'>>) => {
-      await db.updateHousehold(data);
-      await reloadData();
+      const { allowed, requests } = splitRestrictedUpdate(household, data, currentMember);
+      if (Object.keys(allowed).length > 0) await db.updateHousehold(allowed);
+      if (requests.length > 0) await requestApproval(requests);
+      await refresh(...getUpdatedSlices(allowed), ...(requests.length > 0 ? ['approvalRequests' as const] : []));
   };
 
   const renderView = () => {
     switch (currentView) {
       case 'dashboard':
-        return <Dashboard household={household} />;
+        return <Dashboard household={household} currentMemberId={currentMemberId} />;
       case 'expenses':
-        return <ExpenseTracker household={household} onUpdate={updateHouseholdData} />;
+        return <ExpenseTracker household={household} onUpdateExpense={handleUpdateExpense} onDeleteExpense={handleDeleteExpense} currentMemberId={currentMemberId} />;
+      case 'settle':
+        return <SettleUp household={household} onAddSettlement={handleAddSettlement} onDeleteSettlement={handleDeleteSettlement} currentMemberId={currentMemberId} />;
       case 'goals':
-        return <BucketGoals household={household} onUpdate={updateHouseholdData} />;
+        return <BucketGoals household={household} currentMember={currentMember} onUpdate={updateHouseholdData} />;
       case 'trips':
-          return <TripPlanner household={household} onUpdate={updateHouseholdData} />;
+          return <TripPlanner household={household} onUpdate={updateHouseholdData} onAddExpense={handleAddExpense} onQueueReceipt={handleQueueReceipt} onUpdateExpense={handleUpdateExpense} onDeleteExpense={handleDeleteExpense} currentMemberId={currentMemberId} />;
       case 'import':
-        return <FileImport household={household} onAddExpense={handleAddExpense} />;
+        return <FileImport household={household} onImportBatch={handleImportBatch} onRollbackImportBatch={handleRollbackImportBatch} onUpdate={updateHouseholdData} currentMemberId={currentMemberId} />;
       case 'subscriptions':
-        return <Subscriptions household={household} onUpdate={updateHouseholdData} />;
+        return <Subscriptions household={household} currentMember={currentMember} onUpdate={updateHouseholdData} />;
       case 'reports':
         return <AiReport household={household} />;
       case 'savings':
         return <SavingsCoach household={household} />;
       case 'settings':
-        return <Settings household={household} onUpdate={updateHouseholdData} />;
+        return <Settings household={household} onUpdate={updateHouseholdData} onMergeCategories={handleMergeCategories} onSaveMember={handleSaveMember} onRemoveMember={handleRemoveMember} currentMember={currentMember} onSetPin={handleSetPin} onCheckPin={db.checkMemberPin} onLock={lock} isEncrypted={isEncrypted} onEnableEncryption={handleEnableEncryption} onChangePassphrase={db.changePassphrase} onRegenerateRecoveryKey={db.regenerateRecoveryKey} onDisableEncryption={handleDisableEncryption} onExportBackup={db.exportBackup} onReadBackup={db.readBackupFile} onPreviewBackup={db.previewBackup} onRestoreBackup={handleRestoreBackup} onMergeBackup={handleMergeBackup} />;
       default:
-        return <Dashboard household={household} />;
+        return <Dashboard household={household} currentMemberId={currentMemberId} />;
     }
   };
 
@@ -144,6 +608,7 @@ const App: React.FC = () => {
           <nav className="space-y-2 pt-4">
             <NavItem view="dashboard" label="Dashboard" icon={DashboardIcon} />
             <NavItem view="expenses" label="Expenses" icon={MoneyIcon} />
+            <NavItem view="settle" label="Settle Up" icon={ArrowsRightLeftIcon} />
             <NavItem view="subscriptions" label="Subscriptions" icon={ArrowPathIcon} />
             <NavItem view="goals" label="Goals" icon={PiggyBankIcon} />
             <NavItem view="trips" label="Trips" icon={PlaneIcon} />
@@ -180,11 +645,50 @@ const App: React.FC = () => {
                             </span>
                         )}
                     </button>
-                    <img src={household.members[0].avatarUrl} alt="User" className="w-10 h-10 rounded-full border-2 border-purple-500" />
+                    <div className="relative">
+                        <button onClick={() => setMemberMenuOpen(open => !open)} className="rounded-full" title={`Using the app as ${currentMember.name} — switch member or lock`}>
+                            <Avatar member={currentMember} className="w-10 h-10 border-2 border-purple-500" />
+                        </button>
+                        {isMemberMenuOpen && (
+                            <div className="absolute right-0 mt-2 w-48 bg-slate-800 border border-slate-700 rounded-lg shadow-xl z-20 py-1">
+                                <p className="px-3 py-1 text-xs text-gray-400">Using the app as</p>
+                                {activeMembers.map(member => (
+                                    <button
+                                        key={member.id}
+                                        onClick={() => handleSwitchMember(member.id)}
+                                        className={`flex items-center gap-2 w-full px-3 py-2 text-left hover:bg-slate-700 ${member.id === currentMemberId ? 'text-white font-semibold' : 'text-gray-300'}`}
+                                    >
+                                        <Avatar member={member} className="w-6 h-6" />
+                                        <span className="flex-1">{member.name}</span>
+                                        {member.hasPin && member.id !== currentMemberId && <LockClosedIcon className="w-3.5 h-3.5 text-gray-500" />}
+                                    </button>
+                                ))}
+                                <button onClick={lock} className="flex items-center gap-2 w-full px-3 py-2 mt-1 border-t border-slate-700 text-left text-gray-300 hover:bg-slate-700">
+                                    <LockClosedIcon className="w-5 h-5" />
+                                    <span>Lock</span>
+                                </button>
+                            </div>
+                        )}
+                    </div>
                 </div>
             </header>
             
             <div className="print-content">
+                <PendingAnalysesTray
+                    pendingAnalyses={household.pendingAnalyses}
+                    isOnline={isOnline}
+                    isAnalyzing={isAnalyzingReceipts}
+                    onRetry={handleRetryPendingAnalysis}
+                    onDiscard={handleDiscardPendingAnalysis}
+                />
+                {hasPermission(currentMember, 'manageRules') && ['dashboard', 'expenses', 'import', 'settings'].includes(currentView) && (
+                    <RuleSuggestionsTray
+                        household={household}
+                        onAccept={handleAcceptRuleSuggestion}
+                        onDismiss={handleDismissRuleSuggestion}
+                        onApplyToHistory={handleApplyRuleToHistory}
+                    />
+                )}
                 {renderView()}
             </div>
         </main>
@@ -204,11 +708,17 @@ const App: React.FC = () => {
         onClose={() => setAddExpenseModalOpen(false)}
         household={household}
         onAddExpense={handleAddExpense}
+        onQueueReceipt={handleQueueReceipt}
+        currentMemberId={currentMemberId}
       />
 
       {isNotificationPanelOpen && (
           <NotificationPanel 
             notifications={household.notifications}
+            approvalRequests={household.approvalRequests}
+            members={household.members}
+            currentMember={currentMember}
+            onResolveApproval={handleResolveApproval}
             onClose={() => setNotificationPanelOpen(false)}
           />
       )}
@@ -1,21 +1,28 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { Household, Expense, Split } from '../types';
+import { Household, Expense, Split, PendingAnalysis } from '../types';
 import { analyzeReceiptWithGemini } from '../services/geminiService';
+import { getAiErrorMessage, isOfflineError } from '../services/aiValidation';
 import Modal from './common/Modal';
 import Button from './common/Button';
 import { CameraIcon, SparklesIcon } from './icons/Icons';
 import SkeletonLoader from './common/SkeletonLoader';
-import { suggestCategory } from '../utils/expenseUtils';
+import { findTripForDate } from '../utils/expenseUtils';
+import { suggestCategoryWithConfidence, CategorySuggestion, MIN_CONFIDENCE } from '../utils/categoryClassifier';
+import { applySplitTemplate } from '../utils/ruleEngine';
+import SplitEditor, { getPayerSplits, getSplitRemainder } from './SplitEditor';
+import { getCategoryTree, getCategoryOptionLabel } from '../utils/categoryUtils';
+import { getActiveMembers } from '../utils/memberUtils';
 
 interface AddExpenseModalProps {
   isOpen: boolean;
   onClose: () => void;
   household: Household;
-  onAddExpense: (expense: Omit<Expense, 'id'>) => void;
+  onAddExpense: (expense: Omit<Expense, 'id'>) => Promise<void>;
+  defaultTripId?: string; // pre-selects a trip instead of matching one by date
+  currentMemberId: string; // the default payer
+  onQueueReceipt: (receipt: Pick<PendingAnalysis, 'imageDataUrl' | 'date' | 'memberId' | 'tripId'>) => void; // saves a receipt scanned offline
 }
 
-const formatCurrencyForInput = (amountInCents: number): string => (amountInCents / 100).toFixed(2);
-
 const ReceiptAnalysisSkeleton: React.FC = () => (
     <div className="space-y-4">
         <div>
@@ -34,50 +41,83 @@ const ReceiptAnalysisSkeleton: React.FC = () => (
 );
 
 
-const AddExpenseModal: React.FC<AddExpenseModalProps> = ({ isOpen, onClose, household, onAddExpense }) => {
+const AddExpenseModal: React.FC<AddExpenseModalProps> = ({ isOpen, onClose, household, onAddExpense, defaultTripId, currentMemberId, onQueueReceipt }) => {
   const [description, setDescription] = useState('');
   const [amount, setAmount] = useState('');
   const [categoryId, setCategoryId] = useState(household.categories[0]?.id || '');
-  const [memberId, setMemberId] = useState(household.members[0]?.id || ''); // Payer
+  const [memberId, setMemberId] = useState(currentMemberId); // Payer
   const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
   const [image, setImage] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [isReceiptOffline, setIsReceiptOffline] = useState(false); // the receipt couldn't be analyzed for lack of a connection
   const [splits, setSplits] = useState<Split[]>([]);
+  const [tripId, setTripId] = useState(defaultTripId || '');
+  const [isTripChosen, setIsTripChosen] = useState(!!defaultTripId);
+  const [categorySuggestion, setCategorySuggestion] = useState<CategorySuggestion | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const totalAmountCents = useMemo(() => Math.round(parseFloat(amount || '0') * 100), [amount]);
+  const activeMembers = useMemo(() => getActiveMembers(household.members), [household.members]);
+  const matchedRule = household.rules.find(r => r.id === categorySuggestion?.ruleId);
+  const splitTemplate = matchedRule?.splitTemplate;
 
   useEffect(() => {
     // This effect runs when the modal opens, or when the payer/total amount changes.
-    // It resets the splits so the payer covers 100% of the cost by default.
+    // It resets the splits so the payer covers 100% of the cost by default,
+    // or to the matching rule's split template.
     if (isOpen) {
-        const defaultSplits = household.members.map(member => ({
-            memberId: member.id,
-            amount: member.id === memberId ? totalAmountCents : 0,
-        }));
-        setSplits(defaultSplits);
+        setSplits(splitTemplate?.length
+          ? applySplitTemplate(splitTemplate, totalAmountCents, memberId)
+          : getPayerSplits(activeMembers, memberId, totalAmountCents));
     }
-  }, [isOpen, amount, memberId, household.members]);
+  }, [isOpen, amount, memberId, activeMembers, splitTemplate]);
+
 
+  useEffect(() => {
+    // Follow the date to the trip it falls in, unless a trip was picked explicitly.
+    if (isOpen && !isTripChosen) {
+      setTripId(findTripForDate(date, household.trips)?.id || '');
+    }
+  }, [isOpen, date, household.trips, isTripChosen]);
 
   useEffect(() => {
     if (description && !isAnalyzing) {
-      const suggestedCategoryId = suggestCategory(description, household.rules, household.categories);
-      if (suggestedCategoryId) {
-        setCategoryId(suggestedCategoryId);
+      const suggestion = suggestCategoryWithConfidence({ description, amount: totalAmountCents, date }, household);
+      setCategorySuggestion(suggestion || null);
+      if (suggestion && suggestion.confidence >= MIN_CONFIDENCE) {
+        setCategoryId(suggestion.categoryId);
       }
+      const rule = household.rules.find(r => r.id === suggestion?.ruleId);
+      if (rule?.payerMemberId) setMemberId(rule.payerMemberId);
+      if (rule?.tripId) {
+        setTripId(rule.tripId);
+        setIsTripChosen(true);
+      }
+    } else if (!description) {
+      setCategorySuggestion(null);
     }
-  }, [description, household.rules, household.categories, isAnalyzing]);
+  }, [description, totalAmountCents, date, household, isAnalyzing]);
   
+  const suggestedCategory = categorySuggestion ? household.categories.find(c => c.id === categorySuggestion.categoryId) : undefined;
+
   const resetForm = () => {
     setDescription('');
     setAmount('');
     setCategoryId(household.categories[0]?.id || '');
-    setMemberId(household.members[0]?.id || '');
+    setMemberId(currentMemberId);
     setDate(new Date().toISOString().split('T')[0]);
     setImage(null);
     setIsAnalyzing(false);
+    setIsReceiptOffline(false);
     setSplits([]);
+    setTripId(defaultTripId || '');
+    setIsTripChosen(!!defaultTripId);
+    setCategorySuggestion(null);
+  };
+
+  const handleTripChange = (value: string) => {
+    setTripId(value);
+    setIsTripChosen(true);
   };
 
   const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -87,6 +127,11 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({ isOpen, onClose, hous
       reader.onloadend = async () => {
         const imageData = reader.result as string;
         setImage(imageData);
+        setIsReceiptOffline(false);
+        if (!navigator.onLine) {
+          setIsReceiptOffline(true);
+          return;
+        }
         setIsAnalyzing(true);
         try {
           const result = await analyzeReceiptWithGemini(imageData, household);
@@ -100,7 +145,11 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({ isOpen, onClose, hous
           }
         } catch (error) {
             console.error("Receipt analysis failed:", error);
-            alert("Failed to analyze receipt. Please enter details manually.");
+            if (isOfflineError(error)) {
+              setIsReceiptOffline(true);
+            } else {
+              alert(getAiErrorMessage(error, "Failed to analyze receipt. Please enter details manually."));
+            }
         } finally {
             setIsAnalyzing(false);
         }
@@ -109,47 +158,37 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({ isOpen, onClose, hous
     }
   };
   
-  const totalSplitAmount = useMemo(() => splits.reduce((sum, split) => sum + split.amount, 0), [splits]);
-  const remainingAmount = useMemo(() => totalAmountCents - totalSplitAmount, [totalAmountCents, totalSplitAmount]);
-
-  const handleSplitAmountChange = (memberId: string, value: string) => {
-    const newAmount = Math.round(parseFloat(value || '0') * 100);
-    setSplits(prevSplits => 
-      prevSplits.map(split => 
-        split.memberId === memberId ? { ...split, amount: newAmount } : split
-      )
-    );
-  };
-
-  const handleSplitEqually = () => {
-    if (totalAmountCents <= 0 || household.members.length === 0) return;
-
-    const memberCount = household.members.length;
-    const baseAmount = Math.floor(totalAmountCents / memberCount);
-    const remainder = totalAmountCents % memberCount;
-
-    const newSplits = household.members.map((member, index) => ({
-        memberId: member.id,
-        amount: baseAmount + (index < remainder ? 1 : 0),
-    }));
-    setSplits(newSplits);
-  };
+  const remainingAmount = useMemo(() => getSplitRemainder(splits, totalAmountCents), [splits, totalAmountCents]);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!description.trim() || totalAmountCents <= 0 || !categoryId || !memberId || Math.abs(remainingAmount) > 0) {
       alert("Please fill all fields and ensure the expense is fully split.");
       return;
     }
 
-    onAddExpense({
-      description: description.trim(),
-      amount: totalAmountCents,
-      categoryId,
-      memberId,
-      date: new Date(date).toISOString(),
-      splits: splits.filter(s => s.amount > 0), // Only include splits with an amount
-    });
+    try {
+      await onAddExpense({
+        description: description.trim(),
+        amount: totalAmountCents,
+        categoryId,
+        memberId,
+        date: new Date(date).toISOString(),
+        splits: splits.filter(s => s.amount > 0), // Only include splits with an amount
+        tripId: tripId || null,
+      });
+      resetForm();
+      onClose();
+    } catch (error) {
+      // The form is kept, so nothing typed is lost.
+      console.error("Failed to add expense:", error);
+      alert("Could not add the expense. Please try again.");
+    }
+  };
+
+  const handleSaveReceiptForLater = () => {
+    if (!image) return;
+    onQueueReceipt({ imageDataUrl: image, date: new Date(date).toISOString(), memberId, tripId: tripId || null });
     resetForm();
     onClose();
   };
@@ -160,6 +199,13 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({ isOpen, onClose, hous
     <Modal isOpen={isOpen} onClose={() => { resetForm(); onClose(); }} title="Add New Expense">
       <form onSubmit={handleSubmit} className="space-y-4">
         {image && <img src={image} alt="Receipt" className="rounded-lg max-h-40 w-auto mx-auto" />}
+
+        {isReceiptOffline && (
+            <div className="bg-amber-500/10 border border-amber-500/30 rounded-lg p-3 space-y-2">
+                <p className="text-sm text-amber-200">You're offline, so this receipt can't be analyzed yet. Save it and the expense will be added automatically once you're back online, or enter the details yourself.</p>
+                <Button type="button" variant="secondary" size="sm" onClick={handleSaveReceiptForLater}>Save Receipt for Later</Button>
+            </div>
+        )}
         
         {isAnalyzing ? <ReceiptAnalysisSkeleton /> : (
             <>
@@ -183,49 +229,50 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({ isOpen, onClose, hous
                     <div>
                         <label htmlFor="category" className="block text-sm font-medium text-gray-300">Category</label>
                         <select id="category" value={categoryId} onChange={e => setCategoryId(e.target.value)} className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1" required>
-                          {household.categories.map(cat => <option key={cat.id} value={cat.id}>{cat.icon} {cat.name}</option>)}
+                          {getCategoryTree(household.categories).map(({ category, depth }) => <option key={category.id} value={category.id}>{getCategoryOptionLabel(category, depth)}</option>)}
                         </select>
+                        {suggestedCategory && (
+                          <button
+                            type="button"
+                            onClick={() => setCategoryId(suggestedCategory.id)}
+                            disabled={categoryId === suggestedCategory.id}
+                            className={`text-xs mt-1 text-left ${categorySuggestion!.confidence >= MIN_CONFIDENCE ? 'text-teal-400' : 'text-amber-400 hover:underline'} disabled:no-underline disabled:cursor-default`}
+                            title={categoryId === suggestedCategory.id ? undefined : 'Use this category'}
+                          >
+                            {categorySuggestion!.source === 'rule'
+                              ? `Rule match: ${suggestedCategory.name}`
+                              : `Suggested: ${suggestedCategory.name} · ${Math.round(categorySuggestion!.confidence * 100)}% sure`}
+                          </button>
+                        )}
                     </div>
                     <div>
                         <label htmlFor="member" className="block text-sm font-medium text-gray-300">Paid By</label>
                         <select id="member" value={memberId} onChange={e => setMemberId(e.target.value)} className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1" required>
-                          {household.members.map(mem => <option key={mem.id} value={mem.id}>{mem.name}</option>)}
+                          {activeMembers.map(mem => <option key={mem.id} value={mem.id}>{mem.name}</option>)}
                         </select>
                     </div>
                 </div>
+
+                {household.trips.length > 0 && (
+                    <div>
+                        <label htmlFor="trip" className="block text-sm font-medium text-gray-300">Trip</label>
+                        <select id="trip" value={tripId} onChange={e => handleTripChange(e.target.value)} className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1">
+                          <option value="">No trip (household expense)</option>
+                          {household.trips.map(trip => <option key={trip.id} value={trip.id}>✈️ {trip.name}</option>)}
+                        </select>
+                    </div>
+                )}
             </>
         )}
 
         {/* Split Expense Section */}
         {totalAmountCents > 0 && (
-          <div className="pt-4 border-t border-slate-700">
-            <div className="flex justify-between items-center mb-3">
-              <h4 className="text-lg font-semibold text-white">Split Expense</h4>
-              <Button type="button" variant="secondary" size="sm" onClick={handleSplitEqually}>Split Equally</Button>
-            </div>
-            <div className="space-y-2 max-h-40 overflow-y-auto pr-2">
-              {household.members.map(member => (
-                <div key={member.id} className="flex items-center gap-3">
-                  <img src={member.avatarUrl} alt={member.name} className="w-8 h-8 rounded-full" />
-                  <label htmlFor={`split-${member.id}`} className="flex-1 text-gray-300">{member.name}</label>
-                  <div className="relative">
-                    <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400">₹</span>
-                    <input 
-                      type="number"
-                      id={`split-${member.id}`}
-                      value={formatCurrencyForInput(splits.find(s => s.memberId === member.id)?.amount || 0)}
-                      onChange={e => handleSplitAmountChange(member.id, e.target.value)}
-                      className="w-28 bg-slate-700 border-slate-600 rounded-md shadow-sm text-right pl-7"
-                      step="0.01"
-                    />
-                  </div>
-                </div>
-              ))}
-            </div>
-            <div className={`mt-3 p-2 rounded-lg text-sm font-medium text-center ${remainingAmount === 0 ? 'bg-green-500/10 text-green-300' : 'bg-red-500/10 text-red-300'}`}>
-                {remainingAmount === 0 ? 'Splits match total' : `₹${formatCurrencyForInput(Math.abs(remainingAmount))} ${remainingAmount > 0 ? 'left to assign' : 'over-assigned'}`}
-            </div>
-          </div>
+          <SplitEditor
+            members={activeMembers}
+            splits={splits}
+            totalAmountCents={totalAmountCents}
+            onChange={setSplits}
+          />
         )}
 
         <div className="flex flex-col-reverse sm:flex-row sm:justify-between sm:items-center pt-4 gap-3">
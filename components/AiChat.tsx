@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Household, ChatMessage } from '../types';
-import { Chat } from '@google/genai';
 import { startAiChat } from '../services/geminiService';
+import { LlmChatSession } from '../services/llmProviders';
 import { XIcon, SparklesIcon } from './icons/Icons';
 import Button from './common/Button';
 
@@ -12,7 +12,7 @@ interface AiChatProps {
 }
 
 const AiChat: React.FC<AiChatProps> = ({ isOpen, onClose, household }) => {
-    const [chatSession, setChatSession] = useState<Chat | null>(null);
+    const [chatSession, setChatSession] = useState<LlmChatSession | null>(null);
     const [messages, setMessages] = useState<ChatMessage[]>([]);
     const [input, setInput] = useState('');
     const [isLoading, setIsLoading] = useState(false);
@@ -35,10 +35,9 @@ const AiChat: React.FC<AiChatProps> = ({ isOpen, onClose, household }) => {
                 
                 // Get initial greeting
                 try {
-                    const initialResponse = await session.sendMessageStream({ message: "Hello, introduce yourself briefly." });
                     let text = '';
-                    for await (const chunk of initialResponse) {
-                        text += chunk.text;
+                    for await (const chunk of session.sendMessageStream("Hello, introduce yourself briefly.")) {
+                        text += chunk;
                     }
                     setMessages([{ role: 'model', content: text }]);
                 } catch (error) {
@@ -63,12 +62,11 @@ const AiChat: React.FC<AiChatProps> = ({ isOpen, onClose, household }) => {
         setIsLoading(true);
 
         try {
-            const stream = await chatSession.sendMessageStream({ message: currentInput });
             let text = '';
             setMessages(prev => [...prev, { role: 'model', content: '' }]);
 
-            for await (const chunk of stream) {
-                text += chunk.text;
+            for await (const chunk of chatSession.sendMessageStream(currentInput)) {
+                text += chunk;
                 setMessages(prev => {
                     const newMessages = [...prev];
                     newMessages[newMessages.length - 1].content = text;
@@ -0,0 +1,193 @@
+import React, { useState, useEffect } from 'react';
+import { AiFeature, AiSettings, LlmProviderId, Member } from '../types';
+import Card from './common/Card';
+import Button from './common/Button';
+import { SparklesIcon } from './icons/Icons';
+import { hasPermission } from '../utils/permissions';
+
+interface AiProviderSettingsProps {
+  settings: AiSettings;
+  currentMember: Member;
+  onSave: (settings: AiSettings) => Promise<void>;
+}
+
+const PROVIDER_LABELS: Record<LlmProviderId, string> = {
+  'gemini': 'Google Gemini',
+  'openai-compatible': 'OpenAI-compatible server (Ollama, llama.cpp, LM Studio...)',
+  'mock': 'Offline mock (no AI calls)',
+};
+
+const FEATURE_LABELS: Record<AiFeature, string> = {
+  receipt: 'Receipt scanning',
+  statement: 'Statement reading (PDF/images)',
+  categorize: 'Transaction categorization',
+  anomaly: 'Unusual spending checks',
+  report: 'Spending reports',
+  budgets: 'Budget suggestions',
+  transfer: 'Goal transfer suggestions',
+  recurring: 'Recurring payment detection',
+  savings: 'Savings ideas',
+  chat: 'AI chat',
+};
+
+const AiProviderSettings: React.FC<AiProviderSettingsProps> = ({ settings, currentMember, onSave }) => {
+    const [draft, setDraft] = useState<AiSettings>(settings);
+    const [isSaving, setIsSaving] = useState(false);
+
+    // Household reloads create a new settings object, so compare by content.
+    const savedSettingsKey = JSON.stringify(settings);
+    useEffect(() => {
+        setDraft(settings);
+    }, [savedSettingsKey]);
+
+    const updateDraft = (changes: Partial<AiSettings>) => setDraft(prev => ({ ...prev, ...changes }));
+
+    const updateFeatureModel = (feature: AiFeature, model: string) => {
+        setDraft(prev => ({ ...prev, models: { ...prev.models, [feature]: model } }));
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            // Blank overrides fall back to the default model, so they aren't stored.
+            const models = Object.fromEntries(Object.entries(draft.models).filter(([, model]) => typeof model === 'string' && model.trim()));
+            await onSave({ ...draft, models });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const isDirty = JSON.stringify(draft) !== savedSettingsKey;
+
+    if (!hasPermission(currentMember, 'manageSettings')) {
+        return (
+            <Card>
+                <div className="flex items-center gap-3 mb-2">
+                    <SparklesIcon className="w-6 h-6 text-purple-400" />
+                    <h3 className="text-xl font-bold text-white">AI Provider</h3>
+                </div>
+                <p className="text-sm text-gray-400">Only an owner can change the AI provider and its API keys.</p>
+            </Card>
+        );
+    }
+
+    return (
+        <Card>
+            <div className="flex items-center gap-3 mb-4">
+                <SparklesIcon className="w-6 h-6 text-purple-400" />
+                <h3 className="text-xl font-bold text-white">AI Provider</h3>
+            </div>
+            <div className="space-y-4">
+                <div>
+                    <label htmlFor="aiProvider" className="block text-sm font-medium text-gray-300">Provider</label>
+                    <select
+                        id="aiProvider"
+                        value={draft.provider}
+                        onChange={e => updateDraft({ provider: e.target.value as LlmProviderId })}
+                        className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1"
+                    >
+                        {(Object.keys(PROVIDER_LABELS) as LlmProviderId[]).map(id => <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>)}
+                    </select>
+                </div>
+
+                {draft.provider === 'gemini' && (
+                    <div>
+                        <label htmlFor="geminiApiKey" className="block text-sm font-medium text-gray-300">Gemini API Key</label>
+                        <input
+                            type="password"
+                            id="geminiApiKey"
+                            value={draft.geminiApiKey}
+                            onChange={e => updateDraft({ geminiApiKey: e.target.value })}
+                            placeholder="Leave blank to use the built-in key"
+                            className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1 font-mono"
+                        />
+                    </div>
+                )}
+
+                {draft.provider === 'openai-compatible' && (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <div>
+                            <label htmlFor="openAiBaseUrl" className="block text-sm font-medium text-gray-300">Server URL</label>
+                            <input
+                                type="url"
+                                id="openAiBaseUrl"
+                                value={draft.openAiBaseUrl}
+                                onChange={e => updateDraft({ openAiBaseUrl: e.target.value })}
+                                placeholder="http://localhost:11434/v1"
+                                className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1 font-mono"
+                            />
+                        </div>
+                        <div>
+                            <label htmlFor="openAiApiKey" className="block text-sm font-medium text-gray-300">API Key (optional)</label>
+                            <input
+                                type="password"
+                                id="openAiApiKey"
+                                value={draft.openAiApiKey}
+                                onChange={e => updateDraft({ openAiApiKey: e.target.value })}
+                                className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1 font-mono"
+                            />
+                        </div>
+                    </div>
+                )}
+
+                {draft.provider !== 'mock' && (
+                    <>
+                        <div>
+                            <label htmlFor="defaultModel" className="block text-sm font-medium text-gray-300">Default Model</label>
+                            <input
+                                type="text"
+                                id="defaultModel"
+                                value={draft.defaultModel}
+                                onChange={e => updateDraft({ defaultModel: e.target.value })}
+                                placeholder={draft.provider === 'gemini' ? 'gemini-2.5-flash' : 'llama3.1'}
+                                className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1 font-mono"
+                            />
+                        </div>
+                        <details className="p-3 bg-slate-800/50 rounded-lg">
+                            <summary className="cursor-pointer font-semibold text-gray-200">Model per feature</summary>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-3">
+                                {(Object.keys(FEATURE_LABELS) as AiFeature[]).map(feature => (
+                                    <div key={feature}>
+                                        <label htmlFor={`model-${feature}`} className="block text-xs font-medium text-gray-400">{FEATURE_LABELS[feature]}</label>
+                                        <input
+                                            type="text"
+                                            id={`model-${feature}`}
+                                            value={draft.models[feature] || ''}
+                                            onChange={e => updateFeatureModel(feature, e.target.value)}
+                                            placeholder={draft.defaultModel}
+                                            className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1 text-sm font-mono"
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                        </details>
+                    </>
+                )}
+
+                {draft.provider !== 'mock' && (
+                    <label className="flex items-start gap-3 text-sm text-gray-300">
+                        <input
+                            type="checkbox"
+                            checked={draft.anomalySecondOpinion}
+                            onChange={e => updateDraft({ anomalySecondOpinion: e.target.checked })}
+                            className="mt-1 rounded bg-slate-600 border-slate-500 focus:ring-indigo-500"
+                        />
+                        <span>Ask the AI for a second opinion on unusual-spending alerts. Expenses are always checked locally first; only flagged ones are sent.</span>
+                    </label>
+                )}
+
+                {draft.provider === 'mock' && (
+                    <p className="text-sm text-gray-400">AI features return fixed placeholder answers so the app works fully offline.</p>
+                )}
+
+                <div className="flex justify-end">
+                    <Button onClick={handleSave} disabled={!isDirty || isSaving}>
+                        {isSaving ? 'Saving...' : 'Save AI Settings'}
+                    </Button>
+                </div>
+            </div>
+        </Card>
+    );
+};
+
+export default AiProviderSettings;
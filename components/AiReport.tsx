@@ -5,6 +5,10 @@ import Card from './common/Card';
 import Button from './common/Button';
 import SkeletonLoader from './common/SkeletonLoader';
 import { SparklesIcon, DocumentDuplicateIcon } from './icons/Icons';
+import * as db from '../services/db';
+
+// How many months, this one included, the report compares spending over.
+const REPORT_MONTHS = 6;
 
 interface AiReportProps {
   household: Household;
@@ -133,7 +137,13 @@ const AiReport: React.FC<AiReportProps> = ({ household }) => {
     try {
       // Simulate longer generation time
       await new Promise(resolve => setTimeout(resolve, 1500));
-      const result = await generateSpendingReport(household);
+      const now = new Date();
+      const monthStart = new Date(now.getFullYear(), now.getMonth(), 1).toISOString();
+      const [categoryTotals, monthlyTotals] = await Promise.all([
+        db.getCategoryTotals({ tripId: null, from: monthStart }),
+        db.getMonthlyTotals({ tripId: null, from: new Date(now.getFullYear(), now.getMonth() - (REPORT_MONTHS - 1), 1).toISOString() }),
+      ]);
+      const result = await generateSpendingReport(household, categoryTotals, monthlyTotals);
       setReport(result);
     } catch (err) {
       setError('Failed to generate AI report. Please check your connection and try again.');
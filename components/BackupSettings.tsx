@@ -0,0 +1,307 @@
+import React, { useState } from 'react';
+import { Member } from '../types';
+import Card from './common/Card';
+import Button from './common/Button';
+import { ArrowDownTrayIcon, ArrowUpTrayIcon } from './icons/Icons';
+import { BackupError, BackupFileKind, BackupSnapshot } from '../services/backupFormat';
+import { getPassphraseError } from '../services/dbEncryption';
+import { ConflictResolutions, RecordConflict, TableDiff, TABLE_LABELS, describeBackupRow, getConflictKey } from '../utils/backupDiff';
+import { hasPermission } from '../utils/permissions';
+
+interface BackupSettingsProps {
+  currentMember: Member;
+  onExport: (kind: BackupFileKind, passphrase?: string) => Promise<Uint8Array>;
+  onReadBackup: (data: Uint8Array, passphrase?: string) => Promise<BackupSnapshot>;
+  onPreview: (snapshot: BackupSnapshot) => Promise<TableDiff[]>;
+  onRestore: (snapshot: BackupSnapshot) => Promise<void>;
+  onMerge: (snapshot: BackupSnapshot, resolutions: ConflictResolutions) => Promise<void>;
+}
+
+type RestoreMode = 'replace' | 'merge';
+
+interface LoadedBackup {
+    fileName: string;
+    snapshot: BackupSnapshot;
+    diffs: TableDiff[];
+}
+
+const inputClass = "w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1";
+
+const getTableLabel = (table: string) => TABLE_LABELS[table] || table;
+
+const downloadFile = (data: Uint8Array, fileName: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([data], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+const ConflictRow: React.FC<{ conflict: RecordConflict; choice: 'local' | 'incoming'; onChoose: (choice: 'local' | 'incoming') => void }> = ({ conflict, choice, onChoose }) => (
+    <div className="p-3 bg-slate-800/50 rounded-lg">
+        <p className="text-xs text-gray-400">{getTableLabel(conflict.table)} · changed: {conflict.changedFields.join(', ')}</p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mt-2">
+            {(['local', 'incoming'] as const).map(side => (
+                <button
+                    key={side}
+                    type="button"
+                    onClick={() => onChoose(side)}
+                    className={`text-left p-2 rounded-md border text-sm transition-colors ${choice === side ? 'border-purple-500 bg-purple-500/10 text-white' : 'border-slate-600 text-gray-400 hover:border-slate-500'}`}
+                >
+                    <span className="block text-xs font-semibold uppercase tracking-wide">{side === 'local' ? 'This device' : 'Backup'}</span>
+                    {describeBackupRow(conflict[side])}
+                </button>
+            ))}
+        </div>
+    </div>
+);
+
+const BackupSettings: React.FC<BackupSettingsProps> = ({ currentMember, onExport, onReadBackup, onPreview, onRestore, onMerge }) => {
+    const [exportKind, setExportKind] = useState<BackupFileKind>('json');
+    const [protectExport, setProtectExport] = useState(false);
+    const [exportPassphrase, setExportPassphrase] = useState('');
+    const [isExporting, setIsExporting] = useState(false);
+
+    const [pendingFile, setPendingFile] = useState<{ name: string; data: Uint8Array } | null>(null);
+    const [filePassphrase, setFilePassphrase] = useState('');
+    const [loaded, setLoaded] = useState<LoadedBackup | null>(null);
+    const [mode, setMode] = useState<RestoreMode>('merge');
+    const [resolutions, setResolutions] = useState<ConflictResolutions>({});
+    const [error, setError] = useState('');
+    const [message, setMessage] = useState('');
+    const [isWorking, setIsWorking] = useState(false);
+
+    const canManage = hasPermission(currentMember, 'manageBackups');
+    const exportPassphraseError = protectExport && exportPassphrase ? getPassphraseError(exportPassphrase) : null;
+    const conflicts = loaded ? loaded.diffs.flatMap(d => d.changed) : [];
+
+    const handleExport = async () => {
+        if (protectExport && (!exportPassphrase || exportPassphraseError)) return;
+        setIsExporting(true);
+        try {
+            const data = await onExport(exportKind, protectExport ? exportPassphrase : undefined);
+            const date = new Date().toISOString().split('T')[0];
+            const extension = exportKind === 'sqlite' ? 'sqlite' : 'json';
+            downloadFile(data, `financely-backup-${date}.${extension}${protectExport ? '.enc' : ''}`, protectExport ? 'application/octet-stream' : exportKind === 'sqlite' ? 'application/vnd.sqlite3' : 'application/json');
+            setExportPassphrase('');
+        } catch (err) {
+            console.error("Failed to export backup:", err);
+            alert("Could not create the backup. Please try again.");
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const reset = () => {
+        setPendingFile(null);
+        setFilePassphrase('');
+        setLoaded(null);
+        setResolutions({});
+        setError('');
+    };
+
+    const loadBackup = async (file: { name: string; data: Uint8Array }, passphrase?: string) => {
+        setIsWorking(true);
+        setError('');
+        try {
+            const snapshot = await onReadBackup(file.data, passphrase);
+            setLoaded({ fileName: file.name, snapshot, diffs: await onPreview(snapshot) });
+            setPendingFile(null);
+            setFilePassphrase('');
+        } catch (err) {
+            if (err instanceof BackupError && err.reason === 'passphraseRequired') {
+                setPendingFile(file);
+            } else if (err instanceof BackupError) {
+                setError(err.message);
+            } else {
+                console.error("Failed to read backup:", err);
+                setError('The backup could not be read.');
+            }
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        reset();
+        setMessage('');
+        loadBackup({ name: file.name, data: new Uint8Array(await file.arrayBuffer()) });
+    };
+
+    const handleUnlockFile = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (pendingFile && filePassphrase) loadBackup(pendingFile, filePassphrase);
+    };
+
+    const setAllResolutions = (choice: 'local' | 'incoming') => {
+        setResolutions(Object.fromEntries(conflicts.map(c => [getConflictKey(c), choice])));
+    };
+
+    const handleApply = async () => {
+        if (!loaded) return;
+        if (mode === 'replace' && !window.confirm("Replace everything on this device with this backup? Records that aren't in the backup will be lost.")) return;
+        setIsWorking(true);
+        try {
+            if (mode === 'replace') {
+                await onRestore(loaded.snapshot);
+            } else {
+                await onMerge(loaded.snapshot, resolutions);
+            }
+            reset();
+            setMessage(mode === 'replace' ? 'The backup was restored.' : 'The backup was merged into this device.');
+        } catch (err) {
+            console.error("Failed to apply backup:", err);
+            setError(err instanceof BackupError ? err.message : 'Nothing was changed, because the backup could not be applied.');
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    if (!canManage) {
+        return (
+            <Card>
+                <h3 className="text-xl font-bold text-white mb-2">Backup & Restore</h3>
+                <p className="text-sm text-gray-400">Only an owner can back up, restore or merge the household's data.</p>
+            </Card>
+        );
+    }
+
+    return (
+        <Card>
+            <h3 className="text-xl font-bold text-white mb-1">Backup & Restore</h3>
+            <p className="text-sm text-gray-400 mb-4">Your data lives only in this browser. Keep a backup somewhere safe, or use one to bring in data from another device.</p>
+
+            <div className="p-3 bg-slate-800/50 rounded-lg space-y-3">
+                <p className="font-semibold text-white">Create a backup</p>
+                <div className="flex flex-wrap gap-4 text-sm text-gray-300">
+                    <label className="flex items-center gap-2">
+                        <input type="radio" name="backupKind" checked={exportKind === 'json'} onChange={() => setExportKind('json')} />
+                        JSON (readable, every table)
+                    </label>
+                    <label className="flex items-center gap-2">
+                        <input type="radio" name="backupKind" checked={exportKind === 'sqlite'} onChange={() => setExportKind('sqlite')} />
+                        SQLite database file
+                    </label>
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-300">
+                    <input type="checkbox" checked={protectExport} onChange={e => setProtectExport(e.target.checked)} />
+                    Protect the file with a passphrase
+                </label>
+                {!protectExport && <p className="text-xs text-gray-500">Member PINs and AI provider API keys are only included in backups protected with a passphrase.</p>}
+                {protectExport && (
+                    <div>
+                        <input type="password" autoComplete="new-password" placeholder="Backup passphrase" value={exportPassphrase} onChange={e => setExportPassphrase(e.target.value)} className={inputClass} />
+                        {exportPassphraseError && <p className="text-sm text-amber-400 mt-1">{exportPassphraseError}</p>}
+                    </div>
+                )}
+                <Button size="sm" onClick={handleExport} disabled={isExporting || (protectExport && (!exportPassphrase || !!exportPassphraseError))}>
+                    <ArrowDownTrayIcon className="w-4 h-4" />
+                    <span>{isExporting ? 'Preparing...' : 'Download Backup'}</span>
+                </Button>
+            </div>
+
+            <div className="p-3 bg-slate-800/50 rounded-lg space-y-3 mt-4">
+                <p className="font-semibold text-white">Restore or merge a backup</p>
+                {!loaded && !pendingFile && (
+                    <label className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-white cursor-pointer ${isWorking ? 'opacity-50 pointer-events-none' : ''}`}>
+                        <ArrowUpTrayIcon className="w-4 h-4" />
+                        <span>{isWorking ? 'Reading...' : 'Choose Backup File'}</span>
+                        <input type="file" accept=".json,.sqlite,.db,.enc" onChange={handleFileChange} className="hidden" />
+                    </label>
+                )}
+
+                {pendingFile && (
+                    <form onSubmit={handleUnlockFile} className="space-y-2">
+                        <p className="text-sm text-gray-300">"{pendingFile.name}" is protected with a passphrase.</p>
+                        <input type="password" autoFocus autoComplete="off" placeholder="Backup passphrase" value={filePassphrase} onChange={e => setFilePassphrase(e.target.value)} className={inputClass} />
+                        <div className="flex gap-2">
+                            <Button type="submit" size="sm" disabled={!filePassphrase || isWorking}>{isWorking ? 'Opening...' : 'Open Backup'}</Button>
+                            <Button type="button" size="sm" variant="secondary" onClick={reset} disabled={isWorking}>Cancel</Button>
+                        </div>
+                    </form>
+                )}
+
+                {loaded && (
+                    <div className="space-y-4">
+                        <p className="text-sm text-gray-300">
+                            "{loaded.fileName}"{loaded.snapshot.exportedAt && <>, made {new Date(loaded.snapshot.exportedAt).toLocaleString()}</>}
+                        </p>
+                        <div className="flex flex-wrap gap-4 text-sm text-gray-300">
+                            <label className="flex items-center gap-2">
+                                <input type="radio" name="restoreMode" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+                                Merge with this device
+                            </label>
+                            <label className="flex items-center gap-2">
+                                <input type="radio" name="restoreMode" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+                                Replace this device's data
+                            </label>
+                        </div>
+
+                        {loaded.diffs.length === 0 ? (
+                            <p className="text-sm text-teal-400">This backup matches the data on this device.</p>
+                        ) : (
+                            <ul className="text-sm space-y-1">
+                                {loaded.diffs.map(d => (
+                                    <li key={d.table} className="flex justify-between gap-4">
+                                        <span className="text-gray-300">{getTableLabel(d.table)}</span>
+                                        <span className="text-gray-400">
+                                            {[
+                                                d.added.length > 0 && `${d.added.length} new`,
+                                                d.changed.length > 0 && `${d.changed.length} ${mode === 'merge' ? 'in conflict' : 'changed'}`,
+                                                d.removed.length > 0 && (mode === 'merge' ? `${d.removed.length} only here, kept` : `${d.removed.length} removed`),
+                                            ].filter(Boolean).join(' · ')}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+
+                        {mode === 'merge' && conflicts.length > 0 && (
+                            <div className="space-y-2">
+                                <div className="flex flex-wrap items-center justify-between gap-2">
+                                    <p className="text-sm text-gray-300">Records edited on both devices. Choose which version to keep:</p>
+                                    <div className="flex gap-2">
+                                        <Button size="sm" variant="secondary" onClick={() => setAllResolutions('local')}>Keep All Mine</Button>
+                                        <Button size="sm" variant="secondary" onClick={() => setAllResolutions('incoming')}>Use All From Backup</Button>
+                                    </div>
+                                </div>
+                                <div className="max-h-80 overflow-y-auto space-y-2 pr-1">
+                                    {conflicts.map(conflict => {
+                                        const key = getConflictKey(conflict);
+                                        return (
+                                            <ConflictRow
+                                                key={key}
+                                                conflict={conflict}
+                                                choice={resolutions[key] || 'local'}
+                                                onChoose={choice => setResolutions(prev => ({ ...prev, [key]: choice }))}
+                                            />
+                                        );
+                                    })}
+                                </div>
+                            </div>
+                        )}
+                        {mode === 'merge' && <p className="text-xs text-gray-500">Records deleted on only one of the devices will come back after merging.</p>}
+
+                        <div className="flex gap-2">
+                            <Button size="sm" variant={mode === 'replace' ? 'danger' : undefined} onClick={handleApply} disabled={isWorking || loaded.diffs.length === 0}>
+                                {isWorking ? 'Applying...' : mode === 'replace' ? 'Replace My Data' : 'Merge Backup'}
+                            </Button>
+                            <Button size="sm" variant="secondary" onClick={reset} disabled={isWorking}>Cancel</Button>
+                        </div>
+                    </div>
+                )}
+
+                {error && <p className="text-sm text-red-400">{error}</p>}
+                {message && <p className="text-sm text-teal-400">{message}</p>}
+            </div>
+        </Card>
+    );
+};
+
+export default BackupSettings;
@@ -1,11 +1,12 @@
 import React, { useState } from 'react';
-import { Household, BucketGoal as BucketGoalType } from '../types';
+import { Household, BucketGoal as BucketGoalType, Member } from '../types';
 import Card from './common/Card';
 import Button from './common/Button';
 import ProgressBar from './common/ProgressBar';
 import { PiggyBankIcon, SparklesIcon, PlusIcon, PencilIcon } from './icons/Icons';
 import SmartTransferModal from './SmartTransferModal';
 import EditGoalModal from './EditGoalModal';
+import { hasPermission } from '../utils/permissions';
 
 const formatCurrency = (amountInCents: number): string => {
   const amount = amountInCents / 100;
@@ -14,11 +15,13 @@ const formatCurrency = (amountInCents: number): string => {
 
 interface BucketGoalsProps {
   household: Household;
+  currentMember: Member;
   onUpdate: (data: Partial<Omit<Household, 'id'>>) => Promise<void>;
 }
 
-const BucketGoals: React.FC<BucketGoalsProps> = ({ household, onUpdate }) => {
+const BucketGoals: React.FC<BucketGoalsProps> = ({ household, currentMember, onUpdate }) => {
     const { bucketGoals } = household;
+    const canManage = hasPermission(currentMember, 'manageGoals');
     const [smartTransferGoal, setSmartTransferGoal] = useState<BucketGoalType | null>(null);
     const [isEditModalOpen, setIsEditModalOpen] = useState(false);
     const [selectedGoal, setSelectedGoal] = useState<BucketGoalType | null>(null);
@@ -42,10 +45,14 @@ const BucketGoals: React.FC<BucketGoalsProps> = ({ household, onUpdate }) => {
     <div className="animate-fade-in-up">
         <div className="flex justify-between items-center mb-6">
             <h2 className="text-2xl font-bold text-white">Bucket Goals</h2>
-            <Button onClick={() => handleOpenEditModal(null)}>
-                <PlusIcon className="w-5 h-5" />
-                <span>Create New Goal</span>
-            </Button>
+            {canManage ? (
+                <Button onClick={() => handleOpenEditModal(null)}>
+                    <PlusIcon className="w-5 h-5" />
+                    <span>Create New Goal</span>
+                </Button>
+            ) : (
+                <p className="text-xs text-gray-500">Only an adult or owner can change savings goals.</p>
+            )}
         </div>
 
         {bucketGoals.length > 0 ? (
@@ -64,9 +71,9 @@ const BucketGoals: React.FC<BucketGoalsProps> = ({ household, onUpdate }) => {
                                         <PiggyBankIcon className="w-8 h-8 text-purple-400" />
                                         <h3 className="text-xl font-bold text-white truncate pr-2">{goal.name}</h3>
                                     </div>
-                                    <button onClick={() => handleOpenEditModal(goal)} className="text-gray-400 hover:text-white p-1 rounded-full hover:bg-slate-700 transition-colors flex-shrink-0">
+                                    {canManage && <button onClick={() => handleOpenEditModal(goal)} className="text-gray-400 hover:text-white p-1 rounded-full hover:bg-slate-700 transition-colors flex-shrink-0">
                                         <PencilIcon className="w-5 h-5"/>
-                                    </button>
+                                    </button>}
                                 </div>
                                 <div className="mt-4">
                                     <p className="text-gray-300">
@@ -79,12 +86,12 @@ const BucketGoals: React.FC<BucketGoalsProps> = ({ household, onUpdate }) => {
                                     </div>
                                 </div>
                             </div>
-                            <div className="mt-6">
+                            {canManage && <div className="mt-6">
                                 <Button size="sm" className="w-full" onClick={() => handleOpenSmartTransfer(goal)}>
                                     <SparklesIcon className="w-4 h-4" />
                                     <span>Smart Transfer</span>
                                 </Button>
-                            </div>
+                            </div>}
                         </Card>
                     );
                 })}
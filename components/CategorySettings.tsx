@@ -0,0 +1,252 @@
+import React, { useState, useEffect } from 'react';
+import { Household, Category, Member } from '../types';
+import Card from './common/Card';
+import Button from './common/Button';
+import { TrashIcon, PencilIcon, ArrowsRightLeftIcon } from './icons/Icons';
+import { getCategoryTree, getCategoryOptionLabel, getCategoryUsage, getParentError, getMergeError } from '../utils/categoryUtils';
+import { PermissionError, hasPermission } from '../utils/permissions';
+import * as db from '../services/db';
+
+interface CategorySettingsProps {
+  household: Household;
+  currentMember: Member;
+  onUpdate: (data: Partial<Omit<Household, 'id'>>) => Promise<void>;
+  onMerge: (sourceId: string, targetId: string) => Promise<void>;
+}
+
+const ICON_CHOICES = [
+    '🛒', '🍔', '☕', '🍕', '🍺', '🚗', '⛽', '🚕', '🚆', '✈️', '🏠', '💡', '🔌', '💧', '🔥', '📱',
+    '🌐', '📺', '🎬', '🎮', '🎵', '📚', '🎓', '🛍️', '👕', '💄', '❤️‍🩹', '💊', '🏋️', '🐶', '👶', '🎁',
+    '💼', '🏦', '💳', '🧾', '🛠️', '🧹', '🌱', '❓',
+];
+
+interface CategoryDraft {
+  id: string | null; // null for a new category
+  name: string;
+  icon: string;
+  parentId: string; // '' for a top-level category
+}
+
+const emptyDraft = (): CategoryDraft => ({ id: null, name: '', icon: '🏷️', parentId: '' });
+
+// Returns what is wrong with the draft, or null if it can be saved.
+const validateDraft = (draft: CategoryDraft, categories: Category[]): string | null => {
+    const name = draft.name.trim();
+    if (!name) return 'Enter a name.';
+    if (!draft.icon.trim()) return 'Pick an icon.';
+    // Names are unique because AI answers and receipts refer to categories by name.
+    if (categories.some(c => c.id !== draft.id && c.name.toLowerCase() === name.toLowerCase())) return `There is already a category called "${name}".`;
+    return getParentError(categories, draft.id, draft.parentId || null);
+};
+
+const CategorySettings: React.FC<CategorySettingsProps> = ({ household, currentMember, onUpdate, onMerge }) => {
+    const [draft, setDraft] = useState<CategoryDraft>(emptyDraft);
+    const [isIconPickerOpen, setIsIconPickerOpen] = useState(false);
+    const [mergeSourceId, setMergeSourceId] = useState<string | null>(null);
+    const [mergeTargetId, setMergeTargetId] = useState('');
+    const [isMerging, setIsMerging] = useState(false);
+    // Expense counts per category, trips included. Until they load, no category can be deleted.
+    const [categoryTotals, setCategoryTotals] = useState<db.CategoryTotal[] | null>(null);
+
+    useEffect(() => {
+        db.getCategoryTotals()
+            .then(setCategoryTotals)
+            .catch(err => console.error("Failed to load category totals:", err));
+    }, [household.expenses]);
+
+    const { categories } = household;
+    const canManage = hasPermission(currentMember, 'manageCategories');
+    const tree = getCategoryTree(categories);
+    const draftError = validateDraft(draft, categories);
+    // Only top-level categories other than the one being edited can be a parent.
+    const parentChoices = categories.filter(c => !c.parentId && c.id !== draft.id);
+    const mergeError = mergeSourceId ? getMergeError(categories, mergeSourceId, mergeTargetId) : null;
+
+    const getCategoryName = (id: string) => categories.find(c => c.id === id)?.name || 'Unknown';
+
+    const updateDraft = (changes: Partial<CategoryDraft>) => setDraft(prev => ({ ...prev, ...changes }));
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (draftError) return;
+        const category: Category = {
+            id: draft.id || `cat-${crypto.randomUUID()}`,
+            name: draft.name.trim(),
+            icon: draft.icon.trim(),
+            parentId: draft.parentId || null,
+        };
+        const updated = draft.id ? categories.map(c => c.id === draft.id ? category : c) : [...categories, category];
+        await onUpdate({ categories: updated });
+        setDraft(emptyDraft());
+        setIsIconPickerOpen(false);
+    };
+
+    const handleEdit = (category: Category) => {
+        setDraft({ id: category.id, name: category.name, icon: category.icon, parentId: category.parentId || '' });
+        setMergeSourceId(null);
+    };
+
+    const handleDelete = (category: Category) => {
+        if (window.confirm(`Delete the category "${category.name}"?`)) {
+            onUpdate({ categories: categories.filter(c => c.id !== category.id) });
+            if (draft.id === category.id) setDraft(emptyDraft());
+        }
+    };
+
+    const startMerge = (category: Category) => {
+        setMergeSourceId(category.id);
+        setMergeTargetId('');
+    };
+
+    const handleMerge = async () => {
+        if (!mergeSourceId || mergeError) return;
+        const usage = getCategoryUsage(household, mergeSourceId, categoryTotals ?? []);
+        const message = `Merge "${getCategoryName(mergeSourceId)}" into "${getCategoryName(mergeTargetId)}"? `
+            + `${usage.expenses} expense(s), ${usage.rules} rule(s), ${usage.subscriptions} subscription(s) and ${usage.subcategories} sub-category(ies) will move, `
+            + `any budget is added to the target's, and "${getCategoryName(mergeSourceId)}" will be deleted.`;
+        if (!window.confirm(message)) return;
+        setIsMerging(true);
+        try {
+            await onMerge(mergeSourceId, mergeTargetId);
+            if (draft.id === mergeSourceId) setDraft(emptyDraft());
+            setMergeSourceId(null);
+        } catch (error) {
+            alert(error instanceof PermissionError && error.permission === 'editBudgets'
+                ? "Merging would change a budget, which your role doesn't allow. Nothing was changed."
+                : "Could not merge the categories. Nothing was changed.");
+        } finally {
+            setIsMerging(false);
+        }
+    };
+
+    return (
+        <Card>
+            <h3 className="text-xl font-bold text-white mb-4">Categories</h3>
+            {!canManage && <p className="text-xs text-gray-500 -mt-2 mb-4">Only an adult or owner can change categories.</p>}
+            <div className="space-y-2 mb-6">
+                {tree.map(({ category, depth }) => {
+                    const usage = getCategoryUsage(household, category.id, categoryTotals ?? []);
+                    const inUse = !categoryTotals || usage.expenses + usage.budgets + usage.rules + usage.subscriptions + usage.subcategories > 0;
+                    return (
+                        <div key={category.id} className={depth === 1 ? 'ml-8' : ''}>
+                            <div className="flex items-center justify-between gap-2 bg-slate-800/50 p-2 rounded-md">
+                                <span className="flex items-center gap-2 text-white">
+                                    <span className="text-xl">{category.icon}</span>
+                                    <span className="font-semibold">{category.name}</span>
+                                    <span className="text-xs text-gray-500">{usage.expenses} expense{usage.expenses === 1 ? '' : 's'}</span>
+                                </span>
+                                {canManage && <div className="flex items-center">
+                                    <button onClick={() => handleEdit(category)} className="text-gray-400 hover:text-white p-1" title="Edit">
+                                        <PencilIcon className="w-4 h-4" />
+                                    </button>
+                                    <button onClick={() => startMerge(category)} className="text-gray-400 hover:text-white p-1" title="Merge into another category" disabled={categories.length < 2}>
+                                        <ArrowsRightLeftIcon className="w-4 h-4" />
+                                    </button>
+                                    <button
+                                        onClick={() => handleDelete(category)}
+                                        className="text-red-400 hover:text-red-300 p-1 disabled:opacity-30 disabled:cursor-not-allowed"
+                                        title={inUse ? 'In use — merge it into another category instead' : 'Delete'}
+                                        disabled={inUse}
+                                    >
+                                        <TrashIcon className="w-4 h-4" />
+                                    </button>
+                                </div>}
+                            </div>
+                            {mergeSourceId === category.id && (
+                                <div className="flex flex-wrap items-center gap-2 mt-2 p-2 bg-slate-900/50 rounded-md">
+                                    <span className="text-sm text-gray-300">Merge into</span>
+                                    <select value={mergeTargetId} onChange={e => setMergeTargetId(e.target.value)} className="flex-1 bg-slate-700 border-slate-600 rounded-md shadow-sm">
+                                        <option value="">Choose a category...</option>
+                                        {tree.filter(item => item.category.id !== category.id).map(item => (
+                                            <option key={item.category.id} value={item.category.id}>{getCategoryOptionLabel(item.category, item.depth)}</option>
+                                        ))}
+                                    </select>
+                                    <Button size="sm" variant="danger" onClick={handleMerge} disabled={!!mergeError || isMerging}>
+                                        {isMerging ? 'Merging...' : 'Merge'}
+                                    </Button>
+                                    <Button size="sm" variant="secondary" onClick={() => setMergeSourceId(null)} disabled={isMerging}>Cancel</Button>
+                                    {mergeTargetId && mergeError && <p className="w-full text-xs text-amber-400">{mergeError}</p>}
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+
+            {canManage && <form onSubmit={handleSave} className="space-y-3 border-t border-slate-700/50 pt-4">
+                <h4 className="font-semibold text-gray-200">{draft.id ? `Edit "${getCategoryName(draft.id)}"` : 'Add a Category'}</h4>
+                <div className="flex flex-wrap items-end gap-3">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-300">Icon</label>
+                        <button
+                            type="button"
+                            onClick={() => setIsIconPickerOpen(open => !open)}
+                            className="mt-1 w-12 h-10 text-2xl bg-slate-700 border border-slate-600 rounded-md"
+                            title="Pick an icon"
+                        >
+                            {draft.icon || '?'}
+                        </button>
+                    </div>
+                    <div className="flex-1 min-w-[10rem]">
+                        <label htmlFor="categoryName" className="block text-sm font-medium text-gray-300">Name</label>
+                        <input
+                            id="categoryName"
+                            type="text"
+                            value={draft.name}
+                            onChange={e => updateDraft({ name: e.target.value })}
+                            placeholder="e.g., Electricity"
+                            className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1"
+                        />
+                    </div>
+                    <div className="flex-1 min-w-[10rem]">
+                        <label htmlFor="categoryParent" className="block text-sm font-medium text-gray-300">Sub-category of</label>
+                        <select
+                            id="categoryParent"
+                            value={draft.parentId}
+                            onChange={e => updateDraft({ parentId: e.target.value })}
+                            className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1"
+                        >
+                            <option value="">None (top-level)</option>
+                            {parentChoices.map(c => <option key={c.id} value={c.id}>{c.icon} {c.name}</option>)}
+                        </select>
+                    </div>
+                </div>
+
+                {isIconPickerOpen && (
+                    <div className="p-3 bg-slate-900/50 rounded-md">
+                        <div className="grid grid-cols-8 sm:grid-cols-10 gap-1">
+                            {ICON_CHOICES.map(icon => (
+                                <button
+                                    key={icon}
+                                    type="button"
+                                    onClick={() => { updateDraft({ icon }); setIsIconPickerOpen(false); }}
+                                    className={`text-2xl p-1 rounded hover:bg-slate-700 ${draft.icon === icon ? 'bg-slate-700 ring-2 ring-indigo-500' : ''}`}
+                                >
+                                    {icon}
+                                </button>
+                            ))}
+                        </div>
+                        <label className="block text-xs text-gray-400 mt-3">
+                            Or type any emoji
+                            <input
+                                type="text"
+                                value={draft.icon}
+                                onChange={e => updateDraft({ icon: e.target.value })}
+                                className="w-20 ml-2 bg-slate-700 border-slate-600 rounded-md shadow-sm text-center"
+                                maxLength={8}
+                            />
+                        </label>
+                    </div>
+                )}
+
+                {draft.name.trim() && draftError && <p className="text-sm text-amber-400">{draftError}</p>}
+                <div className="flex gap-2">
+                    <Button type="submit" disabled={!!draftError}>{draft.id ? 'Save Changes' : 'Add Category'}</Button>
+                    {draft.id && <Button type="button" variant="secondary" onClick={() => setDraft(emptyDraft())}>Cancel</Button>}
+                </div>
+            </form>}
+        </Card>
+    );
+};
+
+export default CategorySettings;
@@ -0,0 +1,143 @@
+import React, { useState, useMemo } from 'react';
+import { CsvColumnMapping, CsvDateFormat, CsvDecimalSeparator } from '../types';
+import { applyColumnMapping } from '../utils/csvParser';
+import Card from './common/Card';
+import Button from './common/Button';
+
+interface CsvMappingFormProps {
+  fileName: string;
+  headers: string[];
+  rows: string[][];
+  initialMapping: CsvColumnMapping;
+  onConfirm: (mapping: CsvColumnMapping, profileName: string | null) => void;
+  onCancel: () => void;
+}
+
+const DATE_FORMATS: CsvDateFormat[] = ['DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD'];
+
+const formatCurrency = (amount: number): string => {
+  return new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', minimumFractionDigits: 2 }).format(amount);
+};
+
+const CsvMappingForm: React.FC<CsvMappingFormProps> = ({ fileName, headers, rows, initialMapping, onConfirm, onCancel }) => {
+    const [mapping, setMapping] = useState<CsvColumnMapping>(initialMapping);
+    const [saveProfile, setSaveProfile] = useState(true);
+    const [profileName, setProfileName] = useState('');
+
+    const preview = useMemo(() => applyColumnMapping(rows, mapping), [rows, mapping]);
+
+    const updateMapping = (changes: Partial<CsvColumnMapping>) => setMapping(prev => ({ ...prev, ...changes }));
+
+    const ColumnSelect = ({ id, label, value, onChange }: { id: string, label: string, value: number | undefined, onChange: (index: number) => void }) => (
+        <div>
+            <label htmlFor={id} className="block text-sm font-medium text-gray-300">{label}</label>
+            <select id={id} value={value ?? ''} onChange={e => onChange(parseInt(e.target.value, 10))} className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1">
+                <option value="" disabled>Select a column</option>
+                {headers.map((header, index) => <option key={index} value={index}>{header || `Column ${index + 1}`}</option>)}
+            </select>
+        </div>
+    );
+
+    const handleConfirm = () => {
+        onConfirm(mapping, saveProfile && profileName.trim() ? profileName.trim() : null);
+    };
+
+    return (
+        <Card className="animate-fade-in-up">
+            <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-4 gap-4">
+                <div>
+                    <h2 className="text-2xl font-bold text-white">Map CSV Columns</h2>
+                    <p className="text-gray-400 mt-1">Tell us which columns in "{fileName}" hold each field. {rows.length} rows found.</p>
+                </div>
+                <div className="flex gap-3">
+                    <Button variant="secondary" onClick={onCancel}>Cancel</Button>
+                    <Button onClick={handleConfirm} disabled={preview.length === 0}>Continue with {preview.length} Transactions</Button>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                <ColumnSelect id="csvDate" label="Date" value={mapping.dateColumn} onChange={i => updateMapping({ dateColumn: i })} />
+                <div>
+                    <label htmlFor="csvDateFormat" className="block text-sm font-medium text-gray-300">Date Format</label>
+                    <select id="csvDateFormat" value={mapping.dateFormat} onChange={e => updateMapping({ dateFormat: e.target.value as CsvDateFormat })} className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1">
+                        {DATE_FORMATS.map(f => <option key={f} value={f}>{f}</option>)}
+                    </select>
+                </div>
+                <ColumnSelect id="csvDescription" label="Description" value={mapping.descriptionColumn} onChange={i => updateMapping({ descriptionColumn: i })} />
+                <div>
+                    <label htmlFor="csvAmountMode" className="block text-sm font-medium text-gray-300">Amounts</label>
+                    <select id="csvAmountMode" value={mapping.amountMode} onChange={e => updateMapping({ amountMode: e.target.value as CsvColumnMapping['amountMode'] })} className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1">
+                        <option value="split">Separate debit & credit columns</option>
+                        <option value="single">One signed amount column</option>
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="csvDecimal" className="block text-sm font-medium text-gray-300">Decimal Separator</label>
+                    <select id="csvDecimal" value={mapping.decimalSeparator ?? '.'} onChange={e => updateMapping({ decimalSeparator: e.target.value as CsvDecimalSeparator })} className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1">
+                        <option value=".">Point (1,250.50)</option>
+                        <option value=",">Comma (1.250,50)</option>
+                    </select>
+                </div>
+                {mapping.amountMode === 'split' ? (
+                    <>
+                        <ColumnSelect id="csvDebit" label="Debit (money out)" value={mapping.debitColumn} onChange={i => updateMapping({ debitColumn: i })} />
+                        <ColumnSelect id="csvCredit" label="Credit (money in)" value={mapping.creditColumn} onChange={i => updateMapping({ creditColumn: i })} />
+                    </>
+                ) : (
+                    <>
+                        <ColumnSelect id="csvAmount" label="Amount" value={mapping.amountColumn} onChange={i => updateMapping({ amountColumn: i })} />
+                        <div>
+                            <label htmlFor="csvSign" className="block text-sm font-medium text-gray-300">Negative amounts are</label>
+                            <select id="csvSign" value={mapping.negativeIsDebit ? 'debit' : 'credit'} onChange={e => updateMapping({ negativeIsDebit: e.target.value === 'debit' })} className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1">
+                                <option value="debit">Expenses (money out)</option>
+                                <option value="credit">Income (money in)</option>
+                            </select>
+                        </div>
+                    </>
+                )}
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3 mt-6 p-3 bg-slate-800/50 rounded-lg">
+                <label className="flex items-center gap-2 text-gray-300">
+                    <input type="checkbox" checked={saveProfile} onChange={e => setSaveProfile(e.target.checked)} className="rounded bg-slate-600 border-slate-500 focus:ring-indigo-500" />
+                    Remember this mapping for
+                </label>
+                <input
+                    type="text"
+                    value={profileName}
+                    onChange={e => setProfileName(e.target.value)}
+                    placeholder="Bank name (e.g., HDFC Savings)"
+                    className="flex-1 bg-slate-700 border-slate-600 rounded-md shadow-sm"
+                    disabled={!saveProfile}
+                />
+            </div>
+
+            <h3 className="font-semibold text-white mt-6 mb-2">Preview</h3>
+            <div className="overflow-x-auto">
+                <table className="w-full text-left text-sm">
+                    <thead className="text-xs text-gray-400 uppercase bg-slate-700/50">
+                        <tr>
+                            <th className="p-3">Date</th>
+                            <th className="p-3">Description</th>
+                            <th className="p-3 text-right">Amount</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {preview.slice(0, 5).map((t, index) => (
+                            <tr key={index} className="border-b border-slate-700">
+                                <td className="p-3 whitespace-nowrap">{t.date}</td>
+                                <td className="p-3 text-gray-200">{t.description}</td>
+                                <td className={`p-3 text-right font-mono ${t.type === 'debit' ? 'text-red-400' : 'text-teal-400'}`}>
+                                    {t.type === 'debit' ? '-' : '+'}{formatCurrency(t.amount)}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                {preview.length === 0 && <p className="text-center text-gray-500 py-4">No transactions could be read with this mapping.</p>}
+            </div>
+        </Card>
+    );
+};
+
+export default CsvMappingForm;
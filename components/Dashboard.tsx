@@ -1,11 +1,16 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useEffect, useState } from 'react';
 import { Household } from '../types';
 import Card from './common/Card';
 import ProgressBar from './common/ProgressBar';
 import { timeAgo, formatDueDate } from '../utils/time';
 import TrendChart from './TrendChart';
 import { prepareTrendData } from '../utils/chartUtils';
-import { MoneyIcon, PiggyBankIcon, ArrowPathIcon } from './icons/Icons';
+import { computeCashFlow, reconcileSalary } from '../utils/incomeUtils';
+import { getCategoryFamilyIds } from '../utils/categoryUtils';
+import { MoneyIcon, PiggyBankIcon, ArrowPathIcon, ArrowsRightLeftIcon } from './icons/Icons';
+import Avatar from './common/Avatar';
+import { hasPermission } from '../utils/permissions';
+import * as db from '../services/db';
 
 const formatCurrency = (amountInCents: number): string => {
   const amount = amountInCents / 100;
@@ -14,15 +19,33 @@ const formatCurrency = (amountInCents: number): string => {
 
 interface DashboardProps {
   household: Household;
+  currentMemberId: string;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ household }) => {
-    const { members, expenses, budgets, categories, bucketGoals, subscriptions } = household;
+const Dashboard: React.FC<DashboardProps> = ({ household, currentMemberId }) => {
+    const { members, expenses, incomes, budgets, categories, bucketGoals, subscriptions } = household;
+    // This month's household spending per category, net of refunds linked to the expenses.
+    const [categoryTotals, setCategoryTotals] = useState<db.CategoryTotal[]>([]);
+
+    // Reloaded whenever an expense or income changes, which replaces `expenses` or `incomes`.
+    useEffect(() => {
+        const now = new Date();
+        const from = new Date(now.getFullYear(), now.getMonth(), 1).toISOString();
+        const to = new Date(now.getFullYear(), now.getMonth() + 1, 1).toISOString();
+        let isCurrent = true;
+        db.getCategoryTotals({ tripId: null, from, to })
+            .then(totals => { if (isCurrent) setCategoryTotals(totals); })
+            .catch(err => console.error("Failed to load this month's spending:", err));
+        return () => { isCurrent = false; };
+    }, [expenses, incomes]);
 
     const expensesThisMonth = expenses
         .filter(exp => new Date(exp.date).getMonth() === new Date().getMonth());
 
-    const totalExpensesThisMonth = expensesThisMonth.reduce((sum, exp) => sum + exp.amount, 0);
+    const totalExpensesThisMonth = categoryTotals.reduce((sum, t) => sum + t.amount, 0);
+
+    const cashFlow = computeCashFlow(expenses, incomes, new Date());
+    const salary = reconcileSalary(incomes, household.monthlyIncome, new Date());
 
     const totalBudgetThisMonth = budgets.reduce((sum, b) => sum + b.amount, 0);
     
@@ -55,6 +78,9 @@ const Dashboard: React.FC<DashboardProps> = ({ household }) => {
     }, [expensesThisMonth, members]);
     
     const totalSpentByMembers = spendingByMember.reduce((sum, m) => sum + m.spent, 0);
+    // Each member's total is the sum of their shares, so members who may not see others' shares only see their own.
+    const canSeeSplits = hasPermission(members.find(m => m.id === currentMemberId), 'viewAllSplits');
+    const visibleSpendingByMember = canSeeSplits ? spendingByMember : spendingByMember.filter(m => m.id === currentMemberId);
 
 
     const getCategory = (id: string) => categories.find(c => c.id === id);
@@ -62,10 +88,10 @@ const Dashboard: React.FC<DashboardProps> = ({ household }) => {
 
     return (
         <div className="space-y-6 animate-fade-in-up">
-            <h2 className="text-3xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-purple-400 to-pink-500">Welcome back, {members[0].name}!</h2>
+            <h2 className="text-3xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-purple-400 to-pink-500">Welcome back{getMember(currentMemberId) ? `, ${getMember(currentMemberId)!.name}` : ''}!</h2>
 
             {/* Quick Stats */}
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6">
                 <Card>
                     <div className="flex items-center gap-4">
                         <div className="p-3 bg-gradient-to-br from-pink-500 to-orange-400 rounded-lg shadow-lg"><MoneyIcon className="w-6 h-6 text-white"/></div>
@@ -74,6 +100,25 @@ const Dashboard: React.FC<DashboardProps> = ({ household }) => {
                             <p className="text-2xl font-bold text-white mt-1">{formatCurrency(totalExpensesThisMonth)}</p>
                         </div>
                     </div>
+                </Card>
+                <Card>
+                    <div className="flex items-center gap-4">
+                        <div className="p-3 bg-gradient-to-br from-indigo-500 to-cyan-400 rounded-lg shadow-lg"><ArrowsRightLeftIcon className="w-6 h-6 text-white"/></div>
+                        <div>
+                            <h3 className="text-gray-300 font-semibold">Net Cash Flow</h3>
+                            <p className={`text-2xl font-bold mt-1 ${cashFlow.net < 0 ? 'text-pink-400' : 'text-teal-400'}`}>
+                                {cashFlow.net < 0 ? '-' : '+'}{formatCurrency(Math.abs(cashFlow.net))}
+                            </p>
+                            <p className="text-xs text-gray-400">In {formatCurrency(cashFlow.inflow)} · Out {formatCurrency(cashFlow.outflow)}</p>
+                            {salary.status !== 'not-set' && (
+                                <p className={`text-xs mt-1 ${salary.status === 'received' ? 'text-teal-400' : 'text-amber-400'}`}>
+                                    {salary.status === 'received' && `Salary received${salary.difference > 0 ? ` (+${formatCurrency(salary.difference)} over expected)` : ''}`}
+                                    {salary.status === 'partial' && `Salary ${formatCurrency(salary.received)} of ${formatCurrency(salary.expected)} expected`}
+                                    {salary.status === 'pending' && `Salary of ${formatCurrency(salary.expected)} not received yet`}
+                                </p>
+                            )}
+                        </div>
+                    </div>
                 </Card>
                  <Card>
                     <div className="flex items-center gap-4">
@@ -108,11 +153,11 @@ const Dashboard: React.FC<DashboardProps> = ({ household }) => {
                 <Card className="lg:col-span-2">
                     <h3 className="text-xl font-bold text-white mb-4">Spending by Member</h3>
                     <div className="space-y-4">
-                        {spendingByMember.map(member => (
+                        {visibleSpendingByMember.map(member => (
                             <div key={member.id}>
                                 <div className="flex justify-between items-center mb-1">
                                     <div className="flex items-center gap-2">
-                                        <img src={member.avatarUrl} alt={member.name} className="w-6 h-6 rounded-full" />
+                                        <Avatar member={member} className="w-6 h-6" />
                                         <span className="font-semibold text-gray-300">{member.name}</span>
                                     </div>
                                     <span className="text-sm font-semibold text-white">{formatCurrency(member.spent)}</span>
@@ -132,9 +177,10 @@ const Dashboard: React.FC<DashboardProps> = ({ household }) => {
                     <div className="space-y-4">
                         {budgets.slice(0, 4).map(budget => {
                             const category = getCategory(budget.categoryId);
-                            const spent = expensesThisMonth
-                                .filter(e => e.categoryId === budget.categoryId)
-                                .reduce((sum, e) => sum + e.amount, 0);
+                            const categoryIds = getCategoryFamilyIds(categories, budget.categoryId);
+                            const spent = categoryTotals
+                                .filter(t => categoryIds.includes(t.categoryId))
+                                .reduce((sum, t) => sum + t.amount, 0);
                             const percentage = budget.amount > 0 ? spent / budget.amount : 0;
                             const color = percentage > 0.9 ? 'red' : percentage > 0.7 ? 'yellow' : 'indigo';
                             return (
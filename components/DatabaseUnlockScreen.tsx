@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import Button from './common/Button';
+import { LockClosedIcon } from './icons/Icons';
+import { getPassphraseError } from '../services/dbEncryption';
+
+interface DatabaseUnlockScreenProps {
+  onUnlock: (passphrase: string) => Promise<boolean>;
+  onRecover: (recoveryKey: string, newPassphrase: string) => Promise<boolean>;
+}
+
+const inputClass = "w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1";
+
+// Shown before the database is opened when it is stored encrypted.
+const DatabaseUnlockScreen: React.FC<DatabaseUnlockScreenProps> = ({ onUnlock, onRecover }) => {
+    const [isRecovering, setIsRecovering] = useState(false);
+    const [passphrase, setPassphrase] = useState('');
+    const [recoveryKey, setRecoveryKey] = useState('');
+    const [newPassphrase, setNewPassphrase] = useState('');
+    const [confirmPassphrase, setConfirmPassphrase] = useState('');
+    const [error, setError] = useState('');
+    const [isWorking, setIsWorking] = useState(false);
+
+    const newPassphraseError = newPassphrase ? getPassphraseError(newPassphrase) : null;
+
+    const run = async (action: () => Promise<boolean>, wrongMessage: string) => {
+        setIsWorking(true);
+        setError('');
+        try {
+            if (!(await action())) setError(wrongMessage);
+        } catch (err) {
+            console.error("Failed to unlock the database:", err);
+            setError('The database could not be opened. Please try again.');
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleUnlock = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!passphrase) return;
+        run(() => onUnlock(passphrase), 'That passphrase is not correct.');
+    };
+
+    const handleRecover = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!recoveryKey.trim() || newPassphraseError || newPassphrase !== confirmPassphrase) return;
+        run(() => onRecover(recoveryKey, newPassphrase), 'That recovery key is not correct.');
+    };
+
+    const switchMode = (recovering: boolean) => {
+        setIsRecovering(recovering);
+        setError('');
+    };
+
+    return (
+        <div className="flex flex-col items-center justify-center min-h-screen p-6">
+            <LockClosedIcon className="w-10 h-10 text-purple-400 mb-3" />
+            <h1 className="text-3xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-purple-400 to-pink-500 mb-1">FinancelyAI</h1>
+            <p className="text-gray-400 mb-8 text-center">Your financial data is encrypted on this device.</p>
+
+            {!isRecovering ? (
+                <form onSubmit={handleUnlock} className="w-full max-w-sm space-y-4">
+                    <div>
+                        <label htmlFor="dbPassphrase" className="block text-sm font-medium text-gray-300">Passphrase</label>
+                        <input id="dbPassphrase" type="password" autoFocus autoComplete="current-password" value={passphrase} onChange={e => setPassphrase(e.target.value)} className={inputClass} />
+                    </div>
+                    {error && <p className="text-sm text-red-400">{error}</p>}
+                    <Button type="submit" className="w-full" disabled={!passphrase || isWorking}>{isWorking ? 'Unlocking...' : 'Unlock'}</Button>
+                    <button type="button" onClick={() => switchMode(true)} className="block w-full text-sm text-gray-400 hover:text-white">
+                        Forgot your passphrase? Use your recovery key
+                    </button>
+                </form>
+            ) : (
+                <form onSubmit={handleRecover} className="w-full max-w-sm space-y-4">
+                    <div>
+                        <label htmlFor="recoveryKey" className="block text-sm font-medium text-gray-300">Recovery Key</label>
+                        <input id="recoveryKey" type="text" autoComplete="off" spellCheck={false} value={recoveryKey} onChange={e => setRecoveryKey(e.target.value)} placeholder="xxxx-xxxx-xxxx-xxxx-xxxx-xxxx-xxxx-xxxx" className={`${inputClass} font-mono`} />
+                    </div>
+                    <div>
+                        <label htmlFor="recoveryNewPassphrase" className="block text-sm font-medium text-gray-300">New Passphrase</label>
+                        <input id="recoveryNewPassphrase" type="password" autoComplete="new-password" value={newPassphrase} onChange={e => setNewPassphrase(e.target.value)} className={inputClass} />
+                    </div>
+                    <div>
+                        <label htmlFor="recoveryConfirmPassphrase" className="block text-sm font-medium text-gray-300">Confirm New Passphrase</label>
+                        <input id="recoveryConfirmPassphrase" type="password" autoComplete="new-password" value={confirmPassphrase} onChange={e => setConfirmPassphrase(e.target.value)} className={inputClass} />
+                    </div>
+                    {newPassphraseError && <p className="text-sm text-amber-400">{newPassphraseError}</p>}
+                    {confirmPassphrase && newPassphrase !== confirmPassphrase && <p className="text-sm text-amber-400">The passphrases don't match.</p>}
+                    {error && <p className="text-sm text-red-400">{error}</p>}
+                    <Button type="submit" className="w-full" disabled={!recoveryKey.trim() || !newPassphrase || !!newPassphraseError || newPassphrase !== confirmPassphrase || isWorking}>
+                        {isWorking ? 'Unlocking...' : 'Unlock and Set Passphrase'}
+                    </Button>
+                    <button type="button" onClick={() => switchMode(false)} className="block w-full text-sm text-gray-400 hover:text-white">
+                        Back to passphrase
+                    </button>
+                </form>
+            )}
+        </div>
+    );
+};
+
+export default DatabaseUnlockScreen;
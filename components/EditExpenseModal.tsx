@@ -0,0 +1,214 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Household, Expense, Split } from '../types';
+import Modal from './common/Modal';
+import Button from './common/Button';
+import SplitEditor, { getPayerSplits, getSplitRemainder } from './SplitEditor';
+import { getCategoryTree, getCategoryOptionLabel } from '../utils/categoryUtils';
+import { getActiveMembers } from '../utils/memberUtils';
+import { hasPermission, involvesOtherMembers, PermissionError } from '../utils/permissions';
+
+interface EditExpenseModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  expense: Expense;
+  household: Household;
+  onUpdateExpense: (expense: Expense) => Promise<void>;
+  onDeleteExpense: (expenseId: string) => Promise<void>;
+  currentMemberId: string;
+}
+
+const formatCurrency = (amountInCents: number): string => {
+    const amount = amountInCents / 100;
+    return new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(amount);
+};
+
+const EditExpenseModal: React.FC<EditExpenseModalProps> = ({ isOpen, onClose, expense, household, onUpdateExpense, onDeleteExpense, currentMemberId }) => {
+  const [description, setDescription] = useState('');
+  const [amount, setAmount] = useState('');
+  const [categoryId, setCategoryId] = useState('');
+  const [memberId, setMemberId] = useState(''); // Payer
+  const [date, setDate] = useState('');
+  const [splits, setSplits] = useState<Split[]>([]);
+  const [tripId, setTripId] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setDescription(expense.description);
+      setAmount((expense.amount / 100).toString());
+      setCategoryId(expense.categoryId);
+      setMemberId(expense.memberId);
+      setDate(expense.date.split('T')[0]);
+      setSplits(expense.splits);
+      setTripId(expense.tripId || '');
+    }
+  }, [expense, isOpen]);
+
+  const totalAmountCents = useMemo(() => Math.round(parseFloat(amount || '0') * 100), [amount]);
+  const remainingAmount = useMemo(() => getSplitRemainder(splits, totalAmountCents), [splits, totalAmountCents]);
+  // Archived members stay available only where this expense already refers to them.
+  const members = useMemo(
+    () => getActiveMembers(household.members, [expense.memberId, ...expense.splits.filter(s => s.amount !== 0).map(s => s.memberId)]),
+    [household.members, expense]
+  );
+
+  // Only members who may edit others' expenses can change the amount, payer or split of one that involves
+  // someone else. The database checks the same rule; others' shares stay hidden from the rest.
+  const canEditOthers = hasPermission(household.members.find(m => m.id === currentMemberId), 'editOthersExpenses');
+  const isSplitHidden = !canEditOthers && involvesOtherMembers(expense, currentMemberId);
+  const isReadOnly = !canEditOthers && expense.memberId !== currentMemberId;
+  const ownShare = expense.splits.find(s => s.memberId === currentMemberId)?.amount || 0;
+
+  // Unlike AddExpenseModal, existing splits are kept when the amount or payer changes.
+  // Only an expense the payer covered alone follows the new amount and payer automatically.
+  const isPaidByPayerAlone = (currentSplits: Split[], payerId: string) => {
+    const nonZero = currentSplits.filter(s => s.amount > 0);
+    return nonZero.length <= 1 && (nonZero.length === 0 || nonZero[0].memberId === payerId);
+  };
+
+  const handleAmountChange = (value: string) => {
+    if (isPaidByPayerAlone(splits, memberId)) {
+      setSplits(getPayerSplits(members, memberId, Math.round(parseFloat(value || '0') * 100)));
+    }
+    setAmount(value);
+  };
+
+  const handlePayerChange = (payerId: string) => {
+    if (isPaidByPayerAlone(splits, memberId)) {
+      setSplits(getPayerSplits(members, payerId, totalAmountCents));
+    }
+    setMemberId(payerId);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!description.trim() || totalAmountCents <= 0 || !categoryId || !memberId || Math.abs(remainingAmount) > 0) {
+      alert("Please fill all fields and ensure the expense is fully split.");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onUpdateExpense({
+        ...expense,
+        description: description.trim(),
+        amount: totalAmountCents,
+        categoryId,
+        memberId,
+        // Keep the original time of day when the date itself was not changed.
+        date: date === expense.date.split('T')[0] ? expense.date : new Date(date).toISOString(),
+        splits: splits.filter(s => s.amount > 0),
+        tripId: tripId || null,
+      });
+      onClose();
+    } catch (error) {
+      // The modal stays open, so the changes aren't lost.
+      console.error("Failed to save expense:", error);
+      alert(error instanceof PermissionError
+        ? "Your role doesn't allow this change. Nothing was saved."
+        : "Could not save the expense. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (window.confirm(`Are you sure you want to delete "${expense.description}"? This cannot be undone.`)) {
+      try {
+        await onDeleteExpense(expense.id);
+        onClose();
+      } catch (error) {
+        console.error("Failed to delete expense:", error);
+        alert("Could not delete the expense. Please try again.");
+      }
+    }
+  };
+
+  const isFormValid = description.trim() && totalAmountCents > 0 && categoryId && memberId && remainingAmount === 0;
+
+  // Who recorded and last changed the expense. Records from before members were tracked have neither.
+  const getMemberName = (memberId?: string) => household.members.find(m => m.id === memberId)?.name;
+  const auditText = [
+    getMemberName(expense.createdBy) && `Added by ${getMemberName(expense.createdBy)}`,
+    getMemberName(expense.updatedBy) && `Last edited by ${getMemberName(expense.updatedBy)}`,
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Edit Expense">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <fieldset disabled={isReadOnly} className="space-y-4">
+          <div>
+            <label htmlFor="editDescription" className="block text-sm font-medium text-gray-300">Description</label>
+            <input type="text" id="editDescription" value={description} onChange={e => setDescription(e.target.value)} className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1" required />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="editAmount" className="block text-sm font-medium text-gray-300">Amount (INR)</label>
+              <input type="number" id="editAmount" value={amount} onChange={e => handleAmountChange(e.target.value)} placeholder="0.00" className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1 disabled:opacity-60" required step="0.01" disabled={isSplitHidden} />
+            </div>
+            <div>
+              <label htmlFor="editDate" className="block text-sm font-medium text-gray-300">Date</label>
+              <input type="date" id="editDate" value={date} onChange={e => setDate(e.target.value)} className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1" required />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="editCategory" className="block text-sm font-medium text-gray-300">Category</label>
+              <select id="editCategory" value={categoryId} onChange={e => setCategoryId(e.target.value)} className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1" required>
+                {getCategoryTree(household.categories).map(({ category, depth }) => <option key={category.id} value={category.id}>{getCategoryOptionLabel(category, depth)}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="editMember" className="block text-sm font-medium text-gray-300">Paid By</label>
+              <select id="editMember" value={memberId} onChange={e => handlePayerChange(e.target.value)} className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1 disabled:opacity-60" required disabled={isSplitHidden}>
+                {members.map(mem => <option key={mem.id} value={mem.id}>{mem.name}</option>)}
+              </select>
+            </div>
+          </div>
+
+          {household.trips.length > 0 && (
+            <div>
+              <label htmlFor="editTrip" className="block text-sm font-medium text-gray-300">Trip</label>
+              <select id="editTrip" value={tripId} onChange={e => setTripId(e.target.value)} className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1">
+                <option value="">No trip (household expense)</option>
+                {household.trips.map(trip => <option key={trip.id} value={trip.id}>✈️ {trip.name}</option>)}
+              </select>
+            </div>
+          )}
+
+          {isSplitHidden && (
+            <p className="text-sm text-gray-400 p-3 bg-slate-800/50 rounded-lg">
+              Your share: <span className="font-semibold text-white">{formatCurrency(ownShare)}</span>. This expense involves other members, so only an adult or owner can change its amount, payer or split.
+            </p>
+          )}
+
+          {totalAmountCents > 0 && !isSplitHidden && (
+            <SplitEditor
+              members={members}
+              splits={splits}
+              totalAmountCents={totalAmountCents}
+              onChange={setSplits}
+            />
+          )}
+        </fieldset>
+
+        {isReadOnly && <p className="text-xs text-gray-500">Only an adult or owner can edit an expense another member paid for.</p>}
+        {auditText && <p className="text-xs text-gray-500">{auditText}</p>}
+
+        <div className="flex justify-between items-center pt-4">
+          <Button type="button" variant="danger" onClick={handleDelete}>Delete</Button>
+          <div className="flex gap-3">
+            <Button type="button" variant="secondary" onClick={onClose}>Cancel</Button>
+            <Button type="submit" disabled={!isFormValid || isSaving || isReadOnly}>
+              {isSaving ? 'Saving...' : 'Save Changes'}
+            </Button>
+          </div>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default EditExpenseModal;
@@ -56,7 +56,6 @@ const EditTripModal: React.FC<EditTripModalProps> = ({ isOpen, onClose, trip, ho
         budget: Math.round(parseFloat(budget) * 100),
         startDate: new Date(startDate).toISOString(),
         endDate: new Date(endDate).toISOString(),
-        expenses: [],
       };
       updatedTrips = [...household.trips, newTrip];
     }
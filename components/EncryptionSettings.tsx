@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { Member } from '../types';
+import Card from './common/Card';
+import Button from './common/Button';
+import { ArrowDownTrayIcon, DocumentDuplicateIcon, LockClosedIcon } from './icons/Icons';
+import { getPassphraseError } from '../services/dbEncryption';
+import { hasPermission } from '../utils/permissions';
+
+interface EncryptionSettingsProps {
+  isEncrypted: boolean;
+  currentMember: Member;
+  onEnable: (passphrase: string) => Promise<string>;
+  onChangePassphrase: (currentPassphrase: string, newPassphrase: string) => Promise<boolean>;
+  onRegenerateRecoveryKey: (passphrase: string) => Promise<string | null>;
+  onDisable: (passphrase: string) => Promise<boolean>;
+}
+
+type Mode = 'enable' | 'change' | 'recovery' | 'disable';
+
+const inputClass = "w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1";
+
+const downloadRecoveryKey = (recoveryKey: string) => {
+    const text = [
+        'FinancelyAI recovery key',
+        '',
+        recoveryKey,
+        '',
+        'Use this key to open your data if you forget your passphrase.',
+        'Keep it somewhere safe and private, away from this device.',
+    ].join('\n');
+    const url = URL.createObjectURL(new Blob([text], { type: 'text/plain;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'financely-recovery-key.txt';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+const EncryptionSettings: React.FC<EncryptionSettingsProps> = ({ isEncrypted, currentMember, onEnable, onChangePassphrase, onRegenerateRecoveryKey, onDisable }) => {
+    const [mode, setMode] = useState<Mode | null>(null);
+    const [passphrase, setPassphrase] = useState('');
+    const [newPassphrase, setNewPassphrase] = useState('');
+    const [confirmPassphrase, setConfirmPassphrase] = useState('');
+    const [error, setError] = useState('');
+    const [isWorking, setIsWorking] = useState(false);
+    // Shown once after it is created; it is not stored anywhere.
+    const [recoveryKey, setRecoveryKey] = useState<string | null>(null);
+
+    const canManage = hasPermission(currentMember, 'manageEncryption');
+    const needsCurrent = mode === 'change' || mode === 'recovery' || mode === 'disable';
+    const needsNew = mode === 'enable' || mode === 'change';
+    const newPassphraseError = needsNew && newPassphrase ? getPassphraseError(newPassphrase) : null;
+    const isFormValid = (!needsCurrent || !!passphrase)
+        && (!needsNew || (!!newPassphrase && !newPassphraseError && newPassphrase === confirmPassphrase));
+
+    const openMode = (next: Mode | null) => {
+        setMode(next);
+        setPassphrase('');
+        setNewPassphrase('');
+        setConfirmPassphrase('');
+        setError('');
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!mode || !isFormValid) return;
+        if (mode === 'disable' && !window.confirm('Store your data unencrypted on this device? Anyone with access to this browser profile will be able to read it.')) return;
+        setIsWorking(true);
+        setError('');
+        try {
+            const wrongPassphrase = 'Your current passphrase is not correct.';
+            if (mode === 'enable') {
+                setRecoveryKey(await onEnable(newPassphrase));
+            } else if (mode === 'change') {
+                if (!(await onChangePassphrase(passphrase, newPassphrase))) return setError(wrongPassphrase);
+            } else if (mode === 'recovery') {
+                const key = await onRegenerateRecoveryKey(passphrase);
+                if (!key) return setError(wrongPassphrase);
+                setRecoveryKey(key);
+            } else if (!(await onDisable(passphrase))) {
+                return setError(wrongPassphrase);
+            }
+            openMode(null);
+        } catch (err) {
+            console.error("Failed to update database encryption:", err);
+            setError('Something went wrong. Nothing was changed.');
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleCopy = async () => {
+        if (!recoveryKey) return;
+        try {
+            await navigator.clipboard.writeText(recoveryKey);
+        } catch (err) {
+            alert("Could not copy to the clipboard. Please write the key down instead.");
+        }
+    };
+
+    const submitLabels: Record<Mode, string> = {
+        enable: 'Encrypt My Data',
+        change: 'Change Passphrase',
+        recovery: 'Create New Recovery Key',
+        disable: 'Turn Off Encryption',
+    };
+
+    return (
+        <Card>
+            <div className="flex items-center gap-3 mb-4">
+                <LockClosedIcon className="w-6 h-6 text-purple-400" />
+                <h3 className="text-xl font-bold text-white">Encryption</h3>
+            </div>
+            <div className="p-3 bg-slate-800/50 rounded-lg">
+                <p className="font-semibold text-white">{isEncrypted ? 'Your data is encrypted on this device' : 'Your data is not encrypted'}</p>
+                <p className="text-sm text-gray-400">
+                    {isEncrypted
+                        ? 'The app asks for the passphrase each time it starts. AI features work as usual once it is unlocked.'
+                        : 'Anyone with access to this browser profile could read your financial history. Protect it with a passphrase.'}
+                </p>
+                {!canManage && <p className="text-xs text-gray-500 mt-2">Only an owner can change this.</p>}
+            </div>
+
+            {recoveryKey && (
+                <div className="mt-4 p-4 bg-amber-500/10 border border-amber-500/30 rounded-lg space-y-3">
+                    <p className="text-sm text-amber-300">
+                        This is your recovery key. It is the only way back in if you forget your passphrase, and it won't be shown again.
+                    </p>
+                    <p className="font-mono text-lg text-white break-all select-all">{recoveryKey}</p>
+                    <div className="flex flex-wrap gap-2">
+                        <Button size="sm" variant="secondary" onClick={() => downloadRecoveryKey(recoveryKey)}>
+                            <ArrowDownTrayIcon className="w-4 h-4" />
+                            <span>Download</span>
+                        </Button>
+                        <Button size="sm" variant="secondary" onClick={handleCopy}>
+                            <DocumentDuplicateIcon className="w-4 h-4" />
+                            <span>Copy</span>
+                        </Button>
+                        <Button size="sm" onClick={() => setRecoveryKey(null)}>I've Saved It</Button>
+                    </div>
+                </div>
+            )}
+
+            {canManage && !recoveryKey && (
+                mode === null ? (
+                    <div className="flex flex-wrap gap-2 mt-4">
+                        {isEncrypted ? (
+                            <>
+                                <Button size="sm" variant="secondary" onClick={() => openMode('change')}>Change Passphrase</Button>
+                                <Button size="sm" variant="secondary" onClick={() => openMode('recovery')}>New Recovery Key</Button>
+                                <Button size="sm" variant="danger" onClick={() => openMode('disable')}>Turn Off</Button>
+                            </>
+                        ) : (
+                            <Button size="sm" onClick={() => openMode('enable')}>Set Up Encryption</Button>
+                        )}
+                    </div>
+                ) : (
+                    <form onSubmit={handleSubmit} className="mt-4 space-y-3">
+                        {needsCurrent && (
+                            <div>
+                                <label htmlFor="encCurrent" className="block text-sm font-medium text-gray-300">Current Passphrase</label>
+                                <input id="encCurrent" type="password" autoComplete="current-password" value={passphrase} onChange={e => setPassphrase(e.target.value)} className={inputClass} />
+                            </div>
+                        )}
+                        {needsNew && (
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                                <div>
+                                    <label htmlFor="encNew" className="block text-sm font-medium text-gray-300">New Passphrase</label>
+                                    <input id="encNew" type="password" autoComplete="new-password" value={newPassphrase} onChange={e => setNewPassphrase(e.target.value)} className={inputClass} />
+                                </div>
+                                <div>
+                                    <label htmlFor="encConfirm" className="block text-sm font-medium text-gray-300">Confirm New Passphrase</label>
+                                    <input id="encConfirm" type="password" autoComplete="new-password" value={confirmPassphrase} onChange={e => setConfirmPassphrase(e.target.value)} className={inputClass} />
+                                </div>
+                            </div>
+                        )}
+                        {mode === 'enable' && <p className="text-xs text-gray-500">There is no way to reset a forgotten passphrase without the recovery key you'll get next.</p>}
+                        {newPassphraseError && <p className="text-sm text-amber-400">{newPassphraseError}</p>}
+                        {needsNew && confirmPassphrase && newPassphrase !== confirmPassphrase && <p className="text-sm text-amber-400">The passphrases don't match.</p>}
+                        {error && <p className="text-sm text-red-400">{error}</p>}
+                        <div className="flex gap-2">
+                            <Button type="submit" size="sm" variant={mode === 'disable' ? 'danger' : undefined} disabled={!isFormValid || isWorking}>
+                                {isWorking ? 'Working...' : submitLabels[mode]}
+                            </Button>
+                            <Button type="button" size="sm" variant="secondary" onClick={() => openMode(null)} disabled={isWorking}>Cancel</Button>
+                        </div>
+                    </form>
+                )
+            )}
+        </Card>
+    );
+};
+
+export default EncryptionSettings;
@@ -1,8 +1,17 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { Household, Expense } from '../types';
 import Card from './common/Card';
 import Button from './common/Button';
-import { TrashIcon, ArrowDownTrayIcon } from './icons/Icons';
+import VirtualList from './common/VirtualList';
+import { TrashIcon, ArrowDownTrayIcon, PencilIcon } from './icons/Icons';
+import EditExpenseModal from './EditExpenseModal';
+import { getRefundedAmount } from '../utils/incomeUtils';
+import { getCategoryTree, getCategoryOptionLabel, getCategoryFamilyIds, getCategoryPath } from '../utils/categoryUtils';
+import { hasPermission } from '../utils/permissions';
+import * as db from '../services/db';
+
+// Expenses are loaded from the database a page at a time as the list is scrolled.
+const PAGE_SIZE = 50;
 
 const formatCurrency = (amountInCents: number): string => {
   const amount = amountInCents / 100;
@@ -11,40 +20,100 @@ const formatCurrency = (amountInCents: number): string => {
 
 interface ExpenseTrackerProps {
   household: Household;
-  onUpdate: (data: Partial<Omit<Household, 'id'>>) => Promise<void>;
+  onUpdateExpense: (expense: Expense) => Promise<void>;
+  onDeleteExpense: (expenseId: string) => Promise<void>;
+  currentMemberId: string;
 }
 
-const ExpenseTracker: React.FC<ExpenseTrackerProps> = ({ household, onUpdate }) => {
+const ExpenseTracker: React.FC<ExpenseTrackerProps> = ({ household, onUpdateExpense, onDeleteExpense, currentMemberId }) => {
     const { expenses, members, categories } = household;
+    // Without access to others' shares, the member filter and the export only cover the current member.
+    const canSeeSplits = hasPermission(members.find(m => m.id === currentMemberId), 'viewAllSplits');
+    const filterMembers = canSeeSplits ? members : members.filter(m => m.id === currentMemberId);
     
     const [filter, setFilter] = useState<{ memberId: string, categoryId: string }>({ memberId: 'all', categoryId: 'all' });
+    const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
+    const [page, setPage] = useState<db.ExpensePage>({ expenses: [], totalCount: 0, totalAmount: 0 });
+    const [isLoading, setIsLoading] = useState(true);
+    // Household expenses of any member and category, for "Showing X of Y".
+    const [unfilteredCount, setUnfilteredCount] = useState(0);
+    // The end of the list was reached while a load was running; the next page is loaded once it finishes.
+    const [isLoadMorePending, setIsLoadMorePending] = useState(false);
+    // Only the latest request may update the list; answers to earlier ones are dropped.
+    const requestIdRef = useRef(0);
+    const lastFilterRef = useRef(filter);
 
     const getCategory = (id: string) => categories.find(c => c.id === id);
     const getMember = (id: string) => members.find(m => m.id === id);
 
     const handleDeleteExpense = async (expenseId: string) => {
         if(window.confirm('Are you sure you want to delete this expense?')) {
-            await onUpdate({
-                expenses: household.expenses.filter(exp => exp.id !== expenseId)
-            });
+            try {
+                await onDeleteExpense(expenseId);
+            } catch (error) {
+                console.error("Failed to delete expense:", error);
+                alert("Could not delete the expense. Please try again.");
+            }
         }
     };
 
-    const filteredExpenses = useMemo(() => {
-        return [...expenses]
-            .filter(exp => filter.memberId === 'all' || exp.splits.some(s => s.memberId === filter.memberId && s.amount > 0))
-            .filter(exp => filter.categoryId === 'all' || exp.categoryId === filter.categoryId)
-            .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-    }, [expenses, filter]);
-    
-    // Total amount is the sum of the full expense amounts, not the splits
-    const totalFilteredAmount = filteredExpenses.reduce((sum, exp) => sum + exp.amount, 0);
+    const expenseFilter = useMemo<db.ExpenseFilter>(() => ({
+        tripId: null, // trip expenses are listed on their trip
+        memberId: filter.memberId === 'all' ? undefined : filter.memberId,
+        // Filtering by a category includes its sub-categories.
+        categoryIds: filter.categoryId === 'all' ? undefined : getCategoryFamilyIds(categories, filter.categoryId),
+    }), [filter, categories]);
+
+    // A new filter starts from the first page. Any change to the expenses, such as an edited one,
+    // replaces `expenses` and reloads the pages already shown so the list keeps its place.
+    useEffect(() => {
+        const isNewFilter = lastFilterRef.current !== filter;
+        lastFilterRef.current = filter;
+        const count = isNewFilter ? PAGE_SIZE : Math.max(PAGE_SIZE, page.expenses.length);
+        const requestId = ++requestIdRef.current;
+        setIsLoading(true);
+        Promise.all([db.queryExpenses(expenseFilter, 0, count), db.queryExpenses({ tripId: null }, 0, 0)])
+            .then(([result, unfiltered]) => {
+                if (requestId !== requestIdRef.current) return;
+                setPage(result);
+                setUnfilteredCount(unfiltered.totalCount);
+            })
+            .catch(err => console.error("Failed to load expenses:", err))
+            .finally(() => { if (requestId === requestIdRef.current) setIsLoading(false); });
+    }, [expenseFilter, expenses]);
 
-    const handleExportCSV = () => {
-      if (filteredExpenses.length === 0) {
+    useEffect(() => {
+        if (isLoading || !isLoadMorePending) return;
+        setIsLoadMorePending(false);
+        handleLoadMore();
+    }, [isLoading, isLoadMorePending]);
+
+    const handleLoadMore = async () => {
+        if (isLoading) {
+            setIsLoadMorePending(true);
+            return;
+        }
+        if (page.expenses.length >= page.totalCount) return;
+        const requestId = ++requestIdRef.current;
+        setIsLoading(true);
+        try {
+            const next = await db.queryExpenses(expenseFilter, page.expenses.length, PAGE_SIZE);
+            if (requestId === requestIdRef.current) {
+                setPage(prev => ({ ...next, expenses: [...prev.expenses, ...next.expenses] }));
+            }
+        } catch (err) {
+            console.error("Failed to load more expenses:", err);
+        } finally {
+            if (requestId === requestIdRef.current) setIsLoading(false);
+        }
+    };
+
+    const handleExportCSV = async () => {
+      if (page.totalCount === 0) {
           alert("No expenses to export.");
           return;
       }
+      const { expenses: filteredExpenses } = await db.queryExpenses(expenseFilter, 0, page.totalCount);
 
       const headers = ["Expense ID", "Date", "Description", "Total Amount (INR)", "Category", "Payer", "Split Member", "Member's Share (INR)"];
       
@@ -60,13 +129,13 @@ const ExpenseTracker: React.FC<ExpenseTrackerProps> = ({ household, onUpdate })
       
       filteredExpenses.forEach(exp => {
           exp.splits.forEach(split => {
-              if (split.amount > 0) {
+              if (split.amount > 0 && (canSeeSplits || split.memberId === currentMemberId)) {
                   const row = [
                       formatCSVCell(exp.id),
                       new Date(exp.date).toISOString().split('T')[0],
                       formatCSVCell(exp.description),
                       (exp.amount / 100).toFixed(2),
-                      formatCSVCell(getCategory(exp.categoryId)?.name || 'Uncategorized'),
+                      formatCSVCell(getCategoryPath(categories, exp.categoryId)),
                       formatCSVCell(getMember(exp.memberId)?.name || 'Unknown'),
                       formatCSVCell(getMember(split.memberId)?.name || 'Unknown'),
                       (split.amount / 100).toFixed(2)
@@ -93,18 +162,57 @@ const ExpenseTracker: React.FC<ExpenseTrackerProps> = ({ household, onUpdate })
       }
     };
 
+    // Rows are kept to one height, which the virtual list relies on, by truncating long text.
+    const renderExpenseRow = (index: number) => {
+        const exp = page.expenses[index];
+        const category = getCategory(exp.categoryId);
+        const payer = getMember(exp.memberId);
+        const isSplit = exp.splits.length > 1;
+        const refunded = getRefundedAmount(exp.id, household.incomes);
+
+        return (
+          <div className="pb-3">
+            <div className="flex flex-col md:flex-row items-start md:items-center justify-between p-3 bg-slate-800/50 rounded-lg hover:bg-slate-700/50 transition-colors">
+              <div className="flex items-center gap-4 w-full min-w-0">
+                <span className="text-2xl mt-1 md:mt-0">{category?.icon || '❓'}</span>
+                <div className="flex-1 min-w-0">
+                  <p className="font-semibold text-white truncate">{exp.description}</p>
+                  <p className="text-sm text-gray-400 truncate">
+                    {new Date(exp.date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}
+                    {' · Paid by '}
+                    <span className="font-medium text-gray-300">{payer?.name}</span>
+                    {isSplit && <span className="text-purple-400 text-xs font-bold ml-1 p-1 bg-purple-500/10 rounded">SPLIT</span> }
+                    {refunded > 0 && <span className="text-teal-400 text-xs font-bold ml-1 p-1 bg-teal-500/10 rounded">REFUNDED {formatCurrency(refunded)}</span>}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-4 w-full md:w-auto mt-2 md:mt-0 pl-10 md:pl-0 justify-end">
+                <p className="font-bold text-lg text-pink-400 flex-1 md:flex-none text-right whitespace-nowrap">-{formatCurrency(exp.amount)}</p>
+                <Button variant="secondary" size="sm" onClick={() => setEditingExpense(exp)} className="p-2" title="Edit expense">
+                  <PencilIcon className="w-4 h-4" />
+                </Button>
+                <Button variant="danger" size="sm" onClick={() => handleDeleteExpense(exp.id)} className="p-2">
+                  <TrashIcon className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+        );
+    };
+
   return (
     <div className="animate-fade-in-up">
       <Card>
         <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
             <div>
                 <h2 className="text-2xl font-bold text-white">Expense Tracker</h2>
-                <p className="text-gray-400 mt-1">Showing {filteredExpenses.length} of {expenses.length} transactions.</p>
+                <p className="text-gray-400 mt-1">Showing {page.totalCount} of {unfilteredCount} transactions.</p>
             </div>
             <div className="flex items-center gap-4">
                 <div className="text-right">
                     <p className="text-gray-300">Total Filtered Amount</p>
-                    <p className="text-2xl font-bold text-pink-400">-{formatCurrency(totalFilteredAmount)}</p>
+                    {/* The sum of the full expense amounts less refunds, not the splits */}
+                    <p className="text-2xl font-bold text-pink-400">-{formatCurrency(page.totalAmount)}</p>
                 </div>
                 <Button variant="secondary" onClick={handleExportCSV} title="Export filtered expenses to CSV">
                     <ArrowDownTrayIcon className="w-5 h-5" />
@@ -124,7 +232,7 @@ const ExpenseTracker: React.FC<ExpenseTrackerProps> = ({ household, onUpdate })
                     onChange={(e) => setFilter(prev => ({ ...prev, memberId: e.target.value }))}
                 >
                     <option value="all">All Members</option>
-                    {members.map(mem => <option key={mem.id} value={mem.id}>{mem.name}</option>)}
+                    {filterMembers.map(mem => <option key={mem.id} value={mem.id}>{mem.name}</option>)}
                 </select>
             </div>
             <div className="flex-1">
@@ -136,52 +244,39 @@ const ExpenseTracker: React.FC<ExpenseTrackerProps> = ({ household, onUpdate })
                     onChange={(e) => setFilter(prev => ({ ...prev, categoryId: e.target.value }))}
                 >
                     <option value="all">All Categories</option>
-                    {categories.map(cat => <option key={cat.id} value={cat.id}>{cat.name}</option>)}
+                    {getCategoryTree(categories).map(({ category, depth }) => <option key={category.id} value={category.id}>{getCategoryOptionLabel(category, depth)}</option>)}
                 </select>
             </div>
         </div>
 
         {/* Expense List */}
-        <div className="space-y-3">
-          {filteredExpenses.map((exp: Expense, index: number) => {
-            const category = getCategory(exp.categoryId);
-            const payer = getMember(exp.memberId);
-            const isSplit = exp.splits.length > 1;
-            
-            return (
-              <div 
-                key={exp.id} 
-                className="flex flex-col md:flex-row items-start md:items-center justify-between p-3 bg-slate-800/50 rounded-lg hover:bg-slate-700/50 transition-colors animate-fade-in-up"
-                style={{ animationDelay: `${index * 50}ms` }}
-              >
-                <div className="flex items-center gap-4 w-full">
-                  <span className="text-2xl mt-1 md:mt-0">{category?.icon || '❓'}</span>
-                  <div className="flex-1">
-                    <p className="font-semibold text-white">{exp.description}</p>
-                    <p className="text-sm text-gray-400">
-                      {new Date(exp.date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}
-                      {' · Paid by '}
-                      <span className="font-medium text-gray-300">{payer?.name}</span>
-                      {isSplit && <span className="text-purple-400 text-xs font-bold ml-1 p-1 bg-purple-500/10 rounded">SPLIT</span> }
-                    </p>
-                  </div>
-                </div>
-                <div className="flex items-center gap-4 w-full md:w-auto mt-2 md:mt-0 pl-10 md:pl-0 justify-end">
-                  <p className="font-bold text-lg text-pink-400 flex-1 md:flex-none text-right">-{formatCurrency(exp.amount)}</p>
-                  <Button variant="danger" size="sm" onClick={() => handleDeleteExpense(exp.id)} className="p-2">
-                    <TrashIcon className="w-4 h-4" />
-                  </Button>
-                </div>
-              </div>
-            );
-          })}
-        </div>
-        {filteredExpenses.length === 0 && (
+        <VirtualList
+          key={`${filter.memberId}:${filter.categoryId}`}
+          itemCount={page.expenses.length}
+          estimatedRowHeight={80}
+          getKey={index => page.expenses[index].id}
+          renderRow={renderExpenseRow}
+          onEndReached={handleLoadMore}
+          className="max-h-[70vh] -mr-2 pr-2"
+        />
+        {!isLoading && page.totalCount === 0 && (
             <div className="text-center py-10 text-gray-500">
                 <p>No expenses match your filters.</p>
             </div>
         )}
       </Card>
+
+      {editingExpense && (
+        <EditExpenseModal
+          isOpen={!!editingExpense}
+          onClose={() => setEditingExpense(null)}
+          expense={editingExpense}
+          household={household}
+          onUpdateExpense={onUpdateExpense}
+          onDeleteExpense={onDeleteExpense}
+          currentMemberId={currentMemberId}
+        />
+      )}
     </div>
   );
 };
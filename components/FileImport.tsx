@@ -1,16 +1,32 @@
 import React, { useState, useCallback } from 'react';
-import { Household, Expense, ParsedTransaction } from '../types';
+import { Household, Expense, Income, ParsedTransaction, CsvColumnMapping, CsvProfile, ImportBatch, CategoryCorrection } from '../types';
 import { parseBankStatement, categorizeTransactions } from '../services/geminiService';
+import { getAiErrorMessage } from '../services/aiValidation';
 import Card from './common/Card';
 import { ArrowUpTrayIcon } from './icons/Icons';
 import Button from './common/Button';
 import ImportReview from './ImportReview';
+import CsvMappingForm from './CsvMappingForm';
+import ImportHistory from './ImportHistory';
+import { parseCsv, getHeaderSignature, guessColumnMapping, applyColumnMapping, ParsedCsv } from '../utils/csvParser';
+import { detectStatementFormat, parseStatement } from '../utils/statementParsers';
+import { getCategoryClassifier, suggestCategoryWithConfidence, MIN_CONFIDENCE } from '../utils/categoryClassifier';
+import { DUPLICATE_WINDOW_DAYS } from '../utils/duplicateDetection';
+import { REFUND_WINDOW_DAYS } from '../utils/incomeUtils';
+import * as db from '../services/db';
 
 interface FileImportProps {
   household: Household;
-  onAddExpense: (expense: Omit<Expense, 'id'>) => Promise<void>;
+  onImportBatch: (batch: Omit<ImportBatch, 'id' | 'createdAt'>, expenses: Omit<Expense, 'id'>[], incomes: Omit<Income, 'id'>[], corrections: Omit<CategoryCorrection, 'id' | 'createdAt'>[]) => Promise<void>;
+  onRollbackImportBatch: (batchId: string) => Promise<void>;
+  onUpdate: (data: Partial<Omit<Household, 'id'>>) => Promise<void>;
+  currentMemberId: string; // the default payer for imported rows
 }
 
+type UncategorizedTransaction = Omit<ParsedTransaction, 'categoryId' | 'memberId'>;
+
+const isCsvFile = (file: File): boolean => file.type === 'text/csv' || file.name.toLowerCase().endsWith('.csv');
+
 const fileReader = (file: File): Promise<string> => {
     return new Promise((resolve, reject) => {
         const reader = new FileReader();
@@ -24,13 +40,62 @@ const fileReader = (file: File): Promise<string> => {
     });
 };
 
-const FileImport: React.FC<FileImportProps> = ({ household, onAddExpense }) => {
+const DAY_MS = 86400000;
+
+// The recorded expenses a statement's rows may repeat or refund. A day is added on each side for time zones.
+const loadMatchableExpenses = (transactions: { date: string }[]): Promise<Expense[]> => {
+    const times = transactions.map(t => new Date(t.date).getTime()).filter(time => !isNaN(time));
+    if (times.length === 0) return Promise.resolve([]);
+    const from = new Date(Math.min(...times) - (REFUND_WINDOW_DAYS + 1) * DAY_MS).toISOString();
+    const to = new Date(Math.max(...times) + (DUPLICATE_WINDOW_DAYS + 1) * DAY_MS).toISOString();
+    return db.listExpenses({ from, to });
+};
+
+// SHA-256 of the raw file bytes, used to recognise a statement that was imported before.
+const hashFile = async (file: File): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const FileImport: React.FC<FileImportProps> = ({ household, onImportBatch, onRollbackImportBatch, onUpdate, currentMemberId }) => {
   const [isDragging, setIsDragging] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [loadingStep, setLoadingStep] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [categorizedTransactions, setCategorizedTransactions] = useState<Omit<ParsedTransaction, 'memberId'>[] | null>(null);
   const [fileName, setFileName] = useState<string | null>(null);
+  const [fileHash, setFileHash] = useState<string>('');
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [pendingCsv, setPendingCsv] = useState<ParsedCsv | null>(null);
+  const [existingExpenses, setExistingExpenses] = useState<Expense[]>([]);
+
+  // Rules and the on-device classifier go first; only rows they are unsure about are sent to the AI.
+  const categorizeForReview = useCallback(async (parsed: UncategorizedTransaction[]) => {
+    setLoadingStep("Categorizing transactions...");
+    const classifier = getCategoryClassifier();
+    const categorized: Omit<ParsedTransaction, 'memberId'>[] = parsed.map(t => {
+      const suggestion = suggestCategoryWithConfidence({ description: t.description, amount: Math.round(t.amount * 100), date: t.date }, household, classifier);
+      return { ...t, categoryId: suggestion?.categoryId || '', categorySource: suggestion?.source, categoryConfidence: suggestion?.confidence, ruleId: suggestion?.ruleId };
+    });
+
+    const uncertainIndices = categorized.flatMap((t, index) => t.type === 'debit' && (t.categoryConfidence ?? 0) < MIN_CONFIDENCE ? [index] : []);
+    if (uncertainIndices.length > 0) {
+      setLoadingStep(`Asking AI about ${uncertainIndices.length} of ${parsed.length} transactions...`);
+      try {
+        const aiCategorized = await categorizeTransactions(uncertainIndices.map(index => parsed[index]), household);
+        aiCategorized.forEach((t, i) => {
+          categorized[uncertainIndices[i]] = { ...categorized[uncertainIndices[i]], categoryId: t.categoryId, categorySource: 'ai', categoryConfidence: undefined };
+        });
+      } catch (err) {
+        // Offline or AI unavailable: keep the local guesses and let the user review them.
+        console.error("AI categorization failed, keeping local suggestions:", err);
+      }
+    }
+
+    const fallbackCategoryId = household.categories.find(c => c.name.toLowerCase() === 'other')?.id || household.categories[0]?.id || '';
+    setExistingExpenses(await loadMatchableExpenses(categorized));
+    setCategorizedTransactions(categorized.map(t => t.categoryId ? t : { ...t, categoryId: fallbackCategoryId }));
+  }, [household]);
 
   const processFile = useCallback(async (file: File) => {
     if (!file) return;
@@ -38,31 +103,86 @@ const FileImport: React.FC<FileImportProps> = ({ household, onAddExpense }) => {
     setIsLoading(true);
     setError(null);
     setCategorizedTransactions(null);
+    setPendingCsv(null);
     setFileName(file.name);
 
     try {
       setLoadingStep("Parsing file...");
       const fileContent = await fileReader(file);
+      setFileHash(await hashFile(file));
+
+      // Structured formats are parsed locally; only PDFs and images go to the AI.
+      const statementFormat = detectStatementFormat(file.name, fileContent);
+      if (statementFormat) {
+        const parsed = parseStatement(statementFormat, fileContent);
+        if (parsed.length === 0) {
+          setError("No transactions were found in this statement file.");
+          return;
+        }
+        await categorizeForReview(parsed);
+        return;
+      }
+
+      if (isCsvFile(file)) {
+        const csv = parseCsv(fileContent);
+        if (csv.rows.length === 0) {
+          setError("No transaction rows were found in this CSV file.");
+          return;
+        }
+        const profile = household.csvProfiles.find(p => p.headerSignature === getHeaderSignature(csv.headers));
+        if (!profile) {
+          setPendingCsv(csv);
+          return;
+        }
+        const parsed = applyColumnMapping(csv.rows, profile.mapping);
+        if (parsed.length === 0) {
+          setError(`The saved "${profile.name}" mapping could not read any transactions from this file.`);
+          return;
+        }
+        await categorizeForReview(parsed);
+        return;
+      }
+
       const parsed = await parseBankStatement(fileContent, file.type);
       
       if(parsed.length === 0) {
         setError("AI could not find any transactions in this file. Please try a different file or format.");
-        setIsLoading(false);
         return;
       }
       
-      setLoadingStep("Categorizing transactions...");
-      const categorized = await categorizeTransactions(parsed, household);
-      setCategorizedTransactions(categorized);
+      await categorizeForReview(parsed);
 
     } catch (err) {
       console.error("File processing failed:", err);
-      setError("Failed to analyze the file. The format might be unsupported or the file could be corrupted. Please try again.");
+      setError(getAiErrorMessage(err, "Failed to analyze the file. The format might be unsupported or the file could be corrupted. Please try again."));
     } finally {
       setIsLoading(false);
       setLoadingStep('');
     }
-  }, [household]);
+  }, [household, categorizeForReview]);
+
+  const handleMappingConfirm = async (mapping: CsvColumnMapping, profileName: string | null) => {
+    if (!pendingCsv) return;
+    const csv = pendingCsv;
+    setPendingCsv(null);
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      if (profileName) {
+        const headerSignature = getHeaderSignature(csv.headers);
+        const profile: CsvProfile = { id: `csv-${crypto.randomUUID()}`, name: profileName, headerSignature, mapping };
+        await onUpdate({ csvProfiles: [...household.csvProfiles.filter(p => p.headerSignature !== headerSignature), profile] });
+      }
+      await categorizeForReview(applyColumnMapping(csv.rows, mapping));
+    } catch (err) {
+      console.error("CSV import failed:", err);
+      setError("Failed to categorize the transactions. Please try again.");
+    } finally {
+      setIsLoading(false);
+      setLoadingStep('');
+    }
+  };
 
   const handleFileSelect = (files: FileList | null) => {
     if (files && files.length > 0) {
@@ -88,25 +208,56 @@ const FileImport: React.FC<FileImportProps> = ({ household, onAddExpense }) => {
 
   const handleReset = () => {
     setCategorizedTransactions(null);
+    setPendingCsv(null);
     setError(null);
     setFileName(null);
+    setFileHash('');
+    setExistingExpenses([]);
   }
 
   if (categorizedTransactions) {
     return <ImportReview 
               transactions={categorizedTransactions}
               fileName={fileName!}
-              onAddExpense={onAddExpense}
+              fileHash={fileHash}
+              onImportBatch={onImportBatch}
               household={household}
+              existingExpenses={existingExpenses}
+              currentMemberId={currentMemberId}
               onReset={handleReset}
            />
   }
 
+  if (pendingCsv) {
+    return <CsvMappingForm
+              fileName={fileName!}
+              headers={pendingCsv.headers}
+              rows={pendingCsv.rows}
+              initialMapping={guessColumnMapping(pendingCsv.headers, pendingCsv.rows)}
+              onConfirm={handleMappingConfirm}
+              onCancel={handleReset}
+           />
+  }
+
+  if (isHistoryOpen) {
+    return <ImportHistory
+              household={household}
+              onBack={() => setIsHistoryOpen(false)}
+              onRollbackBatch={onRollbackImportBatch}
+              currentMemberId={currentMemberId}
+           />
+  }
+
   return (
     <div className="animate-fade-in-up">
       <Card>
         <div className="flex justify-between items-center mb-4">
             <h2 className="text-2xl font-bold text-white">Import Statement</h2>
+            {household.importBatches.length > 0 && (
+                <Button variant="secondary" onClick={() => setIsHistoryOpen(true)}>
+                    Import History ({household.importBatches.length})
+                </Button>
+            )}
         </div>
 
         <div 
@@ -131,13 +282,13 @@ const FileImport: React.FC<FileImportProps> = ({ household, onAddExpense }) => {
                 type="file" 
                 id="file-upload" 
                 className="hidden" 
-                accept=".csv, .pdf, image/png, image/jpeg, image/webp"
+                accept=".csv, .ofx, .qfx, .qif, .xml, .pdf, image/png, image/jpeg, image/webp"
                 onChange={(e) => handleFileSelect(e.target.files)}
               />
               <Button type="button" variant="secondary" onClick={() => document.getElementById('file-upload')?.click()}>
                 Browse File
               </Button>
-              <p className="text-xs text-gray-500 mt-4">Supported formats: PDF, CSV, PNG, JPG, WEBP</p>
+              <p className="text-xs text-gray-500 mt-4">Supported formats: CSV, OFX/QFX, QIF, CAMT.053 XML, PDF, PNG, JPG, WEBP</p>
             </>
           )}
         </div>
@@ -0,0 +1,113 @@
+import React, { useState, useEffect } from 'react';
+import { Household, ImportBatch } from '../types';
+import Card from './common/Card';
+import Button from './common/Button';
+import { TrashIcon } from './icons/Icons';
+import { hasPermission } from '../utils/permissions';
+import * as db from '../services/db';
+
+const formatCurrency = (amountInCents: number): string => {
+  const amount = amountInCents / 100;
+  return new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', minimumFractionDigits: 0 }).format(amount);
+};
+
+const formatDate = (dateString: string): string => {
+    return new Date(dateString).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+};
+
+interface ImportHistoryProps {
+  household: Household;
+  onBack: () => void;
+  onRollbackBatch: (batchId: string) => Promise<void>;
+  currentMemberId: string;
+}
+
+const ImportHistory: React.FC<ImportHistoryProps> = ({ household, onBack, onRollbackBatch, currentMemberId }) => {
+    const [rollingBackId, setRollingBackId] = useState<string | null>(null);
+    // How many of each batch's expenses are left and their total, by batch ID.
+    const [expenseTotals, setExpenseTotals] = useState<Record<string, { count: number; amount: number }>>({});
+
+    // Reloaded whenever an expense changes, which replaces `household.expenses`.
+    useEffect(() => {
+        let isCurrent = true;
+        Promise.all(household.importBatches.map(async batch => {
+            const { totalCount, totalAmount } = await db.queryExpenses({ importBatchId: batch.id }, 0, 0);
+            return [batch.id, { count: totalCount, amount: totalAmount }] as const;
+        }))
+            .then(entries => { if (isCurrent) setExpenseTotals(Object.fromEntries(entries)); })
+            .catch(err => console.error("Failed to load import totals:", err));
+        return () => { isCurrent = false; };
+    }, [household.importBatches, household.expenses]);
+
+    const getBatchExpenseTotals = (batchId: string) => expenseTotals[batchId] || { count: 0, amount: 0 };
+    const getBatchIncomes = (batchId: string) => household.incomes.filter(i => i.importBatchId === batchId);
+    // Undoing an import deletes its expenses.
+    const canUndo = hasPermission(household.members.find(m => m.id === currentMemberId), 'deleteExpenses');
+    const getMemberName = (memberId?: string) => household.members.find(m => m.id === memberId)?.name;
+
+    const handleRollback = async (batch: ImportBatch) => {
+        const remaining = getBatchExpenseTotals(batch.id).count + getBatchIncomes(batch.id).length;
+        if (!window.confirm(`Undo the import of "${batch.fileName}"? This deletes the ${remaining} transaction(s) it created, including any edits made to them.`)) return;
+
+        setRollingBackId(batch.id);
+        try {
+            await onRollbackBatch(batch.id);
+        } catch (error) {
+            console.error("Error rolling back import:", error);
+            alert("The import could not be undone. No transactions were deleted.");
+        } finally {
+            setRollingBackId(null);
+        }
+    };
+
+    return (
+        <div className="space-y-6 animate-fade-in-up">
+            <div className="flex justify-between items-center">
+                <Button variant="secondary" onClick={onBack}>&larr; Import Statement</Button>
+            </div>
+
+            <Card>
+                <h2 className="text-2xl font-bold text-white mb-4">Import History</h2>
+                <div className="space-y-3">
+                    {household.importBatches.map(batch => {
+                        const batchExpenses = getBatchExpenseTotals(batch.id);
+                        const batchIncomes = getBatchIncomes(batch.id);
+                        const totalIncome = batchIncomes.reduce((sum, i) => sum + i.amount, 0);
+                        return (
+                            <div key={batch.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 bg-slate-800/50 rounded-lg">
+                                <div>
+                                    <p className="font-semibold text-white">{batch.fileName}</p>
+                                    <p className="text-sm text-gray-400">
+                                        Imported {formatDate(batch.createdAt)}
+                                        {getMemberName(batch.createdBy) && ` by ${getMemberName(batch.createdBy)}`}
+                                        {' · '}{batch.rowCount} rows
+                                        {' · '}{formatDate(batch.dateFrom)} - {formatDate(batch.dateTo)}
+                                    </p>
+                                    <p className="text-xs text-gray-500 mt-1">
+                                        {batchExpenses.count} expense(s) totalling {formatCurrency(batchExpenses.amount)}
+                                        {batchIncomes.length > 0 && ` and ${batchIncomes.length} income(s) totalling ${formatCurrency(totalIncome)}`}
+                                        {' still in the ledger'}
+                                    </p>
+                                </div>
+                                {canUndo && (
+                                    <Button
+                                        variant="secondary"
+                                        size="sm"
+                                        onClick={() => handleRollback(batch)}
+                                        disabled={rollingBackId !== null}
+                                    >
+                                        <TrashIcon className="w-4 h-4" />
+                                        <span>{rollingBackId === batch.id ? 'Undoing...' : 'Undo Import'}</span>
+                                    </Button>
+                                )}
+                            </div>
+                        );
+                    })}
+                    {household.importBatches.length === 0 && <p className="text-center text-gray-500 py-4">No statements have been imported yet.</p>}
+                </div>
+            </Card>
+        </div>
+    );
+};
+
+export default ImportHistory;
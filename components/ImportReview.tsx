@@ -1,34 +1,93 @@
 import React, { useState, useMemo } from 'react';
-import { Household, Expense, ParsedTransaction, Category, Member } from '../types';
+import { Household, Expense, Income, IncomeKind, ParsedTransaction, Category, Member, ImportBatch, CategoryCorrection } from '../types';
 import Card from './common/Card';
 import Button from './common/Button';
+import { findTripForDate } from '../utils/expenseUtils';
+import { findDuplicate, DuplicateMatch } from '../utils/duplicateDetection';
+import { classifyCredit, getRefundCandidates } from '../utils/incomeUtils';
+import { MIN_CONFIDENCE } from '../utils/categoryClassifier';
+import { applySplitTemplate } from '../utils/ruleEngine';
+import { createCategoryCorrection } from '../utils/ruleSuggestions';
+import { getCategoryTree, getCategoryOptionLabel } from '../utils/categoryUtils';
+import { getActiveMembers } from '../utils/memberUtils';
 
 interface ImportReviewProps {
     transactions: Omit<ParsedTransaction, 'memberId'>[];
     fileName: string;
-    onAddExpense: (expense: Omit<Expense, 'id'>) => Promise<void>;
+    fileHash: string;
+    onImportBatch: (batch: Omit<ImportBatch, 'id' | 'createdAt'>, expenses: Omit<Expense, 'id'>[], incomes: Omit<Income, 'id'>[], corrections: Omit<CategoryCorrection, 'id' | 'createdAt'>[]) => Promise<void>;
     household: Household;
+    existingExpenses: Expense[]; // the recorded expenses from around the statement's dates, trips included
+    currentMemberId: string; // the default payer
     onReset: () => void;
 }
 
+// Credits carry how they will be recorded; debits ignore these fields.
+// `suggestedCategoryId` is the category the row started with, to notice when the user corrects it.
+type ReviewableTransaction = ParsedTransaction & {
+    suggestedCategoryId: string;
+    duplicate: DuplicateMatch | null;
+    incomeKind: IncomeKind;
+    refundOfExpenseId: string | null;
+};
+
+const INCOME_KIND_LABELS: Record<IncomeKind, string> = {
+    salary: 'Salary',
+    refund: 'Refund',
+    other: 'Other income',
+};
+
+// Describes where a row's category came from, or null once the user has picked one themselves.
+const describeCategorySuggestion = (t: ParsedTransaction): { label: string; className: string } | null => {
+    switch (t.categorySource) {
+        case 'rule': return { label: 'Rule match', className: 'text-teal-400' };
+        case 'history': {
+            const confidence = t.categoryConfidence ?? 0;
+            return { label: `Learned · ${Math.round(confidence * 100)}% sure`, className: confidence >= MIN_CONFIDENCE ? 'text-teal-400' : 'text-amber-400' };
+        }
+        case 'ai': return { label: 'AI suggestion', className: 'text-purple-400' };
+        default: return null;
+    }
+};
+
 const formatCurrency = (amount: number): string => {
   return new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', minimumFractionDigits: 2 }).format(amount);
 };
 
-const ImportReview: React.FC<ImportReviewProps> = ({ transactions, fileName, onAddExpense, household, onReset }) => {
-    const initialReviewableTransactions = useMemo(() => {
-        const defaultMemberId = household.members[0]?.id || '';
-        return transactions
-            .filter(t => t.type === 'debit') // Only import expenses (debits)
-            .map(t => ({ ...t, memberId: defaultMemberId }));
-    }, [transactions, household.members]);
+const ImportReview: React.FC<ImportReviewProps> = ({ transactions, fileName, fileHash, onImportBatch, household, existingExpenses, currentMemberId, onReset }) => {
+    const initialReviewableTransactions = useMemo((): ReviewableTransaction[] => {
+        const defaultMemberId = currentMemberId;
+        return transactions.map(t => {
+            if (t.type === 'credit') {
+                const { kind, refundOfExpenseId } = classifyCredit(t, existingExpenses);
+                return { ...t, memberId: defaultMemberId, tripId: null, suggestedCategoryId: t.categoryId, duplicate: findDuplicate(t, household.incomes), incomeKind: kind, refundOfExpenseId };
+            }
+            const rule = household.rules.find(r => r.id === t.ruleId);
+            return {
+                ...t,
+                memberId: rule?.payerMemberId || defaultMemberId,
+                tripId: rule?.tripId || findTripForDate(t.date, household.trips)?.id || null,
+                suggestedCategoryId: t.categoryId,
+                duplicate: findDuplicate(t, existingExpenses),
+                incomeKind: 'other' as IncomeKind,
+                refundOfExpenseId: null,
+            };
+        });
+    }, [transactions, currentMemberId, household.trips, household.incomes, household.rules, existingExpenses]);
 
-    const [reviewableTransactions, setReviewableTransactions] = useState<ParsedTransaction[]>(initialReviewableTransactions);
-    const [selectedRows, setSelectedRows] = useState<Set<number>>(new Set(initialReviewableTransactions.map((_, index) => index)));
+    const [reviewableTransactions, setReviewableTransactions] = useState<ReviewableTransaction[]>(initialReviewableTransactions);
+    // Likely duplicates start deselected so a re-imported statement doesn't create them again.
+    const [selectedRows, setSelectedRows] = useState<Set<number>>(
+        new Set(initialReviewableTransactions.flatMap((t, index) => t.duplicate ? [] : [index]))
+    );
+    const [expandedDuplicate, setExpandedDuplicate] = useState<number | null>(null);
     const [isImporting, setIsImporting] = useState(false);
     
     const getCategory = (id: string): Category | undefined => household.categories.find(c => c.id === id);
     const getMember = (id: string): Member | undefined => household.members.find(m => m.id === id);
+    const getExpense = (id: string): Expense | undefined => existingExpenses.find(e => e.id === id);
+    const getIncome = (id: string): Income | undefined => household.incomes.find(i => i.id === id);
+    const getTrip = (id: string | null | undefined) => household.trips.find(t => t.id === id);
 
     const handleSelectionChange = (index: number) => {
         const newSelection = new Set(selectedRows);
@@ -48,43 +107,96 @@ const ImportReview: React.FC<ImportReviewProps> = ({ transactions, fileName, onA
         }
     };
     
-    const updateTransaction = (index: number, field: keyof ParsedTransaction, value: string) => {
+    const updateTransaction = (index: number, field: keyof ReviewableTransaction, value: string | null) => {
         const updated = [...reviewableTransactions];
         updated[index] = { ...updated[index], [field]: value };
         setReviewableTransactions(updated);
     };
 
+    const handleCategoryChange = (index: number, categoryId: string) => {
+        const updated = [...reviewableTransactions];
+        updated[index] = { ...updated[index], categoryId, categorySource: undefined, categoryConfidence: undefined };
+        setReviewableTransactions(updated);
+    };
+
+    const handleIncomeKindChange = (index: number, kind: IncomeKind) => {
+        const updated = [...reviewableTransactions];
+        const t = updated[index];
+        const [bestCandidate] = kind === 'refund' ? getRefundCandidates(t, existingExpenses) : [];
+        updated[index] = { ...t, incomeKind: kind, refundOfExpenseId: kind === 'refund' ? t.refundOfExpenseId || bestCandidate?.expense.id || null : null };
+        setReviewableTransactions(updated);
+    };
+
+    const handleNotDuplicate = (index: number) => {
+        const updated = [...reviewableTransactions];
+        updated[index] = { ...updated[index], duplicate: null };
+        setReviewableTransactions(updated);
+        setSelectedRows(new Set(selectedRows).add(index));
+        setExpandedDuplicate(null);
+    };
+
     const handleImportSelected = async () => {
         setIsImporting(true);
         const expensesToImport: Omit<Expense, 'id'>[] = [];
+        const incomesToImport: Omit<Income, 'id'>[] = [];
+        const corrections: Omit<CategoryCorrection, 'id' | 'createdAt'>[] = [];
         const importedIndices = new Set<number>();
 
         selectedRows.forEach(index => {
             const t = reviewableTransactions[index];
             const amountInCents = Math.round(t.amount * 100);
+            importedIndices.add(index);
+            if (t.type === 'credit') {
+                incomesToImport.push({
+                    description: t.description,
+                    amount: amountInCents,
+                    date: new Date(t.date).toISOString(),
+                    memberId: t.memberId,
+                    kind: t.incomeKind,
+                    refundOfExpenseId: t.incomeKind === 'refund' ? t.refundOfExpenseId : null,
+                    externalId: t.externalId || null,
+                });
+                return;
+            }
+            const splitTemplate = household.rules.find(r => r.id === t.ruleId)?.splitTemplate;
             expensesToImport.push({
                 description: t.description,
                 amount: amountInCents,
                 date: new Date(t.date).toISOString(),
                 memberId: t.memberId,
                 categoryId: t.categoryId,
-                // For imported transactions, the payer covers the full amount by default.
-                // The user can manually split it later if needed.
-                splits: [{ memberId: t.memberId, amount: amountInCents }],
+                // For imported transactions, the payer covers the full amount unless the matching
+                // rule has a split template. The user can manually split it later if needed.
+                splits: splitTemplate?.length
+                    ? applySplitTemplate(splitTemplate, amountInCents, t.memberId)
+                    : [{ memberId: t.memberId, amount: amountInCents }],
+                tripId: t.tripId || null,
+                externalId: t.externalId || null,
             });
-            importedIndices.add(index);
+            const correction = createCategoryCorrection(expensesToImport[expensesToImport.length - 1], t.suggestedCategoryId, t.categoryId);
+            if (correction) corrections.push(correction);
         });
 
+        const dates = [...expensesToImport, ...incomesToImport].map(r => r.date.split('T')[0]).sort();
+        const batch: Omit<ImportBatch, 'id' | 'createdAt'> = {
+            fileName,
+            fileHash,
+            rowCount: importedIndices.size,
+            dateFrom: dates[0],
+            dateTo: dates[dates.length - 1],
+        };
+
         try {
-            await Promise.all(expensesToImport.map(exp => onAddExpense(exp)));
+            await onImportBatch(batch, expensesToImport, incomesToImport, corrections);
             
             // Remove imported transactions from the review list
             setReviewableTransactions(prev => prev.filter((_, index) => !importedIndices.has(index)));
             setSelectedRows(new Set()); // Clear selection
+            setExpandedDuplicate(null);
 
         } catch (error) {
             console.error("Error during import:", error);
-            alert("An error occurred while importing expenses. Please try again.");
+            alert("An error occurred while importing transactions. Please try again.");
         } finally {
             setIsImporting(false);
         }
@@ -93,6 +205,8 @@ const ImportReview: React.FC<ImportReviewProps> = ({ transactions, fileName, onA
     const allSelected = selectedRows.size === reviewableTransactions.length && reviewableTransactions.length > 0;
     const debitsFound = transactions.filter(t => t.type === 'debit').length;
     const creditsFound = transactions.length - debitsFound;
+    const duplicatesFound = reviewableTransactions.filter(t => t.duplicate).length;
+    const previousImport = household.importBatches.find(b => b.fileHash === fileHash);
 
     return (
         <Card className="animate-fade-in-up">
@@ -102,6 +216,16 @@ const ImportReview: React.FC<ImportReviewProps> = ({ transactions, fileName, onA
                     <p className="text-gray-400 mt-1">
                         Found {debitsFound} expenses and {creditsFound} income transactions in "{fileName}".
                     </p>
+                    {previousImport && (
+                        <p className="text-amber-400 text-sm mt-1">
+                            This file was already imported on {new Date(previousImport.createdAt).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}.
+                        </p>
+                    )}
+                    {duplicatesFound > 0 && (
+                        <p className="text-amber-400 text-sm mt-1">
+                            {duplicatesFound} look like transactions you already have and were left unselected.
+                        </p>
+                    )}
                 </div>
                  <div className="flex gap-3">
                     <Button variant="secondary" onClick={onReset}>Start Over</Button>
@@ -122,27 +246,76 @@ const ImportReview: React.FC<ImportReviewProps> = ({ transactions, fileName, onA
                                 <th className="p-3">Date</th>
                                 <th className="p-3">Description</th>
                                 <th className="p-3 text-right">Amount</th>
-                                <th className="p-3">Category</th>
-                                <th className="p-3">Paid By</th>
+                                <th className="p-3">Category / Type</th>
+                                <th className="p-3">Member</th>
+                                {household.trips.length > 0 && <th className="p-3">Trip</th>}
                             </tr>
                         </thead>
                         <tbody>
-                            {reviewableTransactions.map((t, index) => (
-                                <tr key={index} className={`border-b border-slate-700 ${selectedRows.has(index) ? 'bg-slate-700/50' : 'hover:bg-slate-800/50'}`}>
+                            {reviewableTransactions.map((t, index) => {
+                                const isCredit = t.type === 'credit';
+                                const match = !t.duplicate ? undefined : isCredit ? getIncome(t.duplicate.recordId) : getExpense(t.duplicate.recordId);
+                                const matchedExpense = match && !isCredit ? getExpense(match.id) : undefined;
+                                const suggestion = describeCategorySuggestion(t);
+                                return (
+                                <React.Fragment key={index}>
+                                <tr className={`border-b border-slate-700 ${selectedRows.has(index) ? 'bg-slate-700/50' : 'hover:bg-slate-800/50'}`}>
                                     <td className="p-3">
                                         <input type="checkbox" checked={selectedRows.has(index)} onChange={() => handleSelectionChange(index)} className="rounded bg-slate-600 border-slate-500 focus:ring-indigo-500" />
                                     </td>
                                     <td className="p-3 whitespace-nowrap">{new Date(t.date).toLocaleDateString('en-CA')}</td>
-                                    <td className="p-3 text-gray-200">{t.description}</td>
-                                    <td className="p-3 text-right font-mono text-red-400">-{formatCurrency(t.amount)}</td>
+                                    <td className="p-3 text-gray-200">
+                                        {t.description}
+                                        {t.duplicate && match && (
+                                            <button
+                                                type="button"
+                                                onClick={() => setExpandedDuplicate(expandedDuplicate === index ? null : index)}
+                                                className="block text-xs text-amber-400 hover:text-amber-300 underline mt-1"
+                                                title={t.duplicate.reason}
+                                            >
+                                                Possible duplicate of "{match.description}"
+                                            </button>
+                                        )}
+                                    </td>
+                                    <td className={`p-3 text-right font-mono ${isCredit ? 'text-teal-400' : 'text-red-400'}`}>{isCredit ? '+' : '-'}{formatCurrency(t.amount)}</td>
                                     <td className="p-3">
-                                        <select 
-                                            value={t.categoryId} 
-                                            onChange={e => updateTransaction(index, 'categoryId', e.target.value)} 
-                                            className="bg-slate-700 border-slate-600 rounded-md text-sm p-1.5 w-full max-w-[150px]"
-                                        >
-                                            {household.categories.map(c => <option key={c.id} value={c.id}>{c.icon} {c.name}</option>)}
-                                        </select>
+                                        {isCredit ? (
+                                            <div className="space-y-1">
+                                                <select
+                                                    value={t.incomeKind}
+                                                    onChange={e => handleIncomeKindChange(index, e.target.value as IncomeKind)}
+                                                    className="bg-slate-700 border-slate-600 rounded-md text-sm p-1.5 w-full max-w-[150px]"
+                                                >
+                                                    {(Object.keys(INCOME_KIND_LABELS) as IncomeKind[]).map(kind => <option key={kind} value={kind}>{INCOME_KIND_LABELS[kind]}</option>)}
+                                                </select>
+                                                {t.incomeKind === 'refund' && (
+                                                    <select
+                                                        value={t.refundOfExpenseId || ''}
+                                                        onChange={e => updateTransaction(index, 'refundOfExpenseId', e.target.value || null)}
+                                                        className="bg-slate-700 border-slate-600 rounded-md text-sm p-1.5 w-full max-w-[150px]"
+                                                        title="The expense this refund reduces"
+                                                    >
+                                                        <option value="">Not linked</option>
+                                                        {getRefundCandidates(t, existingExpenses).slice(0, 20).map(({ expense }) => (
+                                                            <option key={expense.id} value={expense.id}>
+                                                                {expense.description} ({new Date(expense.date).toLocaleDateString('en-CA')})
+                                                            </option>
+                                                        ))}
+                                                    </select>
+                                                )}
+                                            </div>
+                                        ) : (
+                                            <div className="space-y-1">
+                                                <select 
+                                                    value={t.categoryId} 
+                                                    onChange={e => handleCategoryChange(index, e.target.value)} 
+                                                    className="bg-slate-700 border-slate-600 rounded-md text-sm p-1.5 w-full max-w-[150px]"
+                                                >
+                                                    {getCategoryTree(household.categories).map(({ category, depth }) => <option key={category.id} value={category.id}>{getCategoryOptionLabel(category, depth)}</option>)}
+                                                </select>
+                                                {suggestion && <p className={`text-xs ${suggestion.className}`}>{suggestion.label}</p>}
+                                            </div>
+                                        )}
                                     </td>
                                     <td className="p-3">
                                         <select 
@@ -150,17 +323,54 @@ const ImportReview: React.FC<ImportReviewProps> = ({ transactions, fileName, onA
                                             onChange={e => updateTransaction(index, 'memberId', e.target.value)}
                                             className="bg-slate-700 border-slate-600 rounded-md text-sm p-1.5 w-full max-w-[120px]"
                                         >
-                                            {household.members.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                                            {getActiveMembers(household.members, [t.memberId]).map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
                                         </select>
                                     </td>
+                                    {household.trips.length > 0 && (
+                                        <td className="p-3">
+                                            {!isCredit && <select
+                                                value={t.tripId || ''}
+                                                onChange={e => updateTransaction(index, 'tripId', e.target.value || null)}
+                                                className="bg-slate-700 border-slate-600 rounded-md text-sm p-1.5 w-full max-w-[150px]"
+                                            >
+                                                <option value="">None</option>
+                                                {household.trips.map(trip => <option key={trip.id} value={trip.id}>{trip.name}</option>)}
+                                            </select>}
+                                        </td>
+                                    )}
                                 </tr>
-                            ))}
+                                {expandedDuplicate === index && t.duplicate && match && (
+                                    <tr className="border-b border-slate-700 bg-amber-500/5">
+                                        <td></td>
+                                        <td colSpan={household.trips.length > 0 ? 6 : 5} className="p-3">
+                                            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                                                <div className="text-sm">
+                                                    <p className="text-gray-300">
+                                                        Existing {isCredit ? 'income' : 'expense'}: <span className="font-semibold text-white">{match.description}</span>
+                                                        {' · '}{new Date(match.date).toLocaleDateString('en-CA')}
+                                                        {' · '}{formatCurrency(match.amount / 100)}
+                                                        {matchedExpense && ` · ${getCategory(matchedExpense.categoryId)?.name || 'Uncategorized'}`}
+                                                        {' · '}{isCredit ? 'Received by' : 'Paid by'}{' '}{getMember(match.memberId)?.name || 'Unknown'}
+                                                        {getTrip(matchedExpense?.tripId) && ` · ${getTrip(matchedExpense?.tripId)!.name}`}
+                                                    </p>
+                                                    <p className="text-xs text-gray-500 mt-1">{t.duplicate.reason}</p>
+                                                </div>
+                                                <Button variant="secondary" size="sm" onClick={() => handleNotDuplicate(index)}>
+                                                    Not a Duplicate
+                                                </Button>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                )}
+                                </React.Fragment>
+                                );
+                            })}
                         </tbody>
                     </table>
                 </div>
             ) : (
                 <div className="text-center py-10 text-gray-500">
-                    <p>All expenses from this file have been imported!</p>
+                    <p>All transactions from this file have been imported!</p>
                 </div>
             )}
         </Card>
@@ -0,0 +1,129 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Member } from '../types';
+import Button from './common/Button';
+import Avatar from './common/Avatar';
+import { LockClosedIcon } from './icons/Icons';
+
+interface LockScreenProps {
+  members: Member[]; // active members who can sign in
+  initialMemberId?: string;
+  onCheckPin: (memberId: string, pin: string) => Promise<boolean>;
+  onUnlock: (memberId: string) => void;
+}
+
+// After this many wrong PINs in a row, further attempts wait for the lockout to pass.
+const MAX_ATTEMPTS = 5;
+const LOCKOUT_SECONDS = 30;
+
+const LockScreen: React.FC<LockScreenProps> = ({ members, initialMemberId, onCheckPin, onUnlock }) => {
+    const [selectedId, setSelectedId] = useState<string | null>(() => {
+        const initial = members.find(m => m.id === initialMemberId);
+        return initial?.hasPin ? initial.id : null;
+    });
+    const [pin, setPin] = useState('');
+    const [error, setError] = useState('');
+    const [failedAttempts, setFailedAttempts] = useState(0);
+    const [lockedUntil, setLockedUntil] = useState(0);
+    const [now, setNow] = useState(Date.now());
+    const [isChecking, setIsChecking] = useState(false);
+    const pinInputRef = useRef<HTMLInputElement>(null);
+
+    const selectedMember = members.find(m => m.id === selectedId);
+    const secondsLeft = Math.max(0, Math.ceil((lockedUntil - now) / 1000));
+
+    useEffect(() => {
+        if (selectedMember) pinInputRef.current?.focus();
+    }, [selectedMember]);
+
+    // Tick while locked out so the countdown updates and the form re-enables itself.
+    useEffect(() => {
+        if (lockedUntil <= Date.now()) return;
+        const timer = window.setInterval(() => setNow(Date.now()), 1000);
+        return () => window.clearInterval(timer);
+    }, [lockedUntil]);
+
+    const handleSelect = (member: Member) => {
+        if (!member.hasPin) {
+            onUnlock(member.id);
+            return;
+        }
+        setSelectedId(member.id);
+        setPin('');
+        setError('');
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!selectedMember || !pin || secondsLeft > 0) return;
+        setIsChecking(true);
+        try {
+            if (await onCheckPin(selectedMember.id, pin)) {
+                onUnlock(selectedMember.id);
+                return;
+            }
+            const attempts = failedAttempts + 1;
+            setPin('');
+            if (attempts >= MAX_ATTEMPTS) {
+                setFailedAttempts(0);
+                setLockedUntil(Date.now() + LOCKOUT_SECONDS * 1000);
+                setNow(Date.now());
+                setError(`Too many wrong PINs. Try again in ${LOCKOUT_SECONDS} seconds.`);
+            } else {
+                setFailedAttempts(attempts);
+                setError(`Wrong PIN. ${MAX_ATTEMPTS - attempts} attempt(s) left.`);
+            }
+        } catch (error) {
+            console.error("Failed to check PIN:", error);
+            setError('The PIN could not be checked. Please try again.');
+        } finally {
+            setIsChecking(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex flex-col items-center justify-center p-6 bg-slate-950">
+            <LockClosedIcon className="w-10 h-10 text-purple-400 mb-3" />
+            <h1 className="text-3xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-purple-400 to-pink-500 mb-1">FinancelyAI</h1>
+            <p className="text-gray-400 mb-8">{selectedMember ? `Enter the PIN for ${selectedMember.name}` : "Who's using the app?"}</p>
+
+            {selectedMember ? (
+                <form onSubmit={handleSubmit} className="w-full max-w-xs flex flex-col items-center gap-4">
+                    <Avatar member={selectedMember} className="w-20 h-20 text-xl" />
+                    <input
+                        ref={pinInputRef}
+                        type="password"
+                        inputMode="numeric"
+                        autoComplete="off"
+                        maxLength={8}
+                        value={pin}
+                        onChange={e => setPin(e.target.value.replace(/\D/g, ''))}
+                        disabled={secondsLeft > 0 || isChecking}
+                        aria-label="PIN"
+                        className="w-full text-center tracking-[0.5em] text-2xl bg-slate-700 border-slate-600 rounded-md shadow-sm"
+                    />
+                    {error && <p className="text-sm text-red-400 text-center">{secondsLeft > 0 ? `Too many wrong PINs. Try again in ${secondsLeft}s.` : error}</p>}
+                    <Button type="submit" className="w-full" disabled={!pin || secondsLeft > 0 || isChecking}>
+                        {isChecking ? 'Checking...' : 'Unlock'}
+                    </Button>
+                    <button type="button" onClick={() => { setSelectedId(null); setError(''); }} className="text-sm text-gray-400 hover:text-white">
+                        Not {selectedMember.name}?
+                    </button>
+                </form>
+            ) : (
+                <div className="flex flex-wrap justify-center gap-6 max-w-xl">
+                    {members.map(member => (
+                        <button key={member.id} onClick={() => handleSelect(member)} className="flex flex-col items-center gap-2 group">
+                            <Avatar member={member} className="w-20 h-20 text-xl border-2 border-transparent group-hover:border-purple-500" />
+                            <span className="text-gray-300 group-hover:text-white flex items-center gap-1">
+                                {member.name}
+                                {member.hasPin && <LockClosedIcon className="w-3.5 h-3.5 text-gray-500" />}
+                            </span>
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default LockScreen;
@@ -0,0 +1,276 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Household, Member, MemberAvatar, MemberRole } from '../types';
+import Card from './common/Card';
+import Button from './common/Button';
+import Avatar from './common/Avatar';
+import { TrashIcon, PencilIcon, CameraIcon } from './icons/Icons';
+import { getActiveMembers, getMemberUsage, hasMemberHistory } from '../utils/memberUtils';
+import { hasPermission, ROLE_LABELS, ROLE_DESCRIPTIONS } from '../utils/permissions';
+import * as db from '../services/db';
+
+interface MemberSettingsProps {
+  household: Household;
+  currentMember: Member;
+  onSaveMember: (member: Member, avatar?: MemberAvatar | null) => Promise<void>;
+  onRemoveMember: (memberId: string, reassignToId: string | null) => Promise<void>;
+}
+
+// Avatars are scaled down before they are stored, so a phone photo doesn't bloat the database.
+const AVATAR_SIZE = 256;
+
+const resizeAvatar = async (file: File): Promise<MemberAvatar> => {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, AVATAR_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.85));
+    if (!blob) throw new Error('Could not encode the image');
+    return { data: new Uint8Array(await blob.arrayBuffer()), type: blob.type };
+};
+
+interface MemberDraft {
+  id: string | null; // null for a new member
+  name: string;
+  role: MemberRole;
+  avatar?: MemberAvatar | null; // undefined keeps the stored picture, null removes it
+  previewUrl: string;
+}
+
+const emptyDraft = (): MemberDraft => ({ id: null, name: '', role: 'adult', previewUrl: '' });
+
+const describeUsage = (usage: ReturnType<typeof getMemberUsage>): string => {
+    const parts = [
+        [usage.paidExpenses, 'expense(s) paid'],
+        [usage.splits, 'expense share(s)'],
+        [usage.incomes, 'income(s)'],
+        [usage.settlements, 'settlement(s)'],
+        [usage.rules, 'rule(s)'],
+    ] as const;
+    return parts.filter(([count]) => count > 0).map(([count, label]) => `${count} ${label}`).join(', ');
+};
+
+const MemberSettings: React.FC<MemberSettingsProps> = ({ household, currentMember, onSaveMember, onRemoveMember }) => {
+    const [draft, setDraft] = useState<MemberDraft>(emptyDraft);
+    const [removingId, setRemovingId] = useState<string | null>(null);
+    const [reassignToId, setReassignToId] = useState('');
+    const [isBusy, setIsBusy] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    // What each member paid and shares across every expense, trips included. Read when a removal starts.
+    const [memberTotals, setMemberTotals] = useState<db.MemberTotal[]>([]);
+
+    const { members } = household;
+    const activeMembers = getActiveMembers(members);
+    const activeOwners = activeMembers.filter(m => m.role === 'owner');
+    // Members who can't manage the household may still change their own name and picture.
+    const canManage = hasPermission(currentMember, 'manageMembers');
+    // The household always keeps an active owner to manage it and answer approval requests.
+    const isLastOwner = (member: Member) => !member.archived && member.role === 'owner' && activeOwners.length <= 1;
+    const nameTaken = members.some(m => m.id !== draft.id && m.name.trim().toLowerCase() === draft.name.trim().toLowerCase());
+    const getMember = (id: string | null) => members.find(m => m.id === id);
+
+    // Release the preview of a newly picked picture once it is replaced or the form is reset.
+    useEffect(() => {
+        if (!draft.avatar) return;
+        const url = draft.previewUrl;
+        return () => URL.revokeObjectURL(url);
+    }, [draft.avatar, draft.previewUrl]);
+
+    const handleEdit = (member: Member) => {
+        setDraft({ id: member.id, name: member.name, role: member.role, previewUrl: member.avatarUrl });
+        setRemovingId(null);
+    };
+
+    const handleAvatarChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const avatar = await resizeAvatar(file);
+            setDraft(prev => ({ ...prev, avatar, previewUrl: URL.createObjectURL(new Blob([avatar.data], { type: avatar.type })) }));
+        } catch (error) {
+            console.error("Failed to read avatar image:", error);
+            alert("That file could not be read as an image.");
+        }
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!draft.name.trim() || nameTaken) return;
+        const existing = getMember(draft.id);
+        const member: Member = {
+            id: draft.id || `mem-${crypto.randomUUID()}`,
+            name: draft.name.trim(),
+            avatarUrl: existing?.avatarUrl || '',
+            role: draft.role,
+            archived: existing?.archived || false,
+        };
+        setIsBusy(true);
+        try {
+            await onSaveMember(member, draft.avatar);
+            setDraft(emptyDraft());
+        } catch (error) {
+            alert("Could not save the member. Please try again.");
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const runMemberChange = async (memberId: string, action: () => Promise<void>) => {
+        setIsBusy(true);
+        try {
+            await action();
+            if (draft.id === memberId) setDraft(emptyDraft());
+            setRemovingId(null);
+        } catch (error) {
+            alert("Could not update the member. Nothing was changed.");
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleRemoveClick = async (member: Member) => {
+        let totals: db.MemberTotal[];
+        try {
+            totals = await db.getMemberTotals();
+        } catch (error) {
+            console.error("Failed to load member totals:", error);
+            alert("Could not check what is recorded for this member. Nothing was changed.");
+            return;
+        }
+        setMemberTotals(totals);
+        if (hasMemberHistory(household, member.id, totals)) {
+            setRemovingId(member.id);
+            setReassignToId('');
+            return;
+        }
+        if (!window.confirm(`Remove ${member.name} from the household?`)) return;
+        await runMemberChange(member.id, () => onRemoveMember(member.id, null));
+    };
+
+    const handleReassign = async () => {
+        const member = getMember(removingId);
+        const target = getMember(reassignToId);
+        if (!member || !target) return;
+        if (!window.confirm(`Move everything recorded for ${member.name} to ${target.name} and remove ${member.name}? This cannot be undone.`)) return;
+        await runMemberChange(member.id, () => onRemoveMember(member.id, target.id));
+    };
+
+    const handleArchive = async (member: Member, archived: boolean) => {
+        await runMemberChange(member.id, () => onSaveMember({ ...member, archived }));
+    };
+
+    return (
+        <Card>
+            <h3 className="text-xl font-bold text-white mb-4">Household Members</h3>
+            <div className="space-y-2 mb-6">
+                {members.map(member => {
+                    // The household always keeps at least one active member to record expenses against.
+                    const isLastActive = !member.archived && activeMembers.length <= 1;
+                    const cannotRemove = isLastActive || isLastOwner(member);
+                    return (
+                        <div key={member.id}>
+                            <div className="flex items-center justify-between gap-2 bg-slate-800/50 p-2 rounded-md">
+                                <span className={`flex items-center gap-3 ${member.archived ? 'opacity-60' : ''}`}>
+                                    <Avatar member={member} className="w-9 h-9" />
+                                    <span className="font-semibold text-white">{member.name}</span>
+                                    <span className="text-xs px-2 py-0.5 rounded-full bg-purple-500/20 text-purple-300" title={ROLE_DESCRIPTIONS[member.role]}>{ROLE_LABELS[member.role]}</span>
+                                    {member.archived && <span className="text-xs px-2 py-0.5 rounded-full bg-slate-700 text-gray-300">Archived</span>}
+                                </span>
+                                <div className="flex items-center gap-1">
+                                    {member.archived ? (
+                                        canManage && <Button size="sm" variant="secondary" onClick={() => handleArchive(member, false)} disabled={isBusy}>Restore</Button>
+                                    ) : (canManage || member.id === currentMember.id) && (
+                                        <button onClick={() => handleEdit(member)} className="text-gray-400 hover:text-white p-1" title="Edit">
+                                            <PencilIcon className="w-4 h-4" />
+                                        </button>
+                                    )}
+                                    {canManage && (
+                                        <button
+                                            onClick={() => handleRemoveClick(member)}
+                                            className="text-red-400 hover:text-red-300 p-1 disabled:opacity-30 disabled:cursor-not-allowed"
+                                            title={isLastActive ? 'The household needs at least one member' : isLastOwner(member) ? 'The household needs at least one owner' : 'Remove'}
+                                            disabled={isBusy || cannotRemove}
+                                        >
+                                            <TrashIcon className="w-4 h-4" />
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                            {removingId === member.id && (
+                                <div className="mt-2 p-3 bg-slate-900/50 rounded-md space-y-3">
+                                    <p className="text-sm text-gray-300">
+                                        {member.name} has history ({describeUsage(getMemberUsage(household, member.id, memberTotals))}). Move it to another member, or archive {member.name} to keep it as is.
+                                    </p>
+                                    <div className="flex flex-wrap items-center gap-2">
+                                        <select value={reassignToId} onChange={e => setReassignToId(e.target.value)} className="flex-1 bg-slate-700 border-slate-600 rounded-md shadow-sm">
+                                            <option value="">Reassign to...</option>
+                                            {members.filter(m => m.id !== member.id).map(m => <option key={m.id} value={m.id}>{m.name}{m.archived ? ' (archived)' : ''}</option>)}
+                                        </select>
+                                        <Button size="sm" variant="danger" onClick={handleReassign} disabled={!reassignToId || isBusy}>Reassign &amp; Remove</Button>
+                                        {!member.archived && !isLastOwner(member) && <Button size="sm" variant="secondary" onClick={() => handleArchive(member, true)} disabled={isBusy}>Archive Instead</Button>}
+                                        <Button size="sm" variant="secondary" onClick={() => setRemovingId(null)} disabled={isBusy}>Cancel</Button>
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+
+            {(canManage || draft.id) && <form onSubmit={handleSave} className="space-y-3 border-t border-slate-700/50 pt-4">
+                <h4 className="font-semibold text-gray-200">{draft.id ? `Edit ${getMember(draft.id)?.name}` : 'Add a Member'}</h4>
+                <div className="flex flex-wrap items-center gap-4">
+                    <Avatar member={{ id: draft.id || 'new', name: draft.name, avatarUrl: draft.previewUrl, role: draft.role }} className="w-16 h-16 text-lg" />
+                    <div className="flex flex-col gap-2">
+                        <input type="file" accept="image/*" ref={fileInputRef} onChange={handleAvatarChange} className="hidden" />
+                        <Button type="button" size="sm" variant="secondary" onClick={() => fileInputRef.current?.click()}>
+                            <CameraIcon className="w-4 h-4" />
+                            <span>Upload Picture</span>
+                        </Button>
+                        {draft.previewUrl && (
+                            <button type="button" onClick={() => setDraft(prev => ({ ...prev, avatar: null, previewUrl: '' }))} className="text-xs text-gray-400 hover:text-white text-left">
+                                Remove picture
+                            </button>
+                        )}
+                    </div>
+                    <div className="flex-1 min-w-[10rem]">
+                        <label htmlFor="memberName" className="block text-sm font-medium text-gray-300">Name</label>
+                        <input
+                            id="memberName"
+                            type="text"
+                            value={draft.name}
+                            onChange={e => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                            placeholder="e.g., Anika"
+                            className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1"
+                        />
+                    </div>
+                    {canManage && (
+                        <div>
+                            <label htmlFor="memberRole" className="block text-sm font-medium text-gray-300">Role</label>
+                            <select
+                                id="memberRole"
+                                value={draft.role}
+                                onChange={e => setDraft(prev => ({ ...prev, role: e.target.value as MemberRole }))}
+                                disabled={!!getMember(draft.id) && isLastOwner(getMember(draft.id)!)}
+                                className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1"
+                            >
+                                {(Object.keys(ROLE_LABELS) as MemberRole[]).map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                            </select>
+                        </div>
+                    )}
+                </div>
+                {canManage && <p className="text-xs text-gray-500">{ROLE_DESCRIPTIONS[draft.role]}</p>}
+                {nameTaken && <p className="text-sm text-amber-400">There is already a member called "{draft.name.trim()}".</p>}
+                <div className="flex gap-2">
+                    <Button type="submit" disabled={!draft.name.trim() || nameTaken || isBusy}>{draft.id ? 'Save Changes' : 'Add Member'}</Button>
+                    {draft.id && <Button type="button" variant="secondary" onClick={() => setDraft(emptyDraft())}>Cancel</Button>}
+                </div>
+            </form>}
+        </Card>
+    );
+};
+
+export default MemberSettings;
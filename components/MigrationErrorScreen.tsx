@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import Button from './common/Button';
+import { ArrowDownTrayIcon, ArrowPathIcon } from './icons/Icons';
+import { MigrationError } from '../services/migrations';
+
+interface MigrationErrorScreenProps {
+  error: MigrationError;
+  onDownloadCopy: () => Promise<Uint8Array | null>;
+}
+
+// Shown instead of the app when the stored data couldn't be upgraded to this version's schema.
+const MigrationErrorScreen: React.FC<MigrationErrorScreenProps> = ({ error, onDownloadCopy }) => {
+    const [isDownloading, setIsDownloading] = useState(false);
+    const [message, setMessage] = useState('');
+
+    const handleDownload = async () => {
+        setIsDownloading(true);
+        setMessage('');
+        try {
+            const data = await onDownloadCopy();
+            if (!data) {
+                setMessage('No saved copy was found on this device.');
+                return;
+            }
+            const url = URL.createObjectURL(new Blob([data], { type: 'application/vnd.sqlite3' }));
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `financely-before-upgrade-${new Date().toISOString().split('T')[0]}.sqlite`;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            URL.revokeObjectURL(url);
+        } catch (err) {
+            console.error("Failed to download the pre-upgrade copy:", err);
+            setMessage('The saved copy could not be read.');
+        } finally {
+            setIsDownloading(false);
+        }
+    };
+
+    return (
+        <div className="flex flex-col items-center justify-center min-h-screen p-6">
+            <h1 className="text-3xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-purple-400 to-pink-500 mb-1">FinancelyAI</h1>
+            <div className="w-full max-w-md bg-slate-900/30 border border-slate-700/50 rounded-xl p-6 mt-6 space-y-4">
+                <h2 className="text-xl font-semibold text-white">Your data couldn't be upgraded</h2>
+                <p className="text-sm text-gray-300">
+                    This version of the app needs to update how your data is stored, and the update failed. Nothing was changed:
+                    your data is still on this device as it was before.
+                </p>
+                <p className="text-sm text-gray-300">
+                    Download the copy saved before the update to keep it safe. It can be restored from Settings → Backup &amp; Restore once the problem is fixed.
+                </p>
+                <p className="text-xs text-gray-500 break-words">{error.message}</p>
+                {message && <p className="text-sm text-red-400">{message}</p>}
+                <div className="flex flex-col sm:flex-row gap-3">
+                    <Button onClick={handleDownload} disabled={isDownloading} className="flex-1">
+                        <ArrowDownTrayIcon className="w-5 h-5" />
+                        <span>{isDownloading ? 'Preparing...' : 'Download Saved Copy'}</span>
+                    </Button>
+                    <Button variant="secondary" onClick={() => window.location.reload()} className="flex-1">
+                        <ArrowPathIcon className="w-5 h-5" />
+                        <span>Try Again</span>
+                    </Button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default MigrationErrorScreen;
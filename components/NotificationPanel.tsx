@@ -1,15 +1,27 @@
-import React from 'react';
-import { Notification } from '../types';
+import React, { useState } from 'react';
+import { ApprovalRequest, Member, Notification } from '../types';
 import { timeAgo } from '../utils/time';
+import { hasPermission } from '../utils/permissions';
 import { XIcon } from './icons/Icons';
+import Button from './common/Button';
+import Avatar from './common/Avatar';
 
 interface NotificationPanelProps {
   notifications: Notification[];
+  approvalRequests: ApprovalRequest[];
+  members: Member[];
+  currentMember: Member;
+  onResolveApproval: (request: ApprovalRequest, approve: boolean) => Promise<void>;
   onClose: () => void;
 }
 
-const NotificationPanel: React.FC<NotificationPanelProps> = ({ notifications, onClose }) => {
-    
+const NotificationPanel: React.FC<NotificationPanelProps> = ({ notifications, approvalRequests, members, currentMember, onResolveApproval, onClose }) => {
+    const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+    // Owners answer every open request; everyone else sees the ones they are waiting on.
+    const canApprove = hasPermission(currentMember, 'approveRequests');
+    const pendingRequests = approvalRequests.filter(r => r.status === 'pending' && (canApprove || r.requestedBy === currentMember.id));
+
     const getTypeStyles = (type: Notification['type']) => {
         switch (type) {
             case 'success': return 'border-teal-500';
@@ -18,10 +30,22 @@ const NotificationPanel: React.FC<NotificationPanelProps> = ({ notifications, on
             default: return 'border-purple-500';
         }
     };
-    
+
+    const handleResolve = async (request: ApprovalRequest, approve: boolean) => {
+        setResolvingId(request.id);
+        try {
+            await onResolveApproval(request, approve);
+        } catch (error) {
+            console.error("Failed to resolve approval request:", error);
+            alert("Could not complete the request. It is still waiting for approval.");
+        } finally {
+            setResolvingId(null);
+        }
+    };
+
     return (
         <div className="fixed inset-0 bg-black bg-opacity-50 z-40" onClick={onClose}>
-            <div 
+            <div
                 className="fixed top-0 right-0 h-full w-full max-w-sm bg-slate-900/70 backdrop-blur-2xl border-l border-slate-700/50 shadow-2xl animate-slide-in-right p-6 flex flex-col"
                 onClick={(e) => e.stopPropagation()}
             >
@@ -31,11 +55,37 @@ const NotificationPanel: React.FC<NotificationPanelProps> = ({ notifications, on
                         <XIcon className="w-6 h-6" />
                     </button>
                 </div>
-                
+
                 <div className="flex-1 overflow-y-auto space-y-4">
+                    {pendingRequests.length > 0 && (
+                        <div className="space-y-3 pb-4 border-b border-slate-700/50">
+                            <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wide">{canApprove ? 'Waiting for your approval' : 'Your pending requests'}</h3>
+                            {pendingRequests.map(request => {
+                                const requester = members.find(m => m.id === request.requestedBy);
+                                return (
+                                    <div key={request.id} className="p-4 rounded-lg bg-slate-800/50 border-l-4 border-amber-500">
+                                        <div className="flex items-center gap-2 mb-2">
+                                            <Avatar member={requester} className="w-6 h-6" />
+                                            <span className="text-sm text-gray-300">{requester?.name || 'A former member'} · {timeAgo(request.createdAt)}</span>
+                                        </div>
+                                        <p className="text-white">{request.summary}</p>
+                                        {canApprove ? (
+                                            <div className="flex gap-2 mt-3">
+                                                <Button size="sm" onClick={() => handleResolve(request, true)} disabled={resolvingId !== null}>Approve</Button>
+                                                <Button size="sm" variant="secondary" onClick={() => handleResolve(request, false)} disabled={resolvingId !== null}>Reject</Button>
+                                            </div>
+                                        ) : (
+                                            <p className="text-xs text-gray-400 mt-2">Waiting for an owner to approve.</p>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+
                     {[...notifications].reverse().map((notif, index) => (
-                        <div 
-                            key={notif.id} 
+                        <div
+                            key={notif.id}
                             className={`p-4 rounded-lg bg-slate-800/50 border-l-4 ${getTypeStyles(notif.type)} ${!notif.isRead ? 'opacity-100' : 'opacity-60'} animate-fade-in-up`}
                             style={{ animationDelay: `${index * 50}ms` }}
                         >
@@ -43,7 +93,7 @@ const NotificationPanel: React.FC<NotificationPanelProps> = ({ notifications, on
                             <p className="text-xs text-gray-400 mt-2">{timeAgo(notif.date)}</p>
                         </div>
                     ))}
-                    {notifications.length === 0 && (
+                    {notifications.length === 0 && pendingRequests.length === 0 && (
                         <div className="text-center text-gray-500 pt-20">
                             <p>You have no notifications.</p>
                         </div>
@@ -63,4 +113,4 @@ const NotificationPanel: React.FC<NotificationPanelProps> = ({ notifications, on
     );
 };
 
-export default NotificationPanel;
\ No newline at end of file
+export default NotificationPanel;
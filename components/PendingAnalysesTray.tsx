@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { PendingAnalysis } from '../types';
+import Card from './common/Card';
+import Button from './common/Button';
+import { CameraIcon } from './icons/Icons';
+import { isAwaitingAnalysis } from '../utils/pendingAnalyses';
+
+interface PendingAnalysesTrayProps {
+  pendingAnalyses: PendingAnalysis[];
+  isOnline: boolean;
+  isAnalyzing: boolean; // receipts are being analyzed right now
+  onRetry: (id: string) => Promise<void>;
+  onDiscard: (id: string) => Promise<void>;
+}
+
+const formatDate = (dateString: string): string => {
+    return new Date(dateString).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+};
+
+// Receipts scanned while offline, waiting for the AI to read them.
+const PendingAnalysesTray: React.FC<PendingAnalysesTrayProps> = ({ pendingAnalyses, isOnline, isAnalyzing, onRetry, onDiscard }) => {
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  if (isOnline && pendingAnalyses.length === 0) return null;
+
+  const waitingCount = pendingAnalyses.filter(isAwaitingAnalysis).length;
+  const status = !isOnline
+    ? "You're offline. Your changes are saved on this device; AI features will work again once you reconnect."
+    : isAnalyzing
+      ? 'Analyzing receipts scanned while offline...'
+      : `${waitingCount} receipt${waitingCount === 1 ? '' : 's'} will be analyzed shortly.`;
+
+  const handleAction = async (id: string, action: (id: string) => Promise<void>) => {
+    setBusyId(id);
+    try {
+      await action(id);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDiscard = (id: string) => {
+    if (window.confirm("Discard this receipt? Its expense won't be added.")) {
+      handleAction(id, onDiscard);
+    }
+  };
+
+  return (
+    <Card className="mb-6 no-print">
+      <p className={`text-sm ${isOnline ? 'text-gray-300' : 'text-amber-200'}`}>{status}</p>
+
+      {pendingAnalyses.length > 0 && (
+        <ul className="mt-3 space-y-2">
+          {pendingAnalyses.map(pending => (
+            <li key={pending.id} className="flex items-center gap-3 bg-slate-700/50 rounded-md p-2">
+              <img src={pending.imageDataUrl} alt="Receipt" className="w-10 h-10 object-cover rounded" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-white flex items-center gap-1">
+                  <CameraIcon className="w-4 h-4 text-gray-400" />
+                  Receipt from {formatDate(pending.date)}
+                </p>
+                <p className={`text-xs truncate ${isAwaitingAnalysis(pending) ? 'text-gray-400' : 'text-red-300'}`}>
+                  {isAwaitingAnalysis(pending)
+                    ? 'Pending analysis'
+                    : `Couldn't be analyzed: ${pending.lastError || 'unknown error'}`}
+                </p>
+              </div>
+              {!isAwaitingAnalysis(pending) && (
+                <Button size="sm" variant="secondary" onClick={() => handleAction(pending.id, onRetry)} disabled={busyId === pending.id || !isOnline}>
+                  Retry
+                </Button>
+              )}
+              <Button size="sm" variant="danger" onClick={() => handleDiscard(pending.id)} disabled={busyId === pending.id}>
+                Discard
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+};
+
+export default PendingAnalysesTray;
@@ -0,0 +1,352 @@
+import React, { useState, useMemo } from 'react';
+import { Household, Member, Rule, RuleMatchMode, SplitShare } from '../types';
+import Card from './common/Card';
+import Button from './common/Button';
+import { TrashIcon, PencilIcon } from './icons/Icons';
+import { sortRulesByPriority, describeRuleConditions, getRegexError, previewRule, RulePreviewItem } from '../utils/ruleEngine';
+import { getCategoryTree, getCategoryOptionLabel } from '../utils/categoryUtils';
+import { getActiveMembers } from '../utils/memberUtils';
+import { hasPermission } from '../utils/permissions';
+import * as db from '../services/db';
+
+interface RuleSettingsProps {
+  household: Household;
+  currentMember: Member;
+  onUpdate: (data: Partial<Omit<Household, 'id'>>) => Promise<void>;
+}
+
+const MATCH_MODE_LABELS: Record<RuleMatchMode, string> = {
+  'contains': 'Contains',
+  'starts-with': 'Starts with',
+  'exact': 'Is exactly',
+  'regex': 'Matches regex',
+};
+
+// The editor keeps numbers as the text the user typed until the rule is saved.
+interface RuleDraft {
+  id: string | null; // null for a new rule
+  keyword: string;
+  matchMode: RuleMatchMode;
+  priority: string;
+  minAmount: string; // in rupees
+  maxAmount: string;
+  dayOfMonthFrom: string;
+  dayOfMonthTo: string;
+  categoryId: string;
+  payerMemberId: string;
+  useSplitTemplate: boolean;
+  splitPercents: Record<string, string>; // memberId -> percent
+  tripId: string;
+  markAsSubscription: boolean;
+}
+
+const formatCurrency = (amountInCents: number): string => {
+    const amount = amountInCents / 100;
+    return new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(amount);
+};
+
+const toText = (value: number | null | undefined, scale = 1) => value == null ? '' : String(value / scale);
+const toNumber = (text: string, scale = 1) => text.trim() === '' ? null : Math.round(parseFloat(text) * scale);
+
+const emptyDraft = (household: Household): RuleDraft => ({
+    id: null,
+    keyword: '',
+    matchMode: 'contains',
+    priority: String(Math.max(0, ...household.rules.map(r => r.priority)) + 1),
+    minAmount: '',
+    maxAmount: '',
+    dayOfMonthFrom: '',
+    dayOfMonthTo: '',
+    categoryId: household.categories[0]?.id || '',
+    payerMemberId: '',
+    useSplitTemplate: false,
+    splitPercents: {},
+    tripId: '',
+    markAsSubscription: false,
+});
+
+const ruleToDraft = (rule: Rule): RuleDraft => ({
+    id: rule.id,
+    keyword: rule.keyword,
+    matchMode: rule.matchMode,
+    priority: String(rule.priority),
+    minAmount: toText(rule.minAmount, 100),
+    maxAmount: toText(rule.maxAmount, 100),
+    dayOfMonthFrom: toText(rule.dayOfMonthFrom),
+    dayOfMonthTo: toText(rule.dayOfMonthTo),
+    categoryId: rule.categoryId,
+    payerMemberId: rule.payerMemberId || '',
+    useSplitTemplate: !!rule.splitTemplate?.length,
+    splitPercents: Object.fromEntries((rule.splitTemplate || []).map(share => [share.memberId, String(share.percent)])),
+    tripId: rule.tripId || '',
+    markAsSubscription: !!rule.markAsSubscription,
+});
+
+const draftToRule = (draft: RuleDraft): Rule => {
+    const splitTemplate: SplitShare[] = Object.entries(draft.splitPercents)
+        .map(([memberId, percent]) => ({ memberId, percent: parseFloat(percent) || 0 }))
+        .filter(share => share.percent > 0);
+    return {
+        id: draft.id || `rule-${crypto.randomUUID()}`,
+        keyword: draft.matchMode === 'regex' ? draft.keyword.trim() : draft.keyword.trim().toLowerCase(),
+        matchMode: draft.matchMode,
+        priority: parseInt(draft.priority, 10) || 0,
+        minAmount: toNumber(draft.minAmount, 100),
+        maxAmount: toNumber(draft.maxAmount, 100),
+        dayOfMonthFrom: toNumber(draft.dayOfMonthFrom),
+        dayOfMonthTo: toNumber(draft.dayOfMonthTo),
+        categoryId: draft.categoryId,
+        payerMemberId: draft.payerMemberId || null,
+        splitTemplate: draft.useSplitTemplate ? splitTemplate : null,
+        tripId: draft.tripId || null,
+        markAsSubscription: draft.markAsSubscription,
+    };
+};
+
+// Returns what is wrong with the draft, or null if it can be saved.
+const validateDraft = (draft: RuleDraft): string | null => {
+    if (!draft.keyword.trim()) return 'Enter the text to match.';
+    if (!draft.categoryId) return 'Choose a category.';
+    if (draft.matchMode === 'regex') {
+        const regexError = getRegexError(draft.keyword);
+        if (regexError) return `Invalid regular expression: ${regexError}`;
+    }
+    const rule = draftToRule(draft);
+    if ([rule.minAmount, rule.maxAmount].some(a => a !== null && (isNaN(a) || a < 0))) return 'Amounts must be positive numbers.';
+    if (rule.minAmount !== null && rule.maxAmount !== null && rule.minAmount > rule.maxAmount) return 'The minimum amount is larger than the maximum.';
+    if ([rule.dayOfMonthFrom, rule.dayOfMonthTo].some(d => d !== null && (isNaN(d) || d < 1 || d > 31))) return 'Days of the month must be between 1 and 31.';
+    if (draft.useSplitTemplate) {
+        const total = (rule.splitTemplate || []).reduce((sum, share) => sum + share.percent, 0);
+        if (Math.abs(total - 100) > 0.01) return `Split percentages add up to ${total}%, not 100%.`;
+    }
+    return null;
+};
+
+const RuleSettings: React.FC<RuleSettingsProps> = ({ household, currentMember, onUpdate }) => {
+    const canManage = hasPermission(currentMember, 'manageRules');
+    const [draft, setDraft] = useState<RuleDraft>(() => emptyDraft(household));
+    const [preview, setPreview] = useState<RulePreviewItem[] | null>(null);
+
+    const sortedRules = useMemo(() => sortRulesByPriority(household.rules), [household.rules]);
+    const draftError = validateDraft(draft);
+
+    const getCategoryName = (id: string) => household.categories.find(c => c.id === id)?.name || 'Unknown';
+    const getMemberName = (id: string) => household.members.find(m => m.id === id)?.name || 'Unknown';
+    const getTripName = (id: string | null | undefined) => id ? household.trips.find(t => t.id === id)?.name || 'Unknown trip' : 'No trip';
+
+    const updateDraft = (changes: Partial<RuleDraft>) => {
+        setDraft(prev => ({ ...prev, ...changes }));
+        setPreview(null);
+    };
+
+    const describeActions = (rule: Rule): string => {
+        const actions = [`categorize as ${getCategoryName(rule.categoryId)}`];
+        if (rule.payerMemberId) actions.push(`paid by ${getMemberName(rule.payerMemberId)}`);
+        if (rule.splitTemplate?.length) actions.push(`split ${rule.splitTemplate.map(s => `${getMemberName(s.memberId)} ${s.percent}%`).join(' / ')}`);
+        if (rule.tripId) actions.push(`add to ${getTripName(rule.tripId)}`);
+        if (rule.markAsSubscription) actions.push('track as subscription');
+        return actions.join(', ');
+    };
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (draftError) return;
+        const rule = draftToRule(draft);
+        onUpdate({ rules: [...household.rules.filter(r => r.id !== rule.id), rule] });
+        setDraft(emptyDraft({ ...household, rules: [...household.rules, rule] }));
+        setPreview(null);
+    };
+
+    const handleDelete = (ruleId: string) => {
+        onUpdate({ rules: household.rules.filter(rule => rule.id !== ruleId) });
+        if (draft.id === ruleId) setDraft(emptyDraft(household));
+    };
+
+    // Swaps priorities with the neighbouring rule, so the order changes without renumbering everything.
+    const handleMove = (index: number, direction: -1 | 1) => {
+        const rule = sortedRules[index];
+        const neighbour = sortedRules[index + direction];
+        if (!neighbour) return;
+        const rulePriority = rule.priority === neighbour.priority ? neighbour.priority - direction : neighbour.priority;
+        onUpdate({
+            rules: household.rules.map(r => {
+                if (r.id === rule.id) return { ...r, priority: rulePriority };
+                if (r.id === neighbour.id) return { ...r, priority: rule.priority };
+                return r;
+            }),
+        });
+    };
+
+    // Runs the draft over every recorded expense, trips included.
+    const handleTest = async () => {
+        if (draftError) return;
+        try {
+            setPreview(previewRule(draftToRule(draft), household.rules, await db.listExpenses({})));
+        } catch (error) {
+            console.error("Failed to preview rule:", error);
+            alert("Could not load the expenses to test the rule against. Please try again.");
+        }
+    };
+
+    const describeChange = (item: RulePreviewItem): string => {
+        return item.changedFields.map(field => {
+            switch (field) {
+                case 'categoryId': return `${getCategoryName(item.before.categoryId)} → ${getCategoryName(item.after.categoryId)}`;
+                case 'memberId': return `payer ${getMemberName(item.before.memberId)} → ${getMemberName(item.after.memberId)}`;
+                case 'splits': return `split → ${item.after.splits.filter(s => s.amount > 0).map(s => `${getMemberName(s.memberId)} ${formatCurrency(s.amount)}`).join(', ')}`;
+                case 'tripId': return `${getTripName(item.before.tripId)} → ${getTripName(item.after.tripId)}`;
+            }
+        }).join('; ');
+    };
+
+    const inputClass = "w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1";
+
+    return (
+        <Card>
+            <h3 className="text-xl font-bold text-white mb-1">Auto-Categorization Rules</h3>
+            <p className="text-sm text-gray-400 mb-4">Rules are checked from the top; the first one that matches is applied.</p>
+            {!canManage && <p className="text-xs text-gray-500 -mt-2 mb-4">Only an adult or owner can change rules.</p>}
+            <div className="space-y-2 mb-6">
+                {sortedRules.map((rule, index) => (
+                    <div
+                        key={rule.id}
+                        className={`flex justify-between items-center gap-2 p-2 rounded-lg animate-fade-in-up ${draft.id === rule.id ? 'bg-purple-500/10 ring-1 ring-purple-500/50' : 'bg-slate-800/50'}`}
+                        style={{ animationDelay: `${index * 50}ms` }}
+                    >
+                        <span className="text-sm">
+                            <span className="text-xs text-gray-500 font-mono mr-2">#{rule.priority}</span>
+                            If <span className="font-mono text-purple-400">{describeRuleConditions(rule)}</span>, <span className="font-semibold text-gray-200">{describeActions(rule)}</span>
+                        </span>
+                        {canManage && <div className="flex gap-1 flex-shrink-0">
+                            <Button variant="secondary" size="sm" onClick={() => handleMove(index, -1)} disabled={index === 0} className="p-1.5" title="Check earlier">↑</Button>
+                            <Button variant="secondary" size="sm" onClick={() => handleMove(index, 1)} disabled={index === sortedRules.length - 1} className="p-1.5" title="Check later">↓</Button>
+                            <Button variant="secondary" size="sm" onClick={() => { setDraft(ruleToDraft(rule)); setPreview(null); }} className="p-1.5" title="Edit rule">
+                                <PencilIcon className="w-4 h-4" />
+                            </Button>
+                            <Button variant="danger" size="sm" onClick={() => handleDelete(rule.id)} className="p-1.5">
+                                <TrashIcon className="w-4 h-4" />
+                            </Button>
+                        </div>}
+                    </div>
+                ))}
+            </div>
+
+            {canManage && <form onSubmit={handleSave} className="space-y-4 border-t border-slate-700/50 pt-4">
+                <h4 className="font-semibold text-gray-200">{draft.id ? 'Edit Rule' : 'New Rule'}</h4>
+                <div className="grid grid-cols-1 sm:grid-cols-4 gap-3">
+                    <select value={draft.matchMode} onChange={e => updateDraft({ matchMode: e.target.value as RuleMatchMode })} className={inputClass} aria-label="Match mode">
+                        {(Object.keys(MATCH_MODE_LABELS) as RuleMatchMode[]).map(mode => <option key={mode} value={mode}>{MATCH_MODE_LABELS[mode]}</option>)}
+                    </select>
+                    <input
+                        type="text"
+                        placeholder={draft.matchMode === 'regex' ? '^amzn|amazon' : 'e.g., netflix'}
+                        value={draft.keyword}
+                        onChange={e => updateDraft({ keyword: e.target.value })}
+                        className={`${inputClass} sm:col-span-2 font-mono`}
+                        aria-label="Text to match"
+                        required
+                    />
+                    <select value={draft.categoryId} onChange={e => updateDraft({ categoryId: e.target.value })} className={inputClass} aria-label="Category" required>
+                        {getCategoryTree(household.categories).map(({ category, depth }) => <option key={category.id} value={category.id}>{getCategoryOptionLabel(category, depth)}</option>)}
+                    </select>
+                </div>
+
+                <details className="p-3 bg-slate-800/50 rounded-lg">
+                    <summary className="cursor-pointer font-semibold text-gray-200">Conditions and priority</summary>
+                    <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 mt-3">
+                        <label className="text-xs text-gray-400">Min amount (₹)
+                            <input type="number" min="0" step="0.01" value={draft.minAmount} onChange={e => updateDraft({ minAmount: e.target.value })} className={inputClass} />
+                        </label>
+                        <label className="text-xs text-gray-400">Max amount (₹)
+                            <input type="number" min="0" step="0.01" value={draft.maxAmount} onChange={e => updateDraft({ maxAmount: e.target.value })} className={inputClass} />
+                        </label>
+                        <label className="text-xs text-gray-400">From day
+                            <input type="number" min="1" max="31" value={draft.dayOfMonthFrom} onChange={e => updateDraft({ dayOfMonthFrom: e.target.value })} className={inputClass} />
+                        </label>
+                        <label className="text-xs text-gray-400">To day
+                            <input type="number" min="1" max="31" value={draft.dayOfMonthTo} onChange={e => updateDraft({ dayOfMonthTo: e.target.value })} className={inputClass} />
+                        </label>
+                        <label className="text-xs text-gray-400">Priority
+                            <input type="number" step="1" value={draft.priority} onChange={e => updateDraft({ priority: e.target.value })} className={inputClass} />
+                        </label>
+                    </div>
+                </details>
+
+                <details className="p-3 bg-slate-800/50 rounded-lg">
+                    <summary className="cursor-pointer font-semibold text-gray-200">More actions</summary>
+                    <div className="space-y-3 mt-3">
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                            <label className="text-xs text-gray-400">Set payer
+                                <select value={draft.payerMemberId} onChange={e => updateDraft({ payerMemberId: e.target.value })} className={inputClass}>
+                                    <option value="">Don't change</option>
+                                    {getActiveMembers(household.members, [draft.payerMemberId]).map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                                </select>
+                            </label>
+                            <label className="text-xs text-gray-400">Add to trip
+                                <select value={draft.tripId} onChange={e => updateDraft({ tripId: e.target.value })} className={inputClass}>
+                                    <option value="">Don't change</option>
+                                    {household.trips.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                                </select>
+                            </label>
+                        </div>
+                        <label className="flex items-center gap-2 text-sm text-gray-300">
+                            <input type="checkbox" checked={draft.useSplitTemplate} onChange={e => updateDraft({ useSplitTemplate: e.target.checked })} className="rounded bg-slate-600 border-slate-500 focus:ring-indigo-500" />
+                            Split between members
+                        </label>
+                        {draft.useSplitTemplate && (
+                            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                                {getActiveMembers(household.members, Object.keys(draft.splitPercents)).map(m => (
+                                    <label key={m.id} className="text-xs text-gray-400">{m.name} (%)
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            max="100"
+                                            value={draft.splitPercents[m.id] || ''}
+                                            onChange={e => updateDraft({ splitPercents: { ...draft.splitPercents, [m.id]: e.target.value } })}
+                                            className={inputClass}
+                                        />
+                                    </label>
+                                ))}
+                            </div>
+                        )}
+                        <label className="flex items-center gap-2 text-sm text-gray-300">
+                            <input type="checkbox" checked={draft.markAsSubscription} onChange={e => updateDraft({ markAsSubscription: e.target.checked })} className="rounded bg-slate-600 border-slate-500 focus:ring-indigo-500" />
+                            Track new matching expenses as a monthly subscription
+                        </label>
+                    </div>
+                </details>
+
+                {draftError && draft.keyword.trim() && <p className="text-sm text-pink-400">{draftError}</p>}
+
+                <div className="flex flex-wrap justify-end gap-3">
+                    {draft.id && <Button type="button" variant="secondary" onClick={() => { setDraft(emptyDraft(household)); setPreview(null); }}>Cancel</Button>}
+                    <Button type="button" variant="secondary" onClick={handleTest} disabled={!!draftError}>Test Against History</Button>
+                    <Button type="submit" disabled={!!draftError}>{draft.id ? 'Save Rule' : 'Add Rule'}</Button>
+                </div>
+            </form>}
+
+            {preview && (
+                <div className="mt-4 p-4 bg-slate-800/50 rounded-lg">
+                    <h4 className="font-semibold text-gray-200 mb-2">
+                        {preview.length === 0 ? 'No existing expenses would change.' : `${preview.length} existing expense${preview.length === 1 ? '' : 's'} would change`}
+                    </h4>
+                    <p className="text-xs text-gray-500 mb-3">Rules apply to new expenses only; existing expenses are not modified.</p>
+                    <div className="space-y-1 max-h-64 overflow-y-auto">
+                        {preview.slice(0, 100).map(item => (
+                            <div key={item.before.id} className="flex justify-between gap-3 text-sm p-2 bg-slate-900/40 rounded">
+                                <span className="text-gray-200">
+                                    {item.before.description}
+                                    <span className="text-gray-500"> · {new Date(item.before.date).toLocaleDateString('en-CA')} · {formatCurrency(item.before.amount)}</span>
+                                </span>
+                                <span className="text-purple-300 text-right">{describeChange(item)}</span>
+                            </div>
+                        ))}
+                        {preview.length > 100 && <p className="text-xs text-gray-500">…and {preview.length - 100} more.</p>}
+                    </div>
+                </div>
+            )}
+        </Card>
+    );
+};
+
+export default RuleSettings;
@@ -0,0 +1,126 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { Household, Rule } from '../types';
+import Card from './common/Card';
+import Button from './common/Button';
+import { LightBulbIcon, XIcon } from './icons/Icons';
+import { previewRule, RulePreviewItem } from '../utils/ruleEngine';
+import { getRuleSuggestions, RuleSuggestion } from '../utils/ruleSuggestions';
+import * as db from '../services/db';
+
+interface RuleSuggestionsTrayProps {
+  household: Household;
+  onAccept: (suggestion: RuleSuggestion) => Promise<Rule>;
+  onDismiss: (suggestion: RuleSuggestion) => Promise<void>;
+  onApplyToHistory: (rule: Rule) => Promise<void>;
+}
+
+const RuleSuggestionsTray: React.FC<RuleSuggestionsTrayProps> = ({ household, onAccept, onDismiss, onApplyToHistory }) => {
+  const [acceptedRule, setAcceptedRule] = useState<Rule | null>(null);
+  const [busyToken, setBusyToken] = useState<string | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const suggestions = useMemo(() => getRuleSuggestions(household), [household]);
+
+  // Past expenses the accepted rule would re-categorise, trips included
+  const [historyMatches, setHistoryMatches] = useState<RulePreviewItem[]>([]);
+
+  useEffect(() => {
+    if (!acceptedRule || !household.rules.some(r => r.id === acceptedRule.id)) {
+      setHistoryMatches([]);
+      return;
+    }
+    let isCurrent = true;
+    db.listExpenses({})
+      .then(expenses => { if (isCurrent) setHistoryMatches(previewRule(acceptedRule, household.rules, expenses)); })
+      .catch(err => console.error("Failed to find past expenses for the rule:", err));
+    return () => { isCurrent = false; };
+  }, [acceptedRule, household.rules, household.expenses]);
+
+  const getCategoryName = (id: string) => household.categories.find(c => c.id === id)?.name || 'Unknown';
+
+  const handleAccept = async (suggestion: RuleSuggestion) => {
+    setBusyToken(suggestion.merchantToken);
+    try {
+      setAcceptedRule(await onAccept(suggestion));
+    } catch (error) {
+      console.error("Failed to create rule from suggestion:", error);
+      alert("Could not create the rule. Please try again.");
+    } finally {
+      setBusyToken(null);
+    }
+  };
+
+  const handleDismiss = async (suggestion: RuleSuggestion) => {
+    setBusyToken(suggestion.merchantToken);
+    try {
+      await onDismiss(suggestion);
+    } finally {
+      setBusyToken(null);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!acceptedRule) return;
+    setIsApplying(true);
+    try {
+      await onApplyToHistory(acceptedRule);
+      setAcceptedRule(null);
+    } catch (error) {
+      console.error("Failed to apply rule to past expenses:", error);
+      alert("Could not update past expenses. Please try again.");
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  if (suggestions.length === 0 && historyMatches.length === 0) return null;
+
+  return (
+    <Card className="mb-6 no-print">
+      <div className="flex items-center gap-2 mb-3">
+        <LightBulbIcon className="w-5 h-5 text-yellow-300" />
+        <h3 className="text-lg font-semibold text-white">Suggested Rules</h3>
+      </div>
+
+      {acceptedRule && historyMatches.length > 0 && (
+        <div className="flex flex-wrap items-center justify-between gap-2 bg-teal-900/30 border border-teal-700/50 rounded-md p-3 mb-3">
+          <p className="text-sm text-teal-200">
+            Rule for "{acceptedRule.keyword}" created. {historyMatches.length} past expense{historyMatches.length === 1 ? '' : 's'} would move to {getCategoryName(acceptedRule.categoryId)}.
+          </p>
+          <div className="flex gap-2">
+            <Button size="sm" onClick={handleApply} disabled={isApplying}>
+              {isApplying ? 'Applying...' : `Apply to ${historyMatches.length} past expense${historyMatches.length === 1 ? '' : 's'}`}
+            </Button>
+            <Button size="sm" variant="secondary" onClick={() => setAcceptedRule(null)} disabled={isApplying}>Not now</Button>
+          </div>
+        </div>
+      )}
+
+      <ul className="space-y-2">
+        {suggestions.map(suggestion => {
+          const fromCategoryIds = [...new Set(suggestion.corrections.map(c => c.fromCategoryId))];
+          return (
+            <li key={suggestion.merchantToken} className="flex flex-wrap items-center justify-between gap-2 bg-slate-800/50 p-3 rounded-md">
+              <div>
+                <p className="text-white">
+                  Always put <span className="font-semibold">"{suggestion.merchantToken}"</span> in <span className="font-semibold text-teal-300">{getCategoryName(suggestion.categoryId)}</span>?
+                </p>
+                <p className="text-xs text-gray-400">
+                  You moved {suggestion.agreeing} expense{suggestion.agreeing === 1 ? '' : 's'} like "{suggestion.corrections[0].description}" from {fromCategoryIds.map(getCategoryName).join(', ')}.
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button size="sm" onClick={() => handleAccept(suggestion)} disabled={busyToken !== null}>Create Rule</Button>
+                <button onClick={() => handleDismiss(suggestion)} disabled={busyToken !== null} className="text-gray-400 hover:text-white p-1" title="Dismiss">
+                  <XIcon className="w-4 h-4" />
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </Card>
+  );
+};
+
+export default RuleSuggestionsTray;
@@ -1,6 +1,7 @@
 import React, { useState, useCallback } from 'react';
 import { Household, SavingsSuggestion } from '../types';
 import { generateSavingsSuggestions } from '../services/geminiService';
+import { getAiErrorMessage } from '../services/aiValidation';
 import Card from './common/Card';
 import Button from './common/Button';
 import SkeletonLoader from './common/SkeletonLoader';
@@ -49,7 +50,7 @@ const SavingsCoach: React.FC<{ household: Household }> = ({ household }) => {
             const results = await generateSavingsSuggestions(household);
             setSuggestions(results);
         } catch (err) {
-            setError('Failed to get AI suggestions. Please try again later.');
+            setError(getAiErrorMessage(err, 'Failed to get AI suggestions. Please try again later.'));
             console.error(err);
         } finally {
             setIsLoading(false);
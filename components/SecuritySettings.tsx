@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { Household, Member } from '../types';
+import Card from './common/Card';
+import Button from './common/Button';
+import { LockClosedIcon } from './icons/Icons';
+import { getPinError } from '../utils/pinUtils';
+import { hasPermission } from '../utils/permissions';
+
+interface SecuritySettingsProps {
+  household: Household;
+  currentMember: Member;
+  onUpdate: (data: Partial<Omit<Household, 'id'>>) => Promise<void>;
+  onSetPin: (memberId: string, pin: string | null, currentPin: string) => Promise<void>;
+  onCheckPin: (memberId: string, pin: string) => Promise<boolean>;
+  onLock: () => void;
+}
+
+const AUTO_LOCK_OPTIONS = [
+    { minutes: 0, label: 'Never' },
+    { minutes: 1, label: 'After 1 minute' },
+    { minutes: 5, label: 'After 5 minutes' },
+    { minutes: 15, label: 'After 15 minutes' },
+    { minutes: 30, label: 'After 30 minutes' },
+    { minutes: 60, label: 'After 1 hour' },
+];
+
+const pinInputClass = "w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1 tracking-widest";
+
+const SecuritySettings: React.FC<SecuritySettingsProps> = ({ household, currentMember, onUpdate, onSetPin, onCheckPin, onLock }) => {
+    const [currentPin, setCurrentPin] = useState('');
+    const [newPin, setNewPin] = useState('');
+    const [confirmPin, setConfirmPin] = useState('');
+    const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const hasPin = !!currentMember.hasPin;
+    const canChangeAutoLock = hasPermission(currentMember, 'manageAutoLock');
+    const pinError = newPin ? getPinError(newPin) : null;
+    const mismatch = !!confirmPin && newPin !== confirmPin;
+
+    const resetForm = () => {
+        setCurrentPin('');
+        setNewPin('');
+        setConfirmPin('');
+    };
+
+    // Changing or removing an existing PIN needs the current one, so someone else can't take over a profile left open.
+    const savePin = async (pin: string | null) => {
+        setIsSaving(true);
+        setMessage(null);
+        try {
+            if (hasPin && !(await onCheckPin(currentMember.id, currentPin))) {
+                setMessage({ type: 'error', text: 'Your current PIN is not correct.' });
+                setCurrentPin('');
+                return;
+            }
+            await onSetPin(currentMember.id, pin, currentPin);
+            resetForm();
+            setMessage({ type: 'success', text: pin ? 'Your PIN has been saved.' : 'Your PIN has been removed.' });
+        } catch (error) {
+            console.error("Failed to save PIN:", error);
+            setMessage({ type: 'error', text: 'Could not save your PIN. Please try again.' });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newPin || pinError || newPin !== confirmPin) return;
+        savePin(newPin);
+    };
+
+    const handleRemove = () => {
+        if (!window.confirm('Remove your PIN? Anyone using this device will be able to open your profile.')) return;
+        savePin(null);
+    };
+
+    const digitsOnly = (setter: (value: string) => void) => (e: React.ChangeEvent<HTMLInputElement>) => setter(e.target.value.replace(/\D/g, ''));
+
+    return (
+        <Card>
+            <div className="flex justify-between items-center mb-4">
+                <h3 className="text-xl font-bold text-white">Security</h3>
+                <Button size="sm" variant="secondary" onClick={onLock}>
+                    <LockClosedIcon className="w-4 h-4" />
+                    <span>Lock Now</span>
+                </Button>
+            </div>
+            <div className="space-y-4">
+                <form onSubmit={handleSubmit} className="p-3 bg-slate-800/50 rounded-lg space-y-3">
+                    <div>
+                        <p className="font-semibold text-white">PIN for {currentMember.name}</p>
+                        <p className="text-sm text-gray-400">
+                            {hasPin ? 'Your profile is protected with a PIN.' : 'Set a 4 to 8 digit PIN so nobody else can open your profile on a shared device.'}
+                        </p>
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                        {hasPin && (
+                            <div>
+                                <label htmlFor="currentPin" className="block text-sm font-medium text-gray-300">Current PIN</label>
+                                <input id="currentPin" type="password" inputMode="numeric" autoComplete="off" maxLength={8} value={currentPin} onChange={digitsOnly(setCurrentPin)} className={pinInputClass} />
+                            </div>
+                        )}
+                        <div>
+                            <label htmlFor="newPin" className="block text-sm font-medium text-gray-300">New PIN</label>
+                            <input id="newPin" type="password" inputMode="numeric" autoComplete="off" maxLength={8} value={newPin} onChange={digitsOnly(setNewPin)} className={pinInputClass} />
+                        </div>
+                        <div>
+                            <label htmlFor="confirmPin" className="block text-sm font-medium text-gray-300">Confirm New PIN</label>
+                            <input id="confirmPin" type="password" inputMode="numeric" autoComplete="off" maxLength={8} value={confirmPin} onChange={digitsOnly(setConfirmPin)} className={pinInputClass} />
+                        </div>
+                    </div>
+                    {pinError && <p className="text-sm text-amber-400">{pinError}</p>}
+                    {mismatch && <p className="text-sm text-amber-400">The PINs don't match.</p>}
+                    {message && <p className={`text-sm ${message.type === 'error' ? 'text-red-400' : 'text-green-400'}`}>{message.text}</p>}
+                    <div className="flex gap-2">
+                        <Button type="submit" size="sm" disabled={!newPin || !!pinError || newPin !== confirmPin || (hasPin && !currentPin) || isSaving}>
+                            {hasPin ? 'Change PIN' : 'Set PIN'}
+                        </Button>
+                        {hasPin && (
+                            <Button type="button" size="sm" variant="danger" onClick={handleRemove} disabled={!currentPin || isSaving}>Remove PIN</Button>
+                        )}
+                    </div>
+                </form>
+
+                <div className="flex justify-between items-center gap-4 p-3 bg-slate-800/50 rounded-lg">
+                    <div>
+                        <label htmlFor="autoLock" className="font-semibold text-white">Auto-lock</label>
+                        <p className="text-sm text-gray-400">Return to the lock screen after a period without activity on this device.</p>
+                        {!canChangeAutoLock && <p className="text-xs text-gray-500">Only an owner can change this.</p>}
+                    </div>
+                    <select
+                        id="autoLock"
+                        value={household.autoLockMinutes}
+                        onChange={e => onUpdate({ autoLockMinutes: parseInt(e.target.value, 10) })}
+                        disabled={!canChangeAutoLock}
+                        className="bg-slate-700 border-slate-600 rounded-md shadow-sm"
+                    >
+                        {AUTO_LOCK_OPTIONS.map(option => <option key={option.minutes} value={option.minutes}>{option.label}</option>)}
+                    </select>
+                </div>
+            </div>
+        </Card>
+    );
+};
+
+export default SecuritySettings;
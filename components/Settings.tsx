@@ -1,14 +1,44 @@
 import React, { useState } from 'react';
-import { Household, Rule, Budget } from '../types';
+import { Household, Budget, Member, MemberAvatar } from '../types';
 import Card from './common/Card';
 import Button from './common/Button';
 import { TrashIcon, SparklesIcon } from './icons/Icons';
 import { generateBudgetSuggestions, generateIncomeBasedBudget } from '../services/geminiService';
+import * as db from '../services/db';
+import { getAiErrorMessage } from '../services/aiValidation';
+import { BackupFileKind, BackupSnapshot } from '../services/backupFormat';
 import SkeletonLoader from './common/SkeletonLoader';
+import AiProviderSettings from './AiProviderSettings';
+import RuleSettings from './RuleSettings';
+import CategorySettings from './CategorySettings';
+import MemberSettings from './MemberSettings';
+import SecuritySettings from './SecuritySettings';
+import EncryptionSettings from './EncryptionSettings';
+import BackupSettings from './BackupSettings';
+import { getCategoryTree, getSubcategories } from '../utils/categoryUtils';
+import { ConflictResolutions, TableDiff } from '../utils/backupDiff';
+import { hasPermission } from '../utils/permissions';
 
 interface SettingsProps {
   household: Household;
   onUpdate: (data: Partial<Omit<Household, 'id'>>) => Promise<void>;
+  onMergeCategories: (sourceId: string, targetId: string) => Promise<void>;
+  onSaveMember: (member: Member, avatar?: MemberAvatar | null) => Promise<void>;
+  onRemoveMember: (memberId: string, reassignToId: string | null) => Promise<void>;
+  currentMember: Member;
+  onSetPin: (memberId: string, pin: string | null, currentPin: string) => Promise<void>;
+  onCheckPin: (memberId: string, pin: string) => Promise<boolean>;
+  onLock: () => void;
+  isEncrypted: boolean;
+  onEnableEncryption: (passphrase: string) => Promise<string>;
+  onChangePassphrase: (currentPassphrase: string, newPassphrase: string) => Promise<boolean>;
+  onRegenerateRecoveryKey: (passphrase: string) => Promise<string | null>;
+  onDisableEncryption: (passphrase: string) => Promise<boolean>;
+  onExportBackup: (kind: BackupFileKind, passphrase?: string) => Promise<Uint8Array>;
+  onReadBackup: (data: Uint8Array, passphrase?: string) => Promise<BackupSnapshot>;
+  onPreviewBackup: (snapshot: BackupSnapshot) => Promise<TableDiff[]>;
+  onRestoreBackup: (snapshot: BackupSnapshot) => Promise<void>;
+  onMergeBackup: (snapshot: BackupSnapshot, resolutions: ConflictResolutions) => Promise<void>;
 }
 
 const formatCurrency = (amountInCents: number): string => {
@@ -32,41 +62,83 @@ const ToggleSwitch: React.FC<{ enabled: boolean, onChange: (enabled: boolean) =>
     );
 };
 
-const Settings: React.FC<SettingsProps> = ({ household, onUpdate }) => {
-  const [newRuleKeyword, setNewRuleKeyword] = useState('');
-  const [newRuleCategoryId, setNewRuleCategoryId] = useState(household.categories[0]?.id || '');
+// Shown under a draft the current member isn't allowed to apply themselves.
+const ApprovalBar: React.FC<{ onSend: () => void; onDiscard: () => void; children: React.ReactNode }> = ({ onSend, onDiscard, children }) => (
+    <div className="mt-3 flex flex-wrap items-center justify-between gap-3 p-3 bg-amber-500/10 border border-amber-500/30 rounded-lg">
+        <p className="text-sm text-amber-300">{children}</p>
+        <div className="flex gap-2">
+            <Button size="sm" variant="secondary" onClick={onDiscard}>Discard</Button>
+            <Button size="sm" onClick={onSend}>Send for Approval</Button>
+        </div>
+    </div>
+);
+
+const Settings: React.FC<SettingsProps> = ({ household, onUpdate, onMergeCategories, onSaveMember, onRemoveMember, currentMember, onSetPin, onCheckPin, onLock, isEncrypted, onEnableEncryption, onChangePassphrase, onRegenerateRecoveryKey, onDisableEncryption, onExportBackup, onReadBackup, onPreviewBackup, onRestoreBackup, onMergeBackup }) => {
 
   const [isGeneratingBudgets, setIsGeneratingBudgets] = useState(false);
   const [budgetSuggestions, setBudgetSuggestions] = useState<Array<{ categoryId: string; amount: number; reasoning: string }> | null>(null);
+  // Members who may not change budgets or income edit a draft, which is sent to an owner for approval.
+  const [budgetDraft, setBudgetDraft] = useState<Budget[] | null>(null);
+  const [incomeDraft, setIncomeDraft] = useState<number | null>(null);
+  const canEditBudgets = hasPermission(currentMember, 'editBudgets');
+  const canEditIncome = hasPermission(currentMember, 'editIncome');
+  const canManageSettings = hasPermission(currentMember, 'manageSettings');
+  const shownBudgets = budgetDraft ?? household.budgets;
+  const shownIncome = incomeDraft ?? household.monthlyIncome;
+
+  const saveBudgets = (newBudgets: Budget[]) => {
+      if (canEditBudgets) {
+          onUpdate({ budgets: newBudgets });
+      } else {
+          setBudgetDraft(newBudgets);
+      }
+  };
 
   const handleBudgetChange = (categoryId: string, newAmount: string) => {
       const amountInCents = Math.round(parseFloat(newAmount || '0') * 100);
-      const existingBudget = household.budgets.find(b => b.categoryId === categoryId);
+      const existingBudget = shownBudgets.find(b => b.categoryId === categoryId);
       let newBudgets: Budget[];
 
       if (existingBudget) {
-          newBudgets = household.budgets.map(b => b.categoryId === categoryId ? { ...b, amount: amountInCents } : b)
+          newBudgets = shownBudgets.map(b => b.categoryId === categoryId ? { ...b, amount: amountInCents } : b)
       } else {
           const newBudget: Budget = { id: `bud-${categoryId}`, categoryId, amount: amountInCents };
-          newBudgets = [...household.budgets, newBudget];
+          newBudgets = [...shownBudgets, newBudget];
       }
-      onUpdate({ budgets: newBudgets });
+      saveBudgets(newBudgets);
   };
 
   const handleIncomeChange = (newAmount: string) => {
       const amountInCents = Math.round(parseFloat(newAmount || '0') * 100);
-      onUpdate({ monthlyIncome: amountInCents });
+      if (canEditIncome) {
+          onUpdate({ monthlyIncome: amountInCents });
+      } else {
+          setIncomeDraft(amountInCents);
+      }
+  };
+
+  const handleRequestBudgets = async () => {
+      if (!budgetDraft) return;
+      await onUpdate({ budgets: budgetDraft });
+      setBudgetDraft(null);
+  };
+
+  const handleRequestIncome = async () => {
+      if (incomeDraft === null) return;
+      await onUpdate({ monthlyIncome: incomeDraft });
+      setIncomeDraft(null);
   };
 
   const handleGenerateBudgetsFromSpending = async () => {
       setIsGeneratingBudgets(true);
       setBudgetSuggestions(null);
       try {
-          const suggestions = await generateBudgetSuggestions(household);
+          const { expenses } = await db.queryExpenses({ tripId: null }, 0, 100);
+          const suggestions = await generateBudgetSuggestions(household, expenses);
           setBudgetSuggestions(suggestions);
       } catch (error) {
           console.error("Failed to generate budget suggestions from spending:", error);
-          alert("Could not generate AI budget suggestions. Please try again.");
+          alert(getAiErrorMessage(error, "Could not generate AI budget suggestions. Please try again."));
       } finally {
           setIsGeneratingBudgets(false);
       }
@@ -84,7 +156,7 @@ const Settings: React.FC<SettingsProps> = ({ household, onUpdate }) => {
           setBudgetSuggestions(suggestions);
       } catch (error) {
           console.error("Failed to generate budget suggestions from income:", error);
-          alert("Could not generate AI budget suggestions. Please try again.");
+          alert(getAiErrorMessage(error, "Could not generate AI budget suggestions. Please try again."));
       } finally {
           setIsGeneratingBudgets(false);
       }
@@ -94,7 +166,7 @@ const Settings: React.FC<SettingsProps> = ({ household, onUpdate }) => {
       if (!budgetSuggestions) return;
       const newBudgets: Budget[] = household.categories.map(category => {
           const suggestion = budgetSuggestions.find(s => s.categoryId === category.id);
-          const existingBudget = household.budgets.find(b => b.categoryId === category.id);
+          const existingBudget = shownBudgets.find(b => b.categoryId === category.id);
 
           if (suggestion) {
               return { id: existingBudget?.id || `bud-${category.id}`, categoryId: category.id, amount: suggestion.amount * 100 };
@@ -102,27 +174,12 @@ const Settings: React.FC<SettingsProps> = ({ household, onUpdate }) => {
           return existingBudget || { id: `bud-${category.id}`, categoryId: category.id, amount: 0 };
       });
 
-      onUpdate({ budgets: newBudgets });
+      saveBudgets(newBudgets);
       setBudgetSuggestions(null); // Clear suggestions after applying
   };
 
-  const handleAddRule = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!newRuleKeyword.trim() || !newRuleCategoryId) return;
-
-    const newRule: Rule = {
-      id: `rule-${crypto.randomUUID()}`,
-      keyword: newRuleKeyword.trim().toLowerCase(),
-      categoryId: newRuleCategoryId,
-    };
-
-    onUpdate({ rules: [...household.rules, newRule] });
-    setNewRuleKeyword('');
-    setNewRuleCategoryId(household.categories[0]?.id || '');
-  };
-  
-  const handleDeleteRule = (ruleId: string) => {
-    onUpdate({ rules: household.rules.filter(rule => rule.id !== ruleId) });
+  const handleDeleteCsvProfile = (profileId: string) => {
+    onUpdate({ csvProfiles: household.csvProfiles.filter(p => p.id !== profileId) });
   };
 
   const handleEmailAlertsToggle = (enabled: boolean) => {
@@ -142,7 +199,7 @@ const Settings: React.FC<SettingsProps> = ({ household, onUpdate }) => {
                 <input
                     type="number"
                     id="monthlyIncome"
-                    value={household.monthlyIncome > 0 ? household.monthlyIncome / 100 : ''}
+                    value={shownIncome > 0 ? shownIncome / 100 : ''}
                     onChange={e => handleIncomeChange(e.target.value)}
                     placeholder="e.g., 80000"
                     className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm pl-7 font-mono text-lg"
@@ -151,6 +208,11 @@ const Settings: React.FC<SettingsProps> = ({ household, onUpdate }) => {
             </div>
              <p className="text-xs text-gray-500 mt-2">This is used by the AI to recommend a personalized budget plan for you.</p>
         </div>
+        {incomeDraft !== null && (
+            <ApprovalBar onSend={handleRequestIncome} onDiscard={() => setIncomeDraft(null)}>
+                Changing the income needs an owner's approval.
+            </ApprovalBar>
+        )}
       </Card>
       
       <Card>
@@ -159,20 +221,33 @@ const Settings: React.FC<SettingsProps> = ({ household, onUpdate }) => {
             <div>
                 <p className="font-semibold text-white">Email Alerts for Overspending</p>
                 <p className="text-sm text-gray-400">Receive an email when you're about to exceed a budget.</p>
+                {!canManageSettings && <p className="text-xs text-gray-500">Only an owner can change this.</p>}
             </div>
-            <ToggleSwitch enabled={household.emailAlertsEnabled} onChange={handleEmailAlertsToggle} />
+            {canManageSettings && <ToggleSwitch enabled={household.emailAlertsEnabled} onChange={handleEmailAlertsToggle} />}
         </div>
       </Card>
 
+      <MemberSettings household={household} currentMember={currentMember} onSaveMember={onSaveMember} onRemoveMember={onRemoveMember} />
+
+      <SecuritySettings household={household} currentMember={currentMember} onUpdate={onUpdate} onSetPin={onSetPin} onCheckPin={onCheckPin} onLock={onLock} />
+
+      <EncryptionSettings isEncrypted={isEncrypted} currentMember={currentMember} onEnable={onEnableEncryption} onChangePassphrase={onChangePassphrase} onRegenerateRecoveryKey={onRegenerateRecoveryKey} onDisable={onDisableEncryption} />
+
+      <BackupSettings currentMember={currentMember} onExport={onExportBackup} onReadBackup={onReadBackup} onPreview={onPreviewBackup} onRestore={onRestoreBackup} onMerge={onMergeBackup} />
+
+      <CategorySettings household={household} currentMember={currentMember} onUpdate={onUpdate} onMerge={onMergeCategories} />
+
       <Card>
         <h3 className="text-xl font-bold text-white mb-4">Manage Monthly Budgets</h3>
         <div className="space-y-3">
-            {household.categories.map(category => {
-                const budget = household.budgets.find(b => b.categoryId === category.id);
+            {getCategoryTree(household.categories).map(({ category, depth }) => {
+                const budget = shownBudgets.find(b => b.categoryId === category.id);
+                const hasSubcategories = getSubcategories(household.categories, category.id).length > 0;
                 return (
-                    <div key={category.id} className="flex items-center justify-between gap-4 p-2 bg-slate-800/50 rounded-lg">
+                    <div key={category.id} className={`flex items-center justify-between gap-4 p-2 bg-slate-800/50 rounded-lg ${depth === 1 ? 'ml-8' : ''}`}>
                         <label htmlFor={`budget-${category.id}`} className="flex-1 font-semibold text-gray-200">
                             {category.icon} {category.name}
+                            {hasSubcategories && <span className="block text-xs font-normal text-gray-500">Includes spending in its sub-categories</span>}
                         </label>
                         <div className="flex items-center gap-2">
                             <span className="text-gray-400">₹</span>
@@ -190,6 +265,11 @@ const Settings: React.FC<SettingsProps> = ({ household, onUpdate }) => {
                 );
             })}
         </div>
+        {budgetDraft && (
+            <ApprovalBar onSend={handleRequestBudgets} onDiscard={() => setBudgetDraft(null)}>
+                Budget changes need an owner's approval.
+            </ApprovalBar>
+        )}
         
         <div className="mt-6 border-t border-slate-700/50 pt-6">
             <div className="flex items-center gap-3 mb-4">
@@ -240,44 +320,27 @@ const Settings: React.FC<SettingsProps> = ({ household, onUpdate }) => {
         </div>
       </Card>
 
+      <RuleSettings household={household} currentMember={currentMember} onUpdate={onUpdate} />
+
+      <AiProviderSettings settings={household.aiSettings} currentMember={currentMember} onSave={aiSettings => onUpdate({ aiSettings })} />
+
       <Card>
-        <h3 className="text-xl font-bold text-white mb-4">Auto-Categorization Rules</h3>
-        <div className="space-y-2 mb-6">
-            {household.rules.map((rule, index) => (
-                <div 
-                    key={rule.id} 
-                    className="flex justify-between items-center p-2 bg-slate-800/50 rounded-lg animate-fade-in-up"
-                    style={{ animationDelay: `${index * 50}ms` }}
-                >
-                    <span>If description contains "<span className="font-mono text-purple-400">{rule.keyword}</span>", categorize as <span className="font-semibold text-gray-200">{household.categories.find(c => c.id === rule.categoryId)?.name}</span></span>
-                    <Button variant="danger" size="sm" onClick={() => handleDeleteRule(rule.id)} className="p-1.5">
+        <h3 className="text-xl font-bold text-white mb-4">Saved CSV Import Mappings</h3>
+        <p className="text-sm text-gray-400 mb-4">A mapping is applied automatically when an imported CSV has the same column headers.</p>
+        <div className="space-y-2">
+            {household.csvProfiles.map(profile => (
+                <div key={profile.id} className="flex justify-between items-center p-2 bg-slate-800/50 rounded-lg">
+                    <div>
+                        <p className="font-semibold text-gray-200">{profile.name}</p>
+                        <p className="text-xs text-gray-500 font-mono">{profile.mapping.dateFormat} · {profile.mapping.amountMode === 'split' ? 'debit/credit columns' : 'signed amount'}</p>
+                    </div>
+                    <Button variant="danger" size="sm" onClick={() => handleDeleteCsvProfile(profile.id)} className="p-1.5">
                         <TrashIcon className="w-4 h-4" />
                     </Button>
                 </div>
             ))}
+            {household.csvProfiles.length === 0 && <p className="text-center text-gray-500 py-2">No mappings saved yet. They are created when you import a CSV statement.</p>}
         </div>
-        
-        <form onSubmit={handleAddRule} className="flex flex-col sm:flex-row gap-3 border-t border-slate-700/50 pt-4">
-            <input 
-                type="text" 
-                placeholder="New keyword (e.g., netflix)" 
-                value={newRuleKeyword}
-                onChange={e => setNewRuleKeyword(e.target.value)}
-                className="flex-1 bg-slate-700 border-slate-600 rounded-md shadow-sm"
-                required
-            />
-            <select
-                value={newRuleCategoryId}
-                onChange={e => setNewRuleCategoryId(e.target.value)}
-                className="bg-slate-700 border-slate-600 rounded-md shadow-sm"
-                required
-            >
-                {household.categories.map(cat => (
-                  <option key={cat.id} value={cat.id}>{cat.name}</option>
-                ))}
-            </select>
-            <Button type="submit">Add Rule</Button>
-        </form>
       </Card>
     </div>
   );
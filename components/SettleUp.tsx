@@ -0,0 +1,182 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { Household, Settlement } from '../types';
+import Card from './common/Card';
+import Button from './common/Button';
+import Avatar from './common/Avatar';
+import { ArrowsRightLeftIcon, TrashIcon } from './icons/Icons';
+import { computeBalances, simplifyDebts, Transfer } from '../utils/settleUtils';
+import { hasPermission } from '../utils/permissions';
+import * as db from '../services/db';
+
+const formatCurrency = (amountInCents: number): string => {
+  const amount = amountInCents / 100;
+  return new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', minimumFractionDigits: 2 }).format(amount);
+};
+
+interface SettleUpProps {
+  household: Household;
+  onAddSettlement: (settlement: Omit<Settlement, 'id'>) => Promise<void>;
+  onDeleteSettlement: (settlementId: string) => Promise<void>;
+  currentMemberId: string;
+}
+
+const ALL_EXPENSES = 'all';
+
+const SettleUp: React.FC<SettleUpProps> = ({ household, onAddSettlement, onDeleteSettlement, currentMemberId }) => {
+    const { members, expenses, trips, settlements } = household;
+    const [scope, setScope] = useState<string>(ALL_EXPENSES); // 'all' or a trip ID
+    const [isRecording, setIsRecording] = useState(false);
+    // What each member paid and owes of the expenses in scope, summed by the database.
+    const [memberTotals, setMemberTotals] = useState<db.MemberTotal[]>([]);
+
+    const getMember = (id: string) => members.find(m => m.id === id);
+
+    // Reloaded whenever an expense changes, which replaces `expenses`.
+    useEffect(() => {
+        let isCurrent = true;
+        db.getMemberTotals(scope === ALL_EXPENSES ? {} : { tripId: scope })
+            .then(totals => { if (isCurrent) setMemberTotals(totals); })
+            .catch(err => console.error("Failed to load balances:", err));
+        return () => { isCurrent = false; };
+    }, [scope, expenses]);
+
+    const scopedSettlements = useMemo(() => {
+        return scope === ALL_EXPENSES ? settlements : settlements.filter(s => s.tripId === scope);
+    }, [scope, settlements]);
+
+    const balances = useMemo(() => computeBalances(memberTotals, scopedSettlements, members), [memberTotals, scopedSettlements, members]);
+    const transfers = useMemo(() => simplifyDebts(balances), [balances]);
+
+    // Balances come from everyone's shares, so a member who may not see those only sees what involves them.
+    const canSeeSplits = hasPermission(getMember(currentMemberId), 'viewAllSplits');
+    const involvesMe = (...memberIds: string[]) => canSeeSplits || memberIds.includes(currentMemberId);
+    const canDelete = hasPermission(getMember(currentMemberId), 'deleteExpenses');
+    const visibleBalances = balances.filter(b => involvesMe(b.memberId));
+    const visibleTransfers = transfers.filter(t => involvesMe(t.fromMemberId, t.toMemberId));
+    const visibleSettlements = scopedSettlements.filter(s => involvesMe(s.fromMemberId, s.toMemberId));
+
+    const handleRecordTransfer = async (transfer: Transfer) => {
+        const from = getMember(transfer.fromMemberId)?.name;
+        const to = getMember(transfer.toMemberId)?.name;
+        if (!window.confirm(`Record that ${from} paid ${to} ${formatCurrency(transfer.amount)}?`)) return;
+
+        setIsRecording(true);
+        try {
+            await onAddSettlement({
+                ...transfer,
+                date: new Date().toISOString(),
+                tripId: scope === ALL_EXPENSES ? null : scope,
+            });
+        } finally {
+            setIsRecording(false);
+        }
+    };
+
+    const handleDeleteSettlement = async (settlementId: string) => {
+        if (window.confirm('Are you sure you want to delete this settlement? Balances will be recalculated.')) {
+            await onDeleteSettlement(settlementId);
+        }
+    };
+
+    return (
+        <div className="space-y-6 animate-fade-in-up">
+            <Card>
+                <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
+                    <div>
+                        <h2 className="text-2xl font-bold text-white">Settle Up</h2>
+                        <p className="text-gray-400 mt-1">Who owes whom, based on who paid and each member's share.</p>
+                    </div>
+                    <div className="w-full md:w-64">
+                        <label htmlFor="settleScope" className="block text-sm font-medium text-gray-300">Show balances for</label>
+                        <select
+                            id="settleScope"
+                            className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1"
+                            value={scope}
+                            onChange={(e) => setScope(e.target.value)}
+                        >
+                            <option value={ALL_EXPENSES}>All Expenses</option>
+                            {trips.map(trip => <option key={trip.id} value={trip.id}>✈️ {trip.name}</option>)}
+                        </select>
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    {visibleBalances.map(({ memberId, balance }) => {
+                        const member = getMember(memberId);
+                        return (
+                            <div key={memberId} className="flex items-center justify-between p-3 bg-slate-800/50 rounded-lg">
+                                <div className="flex items-center gap-3">
+                                    <Avatar member={member} className="w-8 h-8" />
+                                    <span className="font-semibold text-gray-200">{member?.name}</span>
+                                </div>
+                                <div className="text-right">
+                                    <p className={`font-bold ${balance > 0 ? 'text-teal-400' : balance < 0 ? 'text-pink-400' : 'text-gray-400'}`}>
+                                        {formatCurrency(Math.abs(balance))}
+                                    </p>
+                                    <p className="text-xs text-gray-500">{balance > 0 ? 'is owed' : balance < 0 ? 'owes' : 'settled'}</p>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            </Card>
+
+            <Card>
+                <div className="flex items-center gap-3 mb-4">
+                    <ArrowsRightLeftIcon className="w-6 h-6 text-purple-400" />
+                    <h3 className="text-xl font-bold text-white">Suggested Payments</h3>
+                </div>
+                <div className="space-y-3">
+                    {visibleTransfers.map(transfer => (
+                        <div key={`${transfer.fromMemberId}-${transfer.toMemberId}`} className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3 p-3 bg-slate-800/50 rounded-lg">
+                            <p className="text-gray-300">
+                                <span className="font-semibold text-white">{getMember(transfer.fromMemberId)?.name}</span>
+                                {' pays '}
+                                <span className="font-semibold text-white">{getMember(transfer.toMemberId)?.name}</span>
+                                {' '}
+                                <span className="font-mono font-bold text-purple-400">{formatCurrency(transfer.amount)}</span>
+                            </p>
+                            <Button size="sm" onClick={() => handleRecordTransfer(transfer)} disabled={isRecording}>Record Payment</Button>
+                        </div>
+                    ))}
+                    {visibleTransfers.length === 0 && <p className="text-center text-gray-500 py-4">{canSeeSplits ? 'Everyone is settled up.' : "You're settled up."}</p>}
+                </div>
+            </Card>
+
+            <Card>
+                <h3 className="text-xl font-bold text-white mb-4">Settlement History</h3>
+                <div className="space-y-3">
+                    {visibleSettlements.map(settlement => {
+                        const trip = trips.find(t => t.id === settlement.tripId);
+                        return (
+                            <div key={settlement.id} className="flex items-center justify-between p-3 bg-slate-800/50 rounded-lg">
+                                <div>
+                                    <p className="text-gray-300">
+                                        <span className="font-semibold text-white">{getMember(settlement.fromMemberId)?.name}</span>
+                                        {' paid '}
+                                        <span className="font-semibold text-white">{getMember(settlement.toMemberId)?.name}</span>
+                                    </p>
+                                    <p className="text-sm text-gray-400">
+                                        {new Date(settlement.date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}
+                                        {trip && ` · ${trip.name}`}
+                                    </p>
+                                </div>
+                                <div className="flex items-center gap-4">
+                                    <p className="font-bold text-teal-400">{formatCurrency(settlement.amount)}</p>
+                                    {canDelete && (
+                                        <Button variant="danger" size="sm" onClick={() => handleDeleteSettlement(settlement.id)} className="p-2">
+                                            <TrashIcon className="w-4 h-4" />
+                                        </Button>
+                                    )}
+                                </div>
+                            </div>
+                        );
+                    })}
+                    {visibleSettlements.length === 0 && <p className="text-center text-gray-500 py-4">No settlements recorded yet.</p>}
+                </div>
+            </Card>
+        </div>
+    );
+};
+
+export default SettleUp;
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Household, BucketGoal } from '../types';
 import { generateTransferSuggestion } from '../services/geminiService';
+import { getAiErrorMessage } from '../services/aiValidation';
 import Modal from './common/Modal';
 import Button from './common/Button';
 import SkeletonLoader from './common/SkeletonLoader';
@@ -49,7 +50,7 @@ const SmartTransferModal: React.FC<SmartTransferModalProps> = ({ isOpen, onClose
           setSuggestion(result);
           setTransferAmount(result.amount);
         } catch (err) {
-          setError('Failed to get AI suggestion. Please try again.');
+          setError(getAiErrorMessage(err, 'Failed to get AI suggestion. Please try again.'));
           console.error(err);
         } finally {
           setIsLoading(false);
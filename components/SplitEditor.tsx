@@ -0,0 +1,84 @@
+import React, { useMemo } from 'react';
+import { Member, Split } from '../types';
+import Button from './common/Button';
+import Avatar from './common/Avatar';
+
+interface SplitEditorProps {
+  members: Member[];
+  splits: Split[];
+  totalAmountCents: number;
+  onChange: (splits: Split[]) => void;
+}
+
+const formatCurrencyForInput = (amountInCents: number): string => (amountInCents / 100).toFixed(2);
+
+// The payer covers 100% of the cost.
+export const getPayerSplits = (members: Member[], payerId: string, totalAmountCents: number): Split[] => {
+  return members.map(member => ({
+    memberId: member.id,
+    amount: member.id === payerId ? totalAmountCents : 0,
+  }));
+};
+
+export const getSplitRemainder = (splits: Split[], totalAmountCents: number): number => {
+  return totalAmountCents - splits.reduce((sum, split) => sum + split.amount, 0);
+};
+
+const SplitEditor: React.FC<SplitEditorProps> = ({ members, splits, totalAmountCents, onChange }) => {
+  const remainingAmount = useMemo(() => getSplitRemainder(splits, totalAmountCents), [splits, totalAmountCents]);
+
+  const handleSplitAmountChange = (memberId: string, value: string) => {
+    const newAmount = Math.round(parseFloat(value || '0') * 100);
+    const hasSplit = splits.some(split => split.memberId === memberId);
+    onChange(hasSplit
+      ? splits.map(split => split.memberId === memberId ? { ...split, amount: newAmount } : split)
+      : [...splits, { memberId, amount: newAmount }]
+    );
+  };
+
+  const handleSplitEqually = () => {
+    if (totalAmountCents <= 0 || members.length === 0) return;
+
+    const memberCount = members.length;
+    const baseAmount = Math.floor(totalAmountCents / memberCount);
+    const remainder = totalAmountCents % memberCount;
+
+    onChange(members.map((member, index) => ({
+        memberId: member.id,
+        amount: baseAmount + (index < remainder ? 1 : 0),
+    })));
+  };
+
+  return (
+    <div className="pt-4 border-t border-slate-700">
+      <div className="flex justify-between items-center mb-3">
+        <h4 className="text-lg font-semibold text-white">Split Expense</h4>
+        <Button type="button" variant="secondary" size="sm" onClick={handleSplitEqually}>Split Equally</Button>
+      </div>
+      <div className="space-y-2 max-h-40 overflow-y-auto pr-2">
+        {members.map(member => (
+          <div key={member.id} className="flex items-center gap-3">
+            <Avatar member={member} className="w-8 h-8" />
+            <label htmlFor={`split-${member.id}`} className="flex-1 text-gray-300">{member.name}</label>
+            <div className="relative">
+              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400">₹</span>
+              <input
+                type="number"
+                id={`split-${member.id}`}
+                value={formatCurrencyForInput(splits.find(s => s.memberId === member.id)?.amount || 0)}
+                onChange={e => handleSplitAmountChange(member.id, e.target.value)}
+                className="w-28 bg-slate-700 border-slate-600 rounded-md shadow-sm text-right pl-7"
+                step="0.01"
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className={`mt-3 p-2 rounded-lg text-sm font-medium text-center ${remainingAmount === 0 ? 'bg-green-500/10 text-green-300' : 'bg-red-500/10 text-red-300'}`}>
+          {remainingAmount === 0 ? 'Splits match total' : `₹${formatCurrencyForInput(Math.abs(remainingAmount))} ${remainingAmount > 0 ? 'left to assign' : 'over-assigned'}`}
+      </div>
+    </div>
+  );
+};
+
+export default SplitEditor;
@@ -1,10 +1,13 @@
 import React, { useState, useCallback } from 'react';
-import { Household, Subscription } from '../types';
+import { Household, Member, Subscription } from '../types';
 import { detectRecurringPayments, SuggestedSubscription } from '../services/geminiService';
+import * as db from '../services/db';
+import { getAiErrorMessage } from '../services/aiValidation';
 import Card from './common/Card';
 import Button from './common/Button';
 import { SparklesIcon, TrashIcon } from './icons/Icons';
 import SkeletonLoader from './common/SkeletonLoader';
+import { hasPermission } from '../utils/permissions';
 
 const formatCurrency = (amountInCents: number): string => {
   const amount = amountInCents / 100;
@@ -13,10 +16,12 @@ const formatCurrency = (amountInCents: number): string => {
 
 interface SubscriptionsProps {
   household: Household;
+  currentMember: Member;
   onUpdate: (data: Partial<Omit<Household, 'id'>>) => Promise<void>;
 }
 
-const Subscriptions: React.FC<SubscriptionsProps> = ({ household, onUpdate }) => {
+const Subscriptions: React.FC<SubscriptionsProps> = ({ household, currentMember, onUpdate }) => {
+    const canManage = hasPermission(currentMember, 'manageSubscriptions');
     const [isScanning, setIsScanning] = useState(false);
     const [suggestions, setSuggestions] = useState<SuggestedSubscription[]>([]);
     const [error, setError] = useState<string | null>(null);
@@ -28,10 +33,11 @@ const Subscriptions: React.FC<SubscriptionsProps> = ({ household, onUpdate }) =>
         setError(null);
         setSuggestions([]);
         try {
-            const results = await detectRecurringPayments(household);
+            const { expenses } = await db.queryExpenses({ tripId: null }, 0, 200);
+            const results = await detectRecurringPayments(household, expenses);
             setSuggestions(results);
         } catch (err) {
-            setError('Failed to scan for subscriptions. Please try again.');
+            setError(getAiErrorMessage(err, 'Failed to scan for subscriptions. Please try again.'));
             console.error(err);
         } finally {
             setIsScanning(false);
@@ -85,6 +91,7 @@ const Subscriptions: React.FC<SubscriptionsProps> = ({ household, onUpdate }) =>
         <div className="space-y-6 animate-fade-in-up">
             <Card>
                 <h2 className="text-xl font-bold text-white mb-4">Tracked Subscriptions</h2>
+                {!canManage && <p className="text-xs text-gray-500 -mt-2 mb-4">Only an adult or owner can change subscriptions.</p>}
                 <div className="space-y-3">
                     {household.subscriptions.map(sub => {
                         const category = getCategory(sub.categoryId);
@@ -99,9 +106,9 @@ const Subscriptions: React.FC<SubscriptionsProps> = ({ household, onUpdate }) =>
                                 </div>
                                 <div className="flex items-center gap-3">
                                     <span className="text-sm text-gray-300">Next: {new Date(sub.nextDueDate).toLocaleDateString('en-GB', { day: 'numeric', month: 'short' })}</span>
-                                    <Button variant="danger" size="sm" className="p-2" onClick={() => handleDeleteSubscription(sub.id)}>
+                                    {canManage && <Button variant="danger" size="sm" className="p-2" onClick={() => handleDeleteSubscription(sub.id)}>
                                         <TrashIcon className="w-4 h-4" />
-                                    </Button>
+                                    </Button>}
                                 </div>
                             </div>
                         );
@@ -142,7 +149,7 @@ const Subscriptions: React.FC<SubscriptionsProps> = ({ household, onUpdate }) =>
                                 </div>
                                 <div className="flex gap-3 self-end sm:self-center">
                                     <Button variant="secondary" size="sm" onClick={() => handleDismissSuggestion(s.description)}>Dismiss</Button>
-                                    <Button size="sm" onClick={() => handleAddSubscription(s)}>Add Subscription</Button>
+                                    {canManage && <Button size="sm" onClick={() => handleAddSubscription(s)}>Add Subscription</Button>}
                                 </div>
                            </div>
                         );
@@ -0,0 +1,132 @@
+import React, { useState, useEffect } from 'react';
+import { Household, Trip, Expense, PendingAnalysis } from '../types';
+import Card from './common/Card';
+import Button from './common/Button';
+import ProgressBar from './common/ProgressBar';
+import { PlusIcon, PencilIcon } from './icons/Icons';
+import AddExpenseModal from './AddExpenseModal';
+import EditExpenseModal from './EditExpenseModal';
+import * as db from '../services/db';
+
+const formatCurrency = (amountInCents: number): string => {
+  const amount = amountInCents / 100;
+  return new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', minimumFractionDigits: 0 }).format(amount);
+};
+
+const formatDate = (dateString: string): string => {
+    return new Date(dateString).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+};
+
+interface TripDetailProps {
+  trip: Trip;
+  household: Household;
+  onBack: () => void;
+  onAddExpense: (expense: Omit<Expense, 'id'>) => Promise<void>;
+  onQueueReceipt: (receipt: Pick<PendingAnalysis, 'imageDataUrl' | 'date' | 'memberId' | 'tripId'>) => Promise<void>;
+  onUpdateExpense: (expense: Expense) => Promise<void>;
+  onDeleteExpense: (expenseId: string) => Promise<void>;
+  currentMemberId: string;
+}
+
+const TripDetail: React.FC<TripDetailProps> = ({ trip, household, onBack, onAddExpense, onQueueReceipt, onUpdateExpense, onDeleteExpense, currentMemberId }) => {
+    const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+    const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
+    const [expenses, setExpenses] = useState<Expense[]>([]);
+
+    // Reloaded whenever an expense changes, which replaces `household.expenses`.
+    useEffect(() => {
+        let isCurrent = true;
+        db.listExpenses({ tripId: trip.id })
+            .then(tripExpenses => { if (isCurrent) setExpenses(tripExpenses); })
+            .catch(err => console.error("Failed to load trip expenses:", err));
+        return () => { isCurrent = false; };
+    }, [trip.id, household.expenses]);
+
+    const getCategory = (id: string) => household.categories.find(c => c.id === id);
+    const getMember = (id: string) => household.members.find(m => m.id === id);
+
+    const totalSpent = expenses.reduce((sum, exp) => sum + exp.amount, 0);
+    const isOverBudget = totalSpent > trip.budget;
+
+    return (
+        <div className="space-y-6 animate-fade-in-up">
+            <div className="flex justify-between items-center">
+                <Button variant="secondary" onClick={onBack}>&larr; All Trips</Button>
+                <Button onClick={() => setIsAddModalOpen(true)}>
+                    <PlusIcon className="w-5 h-5" />
+                    <span>Add Trip Expense</span>
+                </Button>
+            </div>
+
+            <Card>
+                <h2 className="text-2xl font-bold text-white">{trip.name}</h2>
+                <p className="text-sm text-gray-400">{formatDate(trip.startDate)} - {formatDate(trip.endDate)}</p>
+                <div className="mt-4">
+                    <div className="flex justify-between items-baseline">
+                        <span className={`text-2xl font-bold ${isOverBudget ? 'text-pink-400' : 'text-white'}`}>{formatCurrency(totalSpent)}</span>
+                        <span className="text-sm text-gray-400">/ {formatCurrency(trip.budget)}</span>
+                    </div>
+                    <div className="mt-2">
+                        <ProgressBar value={totalSpent} max={trip.budget} color={isOverBudget ? 'red' : 'indigo'} />
+                    </div>
+                    {isOverBudget && <p className="text-xs text-pink-400 text-right mt-1">Over budget by {formatCurrency(totalSpent - trip.budget)}!</p>}
+                </div>
+            </Card>
+
+            <Card>
+                <h3 className="text-xl font-bold text-white mb-4">Trip Expenses</h3>
+                <div className="space-y-3">
+                    {expenses.map(exp => {
+                        const category = getCategory(exp.categoryId);
+                        return (
+                            <div key={exp.id} className="flex items-center justify-between p-3 bg-slate-800/50 rounded-lg hover:bg-slate-700/50 transition-colors">
+                                <div className="flex items-center gap-4">
+                                    <span className="text-2xl">{category?.icon || '❓'}</span>
+                                    <div>
+                                        <p className="font-semibold text-white">{exp.description}</p>
+                                        <p className="text-sm text-gray-400">
+                                            {formatDate(exp.date)}
+                                            {' · Paid by '}
+                                            <span className="font-medium text-gray-300">{getMember(exp.memberId)?.name}</span>
+                                        </p>
+                                    </div>
+                                </div>
+                                <div className="flex items-center gap-4">
+                                    <p className="font-bold text-lg text-pink-400">-{formatCurrency(exp.amount)}</p>
+                                    <Button variant="secondary" size="sm" onClick={() => setEditingExpense(exp)} className="p-2" title="Edit expense">
+                                        <PencilIcon className="w-4 h-4" />
+                                    </Button>
+                                </div>
+                            </div>
+                        );
+                    })}
+                    {expenses.length === 0 && <p className="text-center text-gray-500 py-4">No expenses logged for this trip yet.</p>}
+                </div>
+            </Card>
+
+            <AddExpenseModal
+                isOpen={isAddModalOpen}
+                onClose={() => setIsAddModalOpen(false)}
+                household={household}
+                onAddExpense={onAddExpense}
+                onQueueReceipt={onQueueReceipt}
+                defaultTripId={trip.id}
+                currentMemberId={currentMemberId}
+            />
+
+            {editingExpense && (
+                <EditExpenseModal
+                    isOpen={!!editingExpense}
+                    onClose={() => setEditingExpense(null)}
+                    expense={editingExpense}
+                    household={household}
+                    onUpdateExpense={onUpdateExpense}
+                    onDeleteExpense={onDeleteExpense}
+                    currentMemberId={currentMemberId}
+                />
+            )}
+        </div>
+    );
+};
+
+export default TripDetail;
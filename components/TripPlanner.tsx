@@ -1,10 +1,12 @@
-import React, { useState } from 'react';
-import { Household, Trip } from '../types';
+import React, { useState, useEffect } from 'react';
+import { Household, Trip, Expense, PendingAnalysis } from '../types';
 import Card from './common/Card';
 import Button from './common/Button';
 import { PlaneIcon, PlusIcon, PencilIcon } from './icons/Icons';
 import EditTripModal from './EditTripModal';
 import ProgressBar from './common/ProgressBar';
+import TripDetail from './TripDetail';
+import * as db from '../services/db';
 
 const formatCurrency = (amountInCents: number): string => {
   const amount = amountInCents / 100;
@@ -18,12 +20,29 @@ const formatDate = (dateString: string): string => {
 interface TripPlannerProps {
   household: Household;
   onUpdate: (data: Partial<Omit<Household, 'id'>>) => Promise<void>;
+  onAddExpense: (expense: Omit<Expense, 'id'>) => Promise<void>;
+  onQueueReceipt: (receipt: Pick<PendingAnalysis, 'imageDataUrl' | 'date' | 'memberId' | 'tripId'>) => Promise<void>;
+  onUpdateExpense: (expense: Expense) => Promise<void>;
+  onDeleteExpense: (expenseId: string) => Promise<void>;
+  currentMemberId: string;
 }
 
-const TripPlanner: React.FC<TripPlannerProps> = ({ household, onUpdate }) => {
+const TripPlanner: React.FC<TripPlannerProps> = ({ household, onUpdate, onAddExpense, onQueueReceipt, onUpdateExpense, onDeleteExpense, currentMemberId }) => {
     const { trips } = household;
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [selectedTrip, setSelectedTrip] = useState<Trip | null>(null);
+    const [viewingTripId, setViewingTripId] = useState<string | null>(null);
+    // Each trip's total and its two newest expenses, by trip ID.
+    const [summaries, setSummaries] = useState<Record<string, db.ExpensePage>>({});
+
+    // Reloaded whenever an expense changes, which replaces `household.expenses`.
+    useEffect(() => {
+        let isCurrent = true;
+        Promise.all(trips.map(async trip => [trip.id, await db.queryExpenses({ tripId: trip.id }, 0, 2)] as const))
+            .then(entries => { if (isCurrent) setSummaries(Object.fromEntries(entries)); })
+            .catch(err => console.error("Failed to load trip expenses:", err));
+        return () => { isCurrent = false; };
+    }, [trips, household.expenses]);
 
     const handleOpenModal = (trip: Trip | null = null) => {
         setSelectedTrip(trip);
@@ -35,6 +54,23 @@ const TripPlanner: React.FC<TripPlannerProps> = ({ household, onUpdate }) => {
         setSelectedTrip(null);
     };
 
+    // Looked up by ID so the detail view picks up reloaded household data.
+    const viewingTrip = trips.find(t => t.id === viewingTripId);
+    if (viewingTrip) {
+        return (
+            <TripDetail
+                trip={viewingTrip}
+                household={household}
+                onBack={() => setViewingTripId(null)}
+                onAddExpense={onAddExpense}
+                onQueueReceipt={onQueueReceipt}
+                onUpdateExpense={onUpdateExpense}
+                onDeleteExpense={onDeleteExpense}
+                currentMemberId={currentMemberId}
+            />
+        );
+    }
+
     return (
         <div className="animate-fade-in-up">
             <div className="flex justify-between items-center mb-6">
@@ -48,7 +84,8 @@ const TripPlanner: React.FC<TripPlannerProps> = ({ household, onUpdate }) => {
             {trips.length > 0 ? (
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                     {trips.map((trip, index) => {
-                        const totalSpent = trip.expenses.reduce((sum, exp) => sum + exp.amount, 0);
+                        const summary = summaries[trip.id];
+                        const totalSpent = summary?.totalAmount ?? 0;
                         const isOverBudget = totalSpent > trip.budget;
                         return (
                             <Card 
@@ -84,14 +121,17 @@ const TripPlanner: React.FC<TripPlannerProps> = ({ household, onUpdate }) => {
                                 <div className="mt-4">
                                     <h4 className="font-semibold text-gray-300 text-sm mb-2">Recent Trip Expenses:</h4>
                                     <div className="space-y-2 text-sm">
-                                        {trip.expenses.slice(0, 2).map(exp => (
+                                        {summary?.expenses.map(exp => (
                                             <div key={exp.id} className="flex justify-between">
                                                 <span className="text-gray-400">{exp.description}</span>
                                                 <span className="font-mono text-gray-300">-{formatCurrency(exp.amount)}</span>
                                             </div>
                                         ))}
-                                        {trip.expenses.length === 0 && <p className="text-xs text-gray-500">No expenses logged yet.</p>}
+                                        {summary?.totalCount === 0 && <p className="text-xs text-gray-500">No expenses logged yet.</p>}
                                     </div>
+                                    <Button variant="secondary" size="sm" onClick={() => setViewingTripId(trip.id)} className="w-full mt-4">
+                                        View Expenses ({summary?.totalCount ?? 0})
+                                    </Button>
                                 </div>
                             </Card>
                         );
@@ -0,0 +1,26 @@
+import React from 'react';
+import { Member } from '../../types';
+import { getInitials } from '../../utils/memberUtils';
+
+interface AvatarProps {
+  member: Member | undefined;
+  className?: string; // size and border classes, e.g. "w-8 h-8"
+}
+
+const COLORS = ['bg-purple-600', 'bg-pink-600', 'bg-teal-600', 'bg-indigo-600', 'bg-orange-600', 'bg-sky-600'];
+
+// The member's uploaded picture, or their initials on a colour picked from their id.
+const Avatar: React.FC<AvatarProps> = ({ member, className = 'w-8 h-8' }) => {
+  if (member?.avatarUrl) {
+    return <img src={member.avatarUrl} alt={member.name} className={`rounded-full object-cover ${className}`} />;
+  }
+  const id = member?.id || '';
+  const color = COLORS[[...id].reduce((sum, ch) => sum + ch.charCodeAt(0), 0) % COLORS.length];
+  return (
+    <span className={`inline-flex items-center justify-center rounded-full text-white text-xs font-bold select-none ${color} ${className}`} title={member?.name}>
+      {getInitials(member?.name || '')}
+    </span>
+  );
+};
+
+export default Avatar;
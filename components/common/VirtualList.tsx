@@ -0,0 +1,67 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+
+interface VirtualListProps {
+  itemCount: number;
+  estimatedRowHeight: number; // in px, used until a row has been measured; rows are expected to share one height
+  renderRow: (index: number) => React.ReactNode;
+  getKey: (index: number) => string;
+  onEndReached?: () => void; // called when the last rows come into view, e.g. to load the next page
+  className?: string; // should limit the height, e.g. max-h-[70vh]
+}
+
+// Rows rendered above and below the visible ones, so fast scrolling doesn't show gaps.
+const OVERSCAN = 5;
+
+// A scrolling list that only renders the rows in view, for lists too long to render in full.
+const VirtualList: React.FC<VirtualListProps> = ({ itemCount, estimatedRowHeight, renderRow, getKey, onEndReached, className = '' }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [rowHeight, setRowHeight] = useState(estimatedRowHeight);
+  const onEndReachedRef = useRef(onEndReached);
+  onEndReachedRef.current = onEndReached;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // The first rendered row sets the height used for all of them; it changes with the layout, e.g. on narrow screens.
+  const measureRow = useCallback((row: HTMLDivElement | null) => {
+    if (row && row.offsetHeight > 0) setRowHeight(row.offsetHeight);
+  }, []);
+
+  const firstIndex = Math.max(0, Math.floor(scrollTop / rowHeight) - OVERSCAN);
+  const lastIndex = Math.min(itemCount, Math.ceil((scrollTop + (viewportHeight || estimatedRowHeight * 10)) / rowHeight) + OVERSCAN);
+
+  useEffect(() => {
+    if (itemCount > 0 && lastIndex >= itemCount) onEndReachedRef.current?.();
+  }, [lastIndex, itemCount]);
+
+  const rows: React.ReactNode[] = [];
+  for (let index = firstIndex; index < lastIndex; index++) {
+    rows.push(
+      <div
+        key={getKey(index)}
+        ref={index === firstIndex ? measureRow : undefined}
+        className="absolute left-0 right-0"
+        style={{ top: index * rowHeight }}
+      >
+        {renderRow(index)}
+      </div>
+    );
+  }
+
+  return (
+    <div ref={containerRef} onScroll={e => setScrollTop(e.currentTarget.scrollTop)} className={`overflow-y-auto ${className}`}>
+      <div className="relative" style={{ height: itemCount * rowHeight }}>
+        {rows}
+      </div>
+    </div>
+  );
+};
+
+export default VirtualList;
@@ -1,12 +1,22 @@
-import { Household } from './types';
+import { Household, AiSettings, Expense } from './types';
+
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+  provider: 'gemini',
+  geminiApiKey: '',
+  openAiBaseUrl: 'http://localhost:11434/v1',
+  openAiApiKey: '',
+  defaultModel: 'gemini-2.5-flash',
+  models: {},
+  anomalySecondOpinion: false,
+};
 
 // FIX: Provide initial data for the application to function.
 export const INITIAL_HOUSEHOLD_DATA: Household = {
   id: 'hh-1',
   name: "The Sharma's Household",
   members: [
-    { id: 'mem-1', name: 'Rohan', avatarUrl: 'https://i.pravatar.cc/150?u=rohan' },
-    { id: 'mem-2', name: 'Priya', avatarUrl: 'https://i.pravatar.cc/150?u=priya' },
+    { id: 'mem-1', name: 'Rohan', avatarUrl: '', role: 'owner' },
+    { id: 'mem-2', name: 'Priya', avatarUrl: '', role: 'owner' },
   ],
   categories: [
     { id: 'cat-1', name: 'Groceries', icon: '🛒' },
@@ -19,11 +29,11 @@ export const INITIAL_HOUSEHOLD_DATA: Household = {
     { id: 'cat-8', name: 'Other', icon: '❓' },
   ],
   rules: [
-    { id: 'rule-1', keyword: 'zomato', categoryId: 'cat-3' },
-    { id: 'rule-2', keyword: 'swiggy', categoryId: 'cat-3' },
-    { id: 'rule-3', keyword: 'bigbasket', categoryId: 'cat-1' },
-    { id: 'rule-4', keyword: 'uber', categoryId: 'cat-4' },
-    { id: 'rule-5', keyword: 'ola', categoryId: 'cat-4' },
+    { id: 'rule-1', keyword: 'zomato', matchMode: 'contains', priority: 5, categoryId: 'cat-3' },
+    { id: 'rule-2', keyword: 'swiggy', matchMode: 'contains', priority: 4, categoryId: 'cat-3' },
+    { id: 'rule-3', keyword: 'bigbasket', matchMode: 'contains', priority: 3, categoryId: 'cat-1' },
+    { id: 'rule-4', keyword: 'uber', matchMode: 'contains', priority: 2, categoryId: 'cat-4' },
+    { id: 'rule-5', keyword: 'ola', matchMode: 'contains', priority: 1, categoryId: 'cat-4' },
   ],
   expenses: [
     { id: 'exp-1', description: 'Weekly groceries', amount: 350000, date: new Date(Date.now() - 2 * 86400000).toISOString(), memberId: 'mem-1', categoryId: 'cat-1', splits: [{ memberId: 'mem-1', amount: 175000 }, { memberId: 'mem-2', amount: 175000 }] },
@@ -35,6 +45,7 @@ export const INITIAL_HOUSEHOLD_DATA: Household = {
     { id: 'exp-7', description: 'Netflix', amount: 64900, date: new Date(new Date().setMonth(new Date().getMonth() - 2)).toISOString(), memberId: 'mem-2', categoryId: 'cat-5', splits: [{ memberId: 'mem-2', amount: 64900 }] },
     { id: 'exp-8', description: 'Gym Membership', amount: 200000, date: new Date(new Date().setMonth(new Date().getMonth() - 1)).toISOString(), memberId: 'mem-1', categoryId: 'cat-7', splits: [{ memberId: 'mem-1', amount: 200000 }] },
   ],
+  incomes: [],
   budgets: [
     { id: 'bud-1', categoryId: 'cat-1', amount: 2000000 },
     { id: 'bud-2', categoryId: 'cat-2', amount: 1000000 },
@@ -52,20 +63,29 @@ export const INITIAL_HOUSEHOLD_DATA: Household = {
       startDate: '2024-08-15', 
       endDate: '2024-08-18', 
       budget: 3000000, 
-      expenses: [
-        { id: 'texp-1', description: 'Hotel', amount: 1500000, date: '2024-08-15', memberId: 'mem-1', categoryId: 'cat-4', splits: [{ memberId: 'mem-1', amount: 1500000 }] },
-        { id: 'texp-2', description: 'Food', amount: 800000, date: '2024-08-16', memberId: 'mem-2', categoryId: 'cat-3', splits: [{ memberId: 'mem-2', amount: 800000 }] },
-      ] 
     }
   ],
   subscriptions: [
       { id: 'sub-1', description: 'Netflix Subscription', amount: 64900, frequency: 'monthly', nextDueDate: new Date(new Date().setDate(new Date().getDate() + 10)).toISOString(), categoryId: 'cat-5' },
       { id: 'sub-2', description: 'Gym Membership', amount: 200000, frequency: 'monthly', nextDueDate: new Date(new Date().setDate(new Date().getDate() + 2)).toISOString(), categoryId: 'cat-7' }
   ],
+  settlements: [],
+  csvProfiles: [],
+  importBatches: [],
+  categoryCorrections: [],
+  aiSettings: DEFAULT_AI_SETTINGS,
   notifications: [
     { id: 'notif-1', message: 'You are close to your Dining Out budget for this month.', date: new Date(Date.now() - 1 * 86400000).toISOString(), type: 'warning', isRead: false },
     { id: 'notif-2', message: 'Welcome to FinancelyAI! Add your first expense to get started.', date: new Date(Date.now() - 10 * 86400000).toISOString(), type: 'info', isRead: true },
   ],
+  approvalRequests: [],
+  pendingAnalyses: [],
   emailAlertsEnabled: true,
   monthlyIncome: 8000000, // Corresponds to ₹80,000
-};
\ No newline at end of file
+  autoLockMinutes: 0,
+};
+// Expenses of the sample trip. Loaded households leave trip expenses in the database, so they are seeded from here.
+export const INITIAL_TRIP_EXPENSES: Expense[] = [
+  { id: 'texp-1', description: 'Hotel', amount: 1500000, date: '2024-08-15', memberId: 'mem-1', categoryId: 'cat-4', tripId: 'trip-1', splits: [{ memberId: 'mem-1', amount: 1500000 }] },
+  { id: 'texp-2', description: 'Food', amount: 800000, date: '2024-08-16', memberId: 'mem-2', categoryId: 'cat-3', tripId: 'trip-1', splits: [{ memberId: 'mem-2', amount: 800000 }] },
+];
@@ -7,6 +7,13 @@ if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// The service worker only exists in production builds; see vite.config.ts.
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(err => console.error("Service worker registration failed:", err));
+  });
+}
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+    AiResponseError, getAiErrorMessage, validateReceiptAnalysis, validateAnomalyVerdict, validateStatementRows,
+    validateCategoryAssignments, validateRecurringPayments,
+} from './aiValidation';
+import { Category } from '../types';
+
+const categories: Category[] = [
+    { id: 'cat-1', name: 'Groceries', icon: '🛒' },
+    { id: 'cat-2', name: 'Dining Out', icon: '🍔' },
+];
+
+describe('validateReceiptAnalysis', () => {
+    it('accepts a valid answer and returns the canonical category name', () => {
+        const { value, issues } = validateReceiptAnalysis(categories)({ description: 'Big Bazaar', amount: 450.5, categoryName: ' groceries ' });
+        expect(issues).toEqual([]);
+        expect(value).toEqual({ description: 'Big Bazaar', amount: 450.5, categoryName: 'Groceries' });
+    });
+
+    it('allows an empty category name', () => {
+        expect(validateReceiptAnalysis(categories)({ description: 'Cafe', amount: 120, categoryName: '' }).issues).toEqual([]);
+    });
+
+    it('reports every invalid field in one pass', () => {
+        const { issues } = validateReceiptAnalysis(categories)({ description: '', amount: -450, categoryName: 'Travel' });
+        expect(issues).toEqual([
+            `categoryName must be one of the household's category names (got "Travel")`,
+            'description must be a non-empty string (got "")',
+            'amount must be a positive number (got -450)',
+        ]);
+    });
+
+    it('rejects answers that are not objects', () => {
+        expect(validateReceiptAnalysis(categories)([]).issues).toEqual(['response must be an object (got [])']);
+    });
+});
+
+describe('validateAnomalyVerdict', () => {
+    it('requires reasoning only for anomalies', () => {
+        expect(validateAnomalyVerdict({ isAnomalous: false, reasoning: '' }).issues).toEqual([]);
+        expect(validateAnomalyVerdict({ isAnomalous: true, reasoning: '' }).issues).toEqual(['reasoning must be a non-empty string (got "")']);
+        expect(validateAnomalyVerdict({ isAnomalous: 'yes', reasoning: 'Unusual' }).issues).toEqual(['isAnomalous must be true or false (got "yes")']);
+    });
+});
+
+describe('validateStatementRows', () => {
+    it('checks dates, amounts and types with the row index in the path', () => {
+        const { issues } = validateStatementRows([
+            { date: '2024-08-15', description: 'SALARY', amount: 85000, type: 'credit' },
+            { date: '2024-02-30', description: 'RENT', amount: 0, type: 'transfer' },
+        ]);
+        expect(issues).toEqual([
+            '[1].date must be a YYYY-MM-DD date (got "2024-02-30")',
+            '[1].amount must be a positive number (got 0)',
+            `[1].type must be one of 'credit', 'debit' (got "transfer")`,
+        ]);
+    });
+
+    it('reports rows that are not objects', () => {
+        expect(validateStatementRows(['SALARY']).issues).toEqual(['[0] must be an object (got "SALARY")']);
+    });
+});
+
+describe('validateCategoryAssignments', () => {
+    it('requires one known category ID per transaction', () => {
+        expect(validateCategoryAssignments(categories, 2)(['cat-1', 'cat-2']).issues).toEqual([]);
+        expect(validateCategoryAssignments(categories, 2)(['cat-9']).issues).toEqual([
+            'response must contain exactly 2 category IDs (got 1)',
+            `[0] must be one of the household's category IDs (got "cat-9")`,
+        ]);
+    });
+});
+
+describe('validateRecurringPayments', () => {
+    it('accepts known frequencies and categories', () => {
+        const payment = { description: 'Netflix', amount: 649, frequency: 'monthly', categoryId: 'cat-2', lastPaymentDate: '2024-08-05' };
+        expect(validateRecurringPayments(categories)([payment]).issues).toEqual([]);
+        expect(validateRecurringPayments(categories)([{ ...payment, frequency: 'daily' }]).issues).toEqual([
+            `[0].frequency must be one of 'weekly', 'monthly', 'yearly' (got "daily")`,
+        ]);
+    });
+});
+
+describe('AiResponseError', () => {
+    beforeEach(() => vi.stubGlobal('navigator', { onLine: true }));
+    afterEach(() => vi.unstubAllGlobals());
+
+    it('summarises the first three issues', () => {
+        const error = new AiResponseError('receipt', ['a', 'b', 'c', 'd', 'e']);
+        expect(error.message).toBe('The AI response for receipt was rejected: a; b; c (and 2 more)');
+        expect(getAiErrorMessage(error, 'Something went wrong')).toBe(`${error.message}. Please try again.`);
+    });
+});
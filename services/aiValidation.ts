@@ -0,0 +1,243 @@
+// Runtime checks for the JSON the AI returns. No structured AI answer reaches the
+// UI or the database until it has passed one of these validators.
+
+import { AiFeature, Category, ParsedTransaction, SavingsSuggestion, Subscription } from '../types';
+
+// The response is valid when `issues` is empty.
+export interface ValidationResult<T> {
+    value: T;
+    issues: string[];
+}
+
+export type ResponseValidator<T> = (data: unknown) => ValidationResult<T>;
+
+/**
+ * Thrown when the AI's response is still invalid after the repair retry.
+ * `issues` lists what was rejected, e.g. `[2].amount must be a positive number (got -450)`.
+ */
+export class AiResponseError extends Error {
+    feature: AiFeature;
+    issues: string[];
+
+    constructor(feature: AiFeature, issues: string[]) {
+        super(`The AI response for ${feature} was rejected: ${issues.slice(0, 3).join('; ')}${issues.length > 3 ? ` (and ${issues.length - 3} more)` : ''}`);
+        this.name = 'AiResponseError';
+        this.feature = feature;
+        this.issues = issues;
+    }
+}
+
+// True when an AI call failed because there is no network connection, rather than because of the AI's answer.
+export const isOfflineError = (error: unknown): boolean => {
+    return !navigator.onLine || (error instanceof TypeError && /fetch|network/i.test(error.message));
+};
+
+// Gives the UI a message that says what went wrong when the AI answered with bad data or couldn't be reached.
+export const getAiErrorMessage = (error: unknown, fallback: string): string => {
+    if (isOfflineError(error)) {
+        return "You're offline. AI features will work again once you're connected.";
+    }
+    if (error instanceof AiResponseError) {
+        return `${error.message}. Please try again.`;
+    }
+    return fallback;
+};
+
+// --- Field checks ---
+// Each check records an issue and returns the value unchanged, so one pass reports every problem.
+
+const show = (value: unknown): string => {
+    const text = JSON.stringify(value) ?? String(value);
+    return text.length > 40 ? `${text.slice(0, 40)}...` : text;
+};
+
+const at = (path: string, key: string | number) => typeof key === 'number' ? `${path}[${key}]` : (path ? `${path}.${key}` : key);
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const checkObject = (value: unknown, path: string, issues: string[]): Record<string, unknown> | null => {
+    if (isRecord(value)) return value;
+    issues.push(`${path || 'response'} must be an object (got ${show(value)})`);
+    return null;
+};
+
+const checkArray = (value: unknown, path: string, issues: string[]): unknown[] | null => {
+    if (Array.isArray(value)) return value;
+    issues.push(`${path || 'response'} must be an array (got ${show(value)})`);
+    return null;
+};
+
+const checkString = (value: unknown, path: string, issues: string[], options: { allowEmpty?: boolean } = {}): string => {
+    if (typeof value !== 'string' || (!options.allowEmpty && value.trim() === '')) {
+        issues.push(`${path} must be a non-empty string (got ${show(value)})`);
+    }
+    return value as string;
+};
+
+const checkAmount = (value: unknown, path: string, issues: string[], options: { allowZero?: boolean } = {}): number => {
+    const isValid = typeof value === 'number' && Number.isFinite(value) && (options.allowZero ? value >= 0 : value > 0);
+    if (!isValid) {
+        issues.push(`${path} must be a ${options.allowZero ? 'non-negative' : 'positive'} number (got ${show(value)})`);
+    }
+    return value as number;
+};
+
+const checkBoolean = (value: unknown, path: string, issues: string[]): boolean => {
+    if (typeof value !== 'boolean') issues.push(`${path} must be true or false (got ${show(value)})`);
+    return value as boolean;
+};
+
+const checkOneOf = <T extends string>(value: unknown, allowed: readonly T[], path: string, issues: string[]): T => {
+    if (!allowed.includes(value as T)) {
+        issues.push(`${path} must be one of ${allowed.map(a => `'${a}'`).join(', ')} (got ${show(value)})`);
+    }
+    return value as T;
+};
+
+const checkDate = (value: unknown, path: string, issues: string[]): string => {
+    const parsed = typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00Z`) : null;
+    // Rejects impossible dates such as 2024-02-30, which Date would roll over.
+    const isValid = parsed !== null && !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(value as string);
+    if (!isValid) issues.push(`${path} must be a YYYY-MM-DD date (got ${show(value)})`);
+    return value as string;
+};
+
+const checkCategoryId = (value: unknown, categories: Category[], path: string, issues: string[]): string => {
+    if (!categories.some(c => c.id === value)) {
+        issues.push(`${path} must be one of the household's category IDs (got ${show(value)})`);
+    }
+    return value as string;
+};
+
+// Case-insensitive, like the components that look categories up by name. Returns the canonical name.
+const checkCategoryName = (value: unknown, categories: Category[], path: string, issues: string[]): string => {
+    const category = typeof value === 'string' ? categories.find(c => c.name.toLowerCase() === value.trim().toLowerCase()) : undefined;
+    if (!category) {
+        issues.push(`${path} must be one of the household's category names (got ${show(value)})`);
+        return value as string;
+    }
+    return category.name;
+};
+
+const result = <T>(value: T, issues: string[]): ValidationResult<T> => ({ value, issues });
+
+const validateArrayOf = <T>(data: unknown, validateItem: (item: Record<string, unknown>, path: string, issues: string[]) => T): ValidationResult<T[]> => {
+    const issues: string[] = [];
+    const items = checkArray(data, '', issues);
+    if (!items) return result([], issues);
+    const values = items.map((item, index) => {
+        const path = at('', index);
+        const record = checkObject(item, path, issues);
+        return record ? validateItem(record, path, issues) : (item as T);
+    });
+    return result(values, issues);
+};
+
+// --- Response validators ---
+
+export interface ReceiptAnalysis {
+    description: string;
+    amount: number; // in INR, not cents
+    categoryName: string; // empty when the AI had no suggestion
+}
+
+export const validateReceiptAnalysis = (categories: Category[]): ResponseValidator<ReceiptAnalysis> => (data) => {
+    const issues: string[] = [];
+    const record = checkObject(data, '', issues);
+    if (!record) return result(data as ReceiptAnalysis, issues);
+    const categoryName = record.categoryName === '' ? '' : checkCategoryName(record.categoryName, categories, 'categoryName', issues);
+    return result({
+        description: checkString(record.description, 'description', issues),
+        amount: checkAmount(record.amount, 'amount', issues),
+        categoryName,
+    }, issues);
+};
+
+export interface TransferSuggestion {
+    amount: number; // in INR, not cents
+    reasoning: string;
+}
+
+export const validateTransferSuggestion: ResponseValidator<TransferSuggestion> = (data) => {
+    const issues: string[] = [];
+    const record = checkObject(data, '', issues);
+    if (!record) return result(data as TransferSuggestion, issues);
+    return result({
+        amount: checkAmount(record.amount, 'amount', issues, { allowZero: true }),
+        reasoning: checkString(record.reasoning, 'reasoning', issues),
+    }, issues);
+};
+
+export interface BudgetSuggestion {
+    categoryId: string;
+    amount: number; // in INR, not cents
+    reasoning: string;
+}
+
+export const validateBudgetSuggestions = (categories: Category[]): ResponseValidator<BudgetSuggestion[]> => (data) => {
+    return validateArrayOf(data, (record, path, issues) => ({
+        categoryId: checkCategoryId(record.categoryId, categories, at(path, 'categoryId'), issues),
+        amount: checkAmount(record.amount, at(path, 'amount'), issues, { allowZero: true }),
+        reasoning: checkString(record.reasoning, at(path, 'reasoning'), issues),
+    }));
+};
+
+export interface AnomalyVerdict {
+    isAnomalous: boolean;
+    reasoning: string;
+}
+
+export const validateAnomalyVerdict: ResponseValidator<AnomalyVerdict> = (data) => {
+    const issues: string[] = [];
+    const record = checkObject(data, '', issues);
+    if (!record) return result(data as AnomalyVerdict, issues);
+    const isAnomalous = checkBoolean(record.isAnomalous, 'isAnomalous', issues);
+    // The reasoning is only shown for anomalies, so it may be empty otherwise.
+    const reasoning = checkString(record.reasoning, 'reasoning', issues, { allowEmpty: isAnomalous !== true });
+    return result({ isAnomalous, reasoning }, issues);
+};
+
+export type StatementRow = Pick<ParsedTransaction, 'date' | 'description' | 'amount' | 'type'>;
+
+export const validateStatementRows: ResponseValidator<StatementRow[]> = (data) => {
+    return validateArrayOf(data, (record, path, issues) => ({
+        date: checkDate(record.date, at(path, 'date'), issues),
+        description: checkString(record.description, at(path, 'description'), issues),
+        amount: checkAmount(record.amount, at(path, 'amount'), issues),
+        type: checkOneOf(record.type, ['credit', 'debit'] as const, at(path, 'type'), issues),
+    }));
+};
+
+export const validateCategoryAssignments = (categories: Category[], expectedCount: number): ResponseValidator<string[]> => (data) => {
+    const issues: string[] = [];
+    const ids = checkArray(data, '', issues);
+    if (!ids) return result([], issues);
+    if (ids.length !== expectedCount) {
+        issues.push(`response must contain exactly ${expectedCount} category IDs (got ${ids.length})`);
+    }
+    ids.forEach((id, index) => checkCategoryId(id, categories, at('', index), issues));
+    return result(ids as string[], issues);
+};
+
+export type RecurringPayment = Omit<Subscription, 'id' | 'nextDueDate'> & { lastPaymentDate: string };
+
+export const validateRecurringPayments = (categories: Category[]): ResponseValidator<RecurringPayment[]> => (data) => {
+    return validateArrayOf(data, (record, path, issues) => ({
+        description: checkString(record.description, at(path, 'description'), issues),
+        amount: checkAmount(record.amount, at(path, 'amount'), issues),
+        frequency: checkOneOf(record.frequency, ['weekly', 'monthly', 'yearly'] as const, at(path, 'frequency'), issues),
+        categoryId: checkCategoryId(record.categoryId, categories, at(path, 'categoryId'), issues),
+        lastPaymentDate: checkDate(record.lastPaymentDate, at(path, 'lastPaymentDate'), issues),
+    }));
+};
+
+export const validateSavingsSuggestions = (categories: Category[]): ResponseValidator<SavingsSuggestion[]> => (data) => {
+    return validateArrayOf(data, (record, path, issues) => ({
+        categoryName: checkCategoryName(record.categoryName, categories, at(path, 'categoryName'), issues),
+        reasoning: checkString(record.reasoning, at(path, 'reasoning'), issues),
+        suggestion: checkString(record.suggestion, at(path, 'suggestion'), issues),
+        potentialSavings: checkAmount(record.potentialSavings, at(path, 'potentialSavings'), issues, { allowZero: true }),
+    }));
+};
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+    BACKUP_FORMAT, BackupError, BackupSnapshot, keepLocalSecrets, parseJsonBackup, removeSecrets, serializeSnapshot, validateSnapshot,
+} from './backupFormat';
+
+const snapshot = (tables: BackupSnapshot['tables']): BackupSnapshot => ({
+    format: BACKUP_FORMAT, formatVersion: 1, schemaVersion: 15, exportedAt: '2024-08-01T00:00:00.000Z', tables,
+});
+
+const aiSettingsRow = (geminiApiKey: string, openAiApiKey: string) => ({
+    id: 'ai-1',
+    settings: JSON.stringify({ provider: 'gemini', geminiApiKey, openAiApiKey, defaultModel: 'gemini-2.5-flash' }),
+});
+
+const device = snapshot({
+    household_settings: [{ id: 'hh-1', monthlyIncome: 0 }],
+    members: [
+        { id: 'mem-1', name: 'Asha', role: 'owner', archived: 0, pinHash: 'hash-1', pinSalt: 'salt-1' },
+        { id: 'mem-2', name: 'Ravi', role: 'adult', archived: 0, pinHash: null, pinSalt: null },
+    ],
+    ai_settings: [aiSettingsRow('gemini-key', 'openai-key')],
+});
+
+describe('removeSecrets', () => {
+    it('clears PIN hashes and API keys and keeps everything else', () => {
+        const stripped = removeSecrets(device);
+        expect(stripped.tables.members.map(m => [m.name, m.pinHash, m.pinSalt])).toEqual([['Asha', null, null], ['Ravi', null, null]]);
+        const settings = JSON.parse(stripped.tables.ai_settings[0].settings as string);
+        expect(settings).toEqual({ provider: 'gemini', geminiApiKey: '', openAiApiKey: '', defaultModel: 'gemini-2.5-flash' });
+        expect(stripped.tables.household_settings).toBe(device.tables.household_settings);
+    });
+
+    it('leaves the original snapshot unchanged', () => {
+        removeSecrets(device);
+        expect(device.tables.members[0].pinHash).toBe('hash-1');
+        expect(device.tables.ai_settings[0].settings).toContain('gemini-key');
+    });
+});
+
+describe('keepLocalSecrets', () => {
+    it("fills in this device's secrets where the backup has none", () => {
+        const restored = keepLocalSecrets(device, removeSecrets(device));
+        expect(restored.tables.members).toEqual(device.tables.members);
+        expect(JSON.parse(restored.tables.ai_settings[0].settings as string)).toEqual(JSON.parse(device.tables.ai_settings[0].settings as string));
+    });
+
+    it("keeps the backup's own secrets", () => {
+        const other = snapshot({
+            members: [{ id: 'mem-1', name: 'Asha', role: 'owner', archived: 0, pinHash: 'hash-2', pinSalt: 'salt-2' }],
+            ai_settings: [aiSettingsRow('other-key', '')],
+        });
+        const merged = keepLocalSecrets(device, other);
+        expect(merged.tables.members[0]).toMatchObject({ pinHash: 'hash-2', pinSalt: 'salt-2' });
+        expect(JSON.parse(merged.tables.ai_settings[0].settings as string)).toMatchObject({ geminiApiKey: 'other-key', openAiApiKey: 'openai-key' });
+    });
+
+    it('does not give members from another device a PIN', () => {
+        const other = snapshot({ members: [{ id: 'mem-9', name: 'Meera', role: 'owner', archived: 0, pinHash: null, pinSalt: null }] });
+        expect(keepLocalSecrets(device, other).tables.members[0].pinHash).toBeNull();
+    });
+});
+
+describe('parseJsonBackup', () => {
+    it('reads back a serialized snapshot, including blobs', () => {
+        const withAvatar = snapshot({ ...device.tables, members: [{ ...device.tables.members[0], avatar: new Uint8Array([1, 2, 3]) }] });
+        const parsed = parseJsonBackup(serializeSnapshot(withAvatar));
+        expect(parsed.tables.members[0].avatar).toEqual(new Uint8Array([1, 2, 3]));
+        expect(parsed.tables.household_settings).toEqual(device.tables.household_settings);
+    });
+
+    it('rejects files that are not backups', () => {
+        expect(() => parseJsonBackup('{"hello": 1}')).toThrow(BackupError);
+        expect(() => parseJsonBackup('not json')).toThrow(BackupError);
+    });
+});
+
+describe('validateSnapshot', () => {
+    it('requires an active owner', () => {
+        const ownerless = snapshot({ ...device.tables, members: [{ id: 'mem-2', name: 'Ravi', role: 'adult', archived: 0 }] });
+        expect(() => validateSnapshot(device)).not.toThrow();
+        expect(() => validateSnapshot(ownerless)).toThrow(/no active owner/);
+    });
+});
@@ -0,0 +1,182 @@
+// The household backup file: every table of the database as versioned JSON. Raw SQLite
+// backups are read into the same shape so restore and merge handle both alike.
+
+export const BACKUP_FORMAT = 'financelyai-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+
+export type BackupRow = Record<string, unknown>;
+
+export interface BackupSnapshot {
+    format: typeof BACKUP_FORMAT;
+    formatVersion: number;
+    schemaVersion: number; // the database schema the rows were read from
+    exportedAt: string;
+    tables: Record<string, BackupRow[]>;
+}
+
+export type BackupFileKind = 'json' | 'sqlite';
+
+export type BackupErrorReason = 'invalidFile' | 'passphraseRequired' | 'wrongPassphrase' | 'newerVersion' | 'incomplete';
+
+export class BackupError extends Error {
+    reason: BackupErrorReason;
+
+    constructor(reason: BackupErrorReason, message: string) {
+        super(message);
+        this.name = 'BackupError';
+        this.reason = reason;
+    }
+}
+
+const SQLITE_HEADER = new TextEncoder().encode('SQLite format 3\0');
+
+export const isSqliteFile = (data: Uint8Array): boolean => {
+    return data.length > SQLITE_HEADER.length && SQLITE_HEADER.every((byte, i) => data[i] === byte);
+};
+
+// BLOB columns (member avatars) are Uint8Arrays in memory and base64 in the JSON file.
+const BLOB_KEY = '$blob';
+
+const toBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    bytes.forEach(b => { binary += String.fromCharCode(b); });
+    return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+export const encodeBackupValue = (value: unknown): unknown => {
+    return value instanceof Uint8Array ? { [BLOB_KEY]: toBase64(value) } : value;
+};
+
+const decodeBackupValue = (value: unknown): unknown => {
+    if (value && typeof value === 'object' && typeof (value as Record<string, unknown>)[BLOB_KEY] === 'string') {
+        return fromBase64((value as Record<string, string>)[BLOB_KEY]);
+    }
+    return value;
+};
+
+export const serializeSnapshot = (snapshot: BackupSnapshot): string => {
+    return JSON.stringify(snapshot, (_key, value) => encodeBackupValue(value));
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+};
+
+// --- Secrets ---
+// PIN hashes and AI provider API keys only leave the device in a backup protected with a passphrase.
+
+const API_KEY_FIELDS = ['geminiApiKey', 'openAiApiKey'];
+
+const parseAiSettings = (settings: unknown): Record<string, unknown> | null => {
+    try {
+        const parsed = typeof settings === 'string' ? JSON.parse(settings) : null;
+        return isPlainObject(parsed) ? parsed : null;
+    } catch {
+        return null;
+    }
+};
+
+export const removeSecrets = (snapshot: BackupSnapshot): BackupSnapshot => {
+    const tables = { ...snapshot.tables };
+    if (tables.members) {
+        tables.members = tables.members.map(row => ({ ...row, pinHash: null, pinSalt: null }));
+    }
+    if (tables.ai_settings) {
+        tables.ai_settings = tables.ai_settings.map(row => {
+            const settings = parseAiSettings(row.settings);
+            if (!settings) return row;
+            API_KEY_FIELDS.forEach(field => { settings[field] = ''; });
+            return { ...row, settings: JSON.stringify(settings) };
+        });
+    }
+    return { ...snapshot, tables };
+};
+
+/**
+ * Fills in the PINs and API keys a backup without secrets lacks from this device's copy of the
+ * same member or settings, so restoring or merging such a backup doesn't remove them.
+ */
+export const keepLocalSecrets = (current: BackupSnapshot, incoming: BackupSnapshot): BackupSnapshot => {
+    const tables = { ...incoming.tables };
+    const currentMembers = new Map((current.tables.members || []).map(row => [row.id, row]));
+    if (tables.members) {
+        tables.members = tables.members.map(row => {
+            const local = currentMembers.get(row.id);
+            return !row.pinHash && local?.pinHash ? { ...row, pinHash: local.pinHash, pinSalt: local.pinSalt } : row;
+        });
+    }
+    const currentSettings = new Map((current.tables.ai_settings || []).map(row => [row.id, parseAiSettings(row.settings)]));
+    if (tables.ai_settings) {
+        tables.ai_settings = tables.ai_settings.map(row => {
+            const settings = parseAiSettings(row.settings);
+            const local = currentSettings.get(row.id);
+            const missing = API_KEY_FIELDS.filter(field => settings && !settings[field] && local?.[field]);
+            if (missing.length === 0) return row;
+            missing.forEach(field => { settings![field] = local![field]; });
+            return { ...row, settings: JSON.stringify(settings) };
+        });
+    }
+    return { ...incoming, tables };
+};
+
+/**
+ * Parses a JSON backup and checks its shape. Whether the rows fit the current schema is checked
+ * when they are loaded into a database.
+ */
+export const parseJsonBackup = (text: string): BackupSnapshot => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new BackupError('invalidFile', "This file isn't a FinancelyAI backup.");
+    }
+    if (!isPlainObject(parsed) || parsed.format !== BACKUP_FORMAT || !isPlainObject(parsed.tables)) {
+        throw new BackupError('invalidFile', "This file isn't a FinancelyAI backup.");
+    }
+    if (typeof parsed.formatVersion !== 'number' || parsed.formatVersion > BACKUP_FORMAT_VERSION) {
+        throw new BackupError('newerVersion', 'This backup was made by a newer version of the app. Update the app to restore it.');
+    }
+    if (typeof parsed.schemaVersion !== 'number') {
+        throw new BackupError('invalidFile', 'The backup is missing its schema version.');
+    }
+
+    const tables: Record<string, BackupRow[]> = {};
+    Object.entries(parsed.tables).forEach(([name, rows]) => {
+        if (!Array.isArray(rows) || !rows.every(isPlainObject)) {
+            throw new BackupError('invalidFile', `The backup's "${name}" table is damaged.`);
+        }
+        tables[name] = rows.map(row => Object.fromEntries(Object.entries(row).map(([column, value]) => [column, decodeBackupValue(value)])));
+    });
+
+    return {
+        format: BACKUP_FORMAT,
+        formatVersion: parsed.formatVersion,
+        schemaVersion: parsed.schemaVersion,
+        exportedAt: typeof parsed.exportedAt === 'string' ? parsed.exportedAt : '',
+        tables,
+    };
+};
+
+/**
+ * Checks that a snapshot holds a usable household before it replaces the current one:
+ * the household settings, at least one active owner and unique record IDs.
+ */
+export const validateSnapshot = (snapshot: BackupSnapshot) => {
+    const { tables } = snapshot;
+    if (!(tables.household_settings || []).some(row => row.id === 'hh-1')) {
+        throw new BackupError('incomplete', 'The backup has no household settings.');
+    }
+    const members = tables.members || [];
+    if (!members.some(m => m.role === 'owner' && !m.archived)) {
+        throw new BackupError('incomplete', 'The backup has no active owner, so nobody could manage the household after restoring it.');
+    }
+    Object.entries(tables).forEach(([name, rows]) => {
+        if (name === 'expense_splits') return; // keyed by their expense
+        const ids = new Set(rows.map(row => row.id));
+        if (ids.size !== rows.length || ids.has(undefined) || ids.has(null)) {
+            throw new BackupError('invalidFile', `The backup's "${name}" table has missing or repeated IDs.`);
+        }
+    });
+};
@@ -0,0 +1,20 @@
+// Entry point of the database worker. Runs the requests posted by db.ts one at a time, in the order they arrive.
+import * as core from './dbCore';
+import { DbRequest, DbWorkerMessage, serializeError } from './dbProtocol';
+
+const post = (message: DbWorkerMessage, transfer: Transferable[] = []) => {
+    self.postMessage(message, { transfer });
+};
+
+self.addEventListener('message', async (event: MessageEvent<DbRequest>) => {
+    const { id, method, args } = event.data;
+    try {
+        const result = await core.runExclusive(async () => (core[method] as (...params: unknown[]) => unknown)(...args));
+        // Exported files are handed over rather than copied.
+        post({ kind: 'result', id, result }, result instanceof Uint8Array ? [result.buffer] : []);
+    } catch (err) {
+        post({ kind: 'error', id, error: serializeError(err) });
+    }
+});
+
+core.onDatabaseChange(change => post({ kind: 'change', change }));
@@ -0,0 +1,140 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import * as dbCore from './dbCore';
+import { PermissionError } from '../utils/permissions';
+import { Expense } from '../types';
+
+// Vite's URL for the browser build of the wasm file; Node loads sql.js's own build from disk.
+vi.mock('sql.js/dist/sql-wasm-browser.wasm?url', async () => {
+    const { createRequire } = await import('module');
+    return { default: createRequire(import.meta.url).resolve('sql.js/dist/sql-wasm.wasm') };
+});
+
+const OWNER = 'mem-1';
+const ADULT = 'mem-adult';
+const VIEWER = 'mem-viewer';
+
+const as = (memberId: string) => dbCore.setActingMember(memberId);
+
+const expectDenied = (promise: Promise<unknown>, permission: string) => expect(promise).rejects.toSatisfy(
+    (err: unknown) => err instanceof PermissionError && err.permission === permission
+);
+
+const getCategories = async () => (await dbCore.loadHouseholdSlices(['categories']))!.categories!;
+
+beforeAll(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await dbCore.initDB();
+    as(OWNER);
+    await dbCore.saveMember({ id: ADULT, name: 'Adult', avatarUrl: '', role: 'adult' });
+    await dbCore.saveMember({ id: VIEWER, name: 'Viewer', avatarUrl: '', role: 'viewer' });
+});
+
+describe('updateHousehold', () => {
+    it('lets only adults and owners change categories, rules and subscriptions', async () => {
+        const categories = await getCategories();
+        as(VIEWER);
+        await expectDenied(dbCore.updateHousehold({ categories: [...categories, { id: 'cat-new', name: 'Pets', icon: '🐶' }] }), 'manageCategories');
+        await expectDenied(dbCore.updateHousehold({ rules: [] }), 'manageRules');
+        await expectDenied(dbCore.updateHousehold({ subscriptions: [] }), 'manageSubscriptions');
+
+        as(ADULT);
+        await dbCore.updateHousehold({ categories: [...categories, { id: 'cat-new', name: 'Pets', icon: '🐶' }] });
+        expect((await getCategories()).map(c => c.id)).toContain('cat-new');
+    });
+
+    it('needs editBudgets to remove a category that has a budget', async () => {
+        as(ADULT);
+        const categories = await getCategories();
+        await expectDenied(dbCore.updateHousehold({ categories: categories.filter(c => c.id !== 'cat-1') }), 'editBudgets');
+    });
+
+    it('keeps AI settings, email alerts and income with the owners', async () => {
+        const { aiSettings } = (await dbCore.loadHouseholdSlices(['aiSettings']))!;
+        as(ADULT);
+        await expectDenied(dbCore.updateHousehold({ aiSettings }), 'manageSettings');
+        await expectDenied(dbCore.updateHousehold({ emailAlertsEnabled: false }), 'manageSettings');
+        await expectDenied(dbCore.updateHousehold({ monthlyIncome: 0 }), 'editIncome');
+    });
+});
+
+describe('updateExpense', () => {
+    const ownExpense: Expense = {
+        id: 'exp-viewer', description: 'Stationery', amount: 50000, date: new Date().toISOString(), memberId: VIEWER, categoryId: 'cat-1',
+        splits: [{ memberId: VIEWER, amount: 50000 }],
+    };
+
+    beforeAll(async () => {
+        as(VIEWER);
+        await dbCore.addExpense(ownExpense, []);
+    });
+
+    it('lets a viewer edit an expense only they paid for and share', async () => {
+        as(VIEWER);
+        await dbCore.updateExpense({ ...ownExpense, amount: 60000, splits: [{ memberId: VIEWER, amount: 60000 }] });
+        expect((await dbCore.getExpense(ownExpense.id))?.amount).toBe(60000);
+        await expectDenied(dbCore.updateExpense({ ...ownExpense, splits: [{ memberId: VIEWER, amount: 30000 }, { memberId: OWNER, amount: 30000 }] }), 'editOthersExpenses');
+    });
+
+    it("stops a viewer from editing another member's expense", async () => {
+        const expense = (await dbCore.getExpense('exp-1'))!;
+        as(VIEWER);
+        await expectDenied(dbCore.updateExpense({ ...expense, description: 'Renamed' }), 'editOthersExpenses');
+        await expectDenied(dbCore.updateExpenses([{ ...expense, amount: 1 }]), 'editOthersExpenses');
+
+        as(ADULT);
+        await dbCore.updateExpense({ ...expense, description: 'Renamed' });
+        expect((await dbCore.getExpense('exp-1'))?.description).toBe('Renamed');
+    });
+});
+
+describe('deleteExpense', () => {
+    it('needs deleteExpenses', async () => {
+        as(VIEWER);
+        await expectDenied(dbCore.deleteExpense('exp-3'), 'deleteExpenses');
+        as(ADULT);
+        await dbCore.deleteExpense('exp-3');
+        expect(await dbCore.getExpense('exp-3')).toBeNull();
+    });
+});
+
+describe('mergeCategories', () => {
+    it('needs manageCategories, and editBudgets when the source has a budget', async () => {
+        as(VIEWER);
+        await expectDenied(dbCore.mergeCategories('cat-new', 'cat-5'), 'manageCategories');
+        as(ADULT);
+        await expectDenied(dbCore.mergeCategories('cat-1', 'cat-5'), 'editBudgets');
+        await dbCore.mergeCategories('cat-new', 'cat-5');
+        expect((await getCategories()).map(c => c.id)).not.toContain('cat-new');
+    });
+});
+
+describe('addApprovalRequests', () => {
+    it('only accepts requests made by the acting member', async () => {
+        const request = { id: 'approval-1', action: 'deleteExpense' as const, payload: { targetId: 'exp-1' }, summary: 'Delete', status: 'pending' as const, createdAt: new Date().toISOString() };
+        as(VIEWER);
+        await expectDenied(dbCore.addApprovalRequests([{ ...request, requestedBy: ADULT }]), 'requestApprovals');
+        await dbCore.addApprovalRequests([{ ...request, requestedBy: VIEWER }]);
+    });
+});
+
+describe('getMemberTotals', () => {
+    it('takes refunds off the payer and each share in proportion', async () => {
+        as(OWNER);
+        const tripId = 'trip-refunded';
+        await dbCore.addExpense({
+            id: 'exp-refunded', description: 'Hotel', amount: 10000, date: new Date().toISOString(), memberId: OWNER, categoryId: 'cat-1', tripId,
+            splits: [{ memberId: OWNER, amount: 3333 }, { memberId: ADULT, amount: 3333 }, { memberId: VIEWER, amount: 3334 }],
+        }, []);
+        const batch = { id: 'import-refund', fileName: 'refund.csv', fileHash: 'hash', rowCount: 1, dateFrom: '2024-08-01', dateTo: '2024-08-01', createdAt: new Date().toISOString() };
+        await dbCore.addImportBatch(batch, [], [{
+            id: 'inc-refund', description: 'Hotel refund', amount: 2500, date: new Date().toISOString(), memberId: OWNER, kind: 'refund', refundOfExpenseId: 'exp-refunded',
+        }], []);
+
+        const totals = await dbCore.getMemberTotals({ tripId });
+        const byMember = Object.fromEntries(totals.map(t => [t.memberId, t]));
+        expect(byMember[OWNER].paid).toBe(7500);
+        // 2499.75, 2499.75 and 2500.5 exactly; the two cents left after rounding down go to the largest remainders.
+        expect(totals.map(t => t.share)).toEqual([2500, 2500, 2500]);
+    });
+});
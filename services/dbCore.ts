@@ -0,0 +1,1627 @@
+import { Household, Expense, Notification, Rule, Budget, BucketGoal, Trip, Subscription, Settlement, CsvProfile, ImportBatch, Income, CategoryCorrection, Category, Member, MemberAvatar, SplitShare, ApprovalRequest, PendingAnalysis } from '../types';
+import { INITIAL_HOUSEHOLD_DATA, INITIAL_TRIP_EXPENSES, DEFAULT_AI_SETTINGS } from '../constants';
+import { BASE_SCHEMA_VERSION, LATEST_SCHEMA_VERSION, MigrationError, getSchemaVersion, getPendingMigrations, applyMigrations } from './migrations';
+import { hashPin, verifyPin } from '../utils/pinUtils';
+import { HOUSEHOLD_UPDATE_PERMISSIONS, Permission, PermissionError, getExpenseEditPermission, roleHasPermission } from '../utils/permissions';
+import { withLock } from '../utils/locks';
+import {
+    EncryptionHeader, createEncryption, decryptBackup, decryptFile, encryptBackup, encryptFile, isEncryptedBackup, isEncryptedFile,
+    normalizeRecoveryKey, rewrapForNewRecoveryKey, rewrapForPassphrase, unwrapDataKey,
+} from './dbEncryption';
+import {
+    BACKUP_FORMAT, BACKUP_FORMAT_VERSION, BackupError, BackupFileKind, BackupRow, BackupSnapshot,
+    isSqliteFile, keepLocalSecrets, parseJsonBackup, removeSecrets, serializeSnapshot, validateSnapshot,
+} from './backupFormat';
+import { ConflictResolutions, TableDiff, diffSnapshots, mergeSnapshots } from '../utils/backupDiff';
+import initSqlJs from 'sql.js';
+// Bundled with the app so the database opens without a network connection.
+import sqlWasmUrl from 'sql.js/dist/sql-wasm-browser.wasm?url';
+
+// The database and its persistence. This module runs in the database worker (db.worker.ts);
+// the UI calls it through db.ts, which forwards each call to the function of the same name here.
+
+const DB_NAME = 'financelyai-sql.db';
+const DB_BACKUP_NAME = 'financelyai-sql.db.pre-migration';
+const DB_KEYS_NAME = 'financelyai-sql.db.keys';
+const DB_PRE_RESTORE_NAME = 'financelyai-sql.db.pre-restore';
+// Counts saves of the database file. Stored with the file so a tab can tell whether another tab saved since it loaded.
+const DB_REVISION_NAME = 'financelyai-sql.db.revision';
+const WRITE_LOCK_NAME = 'financelyai-db-write';
+const SYNC_CHANNEL_NAME = 'financelyai-db-sync';
+let db: any = null; // This will hold the SQL.js database object
+let sqlJs: Promise<any> | null = null;
+// Set while an encrypted database is unlocked. Every file written to IndexedDB is then encrypted with it.
+let dataKey: CryptoKey | null = null;
+// The revision of the stored file that this tab's database was loaded from or last saved as.
+let loadedRevision = 0;
+
+// --- IndexedDB helpers to persist the SQLite DB file ---
+const openIDB = (): Promise<IDBDatabase> => {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open('SQLJS_DB', 1);
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore('files');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+type StoredValue = Uint8Array | EncryptionHeader | number;
+
+// Writes all entries in one transaction. A null value deletes the entry.
+const writeEntriesToIndexedDB = async (entries: Array<[string, StoredValue | null]>) => {
+    const idb = await openIDB();
+    const transaction = idb.transaction('files', 'readwrite');
+    const store = transaction.objectStore('files');
+    entries.forEach(([key, data]) => {
+        if (data === null) {
+            store.delete(key);
+        } else {
+            store.put(data, key);
+        }
+    });
+    return new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+    });
+};
+
+// `data` null deletes the entry.
+const writeToIndexedDB = async (data: StoredValue | null, key: string) => {
+    await writeEntriesToIndexedDB([[key, data]]);
+};
+
+const readFromIndexedDB = async <T>(key: string): Promise<T | null> => {
+    const idb = await openIDB();
+    const transaction = idb.transaction('files', 'readonly');
+    const store = transaction.objectStore('files');
+    const request = store.get(key);
+    return new Promise((resolve) => {
+        request.onsuccess = () => resolve(request.result || null);
+        request.onerror = () => resolve(null);
+    });
+};
+
+const putFileInIndexedDB = async (data: Uint8Array, key: string) => {
+    await writeToIndexedDB(dataKey ? await encryptFile(dataKey, data) : data, key);
+};
+
+interface StoredDatabase {
+    data: Uint8Array | null;
+    revision: number;
+}
+
+// Reads the file and its revision together, so they always match.
+const loadDbFromIndexedDB = async (): Promise<StoredDatabase> => {
+    const idb = await openIDB();
+    const transaction = idb.transaction('files', 'readonly');
+    const store = transaction.objectStore('files');
+    const fileRequest = store.get(DB_NAME);
+    const revisionRequest = store.get(DB_REVISION_NAME);
+    return new Promise((resolve) => {
+        transaction.oncomplete = () => resolve({ data: fileRequest.result || null, revision: revisionRequest.result || 0 });
+        transaction.onerror = () => resolve({ data: null, revision: 0 });
+    });
+};
+
+const loadStoredRevision = async (): Promise<number> => {
+    return (await readFromIndexedDB<number>(DB_REVISION_NAME)) || 0;
+};
+
+// --- Cross-tab synchronization ---
+// Every tab keeps its own copy of the database in memory. Saves from all tabs take turns under
+// a Web Lock, each one is announced on a BroadcastChannel so the other tabs load it, and a tab
+// whose copy is older than the stored file is never allowed to save over it.
+
+export type DatabaseChange =
+    | 'otherTab' // another tab saved; this tab now has its changes
+    | 'staleWrite' // this tab's last change was made on out-of-date data and was not saved
+    | 'locked' // another tab encrypted the database, so it has to be unlocked again
+    | 'saveFailed'; // recent changes couldn't be written to IndexedDB
+
+type DatabaseChangeListener = (change: DatabaseChange) => void;
+
+const changeListeners = new Set<DatabaseChangeListener>();
+
+// Returns a function that removes the listener.
+export const onDatabaseChange = (listener: DatabaseChangeListener): (() => void) => {
+    changeListeners.add(listener);
+    return () => changeListeners.delete(listener);
+};
+
+const notifyDatabaseChange = (change: DatabaseChange) => {
+    changeListeners.forEach(listener => listener(change));
+};
+
+let queue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Runs `task` once every task queued before it has finished. Requests from the UI, scheduled saves and
+ * loads of other tabs' changes all go through here, so none of them runs while another is halfway
+ * done, e.g. a scheduled save can't write the file unencrypted while enableEncryption is saving it encrypted.
+ */
+export const runExclusive = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = queue.then(task);
+    queue = result.catch(() => undefined);
+    return result;
+};
+
+const syncChannel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(SYNC_CHANNEL_NAME) : null;
+
+const withWriteLock = <T>(task: () => Promise<T>): Promise<T> => withLock(WRITE_LOCK_NAME, task);
+
+/**
+ * Replaces this tab's database with the stored file. Call it holding the write lock. Follows
+ * the file's encryption: a file another tab decrypted drops this tab's key, and one it
+ * encrypted leaves the database closed until it is unlocked.
+ */
+const loadLatestFromStorage = async (): Promise<'loaded' | 'locked'> => {
+    const SQL = await loadSqlJs();
+    const { data, revision } = await loadDbFromIndexedDB();
+    loadedRevision = revision;
+    if (!data) return 'loaded';
+    let plain: Uint8Array | null = data;
+    if (isEncryptedFile(data)) {
+        // A key from before encryption was turned off and on again elsewhere can't decrypt it.
+        plain = dataKey ? await decryptFile(dataKey, data).catch(() => null) : null;
+    } else {
+        dataKey = null;
+    }
+    db?.close();
+    if (!plain) {
+        db = null;
+        dataKey = null;
+        return 'locked';
+    }
+    db = new SQL.Database(plain);
+    return 'loaded';
+};
+
+/**
+ * Saves the database as the next revision, encrypted with `key` if there is one. Returns false,
+ * without saving, if another tab saved since this tab loaded: this tab's change was made on
+ * out-of-date data, so the stored file is loaded instead and listeners are told.
+ */
+const saveDbToIndexedDB = async (key: CryptoKey | null = dataKey): Promise<boolean> => {
+    if (!db) return false;
+    // This save includes any changes still waiting for a scheduled one.
+    cancelScheduledSave();
+    const outcome = await withWriteLock(async () => {
+        const revision = await loadStoredRevision();
+        if (revision !== loadedRevision) return loadLatestFromStorage();
+        const data: Uint8Array = db.export();
+        await writeEntriesToIndexedDB([[DB_NAME, key ? await encryptFile(key, data) : data], [DB_REVISION_NAME, revision + 1]]);
+        loadedRevision = revision + 1;
+        return 'saved';
+    });
+    if (outcome === 'saved') {
+        syncChannel?.postMessage({ revision: loadedRevision });
+        return true;
+    }
+    notifyDatabaseChange(outcome === 'locked' ? 'locked' : 'staleWrite');
+    return false;
+};
+
+// sql.js can only export the whole file, so instead of saving after every change, changes made
+// close together (e.g. while typing in a budget field) are saved with one export.
+const SAVE_DELAY_MS = 400;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+const cancelScheduledSave = () => {
+    if (saveTimer) clearTimeout(saveTimer);
+    saveTimer = null;
+};
+
+const scheduleSave = () => {
+    cancelScheduledSave();
+    saveTimer = setTimeout(() => {
+        saveTimer = null;
+        runExclusive(() => saveDbToIndexedDB()).catch(err => {
+            console.error("Failed to save the database:", err);
+            notifyDatabaseChange('saveFailed');
+        });
+    }, SAVE_DELAY_MS);
+};
+
+// Saves changes that are waiting for a scheduled save, e.g. before the page is closed.
+export const flushPendingSave = async () => {
+    if (saveTimer) await saveDbToIndexedDB();
+};
+
+const syncFromOtherTab = async () => {
+    // A tab that hasn't opened its database yet loads the latest file when it does.
+    if (!db) return;
+    let hadUnsavedChanges = false;
+    const outcome = await withWriteLock(async () => {
+        if (!db || (await loadStoredRevision()) === loadedRevision) return null;
+        // Changes still waiting to be saved were made on the older data and can't be kept.
+        hadUnsavedChanges = saveTimer !== null;
+        cancelScheduledSave();
+        return loadLatestFromStorage();
+    });
+    if (outcome === 'locked') {
+        notifyDatabaseChange('locked');
+    } else if (outcome) {
+        notifyDatabaseChange(hadUnsavedChanges ? 'staleWrite' : 'otherTab');
+    }
+};
+
+syncChannel?.addEventListener('message', () => {
+    runExclusive(syncFromOtherTab).catch(err => console.error("Failed to load changes from another tab:", err));
+});
+
+const STALE_WRITE_MESSAGE = 'The data was changed in another tab. Nothing was saved; please try again.';
+
+// --- DB Initialization and Schema ---
+const loadSqlJs = (): Promise<any> => {
+    if (!sqlJs) {
+        sqlJs = initSqlJs({ locateFile: () => sqlWasmUrl });
+        // Let a later call try again.
+        sqlJs.catch(() => { sqlJs = null; });
+    }
+    return sqlJs;
+};
+
+const createSchema = (database: any) => {
+    const schema = `
+        CREATE TABLE household_settings (id TEXT PRIMARY KEY, name TEXT, emailAlertsEnabled INTEGER, monthlyIncome INTEGER);
+        CREATE TABLE members (id TEXT PRIMARY KEY, name TEXT, avatarUrl TEXT);
+        CREATE TABLE categories (id TEXT PRIMARY KEY, name TEXT, icon TEXT);
+        CREATE TABLE rules (id TEXT PRIMARY KEY, keyword TEXT, categoryId TEXT, FOREIGN KEY(categoryId) REFERENCES categories(id));
+        CREATE TABLE expenses (id TEXT PRIMARY KEY, description TEXT, amount INTEGER, date TEXT, memberId TEXT, categoryId TEXT, tripId TEXT, FOREIGN KEY(memberId) REFERENCES members(id), FOREIGN KEY(categoryId) REFERENCES categories(id), FOREIGN KEY(tripId) REFERENCES trips(id));
+        CREATE TABLE expense_splits (id INTEGER PRIMARY KEY AUTOINCREMENT, expenseId TEXT, memberId TEXT, amount INTEGER, FOREIGN KEY(expenseId) REFERENCES expenses(id) ON DELETE CASCADE, FOREIGN KEY(memberId) REFERENCES members(id));
+        CREATE TABLE budgets (id TEXT PRIMARY KEY, categoryId TEXT UNIQUE, amount INTEGER, FOREIGN KEY(categoryId) REFERENCES categories(id));
+        CREATE TABLE bucket_goals (id TEXT PRIMARY KEY, name TEXT, targetAmount INTEGER, currentAmount INTEGER);
+        CREATE TABLE trips (id TEXT PRIMARY KEY, name TEXT, startDate TEXT, endDate TEXT, budget INTEGER);
+        CREATE TABLE subscriptions (id TEXT PRIMARY KEY, description TEXT, amount INTEGER, frequency TEXT, nextDueDate TEXT, categoryId TEXT, FOREIGN KEY(categoryId) REFERENCES categories(id));
+        CREATE TABLE notifications (id TEXT PRIMARY KEY, message TEXT, date TEXT, type TEXT, isRead INTEGER);
+        CREATE TABLE schema_version (version INTEGER NOT NULL, appliedAt TEXT NOT NULL);
+    `;
+    database.exec(schema);
+    database.prepare("INSERT INTO schema_version (version, appliedAt) VALUES (?, ?)").run([BASE_SCHEMA_VERSION, new Date().toISOString()]);
+};
+
+// Brings a loaded database up to the latest schema version with the migrations in migrations.ts.
+// The pre-migration file is kept in IndexedDB first, for exportPreMigrationCopy. If any migration
+// fails, applyMigrations rolls them all back and the database is closed without saving, rather than
+// left open with a schema the rest of this module doesn't expect.
+const migrateSchema = async () => {
+    const currentVersion = getSchemaVersion(db);
+    const pending = getPendingMigrations(currentVersion);
+    if (pending.length === 0) return;
+
+    await putFileInIndexedDB(db.export(), DB_BACKUP_NAME);
+    try {
+        applyMigrations(db, pending);
+        await saveDbToIndexedDB();
+    } catch (err) {
+        console.error(`Schema migration from version ${currentVersion} failed:`, err);
+        db.close();
+        db = null;
+        throw new MigrationError(currentVersion, err instanceof Error ? err.message : String(err));
+    }
+};
+
+const INSERT_INCOME_SQL = "INSERT INTO incomes (id, description, amount, date, memberId, kind, refundOfExpenseId, externalId, importBatchId) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)";
+const incomeRow = (i: Income) => [i.id, i.description, i.amount, i.date, i.memberId, i.kind, i.refundOfExpenseId ?? null, i.externalId ?? null, i.importBatchId ?? null];
+
+const INSERT_SUBSCRIPTION_SQL = "INSERT INTO subscriptions VALUES (?, ?, ?, ?, ?, ?)";
+const subscriptionRow = (s: Subscription) => [s.id, s.description, s.amount, s.frequency, s.nextDueDate, s.categoryId];
+
+const INSERT_IMPORT_BATCH_SQL = "INSERT INTO import_batches (id, fileName, fileHash, rowCount, dateFrom, dateTo, createdAt, createdBy) VALUES (?, ?, ?, ?, ?, ?, ?, ?)";
+const importBatchRow = (b: ImportBatch) => [b.id, b.fileName, b.fileHash, b.rowCount, b.dateFrom, b.dateTo, b.createdAt, b.createdBy ?? null];
+
+const INSERT_CATEGORY_SQL = "INSERT INTO categories (id, name, icon, parentId) VALUES (?, ?, ?, ?)";
+const categoryRow = (c: Category) => [c.id, c.name, c.icon, c.parentId ?? null];
+
+const INSERT_CORRECTION_SQL = "INSERT INTO category_corrections (id, merchantToken, description, amount, date, fromCategoryId, toCategoryId, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?)";
+const correctionRow = (c: CategoryCorrection) => [c.id, c.merchantToken, c.description, c.amount, c.date, c.fromCategoryId, c.toCategoryId, c.createdAt];
+
+const INSERT_APPROVAL_SQL = "INSERT INTO approval_requests (id, action, payload, summary, requestedBy, status, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?)";
+const approvalRow = (r: ApprovalRequest) => [r.id, r.action, JSON.stringify(r.payload), r.summary, r.requestedBy, r.status, r.createdAt];
+
+const INSERT_RULE_SQL = "INSERT INTO rules (id, keyword, categoryId, matchMode, priority, minAmount, maxAmount, dayOfMonthFrom, dayOfMonthTo, payerMemberId, splitTemplate, tripId, markAsSubscription) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)";
+const ruleRow = (r: Rule) => [
+    r.id, r.keyword, r.categoryId, r.matchMode, r.priority,
+    r.minAmount ?? null, r.maxAmount ?? null, r.dayOfMonthFrom ?? null, r.dayOfMonthTo ?? null,
+    r.payerMemberId ?? null, r.splitTemplate ? JSON.stringify(r.splitTemplate) : null, r.tripId ?? null, r.markAsSubscription ? 1 : 0,
+];
+
+const seedData = () => {
+    try {
+        db.exec("BEGIN TRANSACTION;");
+        const { members, categories, rules, expenses, incomes, budgets, bucketGoals, trips, subscriptions, settlements, csvProfiles, importBatches, categoryCorrections, aiSettings, notifications, approvalRequests, pendingAnalyses, ...householdBase } = INITIAL_HOUSEHOLD_DATA;
+
+        db.prepare("INSERT INTO household_settings (id, name, emailAlertsEnabled, monthlyIncome, autoLockMinutes) VALUES (?, ?, ?, ?, ?)")
+          .run([householdBase.id, householdBase.name, householdBase.emailAlertsEnabled ? 1 : 0, householdBase.monthlyIncome, householdBase.autoLockMinutes]);
+        
+        const memberStmt = db.prepare("INSERT INTO members (id, name, avatarUrl, role) VALUES (?, ?, ?, ?)");
+        members.forEach(m => memberStmt.run([m.id, m.name, m.avatarUrl, m.role]));
+        memberStmt.free();
+
+        const categoryStmt = db.prepare(INSERT_CATEGORY_SQL);
+        categories.forEach(c => categoryStmt.run(categoryRow(c)));
+        categoryStmt.free();
+
+        const ruleStmt = db.prepare(INSERT_RULE_SQL);
+        rules.forEach(r => ruleStmt.run(ruleRow(r)));
+        ruleStmt.free();
+        
+        const expStmt = db.prepare("INSERT INTO expenses (id, description, amount, date, memberId, categoryId, tripId) VALUES (?, ?, ?, ?, ?, ?, ?)");
+        const splitStmt = db.prepare("INSERT INTO expense_splits (expenseId, memberId, amount) VALUES (?, ?, ?)");
+        expenses.forEach(e => {
+            expStmt.run([e.id, e.description, e.amount, e.date, e.memberId, e.categoryId, null]);
+            e.splits.forEach(s => splitStmt.run([e.id, s.memberId, s.amount]));
+        });
+        expStmt.free();
+        splitStmt.free();
+
+        const budgetStmt = db.prepare("INSERT INTO budgets VALUES (?, ?, ?)");
+        budgets.forEach(b => budgetStmt.run([b.id, b.categoryId, b.amount]));
+        budgetStmt.free();
+        
+        const goalStmt = db.prepare("INSERT INTO bucket_goals VALUES (?, ?, ?, ?)");
+        bucketGoals.forEach(g => goalStmt.run([g.id, g.name, g.targetAmount, g.currentAmount]));
+        goalStmt.free();
+
+        const tripStmt = db.prepare("INSERT INTO trips VALUES (?, ?, ?, ?, ?)");
+        trips.forEach(t => tripStmt.run([t.id, t.name, t.startDate, t.endDate, t.budget]));
+        tripStmt.free();
+
+        const tripExpStmt = db.prepare("INSERT INTO expenses (id, description, amount, date, memberId, categoryId, tripId) VALUES (?, ?, ?, ?, ?, ?, ?)");
+        const tripSplitStmt = db.prepare("INSERT INTO expense_splits (expenseId, memberId, amount) VALUES (?, ?, ?)");
+        INITIAL_TRIP_EXPENSES.forEach(e => {
+            tripExpStmt.run([e.id, e.description, e.amount, e.date, e.memberId, e.categoryId, e.tripId]);
+            e.splits.forEach(s => tripSplitStmt.run([e.id, s.memberId, s.amount]));
+        });
+        tripExpStmt.free();
+        tripSplitStmt.free();
+
+        const subStmt = db.prepare(INSERT_SUBSCRIPTION_SQL);
+        subscriptions.forEach(s => subStmt.run(subscriptionRow(s)));
+        subStmt.free();
+
+        const settlementStmt = db.prepare("INSERT INTO settlements VALUES (?, ?, ?, ?, ?, ?)");
+        settlements.forEach(s => settlementStmt.run([s.id, s.fromMemberId, s.toMemberId, s.amount, s.date, s.tripId]));
+        settlementStmt.free();
+
+        const profileStmt = db.prepare("INSERT INTO csv_profiles VALUES (?, ?, ?, ?)");
+        csvProfiles.forEach(p => profileStmt.run([p.id, p.name, p.headerSignature, JSON.stringify(p.mapping)]));
+        profileStmt.free();
+
+        const batchStmt = db.prepare(INSERT_IMPORT_BATCH_SQL);
+        importBatches.forEach(b => batchStmt.run(importBatchRow(b)));
+        batchStmt.free();
+
+        const incomeStmt = db.prepare(INSERT_INCOME_SQL);
+        incomes.forEach(i => incomeStmt.run(incomeRow(i)));
+        incomeStmt.free();
+
+        const correctionStmt = db.prepare(INSERT_CORRECTION_SQL);
+        categoryCorrections.forEach(c => correctionStmt.run(correctionRow(c)));
+        correctionStmt.free();
+
+        db.prepare("INSERT INTO ai_settings VALUES ('ai-1', ?)").run([JSON.stringify(aiSettings)]);
+        
+        const notifStmt = db.prepare("INSERT INTO notifications VALUES (?, ?, ?, ?, ?)");
+        notifications.forEach(n => notifStmt.run([n.id, n.message, n.date, n.type, n.isRead ? 1 : 0]));
+        notifStmt.free();
+
+        db.exec("COMMIT;");
+    } catch (e) {
+        console.error("Seeding failed:", e);
+        db.exec("ROLLBACK;");
+    }
+};
+
+export const initDB = async (): Promise<void> => {
+    if (db) return;
+    try {
+        const SQL = await loadSqlJs();
+        const stored = await loadDbFromIndexedDB();
+        let dbData = stored.data;
+        loadedRevision = stored.revision;
+        if (dbData && isEncryptedFile(dbData)) {
+            // Never fall through to creating a fresh database over an encrypted one.
+            if (!dataKey) throw new Error('The database is encrypted and has not been unlocked');
+            dbData = await decryptFile(dataKey, dbData);
+        }
+        if (dbData) {
+            db = new SQL.Database(dbData);
+            await migrateSchema();
+        } else {
+            db = new SQL.Database();
+            createSchema(db);
+            applyMigrations(db, getPendingMigrations(BASE_SCHEMA_VERSION));
+            seedData();
+            await saveDbToIndexedDB();
+        }
+    } catch (err) {
+        // The app can't run on the old schema, so this one is the UI's to show.
+        if (err instanceof MigrationError) throw err;
+        console.error("DB initialization failed:", err);
+    }
+};
+
+// The copy saved before the last schema upgrade, for the user to keep when the upgrade failed.
+export const exportPreMigrationCopy = async (): Promise<Uint8Array | null> => {
+    const copy = await readFromIndexedDB<Uint8Array>(DB_BACKUP_NAME);
+    if (!copy || !isEncryptedFile(copy)) return copy;
+    if (!dataKey) throw new Error('The database is encrypted and has not been unlocked');
+    return decryptFile(dataKey, copy);
+};
+
+// --- Encryption at rest ---
+
+const loadEncryptionHeader = async (): Promise<EncryptionHeader> => {
+    const header = await readFromIndexedDB<EncryptionHeader>(DB_KEYS_NAME);
+    if (!header) throw new Error('The encryption keys for the database are missing');
+    return header;
+};
+
+// True when the stored database is encrypted and has to be unlocked before `initDB`.
+export const isDatabaseLocked = async (): Promise<boolean> => {
+    if (dataKey) return false;
+    const { data } = await loadDbFromIndexedDB();
+    return !!data && isEncryptedFile(data);
+};
+
+export const isEncryptionEnabled = (): boolean => dataKey !== null;
+
+// Opens an encrypted database. Returns false if the passphrase is wrong.
+export const unlockDatabase = async (passphrase: string): Promise<boolean> => {
+    const key = await unwrapDataKey((await loadEncryptionHeader()).passphrase, passphrase);
+    if (!key) return false;
+    dataKey = key;
+    await initDB();
+    return true;
+};
+
+// For a forgotten passphrase: opens the database with the recovery key and sets a new passphrase.
+export const recoverDatabase = async (recoveryKey: string, newPassphrase: string): Promise<boolean> => {
+    const header = await loadEncryptionHeader();
+    const key = await unwrapDataKey(header.recovery, normalizeRecoveryKey(recoveryKey));
+    if (!key) return false;
+    await writeToIndexedDB(await rewrapForPassphrase(header, key, newPassphrase), DB_KEYS_NAME);
+    dataKey = key;
+    await initDB();
+    return true;
+};
+
+/**
+ * Encrypts the stored database from now on. Returns the recovery key, which is not stored
+ * anywhere, so the caller must show it to the user.
+ */
+export const enableEncryption = async (passphrase: string): Promise<string> => {
+    if (!db || dataKey) throw new Error('The database is not open or is already encrypted');
+    assertPermission('manageEncryption');
+    const { dataKey: key, header, recoveryKey } = await createEncryption(passphrase);
+    await writeToIndexedDB(header, DB_KEYS_NAME);
+    // Until the encrypted file is saved, the stored file stays unencrypted and so do later saves.
+    if (!(await saveDbToIndexedDB(key))) throw new Error(STALE_WRITE_MESSAGE);
+    dataKey = key;
+    // The copies kept from the last migration and restore are not encrypted.
+    await writeToIndexedDB(null, DB_BACKUP_NAME);
+    await writeToIndexedDB(null, DB_PRE_RESTORE_NAME);
+    return recoveryKey;
+};
+
+// Returns false if `currentPassphrase` is wrong. The file itself doesn't need re-encrypting.
+export const changePassphrase = async (currentPassphrase: string, newPassphrase: string): Promise<boolean> => {
+    if (!dataKey) throw new Error('The database is not encrypted');
+    assertPermission('manageEncryption');
+    const header = await loadEncryptionHeader();
+    if (!(await unwrapDataKey(header.passphrase, currentPassphrase))) return false;
+    await writeToIndexedDB(await rewrapForPassphrase(header, dataKey, newPassphrase), DB_KEYS_NAME);
+    return true;
+};
+
+// Replaces the recovery key, e.g. when the old one was lost or seen by someone else. Returns null if the passphrase is wrong.
+export const regenerateRecoveryKey = async (passphrase: string): Promise<string | null> => {
+    if (!dataKey) throw new Error('The database is not encrypted');
+    assertPermission('manageEncryption');
+    const header = await loadEncryptionHeader();
+    if (!(await unwrapDataKey(header.passphrase, passphrase))) return null;
+    const updated = await rewrapForNewRecoveryKey(header, dataKey);
+    await writeToIndexedDB(updated.header, DB_KEYS_NAME);
+    return updated.recoveryKey;
+};
+
+// Returns false if the passphrase is wrong.
+export const disableEncryption = async (passphrase: string): Promise<boolean> => {
+    if (!dataKey) throw new Error('The database is not encrypted');
+    assertPermission('manageEncryption');
+    const header = await loadEncryptionHeader();
+    if (!(await unwrapDataKey(header.passphrase, passphrase))) return false;
+    if (!(await saveDbToIndexedDB(null))) throw new Error(STALE_WRITE_MESSAGE);
+    dataKey = null;
+    // None are needed any more; the old safety copies can't be read without the key.
+    await writeToIndexedDB(null, DB_BACKUP_NAME);
+    await writeToIndexedDB(null, DB_PRE_RESTORE_NAME);
+    await writeToIndexedDB(null, DB_KEYS_NAME);
+    return true;
+};
+
+// --- Data Access Functions ---
+
+const sqlResultToObject = (stmt: any) => {
+    const results = [];
+    while (stmt.step()) {
+        results.push(stmt.getAsObject());
+    }
+    return results;
+};
+
+// Splits grouped by expense id; all of them, or only those of `expenseIds`.
+const loadSplits = (expenseIds?: string[]): Map<string, any[]> => {
+    const splitsByExpense = new Map<string, any[]>();
+    if (expenseIds?.length === 0) return splitsByExpense;
+    const stmt = expenseIds
+        ? db.prepare(`SELECT * FROM expense_splits WHERE expenseId IN (${expenseIds.map(() => '?').join(', ')}) ORDER BY id`)
+        : db.prepare("SELECT * FROM expense_splits ORDER BY id");
+    if (expenseIds) stmt.bind(expenseIds);
+    sqlResultToObject(stmt).forEach(split => {
+        const splits = splitsByExpense.get(split.expenseId) || [];
+        splits.push(split);
+        splitsByExpense.set(split.expenseId, splits);
+    });
+    stmt.free();
+    return splitsByExpense;
+};
+
+const withSplits = (expenses: any[], splitsByExpense: Map<string, any[]>): Expense[] => {
+    return expenses.map(e => ({ ...e, splits: splitsByExpense.get(e.id) || [] }));
+};
+
+// A member as loaded here. The UI turns a stored avatar into an object URL, which has to be
+// made on the page that shows it.
+export type StoredMember = Member & { avatar?: MemberAvatar };
+
+export type StoredHousehold = Omit<Household, 'members'> & { members: StoredMember[] };
+
+const toMember = (row: any): StoredMember => ({
+    id: row.id,
+    name: row.name,
+    avatarUrl: row.avatarUrl || '',
+    role: row.role,
+    archived: !!row.archived,
+    hasPin: !!row.hasPin,
+    avatar: row.avatar ? { data: row.avatar, type: row.avatarType || 'image/png' } : undefined,
+});
+
+// How far back `Household.expenses` goes: this calendar month and the ones before it. Older
+// expenses, and trip expenses, stay in the database for the queries below.
+const RECENT_EXPENSE_MONTHS = 6;
+
+// The parts of the household that load separately, so a change only reloads what it touched.
+// 'settings' is the household's own fields: name, alerts, monthly income and auto-lock.
+export type HouseholdSlice =
+    | 'settings' | 'members' | 'categories' | 'rules' | 'expenses' | 'incomes' | 'budgets' | 'bucketGoals' | 'trips'
+    | 'subscriptions' | 'settlements' | 'csvProfiles' | 'importBatches' | 'categoryCorrections' | 'aiSettings'
+    | 'notifications' | 'approvalRequests' | 'pendingAnalyses';
+
+const selectAll = (sql: string): any[] => {
+    const stmt = db.prepare(sql);
+    const rows = sqlResultToObject(stmt);
+    stmt.free();
+    return rows;
+};
+
+const sliceLoaders: { [S in HouseholdSlice]: () => Partial<StoredHousehold> } = {
+    settings: () => {
+        const [householdBase] = selectAll("SELECT * FROM household_settings WHERE id = 'hh-1'");
+        return { ...householdBase, emailAlertsEnabled: householdBase.emailAlertsEnabled === 1 };
+    },
+    members: () => ({
+        members: selectAll("SELECT id, name, avatarUrl, avatar, avatarType, role, archived, pinHash IS NOT NULL AS hasPin FROM members ORDER BY rowid").map(toMember),
+    }),
+    categories: () => ({ categories: selectAll("SELECT * FROM categories ORDER BY rowid") }),
+    rules: () => ({
+        rules: selectAll("SELECT * FROM rules ORDER BY priority DESC").map(r => ({
+            ...r,
+            splitTemplate: r.splitTemplate ? JSON.parse(r.splitTemplate) : null,
+            markAsSubscription: !!r.markAsSubscription,
+        })),
+    }),
+    expenses: () => {
+        const now = new Date();
+        const from = new Date(now.getFullYear(), now.getMonth() - (RECENT_EXPENSE_MONTHS - 1), 1).toISOString();
+        const { where, params } = filterToSql({ tripId: null, from });
+        return { expenses: selectExpenses(where, params) };
+    },
+    incomes: () => ({ incomes: selectAll("SELECT * FROM incomes ORDER BY date DESC") }),
+    budgets: () => ({ budgets: selectAll("SELECT * FROM budgets") }),
+    bucketGoals: () => ({ bucketGoals: selectAll("SELECT * FROM bucket_goals") }),
+    trips: () => ({ trips: selectAll("SELECT * FROM trips") }),
+    subscriptions: () => ({ subscriptions: selectAll("SELECT * FROM subscriptions ORDER BY nextDueDate ASC") }),
+    settlements: () => ({ settlements: selectAll("SELECT * FROM settlements ORDER BY date DESC") }),
+    csvProfiles: () => ({ csvProfiles: selectAll("SELECT * FROM csv_profiles").map(p => ({ ...p, mapping: JSON.parse(p.mapping) })) }),
+    importBatches: () => ({ importBatches: selectAll("SELECT * FROM import_batches ORDER BY createdAt DESC") }),
+    categoryCorrections: () => ({
+        categoryCorrections: selectAll("SELECT id, merchantToken, description, amount, date, fromCategoryId, toCategoryId, createdAt FROM category_corrections WHERE resolved = 0 ORDER BY createdAt DESC"),
+    }),
+    aiSettings: () => {
+        const [aiSettingsRow] = selectAll("SELECT settings FROM ai_settings WHERE id = 'ai-1'");
+        return { aiSettings: { ...DEFAULT_AI_SETTINGS, ...(aiSettingsRow ? JSON.parse(aiSettingsRow.settings) : {}) } };
+    },
+    notifications: () => ({ notifications: selectAll("SELECT * FROM notifications ORDER BY date DESC").map(n => ({ ...n, isRead: n.isRead === 1 })) }),
+    approvalRequests: () => ({
+        approvalRequests: selectAll("SELECT * FROM approval_requests ORDER BY createdAt DESC")
+            .map(r => ({ ...r, payload: JSON.parse(r.payload), resolvedBy: r.resolvedBy ?? undefined, resolvedAt: r.resolvedAt ?? undefined })),
+    }),
+    pendingAnalyses: () => ({ pendingAnalyses: selectAll("SELECT * FROM pending_analyses ORDER BY createdAt").map(p => ({ ...p, lastError: p.lastError ?? undefined })) }),
+};
+
+// Loads the given parts of the household, or null if the database can't be read.
+export const loadHouseholdSlices = async (slices: HouseholdSlice[]): Promise<Partial<StoredHousehold> | null> => {
+    if (!db) await initDB();
+    if (!db) return null;
+
+    try {
+        return Object.assign({}, ...slices.map(slice => sliceLoaders[slice]()));
+    } catch (err) {
+        console.error("Failed to load household data:", err);
+        return null;
+    }
+};
+
+export const loadHouseholdData = async (): Promise<StoredHousehold | null> => {
+    return await loadHouseholdSlices(Object.keys(sliceLoaders) as HouseholdSlice[]) as StoredHousehold | null;
+};
+
+// --- Expense Queries ---
+// For views that page through or summarise expenses without going through every one in memory.
+
+// Narrows the queries below; fields left out don't filter.
+export interface ExpenseFilter {
+    tripId?: string | null; // null for household expenses only
+    categoryIds?: string[];
+    memberId?: string; // expenses this member has a share in
+    from?: string; // ISO date, inclusive
+    to?: string; // ISO date, exclusive
+    importBatchId?: string;
+}
+
+export interface ExpensePage {
+    expenses: Expense[]; // newest first
+    totalCount: number; // of all expenses matching the filter
+    totalAmount: number; // in cents, less linked refunds
+}
+
+export interface MonthlyTotal {
+    month: string; // "YYYY-MM" of the stored (UTC) date
+    amount: number; // in cents, net of refunds
+    count: number;
+}
+
+export interface CategoryTotal {
+    categoryId: string;
+    amount: number; // in cents, net of refunds
+    count: number;
+}
+
+// What each member paid for and owes of the matching expenses, as settling up needs them.
+export interface MemberTotal {
+    memberId: string;
+    paid: number; // in cents, less linked refunds
+    paidCount: number; // expenses the member paid for
+    share: number; // in cents, less the member's part of linked refunds
+    shareCount: number; // expenses the member has a share in
+}
+
+// An expense's amount less the refunds linked to it, as getNetExpenseAmount works it out.
+const NET_AMOUNT_SQL = "MAX(0, amount - COALESCE((SELECT SUM(i.amount) FROM incomes AS i WHERE i.kind = 'refund' AND i.refundOfExpenseId = expenses.id), 0))";
+
+// Expenses with their splits, newest first. A negative limit reads them all.
+const selectExpenses = (where: string, params: (string | number)[], limit = -1, offset = 0): Expense[] => {
+    // rowid breaks ties between expenses on the same date, so pages don't overlap.
+    const stmt = db.prepare(`SELECT * FROM expenses ${where} ORDER BY date DESC, rowid DESC LIMIT ? OFFSET ?`);
+    stmt.bind([...params, limit, offset]);
+    const expenses = sqlResultToObject(stmt);
+    stmt.free();
+    return withSplits(expenses, loadSplits(expenses.map(e => e.id)));
+};
+
+const filterToSql = (filter: ExpenseFilter): { where: string; params: (string | number)[] } => {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    if (filter.tripId === null) {
+        conditions.push("tripId IS NULL");
+    } else if (filter.tripId !== undefined) {
+        conditions.push("tripId = ?");
+        params.push(filter.tripId);
+    }
+    if (filter.categoryIds) {
+        conditions.push(`categoryId IN (${filter.categoryIds.map(() => '?').join(', ') || 'NULL'})`);
+        params.push(...filter.categoryIds);
+    }
+    if (filter.memberId) {
+        conditions.push("EXISTS (SELECT 1 FROM expense_splits AS s WHERE s.expenseId = expenses.id AND s.memberId = ? AND s.amount > 0)");
+        params.push(filter.memberId);
+    }
+    if (filter.from) {
+        conditions.push("date >= ?");
+        params.push(filter.from);
+    }
+    if (filter.to) {
+        conditions.push("date < ?");
+        params.push(filter.to);
+    }
+    if (filter.importBatchId) {
+        conditions.push("importBatchId = ?");
+        params.push(filter.importBatchId);
+    }
+    return { where: conditions.length ? `WHERE ${conditions.join(' AND ')}` : '', params };
+};
+
+export const queryExpenses = async (filter: ExpenseFilter, offset: number, limit: number): Promise<ExpensePage> => {
+    if (!db) return { expenses: [], totalCount: 0, totalAmount: 0 };
+    const { where, params } = filterToSql(filter);
+
+    const totalsStmt = db.prepare(`SELECT COUNT(*) AS totalCount, COALESCE(SUM(${NET_AMOUNT_SQL}), 0) AS totalAmount FROM expenses ${where}`);
+    totalsStmt.bind(params);
+    const [{ totalCount, totalAmount }] = sqlResultToObject(totalsStmt);
+    totalsStmt.free();
+
+    return { expenses: selectExpenses(where, params, limit, offset), totalCount, totalAmount };
+};
+
+// Every expense matching the filter, newest first. For work that has to see all of them, such as a rule preview.
+export const listExpenses = async (filter: ExpenseFilter): Promise<Expense[]> => {
+    if (!db) return [];
+    const { where, params } = filterToSql(filter);
+    return selectExpenses(where, params);
+};
+
+export const getExpense = async (id: string): Promise<Expense | null> => {
+    if (!db) return null;
+    const [expense] = selectExpenses("WHERE id = ?", [id]);
+    return expense ?? null;
+};
+
+export const getMonthlyTotals = async (filter: ExpenseFilter = {}): Promise<MonthlyTotal[]> => {
+    if (!db) return [];
+    const { where, params } = filterToSql(filter);
+    const stmt = db.prepare(`SELECT substr(date, 1, 7) AS month, SUM(${NET_AMOUNT_SQL}) AS amount, COUNT(*) AS count FROM expenses ${where} GROUP BY month ORDER BY month`);
+    stmt.bind(params);
+    const totals = sqlResultToObject(stmt);
+    stmt.free();
+    return totals;
+};
+
+export const getCategoryTotals = async (filter: ExpenseFilter = {}): Promise<CategoryTotal[]> => {
+    if (!db) return [];
+    const { where, params } = filterToSql(filter);
+    const stmt = db.prepare(`SELECT categoryId, SUM(${NET_AMOUNT_SQL}) AS amount, COUNT(*) AS count FROM expenses ${where} GROUP BY categoryId ORDER BY amount DESC`);
+    stmt.bind(params);
+    const totals = sqlResultToObject(stmt);
+    stmt.free();
+    return totals;
+};
+
+// An expense's net amount as a fraction of its full amount, to take refunds off each split in proportion.
+const NET_RATIO_SQL = `COALESCE((SELECT ${NET_AMOUNT_SQL} * 1.0 / amount FROM expenses WHERE expenses.id = expense_splits.expenseId AND amount != 0), 1)`;
+
+// Rounds members' shares to whole cents without changing their sum: the cents left after rounding down go to the largest remainders.
+const roundShares = (totals: MemberTotal[]) => {
+    const exactSum = totals.reduce((sum, t) => sum + t.share, 0);
+    const remainders = totals.map(t => {
+        const exact = t.share;
+        t.share = Math.floor(exact);
+        return { total: t, remainder: exact - t.share };
+    });
+    let centsLeft = Math.round(exactSum) - totals.reduce((sum, t) => sum + t.share, 0);
+    remainders.sort((a, b) => b.remainder - a.remainder);
+    for (const { total } of remainders) {
+        if (centsLeft <= 0) break;
+        total.share += 1;
+        centsLeft -= 1;
+    }
+};
+
+/**
+ * Members without expenses in the filter are left out. Amounts are net of linked refunds: the payer
+ * paid the net amount, and each split shrinks by the same fraction, so a fully refunded expense owes nothing.
+ */
+export const getMemberTotals = async (filter: ExpenseFilter = {}): Promise<MemberTotal[]> => {
+    if (!db) return [];
+    const { where, params } = filterToSql(filter);
+    const totals = new Map<string, MemberTotal>();
+    const totalFor = (memberId: string) => {
+        if (!totals.has(memberId)) totals.set(memberId, { memberId, paid: 0, paidCount: 0, share: 0, shareCount: 0 });
+        return totals.get(memberId)!;
+    };
+
+    const paidStmt = db.prepare(`SELECT memberId, SUM(${NET_AMOUNT_SQL}) AS amount, COUNT(*) AS count FROM expenses ${where} GROUP BY memberId`);
+    paidStmt.bind(params);
+    sqlResultToObject(paidStmt).forEach(row => Object.assign(totalFor(row.memberId), { paid: row.amount, paidCount: row.count }));
+    paidStmt.free();
+
+    const shareStmt = db.prepare(`SELECT memberId, SUM(amount * ${NET_RATIO_SQL}) AS amount, COUNT(*) AS count FROM expense_splits WHERE amount != 0 AND expenseId IN (SELECT id FROM expenses ${where}) GROUP BY memberId`);
+    shareStmt.bind(params);
+    sqlResultToObject(shareStmt).forEach(row => Object.assign(totalFor(row.memberId), { share: row.amount, shareCount: row.count }));
+    shareStmt.free();
+
+    const result = Array.from(totals.values());
+    roundShares(result);
+    return result;
+};
+
+// --- Data Mutation Functions ---
+
+// The member the app is being used as. Mutations that need a permission check it against this member's stored role.
+let actingMemberId: string | null = null;
+
+export const setActingMember = (memberId: string | null) => {
+    actingMemberId = memberId;
+};
+
+const getStoredMember = (memberId: string | null): { role: Member['role']; archived: number } | null => {
+    if (!memberId) return null;
+    const stmt = db.prepare("SELECT role, archived FROM members WHERE id = ?");
+    stmt.bind([memberId]);
+    const row = stmt.step() ? stmt.getAsObject() : null;
+    stmt.free();
+    return row;
+};
+
+const assertPermission = (permission: Permission) => {
+    const member = getStoredMember(actingMemberId);
+    if (!member || member.archived || !roleHasPermission(member.role, permission)) {
+        throw new PermissionError(permission);
+    }
+};
+
+// Run inside a transaction, so the change that would leave the household without an owner is rolled back.
+const assertOwnerRemains = () => {
+    const stmt = db.prepare("SELECT COUNT(*) AS owners FROM members WHERE role = 'owner' AND archived = 0");
+    const [{ owners }] = sqlResultToObject(stmt);
+    stmt.free();
+    if (owners === 0) throw new Error('The household needs at least one active owner.');
+};
+// `subscriptions` are ones started by rules that mark matching expenses as subscriptions.
+// Inserts an expense with its splits, notifications and rule-created subscriptions. Callers hold the transaction.
+const insertExpense = (newExpense: Omit<Expense, 'id'> & { id: string }, notifications: Notification[], subscriptions: Subscription[]) => {
+    db.prepare("INSERT INTO expenses (id, description, amount, date, memberId, categoryId, tripId, externalId, createdBy) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)")
+      .run([newExpense.id, newExpense.description, newExpense.amount, newExpense.date, newExpense.memberId, newExpense.categoryId, newExpense.tripId ?? null, newExpense.externalId ?? null, newExpense.createdBy ?? null]);
+
+    const splitStmt = db.prepare("INSERT INTO expense_splits (expenseId, memberId, amount) VALUES (?, ?, ?)");
+    newExpense.splits.forEach(s => splitStmt.run([newExpense.id, s.memberId, s.amount]));
+    splitStmt.free();
+
+    const notifStmt = db.prepare("INSERT INTO notifications VALUES (?, ?, ?, ?, ?)");
+    notifications.forEach(n => notifStmt.run([n.id, n.message, n.date, n.type, n.isRead ? 1 : 0]));
+    notifStmt.free();
+
+    const subStmt = db.prepare(INSERT_SUBSCRIPTION_SQL);
+    subscriptions.forEach(s => subStmt.run(subscriptionRow(s)));
+    subStmt.free();
+};
+
+export const addExpense = async (newExpense: Omit<Expense, 'id'> & { id: string }, notifications: Notification[], subscriptions: Subscription[] = []) => {
+    if (!db) return;
+    assertPermission('recordExpenses');
+    db.exec("BEGIN TRANSACTION;");
+    try {
+        insertExpense(newExpense, notifications, subscriptions);
+        db.exec("COMMIT;");
+        scheduleSave();
+    } catch (err) {
+        db.exec("ROLLBACK;");
+        console.error("Failed to add expense:", err);
+        throw err;
+    }
+};
+
+// --- Receipts waiting for analysis ---
+
+export const addPendingAnalysis = async (pending: PendingAnalysis) => {
+    if (!db) return;
+    try {
+        db.prepare("INSERT INTO pending_analyses (id, imageDataUrl, date, memberId, tripId, createdBy, createdAt, attempts) VALUES (?, ?, ?, ?, ?, ?, ?, ?)")
+          .run([pending.id, pending.imageDataUrl, pending.date, pending.memberId, pending.tripId, pending.createdBy, pending.createdAt, pending.attempts]);
+        scheduleSave();
+    } catch (err) {
+        console.error("Failed to save receipt for later analysis:", err);
+        throw err;
+    }
+};
+
+/**
+ * Adds the expense read from a pending receipt and removes the receipt, in one transaction.
+ * Returns false, adding nothing, if the receipt is gone — e.g. another tab already added it.
+ */
+export const completePendingAnalysis = async (id: string, newExpense: Expense, notifications: Notification[], subscriptions: Subscription[] = []): Promise<boolean> => {
+    if (!db) return false;
+    assertPermission('recordExpenses');
+    db.exec("BEGIN TRANSACTION;");
+    try {
+        db.prepare("DELETE FROM pending_analyses WHERE id = ?").run([id]);
+        if (db.getRowsModified() === 0) {
+            db.exec("ROLLBACK;");
+            return false;
+        }
+        insertExpense(newExpense, notifications, subscriptions);
+        db.exec("COMMIT;");
+        scheduleSave();
+        return true;
+    } catch (err) {
+        db.exec("ROLLBACK;");
+        console.error("Failed to add expense from receipt:", err);
+        throw err;
+    }
+};
+
+export const recordPendingAnalysisFailure = async (id: string, error: string) => {
+    if (!db) return;
+    try {
+        db.prepare("UPDATE pending_analyses SET attempts = attempts + 1, lastError = ? WHERE id = ?").run([error, id]);
+        scheduleSave();
+    } catch (err) {
+        console.error("Failed to record receipt analysis failure:", err);
+    }
+};
+
+// Clears the failures of a receipt so it is tried again automatically.
+export const retryPendingAnalysis = async (id: string) => {
+    if (!db) return;
+    try {
+        db.prepare("UPDATE pending_analyses SET attempts = 0, lastError = NULL WHERE id = ?").run([id]);
+        scheduleSave();
+    } catch (err) {
+        console.error("Failed to retry receipt analysis:", err);
+    }
+};
+
+export const deletePendingAnalysis = async (id: string) => {
+    if (!db) return;
+    try {
+        db.prepare("DELETE FROM pending_analyses WHERE id = ?").run([id]);
+        scheduleSave();
+    } catch (err) {
+        console.error("Failed to discard pending receipt:", err);
+    }
+};
+
+/**
+ * Records an import batch and creates all of its expenses in one transaction,
+ * so a statement is either imported completely or not at all.
+ */
+export const addImportBatch = async (batch: ImportBatch, expenses: Expense[], incomes: Income[], notifications: Notification[], subscriptions: Subscription[] = []) => {
+    if (!db) return;
+    assertPermission('recordExpenses');
+    db.exec("BEGIN TRANSACTION;");
+    try {
+        db.prepare(INSERT_IMPORT_BATCH_SQL).run(importBatchRow(batch));
+
+        const expStmt = db.prepare("INSERT INTO expenses (id, description, amount, date, memberId, categoryId, tripId, externalId, importBatchId, createdBy) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)");
+        const splitStmt = db.prepare("INSERT INTO expense_splits (expenseId, memberId, amount) VALUES (?, ?, ?)");
+        expenses.forEach(e => {
+            expStmt.run([e.id, e.description, e.amount, e.date, e.memberId, e.categoryId, e.tripId ?? null, e.externalId ?? null, batch.id, e.createdBy ?? null]);
+            e.splits.forEach(s => splitStmt.run([e.id, s.memberId, s.amount]));
+        });
+        expStmt.free();
+        splitStmt.free();
+
+        const incomeStmt = db.prepare(INSERT_INCOME_SQL);
+        incomes.forEach(i => incomeStmt.run(incomeRow({ ...i, importBatchId: batch.id })));
+        incomeStmt.free();
+
+        const notifStmt = db.prepare("INSERT INTO notifications VALUES (?, ?, ?, ?, ?)");
+        notifications.forEach(n => notifStmt.run([n.id, n.message, n.date, n.type, n.isRead ? 1 : 0]));
+        notifStmt.free();
+
+        const subStmt = db.prepare(INSERT_SUBSCRIPTION_SQL);
+        subscriptions.forEach(s => subStmt.run(subscriptionRow(s)));
+        subStmt.free();
+
+        db.exec("COMMIT;");
+        scheduleSave();
+    } catch (err) {
+        db.exec("ROLLBACK;");
+        console.error("Failed to import expenses:", err);
+        throw err;
+    }
+};
+
+// Removes a batch together with every expense and income it created, including ones edited since.
+export const deleteImportBatch = async (id: string) => {
+    if (!db) return;
+    assertPermission('deleteExpenses');
+    db.exec("BEGIN TRANSACTION;");
+    try {
+        db.prepare("DELETE FROM incomes WHERE importBatchId = ?").run([id]);
+        db.prepare("UPDATE incomes SET refundOfExpenseId = NULL WHERE refundOfExpenseId IN (SELECT id FROM expenses WHERE importBatchId = ?)").run([id]);
+        db.prepare("DELETE FROM expense_splits WHERE expenseId IN (SELECT id FROM expenses WHERE importBatchId = ?)").run([id]);
+        db.prepare("DELETE FROM expenses WHERE importBatchId = ?").run([id]);
+        db.prepare("DELETE FROM import_batches WHERE id = ?").run([id]);
+        db.exec("COMMIT;");
+        scheduleSave();
+    } catch (err) {
+        db.exec("ROLLBACK;");
+        console.error("Failed to roll back import batch:", err);
+        throw err;
+    }
+};
+
+// Checked against the stored expense, so a member can't change shares they weren't allowed to see.
+const assertCanEditExpense = (expense: Expense) => {
+    const [previous] = selectExpenses("WHERE id = ?", [expense.id]);
+    assertPermission(getExpenseEditPermission(previous ?? null, expense, actingMemberId || ''));
+};
+
+const writeExpenseUpdate = (expense: Expense) => {
+    db.prepare("UPDATE expenses SET description = ?, amount = ?, date = ?, memberId = ?, categoryId = ?, tripId = ?, updatedBy = ? WHERE id = ?")
+      .run([expense.description, expense.amount, expense.date, expense.memberId, expense.categoryId, expense.tripId ?? null, expense.updatedBy ?? null, expense.id]);
+
+    db.prepare("DELETE FROM expense_splits WHERE expenseId = ?").run([expense.id]);
+    const splitStmt = db.prepare("INSERT INTO expense_splits (expenseId, memberId, amount) VALUES (?, ?, ?)");
+    expense.splits.forEach(s => splitStmt.run([expense.id, s.memberId, s.amount]));
+    splitStmt.free();
+};
+
+// `corrections` records a category the user changed by hand, for rule suggestions.
+export const updateExpense = async (expense: Expense, corrections: CategoryCorrection[] = []) => {
+    if (!db) return;
+    assertPermission('recordExpenses');
+    assertCanEditExpense(expense);
+    db.exec("BEGIN TRANSACTION;");
+    try {
+        writeExpenseUpdate(expense);
+
+        const correctionStmt = db.prepare(INSERT_CORRECTION_SQL);
+        corrections.forEach(c => correctionStmt.run(correctionRow(c)));
+        correctionStmt.free();
+
+        db.exec("COMMIT;");
+        scheduleSave();
+    } catch (err) {
+        db.exec("ROLLBACK;");
+        console.error("Failed to update expense:", err);
+        throw err;
+    }
+};
+
+// Updates many expenses at once, e.g. when a new rule is applied to past expenses.
+export const updateExpenses = async (expenses: Expense[]) => {
+    if (!db) return;
+    assertPermission('recordExpenses');
+    expenses.forEach(assertCanEditExpense);
+    db.exec("BEGIN TRANSACTION;");
+    try {
+        expenses.forEach(writeExpenseUpdate);
+        db.exec("COMMIT;");
+        scheduleSave();
+    } catch (err) {
+        db.exec("ROLLBACK;");
+        console.error("Failed to update expenses:", err);
+        throw err;
+    }
+};
+
+export const addCategoryCorrections = async (corrections: CategoryCorrection[]) => {
+    if (!db || corrections.length === 0) return;
+    assertPermission('recordExpenses');
+    try {
+        const stmt = db.prepare(INSERT_CORRECTION_SQL);
+        corrections.forEach(c => stmt.run(correctionRow(c)));
+        stmt.free();
+        scheduleSave();
+    } catch (err) {
+        console.error("Failed to record category corrections:", err);
+    }
+};
+
+// Marks corrections as handled once a rule was created from them or their suggestion was dismissed.
+export const resolveCategoryCorrections = async (ids: string[]) => {
+    if (!db) return;
+    assertPermission('manageRules');
+    try {
+        const stmt = db.prepare("UPDATE category_corrections SET resolved = 1 WHERE id = ?");
+        ids.forEach(id => stmt.run([id]));
+        stmt.free();
+        scheduleSave();
+    } catch (err) {
+        console.error("Failed to resolve category corrections:", err);
+    }
+};
+
+export const addApprovalRequests = async (requests: ApprovalRequest[]) => {
+    if (!db || requests.length === 0) return;
+    assertPermission('requestApprovals');
+    // Members can only ask on their own behalf.
+    if (requests.some(r => r.requestedBy !== actingMemberId)) throw new PermissionError('requestApprovals');
+    try {
+        const stmt = db.prepare(INSERT_APPROVAL_SQL);
+        requests.forEach(r => stmt.run(approvalRow(r)));
+        stmt.free();
+        scheduleSave();
+    } catch (err) {
+        console.error("Failed to add approval requests:", err);
+        throw err;
+    }
+};
+
+/**
+ * Records an owner's answer to a request, with a notification telling the household.
+ * Callers apply an approved change first, so a failed change leaves the request pending.
+ */
+export const resolveApprovalRequest = async (id: string, status: 'approved' | 'rejected', notification: Notification) => {
+    if (!db) return;
+    assertPermission('approveRequests');
+    db.exec("BEGIN TRANSACTION;");
+    try {
+        db.prepare("UPDATE approval_requests SET status = ?, resolvedBy = ?, resolvedAt = ? WHERE id = ?")
+          .run([status, actingMemberId, new Date().toISOString(), id]);
+        db.prepare("INSERT INTO notifications VALUES (?, ?, ?, ?, ?)")
+          .run([notification.id, notification.message, notification.date, notification.type, notification.isRead ? 1 : 0]);
+        db.exec("COMMIT;");
+        scheduleSave();
+    } catch (err) {
+        db.exec("ROLLBACK;");
+        console.error("Failed to resolve approval request:", err);
+        throw err;
+    }
+};
+
+export const deleteExpense = async (id: string) => {
+    if (!db) return;
+    assertPermission('deleteExpenses');
+    db.exec("BEGIN TRANSACTION;");
+    try {
+        // Foreign keys are not enforced by sql.js, so splits are removed explicitly.
+        db.prepare("DELETE FROM expense_splits WHERE expenseId = ?").run([id]);
+        db.prepare("UPDATE incomes SET refundOfExpenseId = NULL WHERE refundOfExpenseId = ?").run([id]);
+        db.prepare("DELETE FROM expenses WHERE id = ?").run([id]);
+        db.exec("COMMIT;");
+        scheduleSave();
+    } catch (err) {
+        db.exec("ROLLBACK;");
+        console.error("Failed to delete expense:", err);
+        throw err;
+    }
+};
+
+export const addSettlement = async (settlement: Settlement) => {
+    if (!db) return;
+    assertPermission('recordExpenses');
+    try {
+        db.prepare("INSERT INTO settlements VALUES (?, ?, ?, ?, ?, ?)")
+          .run([settlement.id, settlement.fromMemberId, settlement.toMemberId, settlement.amount, settlement.date, settlement.tripId]);
+        scheduleSave();
+    } catch (err) {
+        console.error("Failed to add settlement:", err);
+    }
+};
+
+export const deleteSettlement = async (id: string) => {
+    if (!db) return;
+    assertPermission('deleteExpenses');
+    db.prepare("DELETE FROM settlements WHERE id = ?").run([id]);
+    scheduleSave();
+};
+
+/**
+ * Moves everything filed under `sourceId` to `targetId` and deletes the source category:
+ * expenses, rules, subscriptions, learned corrections and sub-categories. If both have a
+ * budget, the target's budget grows by the source's amount.
+ */
+export const mergeCategories = async (sourceId: string, targetId: string) => {
+    if (!db) return;
+    assertPermission('manageCategories');
+    const sourceBudgetStmt = db.prepare("SELECT 1 FROM budgets WHERE categoryId = ?");
+    sourceBudgetStmt.bind([sourceId]);
+    const hasSourceBudget = sourceBudgetStmt.step();
+    sourceBudgetStmt.free();
+    // The source's budget moves to or is added to the target's, which is a budget change.
+    if (hasSourceBudget) assertPermission('editBudgets');
+    db.exec("BEGIN TRANSACTION;");
+    try {
+        db.prepare("UPDATE expenses SET categoryId = ? WHERE categoryId = ?").run([targetId, sourceId]);
+        db.prepare("UPDATE rules SET categoryId = ? WHERE categoryId = ?").run([targetId, sourceId]);
+        db.prepare("UPDATE subscriptions SET categoryId = ? WHERE categoryId = ?").run([targetId, sourceId]);
+        db.prepare("UPDATE category_corrections SET fromCategoryId = ? WHERE fromCategoryId = ?").run([targetId, sourceId]);
+        db.prepare("UPDATE category_corrections SET toCategoryId = ? WHERE toCategoryId = ?").run([targetId, sourceId]);
+        db.prepare("UPDATE categories SET parentId = ? WHERE parentId = ?").run([targetId, sourceId]);
+
+        const budgetStmt = db.prepare("SELECT 1 FROM budgets WHERE categoryId = ?");
+        budgetStmt.bind([targetId]);
+        const hasTargetBudget = budgetStmt.step();
+        budgetStmt.free();
+        if (hasTargetBudget) {
+            db.prepare("UPDATE budgets SET amount = amount + COALESCE((SELECT amount FROM budgets WHERE categoryId = ?), 0) WHERE categoryId = ?").run([sourceId, targetId]);
+            db.prepare("DELETE FROM budgets WHERE categoryId = ?").run([sourceId]);
+        } else {
+            db.prepare("UPDATE budgets SET categoryId = ? WHERE categoryId = ?").run([targetId, sourceId]);
+        }
+
+        db.prepare("DELETE FROM categories WHERE id = ?").run([sourceId]);
+        db.exec("COMMIT;");
+        scheduleSave();
+    } catch (err) {
+        db.exec("ROLLBACK;");
+        console.error("Failed to merge categories:", err);
+        throw err;
+    }
+};
+
+/**
+ * Adds or updates a member. `avatar` replaces the stored image, `null` removes it,
+ * and leaving it out keeps the current one.
+ */
+export const saveMember = async (member: Member, avatar?: MemberAvatar | null) => {
+    if (!db) return;
+    // Anyone may change their own name and picture; everything else is managing members.
+    const stored = getStoredMember(member.id);
+    const isOwnProfile = member.id === actingMemberId && stored && stored.role === member.role && !!stored.archived === !!member.archived;
+    if (!isOwnProfile) assertPermission('manageMembers');
+    db.exec("BEGIN TRANSACTION;");
+    try {
+        db.prepare("INSERT OR IGNORE INTO members (id, name, avatarUrl, role) VALUES (?, ?, '', ?)").run([member.id, member.name, member.role]);
+        db.prepare("UPDATE members SET name = ?, role = ?, archived = ? WHERE id = ?").run([member.name, member.role, member.archived ? 1 : 0, member.id]);
+        if (avatar !== undefined) {
+            db.prepare("UPDATE members SET avatar = ?, avatarType = ?, avatarUrl = '' WHERE id = ?").run([avatar?.data ?? null, avatar?.type ?? null, member.id]);
+        }
+        assertOwnerRemains();
+        db.exec("COMMIT;");
+        scheduleSave();
+    } catch (err) {
+        db.exec("ROLLBACK;");
+        console.error("Failed to save member:", err);
+        throw err;
+    }
+};
+
+/**
+ * `pin` null removes the member's PIN. Only a salted hash is stored. Members may change their own PIN
+ * when `currentPin` matches the one they have; changing anyone else's needs manageMembers.
+ */
+export const setMemberPin = async (memberId: string, pin: string | null, currentPin = '') => {
+    if (!db) return;
+    const isOwnPin = memberId === actingMemberId && await checkMemberPin(memberId, currentPin);
+    if (!isOwnPin) assertPermission('manageMembers');
+    try {
+        const hashed = pin ? await hashPin(pin) : null;
+        db.prepare("UPDATE members SET pinHash = ?, pinSalt = ? WHERE id = ?").run([hashed?.hash ?? null, hashed?.salt ?? null, memberId]);
+        scheduleSave();
+    } catch (err) {
+        console.error("Failed to set member PIN:", err);
+        throw err;
+    }
+};
+
+// True when the member has no PIN or `pin` matches it.
+export const checkMemberPin = async (memberId: string, pin: string): Promise<boolean> => {
+    if (!db) return false;
+    const stmt = db.prepare("SELECT pinHash, pinSalt FROM members WHERE id = ?");
+    stmt.bind([memberId]);
+    const row = stmt.step() ? stmt.getAsObject() : null;
+    stmt.free();
+    if (!row) return false;
+    if (!row.pinHash) return true;
+    return verifyPin(pin, row.pinHash, row.pinSalt);
+};
+
+/**
+ * Deletes a member. With `reassignToId`, everything recorded against them moves to that member first:
+ * expenses they paid, their split shares, incomes, settlements and rule actions. Without it, callers
+ * must have checked that the member has no history.
+ */
+export const removeMember = async (memberId: string, reassignToId: string | null) => {
+    if (!db) return;
+    assertPermission('manageMembers');
+    db.exec("BEGIN TRANSACTION;");
+    try {
+        if (reassignToId) {
+            const ids = { ':from': memberId, ':to': reassignToId };
+            db.prepare("UPDATE expenses SET memberId = :to WHERE memberId = :from").run(ids);
+            // Where both members have a share of the same expense, the shares are combined.
+            db.prepare(`UPDATE expense_splits SET amount = amount + (SELECT s.amount FROM expense_splits AS s WHERE s.expenseId = expense_splits.expenseId AND s.memberId = :from)
+                        WHERE memberId = :to AND expenseId IN (SELECT expenseId FROM expense_splits WHERE memberId = :from)`).run(ids);
+            db.prepare("DELETE FROM expense_splits WHERE memberId = :from AND expenseId IN (SELECT expenseId FROM expense_splits WHERE memberId = :to)").run(ids);
+            db.prepare("UPDATE expense_splits SET memberId = :to WHERE memberId = :from").run(ids);
+            db.prepare("UPDATE incomes SET memberId = :to WHERE memberId = :from").run(ids);
+            db.prepare("UPDATE settlements SET fromMemberId = :to WHERE fromMemberId = :from").run(ids);
+            db.prepare("UPDATE settlements SET toMemberId = :to WHERE toMemberId = :from").run(ids);
+            // A payment between the two is now a payment to oneself.
+            db.exec("DELETE FROM settlements WHERE fromMemberId = toMemberId");
+        }
+        db.prepare("UPDATE rules SET payerMemberId = ? WHERE payerMemberId = ?").run([reassignToId, memberId]);
+
+        const templateStmt = db.prepare("SELECT id, splitTemplate FROM rules WHERE splitTemplate IS NOT NULL");
+        const templates = sqlResultToObject(templateStmt);
+        templateStmt.free();
+        templates.forEach(({ id, splitTemplate }) => {
+            const shares: SplitShare[] = JSON.parse(splitTemplate);
+            if (!shares.some(s => s.memberId === memberId)) return;
+            const merged = new Map<string, number>();
+            shares.forEach(s => {
+                const owner = s.memberId === memberId ? reassignToId : s.memberId;
+                if (owner) merged.set(owner, (merged.get(owner) || 0) + s.percent);
+            });
+            const updated = [...merged.entries()].map(([owner, percent]) => ({ memberId: owner, percent }));
+            db.prepare("UPDATE rules SET splitTemplate = ? WHERE id = ?").run([updated.length > 0 ? JSON.stringify(updated) : null, id]);
+        });
+
+        // Nobody is left to act on their open requests; answered ones stay for the record.
+        db.prepare("DELETE FROM approval_requests WHERE requestedBy = ? AND status = 'pending'").run([memberId]);
+
+        db.prepare("DELETE FROM members WHERE id = ?").run([memberId]);
+        assertOwnerRemains();
+        db.exec("COMMIT;");
+        scheduleSave();
+    } catch (err) {
+        db.exec("ROLLBACK;");
+        console.error("Failed to remove member:", err);
+        throw err;
+    }
+};
+
+export const updateHousehold = async (data: Partial<Omit<Household, 'id'>>) => {
+     if (!db) return;
+    (Object.keys(data) as (keyof typeof data)[]).forEach(key => {
+        const permission = HOUSEHOLD_UPDATE_PERMISSIONS[key];
+        if (permission && data[key] !== undefined) assertPermission(permission);
+    });
+    if (data.categories) {
+        // Removing a category drops its budget with it.
+        const categoryIds = new Set(data.categories.map((c: Category) => c.id));
+        const stmt = db.prepare("SELECT categoryId FROM budgets");
+        const budgeted = sqlResultToObject(stmt);
+        stmt.free();
+        if (budgeted.some(b => !categoryIds.has(b.categoryId))) assertPermission('editBudgets');
+    }
+    if (data.trips) {
+        const tripIds = new Set(data.trips.map((t: Trip) => t.id));
+        const stmt = db.prepare("SELECT id FROM trips");
+        const storedTrips = sqlResultToObject(stmt);
+        stmt.free();
+        if (storedTrips.some(t => !tripIds.has(t.id))) assertPermission('deleteTrips');
+    }
+    db.exec("BEGIN TRANSACTION;");
+    try {
+        if (data.categories) {
+            // Callers merge a category away before removing it, so only its budget is left to clean up.
+            // Rows are rewritten in the given order, which is the order they are listed in.
+            const categoryIds = data.categories.map((c: Category) => c.id);
+            const placeholders = categoryIds.map(() => '?').join(', ');
+            db.prepare(`DELETE FROM budgets WHERE categoryId NOT IN (${placeholders})`).run(categoryIds);
+            db.exec("DELETE FROM categories");
+            const stmt = db.prepare(INSERT_CATEGORY_SQL);
+            data.categories.forEach((c: Category) => stmt.run(categoryRow(c)));
+            stmt.free();
+        }
+        if(data.rules) {
+            db.exec("DELETE FROM rules");
+            const stmt = db.prepare(INSERT_RULE_SQL);
+            data.rules.forEach((r: Rule) => stmt.run(ruleRow(r)));
+            stmt.free();
+        }
+        if(data.budgets) {
+            db.exec("DELETE FROM budgets");
+            const stmt = db.prepare("INSERT INTO budgets VALUES (?, ?, ?)");
+            data.budgets.forEach((b: Budget) => stmt.run([b.id, b.categoryId, b.amount]));
+            stmt.free();
+        }
+        if(data.bucketGoals) {
+            db.exec("DELETE FROM bucket_goals");
+            const stmt = db.prepare("INSERT INTO bucket_goals VALUES (?, ?, ?, ?)");
+            data.bucketGoals.forEach((g: BucketGoal) => stmt.run([g.id, g.name, g.targetAmount, g.currentAmount]));
+            stmt.free();
+        }
+        if (data.trips) {
+            // Trip expenses are written through addExpense/updateExpense, so only the
+            // trip rows are replaced here. Expenses of removed trips go with them.
+            const tripIds = data.trips.map((t: Trip) => t.id);
+            const placeholders = tripIds.map(() => '?').join(', ');
+            const removedFilter = tripIds.length > 0 ? `tripId IS NOT NULL AND tripId NOT IN (${placeholders})` : 'tripId IS NOT NULL';
+            db.prepare(`DELETE FROM expense_splits WHERE expenseId IN (SELECT id FROM expenses WHERE ${removedFilter})`).run(tripIds);
+            db.prepare(`UPDATE incomes SET refundOfExpenseId = NULL WHERE refundOfExpenseId IN (SELECT id FROM expenses WHERE ${removedFilter})`).run(tripIds);
+            db.prepare(`DELETE FROM expenses WHERE ${removedFilter}`).run(tripIds);
+            db.exec("DELETE FROM trips");
+            const tripStmt = db.prepare("INSERT INTO trips VALUES (?, ?, ?, ?, ?)");
+            data.trips.forEach((t: Trip) => tripStmt.run([t.id, t.name, t.startDate, t.endDate, t.budget]));
+            tripStmt.free();
+        }
+        if(data.subscriptions) {
+            db.exec("DELETE FROM subscriptions");
+            const stmt = db.prepare(INSERT_SUBSCRIPTION_SQL);
+            data.subscriptions.forEach((s: Subscription) => stmt.run(subscriptionRow(s)));
+            stmt.free();
+        }
+        if(data.csvProfiles) {
+            db.exec("DELETE FROM csv_profiles");
+            const stmt = db.prepare("INSERT INTO csv_profiles VALUES (?, ?, ?, ?)");
+            data.csvProfiles.forEach((p: CsvProfile) => stmt.run([p.id, p.name, p.headerSignature, JSON.stringify(p.mapping)]));
+            stmt.free();
+        }
+        if(data.aiSettings) {
+            db.prepare("INSERT OR REPLACE INTO ai_settings VALUES ('ai-1', ?)").run([JSON.stringify(data.aiSettings)]);
+        }
+        if (data.autoLockMinutes !== undefined) {
+            db.prepare("UPDATE household_settings SET autoLockMinutes = ? WHERE id = 'hh-1'").run([data.autoLockMinutes]);
+        }
+        if(data.monthlyIncome !== undefined || data.emailAlertsEnabled !== undefined) {
+             const settingsStmt = db.prepare("UPDATE household_settings SET monthlyIncome = :income, emailAlertsEnabled = :alerts WHERE id = 'hh-1'");
+             const current = await loadHouseholdSlices(['settings']);
+             settingsStmt.run({
+                ':income': data.monthlyIncome ?? current!.monthlyIncome,
+                ':alerts': data.emailAlertsEnabled !== undefined ? (data.emailAlertsEnabled ? 1 : 0) : (current!.emailAlertsEnabled ? 1 : 0)
+             });
+             settingsStmt.free();
+        }
+        
+        db.exec("COMMIT;");
+        scheduleSave();
+    } catch(err) {
+        db.exec("ROLLBACK;");
+        console.error("Failed to update household:", err);
+    }
+};
+
+// --- Backup, restore and merge ---
+
+// Every table except the migration log; a restored database keeps its own.
+const readSnapshot = (source: any): BackupSnapshot => {
+    const tablesStmt = source.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND name != 'schema_version' ORDER BY name");
+    const tableNames: string[] = sqlResultToObject(tablesStmt).map(row => row.name);
+    tablesStmt.free();
+
+    const tables: Record<string, BackupRow[]> = {};
+    tableNames.forEach(name => {
+        const stmt = source.prepare(`SELECT * FROM "${name}" ORDER BY rowid`);
+        tables[name] = sqlResultToObject(stmt);
+        stmt.free();
+    });
+    return { format: BACKUP_FORMAT, formatVersion: BACKUP_FORMAT_VERSION, schemaVersion: getSchemaVersion(source), exportedAt: new Date().toISOString(), tables };
+};
+
+/**
+ * Loads a snapshot into a new database at the latest schema and returns it with the snapshot
+ * read back from it. Columns a backup from an older version lacks get their defaults; tables
+ * and columns this version doesn't know are left out.
+ */
+const buildDatabase = async (snapshot: BackupSnapshot): Promise<{ database: any; snapshot: BackupSnapshot }> => {
+    if (snapshot.schemaVersion > LATEST_SCHEMA_VERSION) {
+        throw new BackupError('newerVersion', 'This backup was made by a newer version of the app. Update the app to restore it.');
+    }
+    const SQL = await loadSqlJs();
+    const database = new SQL.Database();
+    try {
+        createSchema(database);
+        applyMigrations(database, getPendingMigrations(BASE_SCHEMA_VERSION));
+        const schemaTables = Object.keys(readSnapshot(database).tables);
+
+        database.exec("BEGIN TRANSACTION;");
+        schemaTables.forEach(name => {
+            const rows = snapshot.tables[name] || [];
+            if (rows.length === 0) return;
+            const columnsStmt = database.prepare(`PRAGMA table_info("${name}")`);
+            const schemaColumns: string[] = sqlResultToObject(columnsStmt).map(c => c.name);
+            columnsStmt.free();
+            // Split IDs are reassigned, since splits merged from two devices can share one.
+            const columns = schemaColumns.filter(c => !(name === 'expense_splits' && c === 'id') && rows.every(row => c in row));
+            const stmt = database.prepare(`INSERT INTO "${name}" (${columns.map(c => `"${c}"`).join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`);
+            try {
+                rows.forEach(row => stmt.run(columns.map(c => row[c] ?? null)));
+            } catch (err) {
+                console.error(`Failed to load the backup's ${name} table:`, err);
+                throw new BackupError('invalidFile', `The backup's "${name}" table doesn't fit this version of the app.`);
+            } finally {
+                stmt.free();
+            }
+        });
+        database.exec("COMMIT;");
+
+        const loaded = readSnapshot(database);
+        validateSnapshot(loaded);
+        return { database, snapshot: loaded };
+    } catch (err) {
+        database.close();
+        throw err;
+    }
+};
+
+/**
+ * Reads a backup file: JSON or a raw SQLite file, either of them optionally encrypted. Throws a
+ * `BackupError` if the file can't be used, including 'passphraseRequired' for an encrypted one.
+ */
+export const readBackupFile = async (data: Uint8Array, passphrase?: string): Promise<BackupSnapshot> => {
+    let bytes = data;
+    if (isEncryptedBackup(bytes)) {
+        if (!passphrase) throw new BackupError('passphraseRequired', 'This backup is protected with a passphrase.');
+        const decrypted = await decryptBackup(bytes, passphrase);
+        if (!decrypted) throw new BackupError('wrongPassphrase', 'That passphrase is not correct.');
+        bytes = decrypted;
+    }
+
+    let snapshot: BackupSnapshot;
+    if (isSqliteFile(bytes)) {
+        const SQL = await loadSqlJs();
+        let source: any = null;
+        try {
+            source = new SQL.Database(bytes);
+            const version = getSchemaVersion(source);
+            if (version > LATEST_SCHEMA_VERSION) {
+                throw new BackupError('newerVersion', 'This backup was made by a newer version of the app. Update the app to restore it.');
+            }
+            applyMigrations(source, getPendingMigrations(version));
+            snapshot = readSnapshot(source);
+        } catch (err) {
+            if (err instanceof BackupError) throw err;
+            console.error("Failed to read the SQLite backup:", err);
+            throw new BackupError('invalidFile', 'The database file in this backup is damaged or is not from FinancelyAI.');
+        } finally {
+            source?.close();
+        }
+    } else if (isEncryptedFile(bytes)) {
+        throw new BackupError('invalidFile', "This is a device's encrypted database, not a backup. Make a backup in Settings on that device instead.");
+    } else {
+        snapshot = parseJsonBackup(new TextDecoder().decode(bytes));
+    }
+
+    const { database, snapshot: loaded } = await buildDatabase(snapshot);
+    database.close();
+    return loaded;
+};
+
+// Without a passphrase the file leaves out PIN hashes and API keys; see `removeSecrets`.
+export const exportBackup = async (kind: BackupFileKind, passphrase?: string): Promise<Uint8Array> => {
+    if (!db) throw new Error('The database is not open');
+    assertPermission('manageBackups');
+    if (passphrase) {
+        const data: Uint8Array = kind === 'sqlite' ? db.export() : new TextEncoder().encode(serializeSnapshot(readSnapshot(db)));
+        return encryptBackup(data, passphrase);
+    }
+    const snapshot = removeSecrets(readSnapshot(db));
+    if (kind === 'json') return new TextEncoder().encode(serializeSnapshot(snapshot));
+    const { database } = await buildDatabase(snapshot);
+    try {
+        return database.export();
+    } finally {
+        database.close();
+    }
+};
+
+// What restoring `snapshot` would change on this device.
+export const previewBackup = async (snapshot: BackupSnapshot): Promise<TableDiff[]> => {
+    if (!db) throw new Error('The database is not open');
+    const current = readSnapshot(db);
+    return diffSnapshots(current, keepLocalSecrets(current, snapshot));
+};
+
+// Swaps in a database built from `snapshot`. The current one is kept in IndexedDB as a safety copy.
+const replaceDatabase = async (snapshot: BackupSnapshot) => {
+    const { database } = await buildDatabase(snapshot);
+    const previous = db;
+    let saved = false;
+    try {
+        await putFileInIndexedDB(previous.export(), DB_PRE_RESTORE_NAME);
+        db = database;
+        saved = await saveDbToIndexedDB();
+    } catch (err) {
+        db = previous;
+        database.close();
+        console.error("Failed to replace the database:", err);
+        throw err;
+    }
+    // When the save was refused, the stored file has already replaced `database`.
+    previous.close();
+    if (!saved) throw new Error(STALE_WRITE_MESSAGE);
+};
+
+// Replaces everything on this device with the backup.
+export const restoreBackup = async (snapshot: BackupSnapshot) => {
+    if (!db) return;
+    assertPermission('manageBackups');
+    await replaceDatabase(keepLocalSecrets(readSnapshot(db), snapshot));
+};
+
+// Combines a backup from another device with this one; see `mergeSnapshots`.
+export const mergeBackup = async (snapshot: BackupSnapshot, resolutions: ConflictResolutions) => {
+    if (!db) return;
+    assertPermission('manageBackups');
+    const current = readSnapshot(db);
+    await replaceDatabase(mergeSnapshots(current, keepLocalSecrets(current, snapshot), resolutions));
+};
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import {
+    createEncryption, unwrapDataKey, rewrapForPassphrase, rewrapForNewRecoveryKey, normalizeRecoveryKey,
+    encryptFile, decryptFile, isEncryptedFile, encryptBackup, decryptBackup, isEncryptedBackup, getPassphraseError, EncryptionHeader,
+} from './dbEncryption';
+
+const PASSPHRASE = 'correct horse battery';
+const sqliteFile = new TextEncoder().encode('SQLite format 3\0 and the rest of the database');
+
+let dataKey: CryptoKey;
+let header: EncryptionHeader;
+let recoveryKey: string;
+beforeAll(async () => {
+    ({ dataKey, header, recoveryKey } = await createEncryption(PASSPHRASE));
+});
+
+describe('encryptFile', () => {
+    it('round-trips the file with the data key', async () => {
+        const encrypted = await encryptFile(dataKey, sqliteFile);
+        expect(isEncryptedFile(encrypted)).toBe(true);
+        expect(isEncryptedFile(sqliteFile)).toBe(false);
+        expect(await decryptFile(dataKey, encrypted)).toEqual(sqliteFile);
+    });
+
+    it('rejects a file encrypted with another data key', async () => {
+        const other = await createEncryption(PASSPHRASE);
+        const encrypted = await encryptFile(other.dataKey, sqliteFile);
+        await expect(decryptFile(dataKey, encrypted)).rejects.toThrow();
+    });
+});
+
+describe('unwrapDataKey', () => {
+    it('opens the file with the passphrase or the recovery key', async () => {
+        const encrypted = await encryptFile(dataKey, sqliteFile);
+        const fromPassphrase = await unwrapDataKey(header.passphrase, PASSPHRASE);
+        const fromRecovery = await unwrapDataKey(header.recovery, recoveryKey);
+        expect(await decryptFile(fromPassphrase!, encrypted)).toEqual(sqliteFile);
+        expect(await decryptFile(fromRecovery!, encrypted)).toEqual(sqliteFile);
+    });
+
+    it('returns null for a wrong passphrase or recovery key', async () => {
+        expect(await unwrapDataKey(header.passphrase, 'wrong passphrase')).toBeNull();
+        expect(await unwrapDataKey(header.recovery, PASSPHRASE)).toBeNull();
+    });
+
+    it('accepts the recovery key however it was typed', async () => {
+        const typed = recoveryKey.replace(/-/g, ' ').toUpperCase();
+        expect(normalizeRecoveryKey(typed)).toBe(recoveryKey);
+        expect(await unwrapDataKey(header.recovery, normalizeRecoveryKey(typed))).not.toBeNull();
+    });
+});
+
+describe('re-keying', () => {
+    it('changes the passphrase without re-encrypting the file', async () => {
+        const encrypted = await encryptFile(dataKey, sqliteFile);
+        const rewrapped = await rewrapForPassphrase(header, dataKey, 'a new passphrase');
+        expect(await unwrapDataKey(rewrapped.passphrase, PASSPHRASE)).toBeNull();
+        const key = await unwrapDataKey(rewrapped.passphrase, 'a new passphrase');
+        expect(await decryptFile(key!, encrypted)).toEqual(sqliteFile);
+        expect(rewrapped.recovery).toBe(header.recovery);
+    });
+
+    it('replaces the recovery key so the old one stops working', async () => {
+        const encrypted = await encryptFile(dataKey, sqliteFile);
+        const replaced = await rewrapForNewRecoveryKey(header, dataKey);
+        expect(replaced.recoveryKey).not.toBe(recoveryKey);
+        expect(await unwrapDataKey(replaced.header.recovery, recoveryKey)).toBeNull();
+        const key = await unwrapDataKey(replaced.header.recovery, replaced.recoveryKey);
+        expect(await decryptFile(key!, encrypted)).toEqual(sqliteFile);
+    });
+});
+
+describe('encryptBackup', () => {
+    it('round-trips a backup with its own passphrase', async () => {
+        const backup = await encryptBackup(sqliteFile, PASSPHRASE);
+        expect(isEncryptedBackup(backup)).toBe(true);
+        expect(isEncryptedFile(backup)).toBe(false);
+        expect(await decryptBackup(backup, PASSPHRASE)).toEqual(sqliteFile);
+    });
+
+    it('returns null for a wrong passphrase or an altered file', async () => {
+        const backup = await encryptBackup(sqliteFile, PASSPHRASE);
+        expect(await decryptBackup(backup, 'wrong passphrase')).toBeNull();
+        const altered = backup.slice();
+        altered[altered.length - 1] ^= 1;
+        expect(await decryptBackup(altered, PASSPHRASE)).toBeNull();
+    });
+});
+
+describe('getPassphraseError', () => {
+    it('requires the minimum length', () => {
+        expect(getPassphraseError('short')).toMatch(/at least 8/);
+        expect(getPassphraseError(PASSPHRASE)).toBeNull();
+    });
+});
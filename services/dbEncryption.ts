@@ -0,0 +1,148 @@
+// Encryption of the persisted SQLite file. The file is encrypted with a random data key
+// (AES-GCM). That key is stored only in wrapped form: once under a key derived from the
+// passphrase and once under a key derived from the recovery key. Changing the passphrase
+// re-wraps the data key without touching the file.
+
+const PBKDF2_ITERATIONS = 310000;
+const IV_BYTES = 12;
+
+// Encrypted files start with this marker. Plain SQLite files start with "SQLite format 3".
+const FILE_MAGIC = new TextEncoder().encode('FNLYENC1');
+// Backup files encrypted with a passphrase of their own, separate from the database's keys.
+const BACKUP_MAGIC = new TextEncoder().encode('FNLYBAK1');
+const SALT_BYTES = 16;
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+export interface WrappedKey {
+    salt: Uint8Array;
+    iv: Uint8Array;
+    key: Uint8Array; // the data key, encrypted
+}
+
+// Stored next to the database file. Holds nothing that can decrypt the file without a secret.
+export interface EncryptionHeader {
+    passphrase: WrappedKey;
+    recovery: WrappedKey;
+}
+
+export const getPassphraseError = (passphrase: string): string | null => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) return `Use at least ${MIN_PASSPHRASE_LENGTH} characters.`;
+    return null;
+};
+
+const startsWith = (data: Uint8Array, magic: Uint8Array): boolean => {
+    return data.length > magic.length && magic.every((byte, i) => data[i] === byte);
+};
+
+export const isEncryptedFile = (data: Uint8Array): boolean => startsWith(data, FILE_MAGIC);
+
+export const isEncryptedBackup = (data: Uint8Array): boolean => startsWith(data, BACKUP_MAGIC);
+
+const deriveKey = async (secret: string, salt: Uint8Array, usages: KeyUsage[]): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        usages
+    );
+};
+
+const deriveWrappingKey = (secret: string, salt: Uint8Array) => deriveKey(secret, salt, ['wrapKey', 'unwrapKey']);
+
+const wrapDataKey = async (dataKey: CryptoKey, secret: string): Promise<WrappedKey> => {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const wrappingKey = await deriveWrappingKey(secret, salt);
+    const key = new Uint8Array(await crypto.subtle.wrapKey('raw', dataKey, wrappingKey, { name: 'AES-GCM', iv }));
+    return { salt, iv, key };
+};
+
+/**
+ * Returns the data key, or null if `secret` is wrong. AES-GCM authenticates the wrapped key,
+ * so a wrong secret fails to unwrap rather than producing a bad key.
+ */
+export const unwrapDataKey = async (wrapped: WrappedKey, secret: string): Promise<CryptoKey | null> => {
+    const wrappingKey = await deriveWrappingKey(secret, wrapped.salt);
+    try {
+        // Extractable so it can be wrapped again when the passphrase or recovery key changes.
+        return await crypto.subtle.unwrapKey('raw', wrapped.key, wrappingKey, { name: 'AES-GCM', iv: wrapped.iv }, 'AES-GCM', true, ['encrypt', 'decrypt', 'wrapKey']);
+    } catch {
+        return null;
+    }
+};
+
+// e.g. "3f9a-0c41-…", 128 random bits in eight groups so it can be written down.
+const generateRecoveryKey = (): string => {
+    const hex = Array.from(crypto.getRandomValues(new Uint8Array(16))).map(b => b.toString(16).padStart(2, '0')).join('');
+    return hex.match(/.{4}/g)!.join('-');
+};
+
+// Accepts the recovery key with or without dashes, spaces or capitals.
+export const normalizeRecoveryKey = (input: string): string => {
+    const hex = input.toLowerCase().replace(/[^0-9a-f]/g, '');
+    return (hex.match(/.{1,4}/g) || []).join('-');
+};
+
+export const createEncryption = async (passphrase: string): Promise<{ dataKey: CryptoKey; header: EncryptionHeader; recoveryKey: string }> => {
+    const dataKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt', 'wrapKey']);
+    const recoveryKey = generateRecoveryKey();
+    const header = {
+        passphrase: await wrapDataKey(dataKey, passphrase),
+        recovery: await wrapDataKey(dataKey, recoveryKey),
+    };
+    return { dataKey, header, recoveryKey };
+};
+
+export const rewrapForPassphrase = async (header: EncryptionHeader, dataKey: CryptoKey, passphrase: string): Promise<EncryptionHeader> => {
+    return { ...header, passphrase: await wrapDataKey(dataKey, passphrase) };
+};
+
+export const rewrapForNewRecoveryKey = async (header: EncryptionHeader, dataKey: CryptoKey): Promise<{ header: EncryptionHeader; recoveryKey: string }> => {
+    const recoveryKey = generateRecoveryKey();
+    return { header: { ...header, recovery: await wrapDataKey(dataKey, recoveryKey) }, recoveryKey };
+};
+
+export const encryptFile = async (dataKey: CryptoKey, data: Uint8Array): Promise<Uint8Array> => {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, dataKey, data));
+    const file = new Uint8Array(FILE_MAGIC.length + IV_BYTES + ciphertext.length);
+    file.set(FILE_MAGIC, 0);
+    file.set(iv, FILE_MAGIC.length);
+    file.set(ciphertext, FILE_MAGIC.length + IV_BYTES);
+    return file;
+};
+
+export const decryptFile = async (dataKey: CryptoKey, file: Uint8Array): Promise<Uint8Array> => {
+    const iv = file.slice(FILE_MAGIC.length, FILE_MAGIC.length + IV_BYTES);
+    const ciphertext = file.slice(FILE_MAGIC.length + IV_BYTES);
+    return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, dataKey, ciphertext));
+};
+
+// Backups carry their own salt, so they can be opened on any device with just the passphrase.
+export const encryptBackup = async (data: Uint8Array, passphrase: string): Promise<Uint8Array> => {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const key = await deriveKey(passphrase, salt, ['encrypt']);
+    const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data));
+    const file = new Uint8Array(BACKUP_MAGIC.length + SALT_BYTES + IV_BYTES + ciphertext.length);
+    file.set(BACKUP_MAGIC, 0);
+    file.set(salt, BACKUP_MAGIC.length);
+    file.set(iv, BACKUP_MAGIC.length + SALT_BYTES);
+    file.set(ciphertext, BACKUP_MAGIC.length + SALT_BYTES + IV_BYTES);
+    return file;
+};
+
+// Returns null if the passphrase is wrong or the file was altered.
+export const decryptBackup = async (file: Uint8Array, passphrase: string): Promise<Uint8Array | null> => {
+    const saltStart = BACKUP_MAGIC.length;
+    const ivStart = saltStart + SALT_BYTES;
+    const key = await deriveKey(passphrase, file.slice(saltStart, ivStart), ['decrypt']);
+    try {
+        return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: file.slice(ivStart, ivStart + IV_BYTES) }, key, file.slice(ivStart + IV_BYTES)));
+    } catch {
+        return null;
+    }
+};
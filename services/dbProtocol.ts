@@ -0,0 +1,55 @@
+// Messages between the UI (db.ts) and the database worker (db.worker.ts).
+import type * as core from './dbCore';
+import { BackupError, BackupErrorReason } from './backupFormat';
+import { Permission, PermissionError } from '../utils/permissions';
+import { MigrationError } from './migrations';
+
+type AnyFunction = (...args: any[]) => any;
+
+// Every function of dbCore.ts except `onDatabaseChange`, whose changes arrive as 'change' messages instead,
+// and `runExclusive`, which the worker runs every request through.
+type CoreModule = Omit<typeof core, 'onDatabaseChange' | 'runExclusive'>;
+
+export type DbMethod = { [K in keyof CoreModule]: CoreModule[K] extends AnyFunction ? K : never }[keyof CoreModule];
+
+export type DbArgs<K extends DbMethod> = Parameters<Extract<CoreModule[K], AnyFunction>>;
+
+export type DbResult<K extends DbMethod> = Awaited<ReturnType<Extract<CoreModule[K], AnyFunction>>>;
+
+export interface DbRequest<K extends DbMethod = DbMethod> {
+    id: number;
+    method: K;
+    args: DbArgs<K>;
+}
+
+// Errors lose their class when posted, so the ones the UI tells apart are rebuilt from these fields.
+export interface SerializedError {
+    name: string;
+    message: string;
+    reason?: BackupErrorReason;
+    permission?: Permission;
+    fromVersion?: number;
+    detail?: string;
+}
+
+export type DbWorkerMessage =
+    | { kind: 'result'; id: number; result: unknown }
+    | { kind: 'error'; id: number; error: SerializedError }
+    | { kind: 'change'; change: core.DatabaseChange };
+
+export const serializeError = (err: unknown): SerializedError => {
+    if (err instanceof BackupError) return { name: err.name, message: err.message, reason: err.reason };
+    if (err instanceof PermissionError) return { name: err.name, message: err.message, permission: err.permission };
+    if (err instanceof MigrationError) return { name: err.name, message: err.message, fromVersion: err.fromVersion, detail: err.detail };
+    if (err instanceof Error) return { name: err.name, message: err.message };
+    return { name: 'Error', message: String(err) };
+};
+
+export const deserializeError = (error: SerializedError): Error => {
+    if (error.name === 'BackupError' && error.reason) return new BackupError(error.reason, error.message);
+    if (error.name === 'PermissionError' && error.permission) return new PermissionError(error.permission);
+    if (error.name === 'MigrationError' && error.fromVersion !== undefined) return new MigrationError(error.fromVersion, error.detail ?? '');
+    const rebuilt = new Error(error.message);
+    rebuilt.name = error.name;
+    return rebuilt;
+};
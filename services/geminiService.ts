@@ -1,8 +1,13 @@
-import { GoogleGenAI, Type, Chat } from "@google/genai";
-import { Household, BucketGoal, Expense, ParsedTransaction, Subscription, SavingsSuggestion, Category } from '../types';
-
-const apiKey = (typeof process !== 'undefined' && (process.env?.API_KEY || process.env?.VITE_API_KEY)) as string | undefined;
-const ai = new GoogleGenAI({ apiKey });
+import { Household, BucketGoal, Expense, ParsedTransaction, SavingsSuggestion, Category } from '../types';
+import { generateText, generateJson, startChatSession, LlmChatSession } from './llmProviders';
+import {
+    validateReceiptAnalysis, validateTransferSuggestion, validateBudgetSuggestions, validateAnomalyVerdict, validateStatementRows,
+    validateCategoryAssignments, validateRecurringPayments, validateSavingsSuggestions, AiResponseError,
+    ReceiptAnalysis, TransferSuggestion, BudgetSuggestion, AnomalyVerdict, RecurringPayment,
+} from './aiValidation';
+import { sortRulesByPriority, describeRuleConditions } from '../utils/ruleEngine';
+import { getCategoryPath, getCategoryTree, getCategoryFamilyIds } from '../utils/categoryUtils';
+import type { CategoryTotal, MonthlyTotal } from './dbCore';
 
 const formatCurrencyForPrompt = (amountInCents: number): number => {
     return amountInCents / 100;
@@ -10,7 +15,7 @@ const formatCurrencyForPrompt = (amountInCents: number): number => {
 
 type UncategorizedTransaction = Omit<ParsedTransaction, 'categoryId' | 'memberId'>;
 type CategorizedTransaction = Omit<ParsedTransaction, 'memberId'>;
-export type SuggestedSubscription = Omit<Subscription, 'id' | 'nextDueDate'> & { lastPaymentDate: string };
+export type SuggestedSubscription = RecurringPayment;
 
 
 /**
@@ -22,7 +27,7 @@ export type SuggestedSubscription = Omit<Subscription, 'id' | 'nextDueDate'> & {
 export const analyzeReceiptWithGemini = async (
   imageDataUrl: string,
   household: Household
-): Promise<{ description: string; amount: number; categoryName: string; }> => {
+): Promise<ReceiptAnalysis> => {
   const match = imageDataUrl.match(/^data:(image\/.+);base64,(.+)$/);
   if (!match) {
     throw new Error('Invalid image data URL');
@@ -38,7 +43,7 @@ export const analyzeReceiptWithGemini = async (
   };
 
   const categoryNames = household.categories.map(c => c.name).join(', ');
-  const rulesText = household.rules.map(r => `If description contains "${r.keyword}", the category is "${household.categories.find(c => c.id === r.categoryId)?.name}".`).join('\n');
+  const rulesText = sortRulesByPriority(household.rules).map(r => `If ${describeRuleConditions(r)}, the category is "${household.categories.find(c => c.id === r.categoryId)?.name}".`).join('\n');
   const recentExpensesText = household.expenses.slice(0, 10).map(e => `- ${e.description} (${household.categories.find(c => c.id === e.categoryId)?.name})`).join('\n');
 
   const textPart = {
@@ -54,55 +59,61 @@ export const analyzeReceiptWithGemini = async (
     Based on the image and the context provided, please extract the following information. The currency is INR.`,
   };
   
-  const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: { parts: [imagePart, textPart] },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            description: {
-              type: Type.STRING,
-              description: "A short, clear description of the purchase (e.g., 'Groceries from Reliance Mart')."
-            },
-            amount: {
-              type: Type.NUMBER,
-              description: "The total amount from the receipt as a number (e.g., 450.75)."
-            },
-            categoryName: {
-              type: Type.STRING,
-              description: `The most relevant category from the provided list. Your suggestion should be one of these exact names: [${categoryNames}].`
-            }
-          },
-          required: ["description", "amount", "categoryName"]
-        }
+  return generateJson('receipt', [imagePart, textPart], {
+    type: 'object',
+    properties: {
+      description: {
+        type: 'string',
+        description: "A short, clear description of the purchase (e.g., 'Groceries from Reliance Mart')."
+      },
+      amount: {
+        type: 'number',
+        description: "The total amount from the receipt as a number (e.g., 450.75)."
+      },
+      categoryName: {
+        type: 'string',
+        description: `The most relevant category from the provided list. Your suggestion should be one of these exact names: [${categoryNames}].`,
+        enum: household.categories.length > 0 ? household.categories.map(c => c.name) : undefined,
       }
-  });
-
-  const jsonString = response.text.trim();
-  return JSON.parse(jsonString);
+    },
+    required: ["description", "amount", "categoryName"]
+  }, validateReceiptAnalysis(household.categories));
 };
 
 /**
  * Generates a monthly spending report based on household data.
  * @param household - The household data.
+ * @param categoryTotals - This month's household spending per category, net of refunds.
+ * @param monthlyTotals - Household spending per month over the last few months, net of refunds.
  * @returns A markdown string containing the report.
  */
-export const generateSpendingReport = async (household: Household): Promise<string> => {
-    const expensesText = household.expenses
-        .filter(e => new Date(e.date).getMonth() === new Date().getMonth()) // Only this month's expenses
+export const generateSpendingReport = async (household: Household, categoryTotals: CategoryTotal[], monthlyTotals: MonthlyTotal[]): Promise<string> => {
+    const monthExpenses = household.expenses.filter(e => new Date(e.date).getMonth() === new Date().getMonth()); // Only this month's expenses
+    const expensesText = monthExpenses
         .map(e => {
-            const category = household.categories.find(c => c.id === e.categoryId)?.name || 'Uncategorized';
+            const category = getCategoryPath(household.categories, e.categoryId);
             const member = household.members.find(m => m.id === e.memberId)?.name || 'Unknown';
             return `- ${e.description}: ${formatCurrencyForPrompt(e.amount)} on ${new Date(e.date).toLocaleDateString()} by ${member} [${category}]`;
         })
         .join('\n');
 
     const budgetsText = household.budgets.map(b => {
-        const category = household.categories.find(c => c.id === b.categoryId)?.name || 'Uncategorized';
+        const category = getCategoryPath(household.categories, b.categoryId);
         return `- ${category}: ${formatCurrencyForPrompt(b.amount)}`;
     }).join('\n');
+
+    // Totals are worked out here so sub-category spend is rolled up into the parent consistently.
+    const totalsText = getCategoryTree(household.categories)
+        .map(({ category }) => {
+            const categoryIds = getCategoryFamilyIds(household.categories, category.id);
+            const spent = categoryTotals.filter(t => categoryIds.includes(t.categoryId)).reduce((sum, t) => sum + t.amount, 0);
+            return { category, spent };
+        })
+        .filter(({ spent }) => spent > 0)
+        .map(({ category, spent }) => `- ${getCategoryPath(household.categories, category.id)}: ${formatCurrencyForPrompt(spent)}`)
+        .join('\n');
+
+    const monthlyText = monthlyTotals.map(t => `- ${t.month}: ${formatCurrencyForPrompt(t.amount)} across ${t.count} expense(s)`).join('\n');
     
     const prompt = `You are a friendly and insightful financial analyst for a family.
     Analyze the following financial data for the current month and generate a report in markdown format.
@@ -114,19 +125,22 @@ export const generateSpendingReport = async (household: Household): Promise<stri
     Monthly Budgets:
     ${budgetsText || "No budgets set for this month."}
 
+    Spent per Category (a parent category's total includes its sub-categories, shown as "Parent › Sub-category"):
+    ${totalsText || "Nothing spent yet this month."}
+
+    Total Spent per Month (YYYY-MM), for comparison with earlier months:
+    ${monthlyText || "No earlier spending recorded."}
+
     Please provide a report that includes the following sections:
-    1.  A spending summary table. Create a markdown table with the columns: | Category | Budget | Spent | Difference |. For the 'Difference' column, show a positive value if they saved money and a negative value if they overspent.
+    1.  A spending summary table. Create a markdown table with the columns: | Category | Budget | Spent | Difference |, using the totals above for 'Spent'. For the 'Difference' column, show a positive value if they saved money and a negative value if they overspent.
     2.  A section titled "### Key Insights" highlighting 2-3 important observations (e.g., categories with highest spending, where they are saving well, or areas of overspending).
     3.  A section titled "### Actionable Suggestions" providing 2-3 practical tips for them to improve their finances next month based on their spending.
     
     Be encouraging and helpful in your tone.`;
     
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt
-    });
+    const response = await generateText('report', [{ text: prompt }]);
 
-    return response.text;
+    return response;
 };
 
 /**
@@ -135,7 +149,7 @@ export const generateSpendingReport = async (household: Household): Promise<stri
  * @param goal - The specific goal to get a suggestion for.
  * @returns An object with the suggested amount and reasoning.
  */
-export const generateTransferSuggestion = async (household: Household, goal: BucketGoal): Promise<{ amount: number; reasoning:string; }> => {
+export const generateTransferSuggestion = async (household: Household, goal: BucketGoal): Promise<TransferSuggestion> => {
     const recentExpenses = household.expenses.filter(e => new Date(e.date) > new Date(Date.now() - 30 * 86400000));
     const totalSpentLast30Days = recentExpenses.reduce((sum, e) => sum + e.amount, 0);
     const totalBudget = household.budgets.reduce((sum, b) => sum + b.amount, 0);
@@ -148,34 +162,27 @@ export const generateTransferSuggestion = async (household: Household, goal: Buc
     
     Based on this, suggest a "safe-to-transfer" amount they could move to their savings goal right now. This should be a sensible, non-round number that feels achievable. Also provide a short, one-sentence reasoning for your suggestion. The currency is INR.`;
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.OBJECT,
-                properties: {
-                    amount: {
-                        type: Type.NUMBER,
-                        description: "The suggested transfer amount as a number (e.g., 1850.50)."
-                    },
-                    reasoning: {
-                        type: Type.STRING,
-                        description: "A short, one-sentence explanation for the suggested amount."
-                    }
-                },
-                required: ["amount", "reasoning"]
+    return generateJson('transfer', [{ text: prompt }], {
+        type: 'object',
+        properties: {
+            amount: {
+                type: 'number',
+                description: "The suggested transfer amount as a number (e.g., 1850.50)."
+            },
+            reasoning: {
+                type: 'string',
+                description: "A short, one-sentence explanation for the suggested amount."
             }
-        }
-    });
-
-    const jsonString = response.text.trim();
-    return JSON.parse(jsonString);
+        },
+        required: ["amount", "reasoning"]
+    }, validateTransferSuggestion);
 };
 
-export const generateBudgetSuggestions = async (household: Household): Promise<Array<{ categoryId: string; amount: number; reasoning: string }>> => {
-    const expenseHistory = household.expenses
+/**
+ * @param recentExpenses - The household's latest expenses, newest first. Only the first 100 are sent.
+ */
+export const generateBudgetSuggestions = async (household: Household, recentExpenses: Expense[]): Promise<BudgetSuggestion[]> => {
+    const expenseHistory = recentExpenses
         .slice(0, 100) // last 100 expenses
         .map(e => {
             const category = household.categories.find(c => c.id === e.categoryId)?.name || 'Uncategorized';
@@ -199,34 +206,24 @@ export const generateBudgetSuggestions = async (household: Household): Promise<A
     Return the result as a JSON array.
     `;
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.ARRAY,
-                items: {
-                    type: Type.OBJECT,
-                    properties: {
-                        categoryId: { type: Type.STRING },
-                        amount: { type: Type.NUMBER },
-                        reasoning: { type: Type.STRING }
-                    },
-                    required: ["categoryId", "amount", "reasoning"]
-                }
-            }
+    return generateJson('budgets', [{ text: prompt }], {
+        type: 'array',
+        items: {
+            type: 'object',
+            properties: {
+                categoryId: { type: 'string' },
+                amount: { type: 'number' },
+                reasoning: { type: 'string' }
+            },
+            required: ["categoryId", "amount", "reasoning"]
         }
-    });
-
-    const jsonString = response.text.trim();
-    return JSON.parse(jsonString);
+    }, validateBudgetSuggestions(categories));
 };
 
 export const generateIncomeBasedBudget = async (
     monthlyIncome: number,
     categories: Category[]
-): Promise<Array<{ categoryId: string; amount: number; reasoning: string }>> => {
+): Promise<BudgetSuggestion[]> => {
     const categoryInfo = categories.map(c => ({ id: c.id, name: c.name }));
     const incomeInRupees = formatCurrencyForPrompt(monthlyIncome);
 
@@ -245,36 +242,33 @@ export const generateIncomeBasedBudget = async (
     For each category, provide a suggested budget amount (in INR) and a short, one-sentence reasoning for the allocation.
     Return the result as a JSON array.`;
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.ARRAY,
-                items: {
-                    type: Type.OBJECT,
-                    properties: {
-                        categoryId: { type: Type.STRING },
-                        amount: { type: Type.NUMBER, description: "The suggested budget amount in INR." },
-                        reasoning: { type: Type.STRING }
-                    },
-                    required: ["categoryId", "amount", "reasoning"]
-                }
-            }
+    return generateJson('budgets', [{ text: prompt }], {
+        type: 'array',
+        items: {
+            type: 'object',
+            properties: {
+                categoryId: { type: 'string' },
+                amount: { type: 'number', description: "The suggested budget amount in INR." },
+                reasoning: { type: 'string' }
+            },
+            required: ["categoryId", "amount", "reasoning"]
         }
-    });
-
-    const jsonString = response.text.trim();
-    return JSON.parse(jsonString);
+    }, validateBudgetSuggestions(categories));
 };
 
 
+/**
+ * Second opinion on an expense the local anomaly check (utils/anomalyDetection.ts) has flagged.
+ * @param localReasoning - Why the local check flagged it.
+ * @param priorExpenses - The expenses the local check compared it with, newest first.
+ */
 export const detectAnomalousExpense = async (
   household: Household,
-  newExpense: Expense
-): Promise<{ isAnomalous: boolean; reasoning: string; }> => {
-    const categoryExpenses = household.expenses.filter(e => e.categoryId === newExpense.categoryId);
+  newExpense: Expense,
+  localReasoning: string,
+  priorExpenses: Expense[]
+): Promise<AnomalyVerdict> => {
+    const categoryExpenses = priorExpenses.filter(e => e.categoryId === newExpense.categoryId);
     const averageAmount = categoryExpenses.length > 0
         ? categoryExpenses.reduce((sum, e) => sum + e.amount, 0) / categoryExpenses.length
         : 0;
@@ -292,29 +286,21 @@ export const detectAnomalousExpense = async (
     - Description: "${newExpense.description}"
     - Amount: ${formatCurrencyForPrompt(newExpense.amount)}
 
-    Is this new transaction anomalous (unusually high or out of place)?
+    An automatic statistical check flagged it for this reason: ${localReasoning}
+
+    Is this new transaction anomalous (unusually high or out of place)? The statistical check can raise false alarms, for example for an annual bill or a planned large purchase.
     Consider the amount compared to the average and the description. For example, a "car purchase" in the "Groceries" category would be anomalous.
     Provide your answer as a JSON object.
     `;
     
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.OBJECT,
-                properties: {
-                    isAnomalous: { type: Type.BOOLEAN },
-                    reasoning: { type: Type.STRING, description: "A short, one-sentence explanation IF it is anomalous. E.g., 'This expense is much higher than your average spending in this category.'" }
-                },
-                required: ["isAnomalous", "reasoning"]
-            }
-        }
-    });
-
-    const jsonString = response.text.trim();
-    return JSON.parse(jsonString);
+    return generateJson('anomaly', [{ text: prompt }], {
+        type: 'object',
+        properties: {
+            isAnomalous: { type: 'boolean' },
+            reasoning: { type: 'string', description: "A short, one-sentence explanation IF it is anomalous. E.g., 'This expense is much higher than your average spending in this category.'" }
+        },
+        required: ["isAnomalous", "reasoning"]
+    }, validateAnomalyVerdict);
 };
 
 export const parseBankStatement = async (
@@ -331,14 +317,12 @@ export const parseBankStatement = async (
                 data: base64Data,
             },
         };
-    } else if (mimeType === 'text/csv' || mimeType === 'text/plain') {
-        contentPart = { text: fileData };
     } else {
         throw new Error(`Unsupported mime type: ${mimeType}`);
     }
 
     const prompt = `
-        You are an expert financial data extraction tool. Analyze the provided bank or credit card statement content (which could be an image, PDF, or CSV text) and extract all transactions.
+        You are an expert financial data extraction tool. Analyze the provided bank or credit card statement content (which could be an image or PDF) and extract all transactions.
         The primary goal is to identify the date, description, and amount for each transaction.
         Also, determine if each transaction is a 'credit' (money in) or a 'debit' (money out/expense).
         - Dates can be in any format, but you must convert them to "YYYY-MM-DD". Assume the current year if the year is not specified.
@@ -349,44 +333,31 @@ export const parseBankStatement = async (
         Return the data as a JSON array.
     `;
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: { parts: [contentPart, { text: prompt }] },
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.ARRAY,
-                items: {
-                    type: Type.OBJECT,
-                    properties: {
-                        date: {
-                            type: Type.STRING,
-                            description: "The transaction date in YYYY-MM-DD format."
-                        },
-                        description: {
-                            type: Type.STRING,
-                            description: "The transaction description."
-                        },
-                        amount: {
-                            type: Type.NUMBER,
-                            description: "The transaction amount as a positive number."
-                        },
-                        type: {
-                            type: Type.STRING,
-                            description: "The transaction type, either 'credit' or 'debit'."
-                        }
-                    },
-                    required: ["date", "description", "amount", "type"]
+    return generateJson('statement', [contentPart, { text: prompt }], {
+        type: 'array',
+        items: {
+            type: 'object',
+            properties: {
+                date: {
+                    type: 'string',
+                    description: "The transaction date in YYYY-MM-DD format."
+                },
+                description: {
+                    type: 'string',
+                    description: "The transaction description."
+                },
+                amount: {
+                    type: 'number',
+                    description: "The transaction amount as a positive number."
+                },
+                type: {
+                    type: 'string',
+                    description: "The transaction type, either 'credit' or 'debit'."
                 }
-            }
+            },
+            required: ["date", "description", "amount", "type"]
         }
-    });
-
-    const jsonString = response.text.trim();
-    if (!jsonString) {
-        return [];
-    }
-    return JSON.parse(jsonString);
+    }, validateStatementRows);
 };
 
 
@@ -399,7 +370,7 @@ export const categorizeTransactions = async (
     }
 
     const categoryInfo = household.categories.map(c => ({ id: c.id, name: c.name, icon: c.icon }));
-    const rulesText = household.rules.map(r => `If description contains "${r.keyword}", the category is "${household.categories.find(c => c.id === r.categoryId)?.name}".`).join('\n');
+    const rulesText = sortRulesByPriority(household.rules).map(r => `If ${describeRuleConditions(r)}, the category is "${household.categories.find(c => c.id === r.categoryId)?.name}".`).join('\n');
     const descriptions = transactions.map(t => t.description);
 
     const prompt = `You are an intelligent financial assistant. Your task is to categorize a list of bank transactions based on the user's defined categories and auto-categorization rules.
@@ -416,26 +387,22 @@ export const categorizeTransactions = async (
     Please return a JSON array of strings, where each string is the category ID (e.g., "cat-1") corresponding to each transaction description in the provided order. If no category fits well, use the ID for the "Other" category if it exists, otherwise pick the most reasonable one. The length of your returned array must exactly match the number of descriptions provided.
     `;
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.ARRAY,
-                items: {
-                    type: Type.STRING,
-                    description: "The category ID for the transaction."
-                }
-            }
-        }
-    });
-
-    const jsonString = response.text.trim();
-    const categoryIds: string[] = JSON.parse(jsonString);
-
-    if (categoryIds.length !== transactions.length) {
-        console.error("AI Error: Mismatch in categorized transactions length. Assigning 'Other' as fallback.");
+    let categoryIds: string[];
+    try {
+        categoryIds = await generateJson('categorize', [{ text: prompt }], {
+            type: 'array',
+            items: {
+                type: 'string',
+                description: "The category ID for the transaction.",
+                enum: household.categories.length > 0 ? household.categories.map(c => c.id) : undefined,
+            },
+            minItems: transactions.length,
+            maxItems: transactions.length,
+        }, validateCategoryAssignments(household.categories, transactions.length));
+    } catch (error) {
+        if (!(error instanceof AiResponseError)) throw error;
+        // The transactions are still worth reviewing; the user can recategorize them by hand.
+        console.error("AI Error: Invalid category assignments. Assigning 'Other' as fallback.", error.issues);
         const otherCategoryId = household.categories.find(c => c.name.toLowerCase() === 'other')?.id || household.categories[0]?.id;
         return transactions.map(t => ({ ...t, categoryId: otherCategoryId }));
     }
@@ -446,8 +413,12 @@ export const categorizeTransactions = async (
     }));
 };
 
-export const detectRecurringPayments = async (household: Household): Promise<SuggestedSubscription[]> => {
-    const expenseHistory = household.expenses.slice(0, 200).map(e => ({
+/**
+ * @param recentExpenses - The household's latest expenses, newest first. Only the first 200 are sent,
+ * however old, so yearly payments can show up.
+ */
+export const detectRecurringPayments = async (household: Household, recentExpenses: Expense[]): Promise<SuggestedSubscription[]> => {
+    const expenseHistory = recentExpenses.slice(0, 200).map(e => ({
         date: e.date.split('T')[0],
         description: e.description,
         amount: formatCurrencyForPrompt(e.amount),
@@ -470,33 +441,20 @@ export const detectRecurringPayments = async (household: Household): Promise<Sug
     Based on this data, identify potential recurring payments. For each one you find, provide the most recent payment date. Return your findings as a JSON array.
     `;
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.ARRAY,
-                items: {
-                    type: Type.OBJECT,
-                    properties: {
-                        description: { type: Type.STRING, description: "A clean description for the recurring payment (e.g., 'Netflix Subscription')." },
-                        amount: { type: Type.NUMBER, description: "The recurring amount in INR (e.g., 649.00)." },
-                        frequency: { type: Type.STRING, description: "The estimated frequency: 'weekly', 'monthly', or 'yearly'." },
-                        categoryId: { type: Type.STRING, description: "The most likely category ID from the provided list." },
-                        lastPaymentDate: { type: Type.STRING, description: "The date of the most recent transaction for this recurring payment in YYYY-MM-DD format." }
-                    },
-                    required: ["description", "amount", "frequency", "categoryId", "lastPaymentDate"]
-                }
-            }
+    return generateJson('recurring', [{ text: prompt }], {
+        type: 'array',
+        items: {
+            type: 'object',
+            properties: {
+                description: { type: 'string', description: "A clean description for the recurring payment (e.g., 'Netflix Subscription')." },
+                amount: { type: 'number', description: "The recurring amount in INR (e.g., 649.00)." },
+                frequency: { type: 'string', description: "The estimated frequency: 'weekly', 'monthly', or 'yearly'." },
+                categoryId: { type: 'string', description: "The most likely category ID from the provided list." },
+                lastPaymentDate: { type: 'string', description: "The date of the most recent transaction for this recurring payment in YYYY-MM-DD format." }
+            },
+            required: ["description", "amount", "frequency", "categoryId", "lastPaymentDate"]
         }
-    });
-
-    const jsonString = response.text.trim();
-    if (!jsonString) {
-      return [];
-    }
-    return JSON.parse(jsonString);
+    }, validateRecurringPayments(household.categories));
 };
 
 
@@ -533,35 +491,22 @@ export const generateSavingsSuggestions = async (household: Household): Promise<
     Return your response as a JSON array.
     `;
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.ARRAY,
-                items: {
-                    type: Type.OBJECT,
-                    properties: {
-                        categoryName: { type: Type.STRING },
-                        reasoning: { type: Type.STRING },
-                        suggestion: { type: Type.STRING },
-                        potentialSavings: { type: Type.NUMBER }
-                    },
-                    required: ["categoryName", "reasoning", "suggestion", "potentialSavings"]
-                }
-            }
+    return generateJson('savings', [{ text: prompt }], {
+        type: 'array',
+        items: {
+            type: 'object',
+            properties: {
+                categoryName: { type: 'string' },
+                reasoning: { type: 'string' },
+                suggestion: { type: 'string' },
+                potentialSavings: { type: 'number' }
+            },
+            required: ["categoryName", "reasoning", "suggestion", "potentialSavings"]
         }
-    });
-    
-    const jsonString = response.text.trim();
-    if (!jsonString) {
-      return [];
-    }
-    return JSON.parse(jsonString);
+    }, validateSavingsSuggestions(household.categories));
 };
 
-export const startAiChat = (household: Household): Chat => {
+export const startAiChat = (household: Household): LlmChatSession => {
     // Sanitize and summarize the household data to create a concise context.
     const context = {
         members: household.members.map(m => ({ id: m.id, name: m.name })),
@@ -614,12 +559,5 @@ export const startAiChat = (household: Household): Chat => {
     - If asked for an opinion or advice, reframe the answer to be a data-driven observation. For example, if asked "Am I spending too much on food?", you can answer "Your spending on 'Dining Out' this month is ?X, which is Y% of your total expenses. Your budget for this category is ?Z."
     - Be conversational and friendly.`;
 
-    const chat: Chat = ai.chats.create({
-        model: 'gemini-2.5-flash',
-        config: {
-            systemInstruction: systemInstruction,
-        },
-    });
-
-    return chat;
+    return startChatSession(systemInstruction);
 };
\ No newline at end of file
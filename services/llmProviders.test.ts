@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { configureLlm } from './llmProviders';
+import {
+    analyzeReceiptWithGemini, generateTransferSuggestion, generateBudgetSuggestions, detectAnomalousExpense,
+    parseBankStatement, categorizeTransactions, detectRecurringPayments, generateSavingsSuggestions,
+} from './geminiService';
+import {
+    validateReceiptAnalysis, validateTransferSuggestion, validateBudgetSuggestions, validateAnomalyVerdict,
+    validateStatementRows, validateCategoryAssignments, validateRecurringPayments, validateSavingsSuggestions,
+} from './aiValidation';
+import { DEFAULT_AI_SETTINGS, INITIAL_HOUSEHOLD_DATA } from '../constants';
+
+const household = INITIAL_HOUSEHOLD_DATA;
+const { categories } = household;
+
+// The mock's answers must pass validation on the first attempt; a repair request is logged with console.warn.
+describe('mock provider', () => {
+    beforeEach(() => {
+        configureLlm({ ...DEFAULT_AI_SETTINGS, provider: 'mock' });
+        vi.spyOn(console, 'warn');
+    });
+
+    afterEach(() => {
+        expect(console.warn).not.toHaveBeenCalled();
+        vi.restoreAllMocks();
+    });
+
+    it('answers receipt analysis with a valid category name', async () => {
+        const analysis = await analyzeReceiptWithGemini('data:image/png;base64,AAAA', household);
+        expect(validateReceiptAnalysis(categories)(analysis).issues).toEqual([]);
+        expect(analysis.amount).toBeGreaterThan(0);
+        expect(categories.map(c => c.name)).toContain(analysis.categoryName);
+    });
+
+    it('answers transfer suggestions with a positive amount and reasoning', async () => {
+        const suggestion = await generateTransferSuggestion(household, household.bucketGoals[0]);
+        expect(validateTransferSuggestion(suggestion).issues).toEqual([]);
+        expect(suggestion.amount).toBeGreaterThan(0);
+    });
+
+    it('assigns one household category ID per transaction', async () => {
+        const transactions = [
+            { date: '2024-08-01', description: 'SWIGGY ORDER', amount: 450, type: 'debit' as const },
+            { date: '2024-08-02', description: 'ELECTRICITY BILL', amount: 1200, type: 'debit' as const },
+            { date: '2024-08-03', description: 'UBER TRIP', amount: 300, type: 'debit' as const },
+        ];
+        const categorized = await categorizeTransactions(transactions, household);
+        const categoryIds = categorized.map(t => t.categoryId);
+        expect(validateCategoryAssignments(categories, transactions.length)(categoryIds).issues).toEqual([]);
+    });
+
+    it('answers the remaining features with valid empty results', async () => {
+        expect(validateBudgetSuggestions(categories)(await generateBudgetSuggestions(household, household.expenses)).issues).toEqual([]);
+        expect(validateStatementRows(await parseBankStatement('data:application/pdf;base64,AAAA', 'application/pdf')).issues).toEqual([]);
+        expect(validateRecurringPayments(categories)(await detectRecurringPayments(household, household.expenses)).issues).toEqual([]);
+        expect(validateSavingsSuggestions(categories)(await generateSavingsSuggestions(household)).issues).toEqual([]);
+        const verdict = await detectAnomalousExpense(household, household.expenses[0], 'much higher than usual', household.expenses.slice(1));
+        expect(validateAnomalyVerdict(verdict).issues).toEqual([]);
+    });
+});
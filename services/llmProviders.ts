@@ -0,0 +1,275 @@
+// Provider-neutral access to large language models. geminiService.ts builds the
+// prompts; this module decides which backend and model answer them.
+
+import { GoogleGenAI, Type, Schema } from "@google/genai";
+import { AiFeature, AiSettings, LlmProviderId } from '../types';
+import { DEFAULT_AI_SETTINGS } from '../constants';
+import { AiResponseError, ResponseValidator, ValidationResult } from './aiValidation';
+
+// A subset of JSON Schema that every provider can express.
+export interface JsonSchema {
+    type: 'object' | 'array' | 'string' | 'number' | 'boolean';
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    items?: JsonSchema;
+    enum?: string[]; // the only values a string may take
+    minItems?: number;
+    maxItems?: number;
+}
+
+export type LlmPart = { text: string } | { inlineData: { mimeType: string; data: string } };
+
+export interface LlmRequest {
+    model: string;
+    parts: LlmPart[];
+    schema?: JsonSchema; // when set, the response text is JSON matching the schema
+}
+
+export interface LlmChatSession {
+    sendMessageStream: (message: string) => AsyncGenerator<string>;
+}
+
+export interface LlmProvider {
+    id: LlmProviderId;
+    generate: (request: LlmRequest) => Promise<string>;
+    startChat: (model: string, systemInstruction: string) => LlmChatSession;
+}
+
+// --- Gemini ---
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+    type: schema.type.toUpperCase() as Type,
+    description: schema.description,
+    properties: schema.properties
+        ? Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+        : undefined,
+    required: schema.required,
+    items: schema.items ? toGeminiSchema(schema.items) : undefined,
+    enum: schema.enum,
+    format: schema.enum ? 'enum' : undefined,
+    minItems: schema.minItems?.toString(),
+    maxItems: schema.maxItems?.toString(),
+});
+
+const createGeminiProvider = (settings: AiSettings): LlmProvider => {
+    const envKey = (typeof process !== 'undefined' && (process.env?.API_KEY || process.env?.VITE_API_KEY)) as string | undefined;
+    const ai = new GoogleGenAI({ apiKey: settings.geminiApiKey || envKey });
+
+    return {
+        id: 'gemini',
+        generate: async ({ model, parts, schema }) => {
+            const isPlainPrompt = parts.length === 1 && 'text' in parts[0];
+            const response = await ai.models.generateContent({
+                model,
+                contents: isPlainPrompt ? (parts[0] as { text: string }).text : { parts },
+                config: schema ? { responseMimeType: "application/json", responseSchema: toGeminiSchema(schema) } : undefined,
+            });
+            return response.text ?? '';
+        },
+        startChat: (model, systemInstruction) => {
+            const chat = ai.chats.create({ model, config: { systemInstruction } });
+            return {
+                sendMessageStream: async function* (message) {
+                    const stream = await chat.sendMessageStream({ message });
+                    for await (const chunk of stream) {
+                        yield chunk.text ?? '';
+                    }
+                },
+            };
+        },
+    };
+};
+
+// --- OpenAI-compatible HTTP (llama.cpp, Ollama, vLLM, LM Studio, ...) ---
+
+interface OpenAiMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string | Array<{ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } }>;
+}
+
+const toOpenAiContent = (parts: LlmPart[]): OpenAiMessage['content'] => {
+    return parts.map(part => {
+        if ('text' in part) return { type: 'text' as const, text: part.text };
+        if (!part.inlineData.mimeType.startsWith('image/')) {
+            throw new Error(`The OpenAI-compatible provider cannot read ${part.inlineData.mimeType} files. Use an image or switch to Gemini.`);
+        }
+        return { type: 'image_url' as const, image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } };
+    });
+};
+
+// Yields the text deltas of a server-sent-events chat completion stream.
+async function* readCompletionStream(response: Response): AsyncGenerator<string> {
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+            const trimmed = line.trim();
+            if (!trimmed.startsWith('data:')) continue;
+            const data = trimmed.slice('data:'.length).trim();
+            if (!data || data === '[DONE]') continue;
+            const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+            if (delta) yield delta;
+        }
+    }
+}
+
+const createOpenAiCompatibleProvider = (settings: AiSettings): LlmProvider => {
+    const baseUrl = settings.openAiBaseUrl.replace(/\/+$/, '');
+
+    const postCompletion = async (body: object): Promise<Response> => {
+        const response = await fetch(`${baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(settings.openAiApiKey ? { Authorization: `Bearer ${settings.openAiApiKey}` } : {}),
+            },
+            body: JSON.stringify(body),
+        });
+        if (!response.ok) {
+            throw new Error(`LLM server responded with ${response.status}: ${await response.text()}`);
+        }
+        return response;
+    };
+
+    return {
+        id: 'openai-compatible',
+        generate: async ({ model, parts, schema }) => {
+            const response = await postCompletion({
+                model,
+                messages: [{ role: 'user', content: toOpenAiContent(parts) }],
+                ...(schema ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema } } } : {}),
+            });
+            const json = await response.json();
+            return json.choices?.[0]?.message?.content ?? '';
+        },
+        startChat: (model, systemInstruction) => {
+            const history: OpenAiMessage[] = [{ role: 'system', content: systemInstruction }];
+            return {
+                sendMessageStream: async function* (message) {
+                    history.push({ role: 'user', content: message });
+                    const response = await postCompletion({ model, messages: history, stream: true });
+                    let reply = '';
+                    for await (const delta of readCompletionStream(response)) {
+                        reply += delta;
+                        yield delta;
+                    }
+                    history.push({ role: 'assistant', content: reply });
+                },
+            };
+        },
+    };
+};
+
+// --- Offline mock ---
+
+const MOCK_AMOUNT = 100;
+
+// Builds the same minimal valid value for a schema every time: the fewest array items the schema allows,
+// the first allowed string, a fixed positive amount and false flags.
+const mockValueForSchema = (schema: JsonSchema): unknown => {
+    switch (schema.type) {
+        case 'object':
+            return Object.fromEntries(Object.entries(schema.properties || {}).map(([key, value]) => [key, mockValueForSchema(value)]));
+        case 'array': return Array.from({ length: schema.minItems ?? 0 }, () => mockValueForSchema(schema.items!));
+        case 'string': return schema.enum?.[0] ?? 'Mock response';
+        case 'number': return MOCK_AMOUNT;
+        case 'boolean': return false;
+    }
+};
+
+const MOCK_TEXT = "This response comes from the offline mock AI provider. Choose Gemini or an OpenAI-compatible server in Settings for real answers.";
+
+const createMockProvider = (): LlmProvider => ({
+    id: 'mock',
+    generate: async ({ schema }) => schema ? JSON.stringify(mockValueForSchema(schema)) : MOCK_TEXT,
+    startChat: () => ({
+        sendMessageStream: async function* () {
+            for (const word of MOCK_TEXT.split(' ')) {
+                yield `${word} `;
+            }
+        },
+    }),
+});
+
+// --- Active configuration ---
+
+let activeSettings: AiSettings = DEFAULT_AI_SETTINGS;
+let activeProvider: LlmProvider | null = null;
+
+const createProvider = (settings: AiSettings): LlmProvider => {
+    switch (settings.provider) {
+        case 'openai-compatible': return createOpenAiCompatibleProvider(settings);
+        case 'mock': return createMockProvider();
+        default: return createGeminiProvider(settings);
+    }
+};
+
+// Called whenever the household's AI settings are loaded or saved.
+export const configureLlm = (settings: AiSettings) => {
+    if (JSON.stringify(settings) === JSON.stringify(activeSettings) && activeProvider) return;
+    activeSettings = settings;
+    activeProvider = null;
+};
+
+const getProvider = (): LlmProvider => {
+    if (!activeProvider) activeProvider = createProvider(activeSettings);
+    return activeProvider;
+};
+
+export const getModelForFeature = (feature: AiFeature): string => {
+    return activeSettings.models[feature]?.trim() || activeSettings.defaultModel;
+};
+
+export const generateText = (feature: AiFeature, parts: LlmPart[]): Promise<string> => {
+    return getProvider().generate({ model: getModelForFeature(feature), parts });
+};
+
+const parseAndValidate = <T>(text: string, schema: JsonSchema, validate: ResponseValidator<T>): ValidationResult<T> => {
+    // Some models answer an empty list with no text at all.
+    if (text === '' && schema.type === 'array') return validate([]);
+    try {
+        return validate(JSON.parse(text));
+    } catch {
+        return { value: null as T, issues: ['response is not valid JSON'] };
+    }
+};
+
+/**
+ * Asks for JSON matching `schema` and checks it with `validate`. If the answer is rejected,
+ * the model gets one repair attempt with the list of problems; after that an AiResponseError is thrown.
+ */
+export const generateJson = async <T>(feature: AiFeature, parts: LlmPart[], schema: JsonSchema, validate: ResponseValidator<T>): Promise<T> => {
+    const provider = getProvider();
+    const model = getModelForFeature(feature);
+
+    const text = (await provider.generate({ model, parts, schema })).trim();
+    const firstAttempt = parseAndValidate(text, schema, validate);
+    if (firstAttempt.issues.length === 0) return firstAttempt.value;
+
+    console.warn(`AI response for ${feature} failed validation, asking for a repair:`, firstAttempt.issues);
+    const repairPart: LlmPart = {
+        text: `Your previous response was rejected because:
+${firstAttempt.issues.map(issue => `- ${issue}`).join('\n')}
+
+Previous response:
+${text}
+
+Answer the original request again, fixing these problems. Return only the corrected JSON.`,
+    };
+    const repairedText = (await provider.generate({ model, parts: [...parts, repairPart], schema })).trim();
+    const secondAttempt = parseAndValidate(repairedText, schema, validate);
+    if (secondAttempt.issues.length === 0) return secondAttempt.value;
+
+    throw new AiResponseError(feature, secondAttempt.issues);
+};
+
+export const startChatSession = (systemInstruction: string): LlmChatSession => {
+    return getProvider().startChat(getModelForFeature('chat'), systemInstruction);
+};
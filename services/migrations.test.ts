@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import initSqlJs from 'sql.js';
+import { applyMigrations, getPendingMigrations, getSchemaVersion, BASE_SCHEMA_VERSION, LATEST_SCHEMA_VERSION, MIGRATIONS, Migration } from './migrations';
+
+let SQL: Awaited<ReturnType<typeof initSqlJs>>;
+beforeAll(async () => { SQL = await initSqlJs(); });
+
+const tableNames = (db: any): string[] => {
+    const [result] = db.exec("SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name");
+    return result ? result.values.map((row: unknown[]) => row[0]) : [];
+};
+
+const migration = (version: number, sql: string): Migration => ({ version, description: `Migration ${version}`, up: db => db.exec(sql) });
+
+describe('MIGRATIONS', () => {
+    it('numbers versions consecutively after the base schema', () => {
+        expect(MIGRATIONS.map(m => m.version)).toEqual(MIGRATIONS.map((_, index) => BASE_SCHEMA_VERSION + index + 1));
+        expect(LATEST_SCHEMA_VERSION).toBe(BASE_SCHEMA_VERSION + MIGRATIONS.length);
+    });
+
+    it('leaves only the migrations after the current version pending, in order', () => {
+        expect(getPendingMigrations(LATEST_SCHEMA_VERSION)).toEqual([]);
+        expect(getPendingMigrations(BASE_SCHEMA_VERSION)).toEqual(MIGRATIONS);
+    });
+});
+
+describe('applyMigrations', () => {
+    it('treats a database without schema_version as the base schema', () => {
+        const db = new SQL.Database();
+        expect(getSchemaVersion(db)).toBe(BASE_SCHEMA_VERSION);
+        db.close();
+    });
+
+    it('records the version of each migration it applies', () => {
+        const db = new SQL.Database();
+        applyMigrations(db, [migration(2, 'CREATE TABLE a (id TEXT)'), migration(3, 'CREATE TABLE b (id TEXT)')]);
+        expect(getSchemaVersion(db)).toBe(3);
+        expect(tableNames(db)).toEqual(['a', 'b', 'schema_version']);
+        db.close();
+    });
+
+    it('rolls back the whole batch when a step fails', () => {
+        const db = new SQL.Database();
+        const failing = [migration(2, 'CREATE TABLE a (id TEXT)'), migration(3, 'ALTER TABLE missing ADD COLUMN x TEXT')];
+        expect(() => applyMigrations(db, failing)).toThrow(/no such table/);
+        expect(tableNames(db)).toEqual([]);
+        expect(getSchemaVersion(db)).toBe(BASE_SCHEMA_VERSION);
+        db.close();
+    });
+});
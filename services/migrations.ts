@@ -0,0 +1,229 @@
+// Versioned, forward-only schema migrations for the sql.js database.
+
+export interface Migration {
+    version: number;
+    description: string;
+    up: (db: any) => void;
+}
+
+// The schema built by createSchema() in db.ts. Databases saved before the
+// schema_version table existed are treated as this version.
+export const BASE_SCHEMA_VERSION = 1;
+
+// Append new migrations to the end with the next version number.
+// Never edit or reorder a migration once it has shipped.
+export const MIGRATIONS: Migration[] = [
+    {
+        version: 2,
+        description: 'Add settlements table for the settle-up ledger',
+        up: (db) => {
+            db.exec("CREATE TABLE settlements (id TEXT PRIMARY KEY, fromMemberId TEXT, toMemberId TEXT, amount INTEGER, date TEXT, tripId TEXT, FOREIGN KEY(fromMemberId) REFERENCES members(id), FOREIGN KEY(toMemberId) REFERENCES members(id), FOREIGN KEY(tripId) REFERENCES trips(id));");
+        },
+    },
+    {
+        version: 3,
+        description: 'Add csv_profiles table for per-bank CSV column mappings',
+        up: (db) => {
+            db.exec("CREATE TABLE csv_profiles (id TEXT PRIMARY KEY, name TEXT, headerSignature TEXT UNIQUE, mapping TEXT);");
+        },
+    },
+    {
+        version: 4,
+        description: "Keep the bank's transaction ID (e.g., OFX FITID) on imported expenses",
+        up: (db) => {
+            db.exec("ALTER TABLE expenses ADD COLUMN externalId TEXT;");
+        },
+    },
+    {
+        version: 5,
+        description: 'Record statement imports as batches that can be rolled back',
+        up: (db) => {
+            db.exec("CREATE TABLE import_batches (id TEXT PRIMARY KEY, fileName TEXT, fileHash TEXT, rowCount INTEGER, dateFrom TEXT, dateTo TEXT, createdAt TEXT);");
+            db.exec("ALTER TABLE expenses ADD COLUMN importBatchId TEXT REFERENCES import_batches(id);");
+        },
+    },
+    {
+        version: 6,
+        description: 'Add incomes table for salary, refunds and other credits',
+        up: (db) => {
+            db.exec("CREATE TABLE incomes (id TEXT PRIMARY KEY, description TEXT, amount INTEGER, date TEXT, memberId TEXT, kind TEXT, refundOfExpenseId TEXT, externalId TEXT, importBatchId TEXT, FOREIGN KEY(memberId) REFERENCES members(id), FOREIGN KEY(refundOfExpenseId) REFERENCES expenses(id), FOREIGN KEY(importBatchId) REFERENCES import_batches(id));");
+        },
+    },
+    {
+        version: 7,
+        description: 'Add ai_settings table for the LLM provider and per-feature models',
+        up: (db) => {
+            db.exec("CREATE TABLE ai_settings (id TEXT PRIMARY KEY, settings TEXT);");
+        },
+    },
+    {
+        version: 8,
+        description: 'Add match modes, priority, conditions and actions to rules',
+        up: (db) => {
+            db.exec(`
+                ALTER TABLE rules ADD COLUMN matchMode TEXT NOT NULL DEFAULT 'contains';
+                ALTER TABLE rules ADD COLUMN priority INTEGER NOT NULL DEFAULT 0;
+                ALTER TABLE rules ADD COLUMN minAmount INTEGER;
+                ALTER TABLE rules ADD COLUMN maxAmount INTEGER;
+                ALTER TABLE rules ADD COLUMN dayOfMonthFrom INTEGER;
+                ALTER TABLE rules ADD COLUMN dayOfMonthTo INTEGER;
+                ALTER TABLE rules ADD COLUMN payerMemberId TEXT REFERENCES members(id);
+                ALTER TABLE rules ADD COLUMN splitTemplate TEXT;
+                ALTER TABLE rules ADD COLUMN tripId TEXT REFERENCES trips(id);
+                ALTER TABLE rules ADD COLUMN markAsSubscription INTEGER NOT NULL DEFAULT 0;
+            `);
+            // Rules used to be tried in insertion order, so earlier rules get higher priorities.
+            db.exec("UPDATE rules SET priority = (SELECT COUNT(*) FROM rules AS later WHERE later.rowid > rules.rowid);");
+        },
+    },
+    {
+        version: 9,
+        description: 'Add category_corrections table for learning rule suggestions',
+        up: (db) => {
+            db.exec("CREATE TABLE category_corrections (id TEXT PRIMARY KEY, merchantToken TEXT, description TEXT, amount INTEGER, date TEXT, fromCategoryId TEXT, toCategoryId TEXT, createdAt TEXT, resolved INTEGER NOT NULL DEFAULT 0);");
+        },
+    },
+    {
+        version: 10,
+        description: 'Add parentId to categories for sub-categories',
+        up: (db) => {
+            db.exec("ALTER TABLE categories ADD COLUMN parentId TEXT REFERENCES categories(id);");
+        },
+    },
+    {
+        version: 11,
+        description: 'Store member avatars locally and allow archiving members',
+        up: (db) => {
+            db.exec("ALTER TABLE members ADD COLUMN avatar BLOB;");
+            db.exec("ALTER TABLE members ADD COLUMN avatarType TEXT;");
+            db.exec("ALTER TABLE members ADD COLUMN archived INTEGER NOT NULL DEFAULT 0;");
+            // The seed avatars came from a remote service that doesn't load offline; initials replace them.
+            db.exec("UPDATE members SET avatarUrl = '' WHERE avatarUrl LIKE 'https://i.pravatar.cc/%';");
+        },
+    },
+    {
+        version: 12,
+        description: 'Add member PINs, auto-lock and who recorded expenses and imports',
+        up: (db) => {
+            db.exec("ALTER TABLE members ADD COLUMN pinHash TEXT;");
+            db.exec("ALTER TABLE members ADD COLUMN pinSalt TEXT;");
+            db.exec("ALTER TABLE household_settings ADD COLUMN autoLockMinutes INTEGER NOT NULL DEFAULT 0;");
+            db.exec("ALTER TABLE expenses ADD COLUMN createdBy TEXT;");
+            db.exec("ALTER TABLE expenses ADD COLUMN updatedBy TEXT;");
+            db.exec("ALTER TABLE import_batches ADD COLUMN createdBy TEXT;");
+        },
+    },
+    {
+        version: 13,
+        description: 'Add member roles and approval requests',
+        up: (db) => {
+            // Existing members keep full access; owners can then hand out narrower roles.
+            db.exec("ALTER TABLE members ADD COLUMN role TEXT NOT NULL DEFAULT 'owner';");
+            db.exec(`
+                CREATE TABLE approval_requests (
+                    id TEXT PRIMARY KEY,
+                    action TEXT NOT NULL,
+                    payload TEXT NOT NULL,
+                    summary TEXT NOT NULL,
+                    requestedBy TEXT NOT NULL,
+                    status TEXT NOT NULL DEFAULT 'pending',
+                    createdAt TEXT NOT NULL,
+                    resolvedBy TEXT,
+                    resolvedAt TEXT
+                );
+            `);
+        },
+    },
+    {
+        version: 14,
+        description: 'Add receipts waiting for analysis',
+        up: (db) => {
+            db.exec(`
+                CREATE TABLE pending_analyses (
+                    id TEXT PRIMARY KEY,
+                    imageDataUrl TEXT NOT NULL,
+                    date TEXT NOT NULL,
+                    memberId TEXT NOT NULL,
+                    tripId TEXT,
+                    createdBy TEXT NOT NULL,
+                    createdAt TEXT NOT NULL,
+                    attempts INTEGER NOT NULL DEFAULT 0,
+                    lastError TEXT
+                );
+            `);
+        },
+    },
+    {
+        version: 15,
+        description: 'Index expenses by date and category, and splits by expense',
+        up: (db) => {
+            db.exec(`
+                CREATE INDEX IF NOT EXISTS idx_expenses_date ON expenses(date);
+                CREATE INDEX IF NOT EXISTS idx_expenses_category ON expenses(categoryId);
+                CREATE INDEX IF NOT EXISTS idx_expense_splits_expense ON expense_splits(expenseId);
+            `);
+        },
+    },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS.reduce((max, m) => Math.max(max, m.version), BASE_SCHEMA_VERSION);
+
+/**
+ * Thrown when the stored database could not be brought up to the current schema.
+ * The stored file is left as it was, and a copy is kept from before the attempt.
+ */
+export class MigrationError extends Error {
+    fromVersion: number;
+    detail: string; // what the failing migration step reported
+
+    constructor(fromVersion: number, detail: string) {
+        super(`Upgrading the data from schema version ${fromVersion} to ${LATEST_SCHEMA_VERSION} failed: ${detail}`);
+        this.name = 'MigrationError';
+        this.fromVersion = fromVersion;
+        this.detail = detail;
+    }
+}
+
+export const getSchemaVersion = (db: any): number => {
+    const tableStmt = db.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_version'");
+    const hasTable = tableStmt.step();
+    tableStmt.free();
+    if (!hasTable) return BASE_SCHEMA_VERSION;
+
+    const versionStmt = db.prepare("SELECT MAX(version) AS version FROM schema_version");
+    versionStmt.step();
+    const { version } = versionStmt.getAsObject();
+    versionStmt.free();
+    return typeof version === 'number' ? version : BASE_SCHEMA_VERSION;
+};
+
+export const getPendingMigrations = (currentVersion: number): Migration[] => {
+    return MIGRATIONS
+        .filter(m => m.version > currentVersion)
+        .sort((a, b) => a.version - b.version);
+};
+
+/**
+ * Applies the given migrations in a single transaction.
+ * If any step throws, the whole batch is rolled back and the error is rethrown.
+ */
+export const applyMigrations = (db: any, migrations: Migration[]) => {
+    if (migrations.length === 0) return;
+    db.exec("BEGIN TRANSACTION;");
+    try {
+        db.exec("CREATE TABLE IF NOT EXISTS schema_version (version INTEGER NOT NULL, appliedAt TEXT NOT NULL)");
+        const versionStmt = db.prepare("INSERT INTO schema_version (version, appliedAt) VALUES (?, ?)");
+        try {
+            migrations.forEach(m => {
+                m.up(db);
+                versionStmt.run([m.version, new Date().toISOString()]);
+            });
+        } finally {
+            versionStmt.free();
+        }
+        db.exec("COMMIT;");
+    } catch (err) {
+        db.exec("ROLLBACK;");
+        throw err;
+    }
+};
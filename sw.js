@@ -0,0 +1,70 @@
+// Service worker: keeps the app shell cached so FinancelyAI opens without a network connection.
+// The production build (see vite.config.ts) copies this file to the output folder and fills in
+// the list of built files and a cache version derived from them.
+
+const PRECACHE_FILES = self.__PRECACHE_FILES__ || ['/', '/index.html'];
+const CACHE_VERSION = self.__CACHE_VERSION__ || 'dev';
+
+const SHELL_CACHE = `financelyai-shell-${CACHE_VERSION}`;
+// Tailwind and the web fonts come from CDNs and are cached the first time they are fetched.
+const RUNTIME_CACHE = 'financelyai-runtime';
+const RUNTIME_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+
+self.addEventListener('install', event => {
+    event.waitUntil(
+        caches.open(SHELL_CACHE)
+            .then(cache => cache.addAll(PRECACHE_FILES))
+            .then(() => self.skipWaiting())
+    );
+});
+
+self.addEventListener('activate', event => {
+    event.waitUntil(
+        caches.keys()
+            .then(keys => Promise.all(keys
+                .filter(key => key.startsWith('financelyai-shell-') && key !== SHELL_CACHE)
+                .map(key => caches.delete(key))))
+            .then(() => self.clients.claim())
+    );
+});
+
+const putInCache = async (cacheName, request, response) => {
+    if (response.ok || response.type === 'opaque') {
+        const cache = await caches.open(cacheName);
+        await cache.put(request, response.clone());
+    }
+    return response;
+};
+
+// Pages come from the network when it's there, so a new version is picked up, and from the cache otherwise.
+const handleNavigation = async request => {
+    try {
+        return await putInCache(SHELL_CACHE, '/index.html', await fetch(request));
+    } catch {
+        const cached = await caches.match('/index.html');
+        if (cached) return cached;
+        throw new Error('The app is not available offline yet');
+    }
+};
+
+// Built files have content hashes in their names, so a cached copy never goes stale.
+const handleAsset = async (request, cacheName) => {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    return putInCache(cacheName, request, await fetch(request));
+};
+
+self.addEventListener('fetch', event => {
+    const { request } = event;
+    if (request.method !== 'GET') return;
+    const url = new URL(request.url);
+
+    if (request.mode === 'navigate' && url.origin === self.location.origin) {
+        event.respondWith(handleNavigation(request));
+    } else if (url.origin === self.location.origin) {
+        event.respondWith(handleAsset(request, SHELL_CACHE));
+    } else if (RUNTIME_HOSTS.includes(url.hostname)) {
+        event.respondWith(handleAsset(request, RUNTIME_CACHE));
+    }
+    // Anything else, such as calls to the Gemini API, goes straight to the network.
+});
@@ -1,21 +1,54 @@
 // Contains all type definitions for the application.
 
+// What a member may do; see utils/permissions.ts. A viewer is typically a child.
+export type MemberRole = 'owner' | 'adult' | 'viewer';
+
 export interface Member {
   id: string;
   name: string;
-  avatarUrl: string;
+  avatarUrl: string; // an object URL for the avatar stored in the database, or '' to show initials
+  role: MemberRole;
+  archived?: boolean; // kept for history and balances, but no longer offered for new expenses
+  hasPin?: boolean; // switching to this member asks for their PIN
+}
+
+// An uploaded avatar image, as stored in the database.
+export interface MemberAvatar {
+  data: Uint8Array;
+  type: string; // MIME type, e.g. "image/jpeg"
 }
 
 export interface Category {
   id: string;
   name: string;
   icon: string;
+  parentId?: string | null; // set for sub-categories, e.g. Electricity under Utilities
+}
+
+export type RuleMatchMode = 'contains' | 'starts-with' | 'regex' | 'exact';
+
+// A member's share of a rule's split template.
+export interface SplitShare {
+  memberId: string;
+  percent: number; // 0-100; the shares of a template add up to 100
 }
 
 export interface Rule {
   id: string;
-  keyword: string;
+  keyword: string; // the text or regular expression matched against the description, per matchMode
+  matchMode: RuleMatchMode;
+  priority: number; // higher priorities are checked first
+  // Optional conditions
+  minAmount?: number | null; // in cents, inclusive
+  maxAmount?: number | null; // in cents, inclusive
+  dayOfMonthFrom?: number | null; // 1-31, inclusive; may be after dayOfMonthTo to wrap around month end
+  dayOfMonthTo?: number | null;
+  // Actions
   categoryId: string;
+  payerMemberId?: string | null;
+  splitTemplate?: SplitShare[] | null;
+  tripId?: string | null;
+  markAsSubscription?: boolean; // start tracking matching expenses as a monthly subscription
 }
 
 export interface Split {
@@ -31,6 +64,26 @@ export interface Expense {
   memberId: string; // payer
   categoryId: string;
   splits: Split[];
+  tripId?: string | null; // set when the expense belongs to a trip
+  externalId?: string | null; // the bank's transaction ID for imported expenses
+  importBatchId?: string | null; // set when the expense was created by a statement import
+  createdBy?: string | null; // the member using the app when it was recorded
+  updatedBy?: string | null; // the member using the app when it was last edited
+}
+
+export type IncomeKind = 'salary' | 'refund' | 'other';
+
+// Money coming in: salary, refunds and other credits such as cashback or interest.
+export interface Income {
+  id: string;
+  description: string;
+  amount: number; // in cents
+  date: string; // ISO string
+  memberId: string; // who received it
+  kind: IncomeKind;
+  refundOfExpenseId?: string | null; // for refunds, the expense whose spend this reduces
+  externalId?: string | null; // the bank's transaction ID for imported credits
+  importBatchId?: string | null;
 }
 
 export interface Budget {
@@ -52,7 +105,7 @@ export interface Trip {
   startDate: string; // ISO string
   endDate: string; // ISO string
   budget: number; // in cents
-  expenses: Expense[];
+  // Its expenses are stored with its tripId and queried from the database when shown.
 }
 
 export interface Subscription {
@@ -64,6 +117,15 @@ export interface Subscription {
   categoryId: string;
 }
 
+export interface Settlement {
+  id: string;
+  fromMemberId: string; // who paid
+  toMemberId: string; // who received
+  amount: number; // in cents
+  date: string; // ISO string
+  tripId: string | null; // null for household-level settlements
+}
+
 export interface Notification {
   id: string;
   message: string;
@@ -72,20 +134,84 @@ export interface Notification {
   isRead: boolean;
 }
 
+export type ApprovalAction = 'setBudgets' | 'setMonthlyIncome' | 'deleteExpense' | 'deleteTrip';
+
+// A change a member wasn't allowed to make themselves, waiting for an owner to approve or reject it.
+export interface ApprovalRequest {
+  id: string;
+  action: ApprovalAction;
+  // What the action applies: the changed budgets, the new income, or the id of the expense or trip to delete.
+  payload: { budgets?: Budget[]; monthlyIncome?: number; targetId?: string };
+  summary: string; // e.g. "Set the Groceries budget to ₹6,000"
+  requestedBy: string; // member id
+  status: 'pending' | 'approved' | 'rejected';
+  createdAt: string; // ISO string
+  resolvedBy?: string;
+  resolvedAt?: string;
+}
+
+// A receipt scanned while offline. It is analyzed, and its expense added, once the app is back online.
+export interface PendingAnalysis {
+  id: string;
+  imageDataUrl: string;
+  // The rest of the expense, as entered when the receipt was scanned.
+  date: string; // ISO string
+  memberId: string; // the payer
+  tripId: string | null;
+  createdBy: string; // member id
+  createdAt: string; // ISO string
+  attempts: number; // analyses that failed for a reason other than being offline
+  lastError?: string;
+}
+
 export interface Household {
   id: string;
   name: string;
   members: Member[];
   categories: Category[];
   rules: Rule[];
+  // Household (non-trip) expenses of the last few months, newest first; older ones and trip expenses are
+  // queried from the database. Replaced whenever any expense changes, so views that query can reload on it.
   expenses: Expense[];
+  incomes: Income[];
   budgets: Budget[];
   bucketGoals: BucketGoal[];
   trips: Trip[];
   subscriptions: Subscription[];
+  settlements: Settlement[];
+  csvProfiles: CsvProfile[];
+  importBatches: ImportBatch[];
+  categoryCorrections: CategoryCorrection[]; // only the ones not yet turned into a rule or dismissed
+  aiSettings: AiSettings;
   notifications: Notification[];
+  approvalRequests: ApprovalRequest[];
+  pendingAnalyses: PendingAnalysis[];
   emailAlertsEnabled: boolean;
   monthlyIncome: number; // in cents
+  autoLockMinutes: number; // lock the app after this long without input; 0 turns it off
+}
+
+// A category the user changed by hand. Repeated corrections for one merchant become rule suggestions.
+export interface CategoryCorrection {
+  id: string;
+  merchantToken: string; // e.g. "swiggy" for "SWIGGY ORDER 8812"
+  description: string;
+  amount: number; // in cents
+  date: string; // ISO string of the expense
+  fromCategoryId: string;
+  toCategoryId: string;
+  createdAt: string; // ISO string
+}
+
+export interface ImportBatch {
+  id: string;
+  fileName: string;
+  fileHash: string; // SHA-256 of the statement file, hex encoded
+  rowCount: number;
+  dateFrom: string; // "YYYY-MM-DD" of the earliest imported row
+  dateTo: string; // "YYYY-MM-DD" of the latest imported row
+  createdAt: string; // ISO string
+  createdBy?: string | null; // the member using the app when it was imported
 }
 
 export interface ParsedTransaction {
@@ -95,6 +221,39 @@ export interface ParsedTransaction {
     type: 'credit' | 'debit';
     categoryId: string;
     memberId: string;
+    tripId?: string | null;
+    externalId?: string; // the bank's transaction ID (e.g., OFX FITID), when the format has one
+    categorySource?: CategorySource; // how categoryId was suggested, shown during import review
+    categoryConfidence?: number; // 0-1, for suggestions learned from history
+    ruleId?: string; // the rule that matched, whose payer, split and trip actions apply on import
+}
+
+// 'rule' is a keyword rule match, 'history' the on-device classifier, 'ai' the LLM.
+export type CategorySource = 'rule' | 'history' | 'ai';
+
+export type CsvDateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
+
+// The character before the paise/cents: "1,250.50" uses '.', "1.250,50" uses ','.
+export type CsvDecimalSeparator = '.' | ',';
+
+// Column indices refer to the header row of the CSV file.
+export interface CsvColumnMapping {
+    dateColumn: number;
+    descriptionColumn: number;
+    amountMode: 'single' | 'split'; // one signed amount column, or separate debit/credit columns
+    amountColumn?: number;
+    debitColumn?: number;
+    creditColumn?: number;
+    negativeIsDebit: boolean; // sign convention for a single amount column
+    dateFormat: CsvDateFormat;
+    decimalSeparator?: CsvDecimalSeparator; // detected from the rows when missing, as in profiles saved before it existed
+}
+
+export interface CsvProfile {
+    id: string;
+    name: string; // e.g., the bank's name
+    headerSignature: string; // normalized header row used to recognise the bank's exports
+    mapping: CsvColumnMapping;
 }
 
 export interface SavingsSuggestion {
@@ -107,4 +266,19 @@ export interface SavingsSuggestion {
 export interface ChatMessage {
   role: 'user' | 'model';
   content: string;
-}
\ No newline at end of file
+}
+
+export type LlmProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+// Each AI-backed feature can be pointed at its own model.
+export type AiFeature = 'receipt' | 'report' | 'transfer' | 'budgets' | 'anomaly' | 'statement' | 'categorize' | 'recurring' | 'savings' | 'chat';
+
+export interface AiSettings {
+  provider: LlmProviderId;
+  geminiApiKey: string; // blank uses the key the app was built with
+  openAiBaseUrl: string; // e.g., "http://localhost:11434/v1" for Ollama
+  openAiApiKey: string;
+  defaultModel: string;
+  models: Partial<Record<AiFeature, string>>; // per-feature overrides of defaultModel
+  anomalySecondOpinion: boolean; // ask the AI to review expenses the local anomaly check flags
+}
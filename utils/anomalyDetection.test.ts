@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { detectAnomaly, robustZScore } from './anomalyDetection';
+import { Category, Expense } from '../types';
+
+const categories: Category[] = [{ id: 'cat-1', name: 'Groceries', icon: '🛒' }, { id: 'cat-5', name: 'Entertainment', icon: '🎬' }];
+
+let nextId = 0;
+const expense = (description: string, amount: number, date: string, categoryId = 'cat-1'): Expense => ({
+    id: `exp-${++nextId}`, description, amount, date: `${date}T10:00:00.000Z`, memberId: 'mem-1', categoryId, splits: [{ memberId: 'mem-1', amount }],
+});
+
+// Typical grocery runs at different shops, and a streaming plan billed on the 5th.
+const history = [
+    expense('Big Bazaar', 150000, '2024-05-03'),
+    expense('Nature Basket', 180000, '2024-05-17'),
+    expense('Reliance Fresh', 120000, '2024-06-02'),
+    expense('Spencers', 160000, '2024-06-20'),
+    expense('More Supermarket', 140000, '2024-07-09'),
+    expense('Netflix', 64900, '2024-05-05', 'cat-5'),
+    expense('Netflix', 64900, '2024-06-05', 'cat-5'),
+    expense('Netflix', 64900, '2024-07-05', 'cat-5'),
+];
+
+describe('robustZScore', () => {
+    it('measures distance from the median in robust standard deviations', () => {
+        expect(robustZScore(30, [10, 20, 30, 40, 50])).toBeCloseTo(0);
+        expect(robustZScore(50, [10, 20, 30, 40, 50])).toBeCloseTo(1.349);
+    });
+
+    it('falls back to the interquartile range, then to any rise, when most amounts are equal', () => {
+        expect(robustZScore(20, [10, 10, 10, 20, 30])).toBeGreaterThan(0);
+        expect(robustZScore(11, [10, 10, 10, 10, 10])).toBe(Infinity);
+        expect(robustZScore(10, [10, 10, 10, 10, 10])).toBe(0);
+    });
+});
+
+describe('detectAnomaly', () => {
+    it('lets typical expenses through', () => {
+        const result = detectAnomaly(expense('Big Bazaar', 170000, '2024-08-04'), history, categories);
+        expect(result).toEqual({ isAnomalous: false, reasoning: '', signals: [] });
+    });
+
+    it("flags an amount far above the category's usual spend", () => {
+        const result = detectAnomaly(expense('Big Bazaar', 2500000, '2024-08-04'), history, categories);
+        expect(result.isAnomalous).toBe(true);
+        expect(result.signals[0].kind).toBe('category-outlier');
+    });
+
+    it('flags a spike from a regular merchant billed on an unusual day', () => {
+        const result = detectAnomaly(expense('Netflix', 199900, '2024-08-20', 'cat-5'), history, categories);
+        expect(result.signals.map(s => s.kind)).toEqual(['merchant-spike', 'unusual-day']);
+        expect(result.reasoning).toContain('usually bills around day 5');
+    });
+
+    it('flags the same charge recorded twice', () => {
+        const result = detectAnomaly(expense('Netflix', 64900, '2024-07-06', 'cat-5'), history, categories);
+        expect(result.isAnomalous).toBe(true);
+        expect(result.signals.map(s => s.kind)).toEqual(['duplicate-charge']);
+    });
+
+    it('only notes a large first charge from a new merchant', () => {
+        const result = detectAnomaly(expense('Organic World', 175000, '2024-08-04'), history, categories);
+        expect(result.isAnomalous).toBe(false);
+        expect(result.signals.map(s => s.kind)).toEqual(['first-time-merchant']);
+    });
+});
@@ -0,0 +1,123 @@
+import { Expense, Category } from '../types';
+import { descriptionSimilarity } from './duplicateDetection';
+
+export type AnomalySignalKind = 'category-outlier' | 'merchant-spike' | 'first-time-merchant' | 'unusual-day' | 'duplicate-charge';
+
+export interface AnomalySignal {
+    kind: AnomalySignalKind;
+    weight: number;
+    reason: string;
+}
+
+export interface AnomalyResult {
+    isAnomalous: boolean;
+    reasoning: string; // the reasons of every signal, in order of weight
+    signals: AnomalySignal[];
+}
+
+// A charge is flagged once the weights of its signals reach this score.
+const ANOMALY_THRESHOLD = 2;
+// Robust z-score above which an amount is an outlier (the usual cut-off for median/MAD).
+const OUTLIER_Z_SCORE = 3.5;
+const MIN_CATEGORY_HISTORY = 5;
+const MIN_MERCHANT_HISTORY = 3;
+const MERCHANT_SPIKE_RATIO = 2;
+const SAME_MERCHANT_SIMILARITY = 0.6;
+const DUPLICATE_WINDOW_DAYS = 1;
+const DAY_MS = 86400000;
+
+const formatRupees = (amountInCents: number): string => {
+    return new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(amountInCents / 100);
+};
+
+const median = (values: number[]): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+const quantile = (values: number[], q: number): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const position = (sorted.length - 1) * q;
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+/**
+ * How far `value` sits above the typical value, in robust standard deviations.
+ * Uses the median absolute deviation, falling back to the interquartile range
+ * when more than half the amounts are identical (MAD is then zero).
+ */
+export const robustZScore = (value: number, values: number[]): number => {
+    const center = median(values);
+    const mad = median(values.map(v => Math.abs(v - center)));
+    if (mad > 0) return 0.6745 * (value - center) / mad;
+    const iqr = quantile(values, 0.75) - quantile(values, 0.25);
+    if (iqr > 0) return 1.349 * (value - center) / iqr;
+    return value > center ? Infinity : 0;
+};
+
+const dayOfMonthDistance = (a: number, b: number): number => {
+    const difference = Math.abs(a - b);
+    return Math.min(difference, 31 - difference);
+};
+
+const daysBetween = (a: string, b: string): number => {
+    return Math.abs(new Date(a.split('T')[0]).getTime() - new Date(b.split('T')[0]).getTime()) / DAY_MS;
+};
+
+/**
+ * Checks a new expense against the household's own history, without any network call.
+ * `history` should hold the expenses recorded before this one.
+ */
+export const detectAnomaly = (expense: Expense, history: Expense[], categories: Category[]): AnomalyResult => {
+    const signals: AnomalySignal[] = [];
+    const others = history.filter(e => e.id !== expense.id);
+    const categoryName = categories.find(c => c.id === expense.categoryId)?.name || 'this category';
+
+    // 1. Amount compared with the category's usual spend
+    const categoryAmounts = others.filter(e => e.categoryId === expense.categoryId).map(e => e.amount);
+    if (categoryAmounts.length >= MIN_CATEGORY_HISTORY) {
+        const typical = median(categoryAmounts);
+        if (robustZScore(expense.amount, categoryAmounts) > OUTLIER_Z_SCORE) {
+            const ratio = typical > 0 ? ` (${(expense.amount / typical).toFixed(1)}x)` : '';
+            signals.push({ kind: 'category-outlier', weight: 2, reason: `${formatRupees(expense.amount)} is far above your typical ${categoryName} expense of ${formatRupees(typical)}${ratio}.` });
+        }
+    }
+
+    // 2. The merchant's own history
+    const merchantHistory = others.filter(e => descriptionSimilarity(e.description, expense.description) >= SAME_MERCHANT_SIMILARITY);
+    if (merchantHistory.length >= MIN_MERCHANT_HISTORY) {
+        const typical = median(merchantHistory.map(e => e.amount));
+        if (expense.amount > typical * MERCHANT_SPIKE_RATIO) {
+            signals.push({ kind: 'merchant-spike', weight: 2, reason: `"${expense.description}" usually charges about ${formatRupees(typical)}, but this charge is ${formatRupees(expense.amount)}.` });
+        }
+
+        // Recurring merchants that always bill around the same day of the month
+        const usualDays = merchantHistory.map(e => new Date(e.date).getDate());
+        const usualDay = Math.round(median(usualDays));
+        const isRegular = usualDays.every(day => dayOfMonthDistance(day, usualDay) <= 3);
+        const day = new Date(expense.date).getDate();
+        if (isRegular && dayOfMonthDistance(day, usualDay) > 5) {
+            signals.push({ kind: 'unusual-day', weight: 1, reason: `"${expense.description}" usually bills around day ${usualDay} of the month, not day ${day}.` });
+        }
+    } else if (merchantHistory.length === 0 && categoryAmounts.length >= MIN_CATEGORY_HISTORY && expense.amount > quantile(categoryAmounts, 0.75)) {
+        // A new merchant alone is normal; a new merchant with a large charge is worth a look.
+        signals.push({ kind: 'first-time-merchant', weight: 1, reason: `This is the first charge from "${expense.description}" and it is larger than most ${categoryName} expenses.` });
+    }
+
+    // 3. The same charge recorded twice
+    const duplicate = merchantHistory.find(e => e.amount === expense.amount && daysBetween(e.date, expense.date) <= DUPLICATE_WINDOW_DAYS);
+    if (duplicate) {
+        signals.push({ kind: 'duplicate-charge', weight: 2, reason: `An identical ${formatRupees(expense.amount)} charge from "${duplicate.description}" was recorded on ${duplicate.date.split('T')[0]}; this may be a double charge.` });
+    }
+
+    signals.sort((a, b) => b.weight - a.weight);
+    const score = signals.reduce((sum, s) => sum + s.weight, 0);
+    return {
+        isAnomalous: score >= ANOMALY_THRESHOLD,
+        reasoning: signals.map(s => s.reason).join(' '),
+        signals,
+    };
+};
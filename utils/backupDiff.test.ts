@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { diffSnapshots, mergeSnapshots, getConflictKey, describeBackupRow } from './backupDiff';
+import { BACKUP_FORMAT, BackupSnapshot } from '../services/backupFormat';
+
+const snapshot = (tables: BackupSnapshot['tables']): BackupSnapshot => ({
+    format: BACKUP_FORMAT, formatVersion: 1, schemaVersion: 15, exportedAt: '2024-08-01T00:00:00.000Z', tables,
+});
+
+const expense = (id: string, description: string, amount: number) => ({ id, description, amount, date: '2024-08-01', memberId: 'mem-1', categoryId: 'cat-1' });
+const split = (expenseId: string, memberId: string, amount: number) => ({ id: Math.random(), expenseId, memberId, amount });
+
+const local = snapshot({
+    expenses: [expense('exp-1', 'Groceries', 1000), expense('exp-2', 'Rent', 50000)],
+    expense_splits: [split('exp-1', 'mem-1', 1000), split('exp-2', 'mem-1', 25000), split('exp-2', 'mem-2', 25000)],
+    budgets: [{ id: 'bud-cat-1', categoryId: 'cat-1', amount: 5000 }, { id: 'bud-cat-2', categoryId: 'cat-3', amount: 2000 }],
+    csv_profiles: [{ id: 'csv-a', name: 'HDFC', headerSignature: 'date|narration|amount', mapping: '{}' }],
+});
+
+const incoming = snapshot({
+    expenses: [expense('exp-1', 'Groceries', 1200), expense('exp-3', 'Fuel', 3000)],
+    expense_splits: [split('exp-1', 'mem-1', 600), split('exp-1', 'mem-2', 600), split('exp-3', 'mem-2', 3000)],
+    budgets: [
+        { id: 'bud-other', categoryId: 'cat-1', amount: 6000 }, // same category, created separately
+        { id: 'bud-cat-2', categoryId: 'cat-2', amount: 4000 }, // same ID, different category
+    ],
+    csv_profiles: [{ id: 'csv-b', name: 'HDFC Bank', headerSignature: 'date|narration|amount', mapping: '{}' }],
+});
+
+describe('diffSnapshots', () => {
+    const diffs = diffSnapshots(local, incoming);
+    const forTable = (table: string) => diffs.find(d => d.table === table)!;
+
+    it('compares expenses with their splits', () => {
+        const expenses = forTable('expenses');
+        expect(expenses.added.map(e => e.id)).toEqual(['exp-3']);
+        expect(expenses.removed.map(e => e.id)).toEqual(['exp-2']);
+        expect(expenses.changed).toHaveLength(1);
+        expect(expenses.changed[0]).toMatchObject({ id: 'exp-1', changedFields: ['amount', 'splits'] });
+    });
+
+    it('matches budgets on their category and CSV profiles on their header signature', () => {
+        const budgets = forTable('budgets');
+        expect(budgets.changed).toHaveLength(1);
+        expect(budgets.changed[0]).toMatchObject({ id: 'cat-1', changedFields: ['amount'] });
+        expect(budgets.added.map(b => b.categoryId)).toEqual(['cat-2']);
+        expect(budgets.removed.map(b => b.categoryId)).toEqual(['cat-3']);
+
+        const profiles = forTable('csv_profiles');
+        expect(profiles.added).toEqual([]);
+        expect(profiles.changed[0]).toMatchObject({ id: 'date|narration|amount', changedFields: ['name'] });
+    });
+
+    it('leaves out tables without differences', () => {
+        expect(diffSnapshots(local, local)).toEqual([]);
+    });
+});
+
+describe('mergeSnapshots', () => {
+    it("keeps this device's records unless a conflict is resolved for the backup", () => {
+        const merged = mergeSnapshots(local, incoming, {});
+        expect(merged.tables.expenses.map(e => [e.id, e.amount])).toEqual([['exp-1', 1000], ['exp-2', 50000], ['exp-3', 3000]]);
+        expect(merged.tables.expense_splits.filter(s => s.expenseId === 'exp-1').map(s => s.amount)).toEqual([1000]);
+        expect(merged.tables.expense_splits.filter(s => s.expenseId === 'exp-3').map(s => s.amount)).toEqual([3000]);
+    });
+
+    it("takes the backup's record with its splits when chosen", () => {
+        const merged = mergeSnapshots(local, incoming, { [getConflictKey({ table: 'expenses', id: 'exp-1' })]: 'incoming' });
+        expect(merged.tables.expenses.find(e => e.id === 'exp-1')!.amount).toBe(1200);
+        expect(merged.tables.expense_splits.filter(s => s.expenseId === 'exp-1').map(s => [s.memberId, s.amount])).toEqual([['mem-1', 600], ['mem-2', 600]]);
+    });
+
+    it('keeps one budget per category and one profile per header signature', () => {
+        const merged = mergeSnapshots(local, incoming, {
+            [getConflictKey({ table: 'budgets', id: 'cat-1' })]: 'incoming',
+            [getConflictKey({ table: 'csv_profiles', id: 'date|narration|amount' })]: 'incoming',
+        });
+        const budgets = merged.tables.budgets;
+        expect(budgets.map(b => b.categoryId).sort()).toEqual(['cat-1', 'cat-2', 'cat-3']);
+        // The chosen amount keeps this device's ID.
+        expect(budgets.find(b => b.categoryId === 'cat-1')).toEqual({ id: 'bud-cat-1', categoryId: 'cat-1', amount: 6000 });
+        expect(new Set(budgets.map(b => b.id)).size).toBe(budgets.length);
+        expect(merged.tables.csv_profiles).toEqual([{ id: 'csv-a', name: 'HDFC Bank', headerSignature: 'date|narration|amount', mapping: '{}' }]);
+    });
+});
+
+describe('describeBackupRow', () => {
+    it('names the record with its amount and date', () => {
+        expect(describeBackupRow(expense('exp-1', 'Groceries', 125000))).toBe('Groceries · ₹1,250 · 2024-08-01');
+        expect(describeBackupRow({ id: 'x-1' })).toBe('x-1');
+    });
+});
@@ -0,0 +1,167 @@
+import { BackupRow, BackupSnapshot, encodeBackupValue } from '../services/backupFormat';
+
+// Records are matched by `id` across the two snapshots, except in tables with another UNIQUE column:
+// two devices give the budget of one category, or the profile of one CSV layout, different IDs.
+const MATCH_COLUMNS: Record<string, string> = {
+    budgets: 'categoryId',
+    csv_profiles: 'headerSignature',
+};
+
+const getMatchKey = (table: string, row: BackupRow): string => String(row[MATCH_COLUMNS[table] || 'id']);
+
+// Splits have no stable ID of their own, so they are compared and merged as part of their expense.
+const CHILD_TABLES: Record<string, { parentTable: string; parentKey: string; field: string }> = {
+    expense_splits: { parentTable: 'expenses', parentKey: 'expenseId', field: 'splits' },
+};
+
+export const TABLE_LABELS: Record<string, string> = {
+    household_settings: 'Household settings',
+    members: 'Members',
+    categories: 'Categories',
+    rules: 'Rules',
+    expenses: 'Expenses',
+    incomes: 'Income',
+    budgets: 'Budgets',
+    bucket_goals: 'Savings goals',
+    trips: 'Trips',
+    subscriptions: 'Subscriptions',
+    settlements: 'Settlements',
+    csv_profiles: 'CSV profiles',
+    import_batches: 'Imports',
+    category_corrections: 'Category corrections',
+    ai_settings: 'AI settings',
+    notifications: 'Notifications',
+    approval_requests: 'Approval requests',
+    pending_analyses: 'Receipts waiting for analysis',
+};
+
+export interface RecordConflict {
+    table: string;
+    id: string; // the value the records were matched on, see MATCH_COLUMNS
+    local: BackupRow;
+    incoming: BackupRow;
+    changedFields: string[];
+}
+
+export interface TableDiff {
+    table: string;
+    added: BackupRow[]; // only in the backup
+    removed: BackupRow[]; // only on this device
+    changed: RecordConflict[];
+}
+
+// Which side wins each conflict, keyed by `getConflictKey`. Conflicts left out keep this device's record.
+export type ConflictResolutions = Record<string, 'local' | 'incoming'>;
+
+export const getConflictKey = (conflict: Pick<RecordConflict, 'table' | 'id'>) => `${conflict.table}:${conflict.id}`;
+
+const fieldSignature = (value: unknown) => JSON.stringify(encodeBackupValue(value) ?? null);
+
+// Rows keyed by their match key, with their child rows attached (e.g. an expense's `splits`) so they take part in comparisons.
+const indexRows = (snapshot: BackupSnapshot, table: string): Map<string, BackupRow> => {
+    const children = Object.entries(CHILD_TABLES).filter(([, child]) => child.parentTable === table);
+    const index = new Map<string, BackupRow>();
+    (snapshot.tables[table] || []).forEach(row => {
+        const withChildren = { ...row };
+        children.forEach(([childTable, { parentKey, field }]) => {
+            withChildren[field] = (snapshot.tables[childTable] || [])
+                .filter(child => child[parentKey] === row.id)
+                .map(({ id, [parentKey]: _parent, ...rest }) => rest)
+                .sort((a, b) => fieldSignature(a).localeCompare(fieldSignature(b)));
+        });
+        index.set(getMatchKey(table, row), withChildren);
+    });
+    return index;
+};
+
+// A record matched on another column keeps this device's ID, so a different ID isn't a change.
+const getChangedFields = (table: string, local: BackupRow, incoming: BackupRow): string[] => {
+    const fields = new Set([...Object.keys(local), ...Object.keys(incoming)]);
+    return [...fields].filter(field => !(field === 'id' && MATCH_COLUMNS[table]) && fieldSignature(local[field]) !== fieldSignature(incoming[field]));
+};
+
+const getMatchedTables = (local: BackupSnapshot, incoming: BackupSnapshot): string[] => {
+    const names = new Set([...Object.keys(local.tables), ...Object.keys(incoming.tables)]);
+    return [...names].filter(name => !CHILD_TABLES[name]);
+};
+
+// Compares the records on this device with a backup's, table by table. Tables with no differences are left out.
+export const diffSnapshots = (local: BackupSnapshot, incoming: BackupSnapshot): TableDiff[] => {
+    return getMatchedTables(local, incoming).map(table => {
+        const localRows = indexRows(local, table);
+        const incomingRows = indexRows(incoming, table);
+        const diff: TableDiff = { table, added: [], removed: [], changed: [] };
+        incomingRows.forEach((row, id) => {
+            const localRow = localRows.get(id);
+            if (!localRow) {
+                diff.added.push(row);
+                return;
+            }
+            const changedFields = getChangedFields(table, localRow, row);
+            if (changedFields.length > 0) diff.changed.push({ table, id, local: localRow, incoming: row, changedFields });
+        });
+        localRows.forEach((row, id) => {
+            if (!incomingRows.has(id)) diff.removed.push(row);
+        });
+        return diff;
+    }).filter(d => d.added.length + d.removed.length + d.changed.length > 0);
+};
+
+/**
+ * Combines a backup from another device with this one: records on either side are kept,
+ * and records that differ take the side chosen in `resolutions`. Records deleted on only one
+ * device come back, since a snapshot can't tell a deletion from a record never made.
+ */
+export const mergeSnapshots = (local: BackupSnapshot, incoming: BackupSnapshot, resolutions: ConflictResolutions): BackupSnapshot => {
+    const tables: Record<string, BackupRow[]> = {};
+    // Per parent table, the IDs whose record (and so child rows) come from the backup.
+    const takenFromIncoming: Record<string, Set<string>> = {};
+
+    getMatchedTables(local, incoming).forEach(table => {
+        const localKeys = new Set((local.tables[table] || []).map(row => getMatchKey(table, row)));
+        const usedIds = new Set((local.tables[table] || []).map(row => String(row.id)));
+        const incomingRows = new Map((incoming.tables[table] || []).map(row => [getMatchKey(table, row), row]));
+        const fromIncoming = new Set<string>();
+        const merged = (local.tables[table] || []).map(row => {
+            const key = getMatchKey(table, row);
+            if (!incomingRows.has(key) || resolutions[getConflictKey({ table, id: key })] !== 'incoming') return row;
+            fromIncoming.add(String(row.id));
+            return { ...incomingRows.get(key)!, id: row.id };
+        });
+        (incoming.tables[table] || []).forEach(row => {
+            if (localKeys.has(getMatchKey(table, row))) return;
+            // Only possible in tables matched on another column: the ID already belongs to a different record here.
+            const added = usedIds.has(String(row.id)) ? { ...row, id: `${row.id}-${crypto.randomUUID()}` } : row;
+            usedIds.add(String(added.id));
+            fromIncoming.add(String(added.id));
+            merged.push(added);
+        });
+        tables[table] = merged;
+        takenFromIncoming[table] = fromIncoming;
+    });
+
+    Object.entries(CHILD_TABLES).forEach(([childTable, { parentTable, parentKey }]) => {
+        const fromIncoming = takenFromIncoming[parentTable] || new Set<string>();
+        tables[childTable] = [
+            ...(local.tables[childTable] || []).filter(row => !fromIncoming.has(String(row[parentKey]))),
+            ...(incoming.tables[childTable] || []).filter(row => fromIncoming.has(String(row[parentKey]))),
+        ];
+    });
+
+    return { ...local, exportedAt: new Date().toISOString(), tables };
+};
+
+const formatCurrency = (amountInCents: number): string => {
+    const amount = amountInCents / 100;
+    return new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(amount);
+};
+
+// A short, human-readable line for a record in the preview, e.g. "Groceries · ₹1,250 · 2024-05-02".
+export const describeBackupRow = (row: BackupRow): string => {
+    const label = [row.description, row.name, row.keyword, row.summary, row.message, row.fileName]
+        .find(value => typeof value === 'string' && value) as string | undefined;
+    const parts = [label || String(row.id)];
+    if (typeof row.amount === 'number') parts.push(formatCurrency(row.amount));
+    if (typeof row.date === 'string') parts.push(row.date.slice(0, 10));
+    return parts.join(' · ');
+};
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { createCategoryClassifier, suggestCategoryWithConfidence, tokenizeDescription, MIN_CONFIDENCE } from './categoryClassifier';
+import { Expense } from '../types';
+import { INITIAL_HOUSEHOLD_DATA } from '../constants';
+
+let nextId = 0;
+const expense = (description: string, amount: number, categoryId: string): Expense => ({
+    id: `exp-${++nextId}`, description, amount, date: '2024-08-01T00:00:00.000Z', memberId: 'mem-1', categoryId, splits: [{ memberId: 'mem-1', amount }],
+});
+
+const training = [
+    expense('UPI SWIGGY ORDER', 45000, 'cat-3'),
+    expense('SWIGGY BANGALORE', 38000, 'cat-3'),
+    expense('ZOMATO ORDER', 52000, 'cat-3'),
+    expense('BESCOM ELECTRICITY BILL', 240000, 'cat-2'),
+    expense('AIRTEL BROADBAND BILL', 99900, 'cat-2'),
+];
+
+describe('tokenizeDescription', () => {
+    it('keeps meaningful words and drops bank boilerplate', () => {
+        expect(tokenizeDescription('UPI/1234/SWIGGY-Order to Swiggy Pvt Ltd')).toEqual(['swiggy', 'order', 'swiggy']);
+    });
+});
+
+describe('createCategoryClassifier', () => {
+    it('predicts the category of familiar merchants', () => {
+        const classifier = createCategoryClassifier();
+        classifier.sync(training);
+        const prediction = classifier.predict('SWIGGY INSTAMART', 41000);
+        expect(prediction?.categoryId).toBe('cat-3');
+        expect(prediction!.confidence).toBeGreaterThanOrEqual(MIN_CONFIDENCE);
+    });
+
+    it('makes no prediction without a familiar word', () => {
+        const classifier = createCategoryClassifier();
+        classifier.sync(training);
+        expect(classifier.predict('DECATHLON', 45000)).toBeUndefined();
+    });
+
+    it('follows recategorised and deleted expenses on sync', () => {
+        const classifier = createCategoryClassifier();
+        classifier.sync(training);
+        const recategorised = training.map(e => (e.description.includes('SWIGGY') ? { ...e, categoryId: 'cat-1' } : e));
+        classifier.sync(recategorised);
+        expect(classifier.predict('SWIGGY', 41000)?.categoryId).toBe('cat-1');
+
+        classifier.sync(recategorised.filter(e => !e.description.includes('SWIGGY')));
+        expect(classifier.predict('SWIGGY', 41000)).toBeUndefined();
+    });
+});
+
+describe('suggestCategoryWithConfidence', () => {
+    const classifier = createCategoryClassifier();
+    classifier.sync(training);
+
+    it('uses a matching rule before the classifier', () => {
+        const household = { ...INITIAL_HOUSEHOLD_DATA, rules: [{ id: 'rule-1', keyword: 'swiggy', matchMode: 'contains' as const, priority: 0, categoryId: 'cat-1' }] };
+        const subject = { description: 'SWIGGY INSTAMART', amount: 41000, date: '2024-08-01' };
+        expect(suggestCategoryWithConfidence(subject, household, classifier)).toEqual({ categoryId: 'cat-1', confidence: 1, source: 'rule', ruleId: 'rule-1' });
+        expect(suggestCategoryWithConfidence(subject, { ...household, rules: [] }, classifier)).toMatchObject({ categoryId: 'cat-3', source: 'history' });
+    });
+});
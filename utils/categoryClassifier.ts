@@ -0,0 +1,142 @@
+import { Expense, Household, CategorySource } from '../types';
+import { findMatchingRule, RuleSubject } from './ruleEngine';
+
+export interface CategoryPrediction {
+    categoryId: string;
+    confidence: number; // 0-1
+}
+
+export interface CategorySuggestion extends CategoryPrediction {
+    source: Exclude<CategorySource, 'ai'>;
+    ruleId?: string; // the matching rule, whose other actions callers may apply
+}
+
+// Predictions below this confidence are left for the AI (or the user) to decide.
+export const MIN_CONFIDENCE = 0.7;
+
+export interface CategoryClassifier {
+    learn: (expense: Expense) => void;
+    forget: (expenseId: string) => void;
+    // Brings the model in line with the given expenses, learning only what changed since the last sync.
+    sync: (expenses: Expense[]) => void;
+    predict: (description: string, amountInCents: number) => CategoryPrediction | undefined;
+}
+
+// Words banks add to almost every line, which say nothing about the category.
+const STOP_WORDS = new Set(['upi', 'pos', 'ref', 'txn', 'payment', 'purchase', 'debit', 'card', 'to', 'from', 'the', 'and', 'of', 'at', 'in', 'for', 'pvt', 'ltd']);
+
+export const tokenizeDescription = (description: string): string[] => {
+    return description.toLowerCase()
+        .split(/[^a-z]+/)
+        .filter(word => word.length >= 2 && !STOP_WORDS.has(word));
+};
+
+// Amounts fall into half-decade buckets (₹10-31, ₹32-99, ₹100-315, ...), so a ₹60 coffee and a ₹6,000 bill look different.
+const amountToken = (amountInCents: number): string => {
+    const rupees = Math.max(amountInCents / 100, 1);
+    return `amount:${Math.floor(Math.log10(rupees) * 2)}`;
+};
+
+const trainingKey = (expense: Expense) => `${expense.categoryId}|${expense.amount}|${expense.description}`;
+
+/**
+ * Multinomial naive Bayes over description words plus an amount bucket, with Laplace smoothing.
+ * Counts are kept per category so single expenses can be learned and forgotten without retraining.
+ */
+export const createCategoryClassifier = (): CategoryClassifier => {
+    const examplesPerCategory = new Map<string, number>();
+    const tokenCounts = new Map<string, Map<string, number>>();
+    const tokensPerCategory = new Map<string, number>();
+    const vocabulary = new Map<string, number>(); // token -> number of occurrences across all categories
+    const trained = new Map<string, { key: string; categoryId: string; tokens: string[] }>();
+    let exampleCount = 0;
+
+    const adjust = (categoryId: string, tokens: string[], delta: 1 | -1) => {
+        exampleCount += delta;
+        examplesPerCategory.set(categoryId, (examplesPerCategory.get(categoryId) || 0) + delta);
+        if (examplesPerCategory.get(categoryId) === 0) examplesPerCategory.delete(categoryId);
+
+        const counts = tokenCounts.get(categoryId) || new Map<string, number>();
+        tokens.forEach(token => {
+            counts.set(token, (counts.get(token) || 0) + delta);
+            if (counts.get(token) === 0) counts.delete(token);
+            vocabulary.set(token, (vocabulary.get(token) || 0) + delta);
+            if (vocabulary.get(token) === 0) vocabulary.delete(token);
+        });
+        if (counts.size > 0) tokenCounts.set(categoryId, counts); else tokenCounts.delete(categoryId);
+        tokensPerCategory.set(categoryId, (tokensPerCategory.get(categoryId) || 0) + delta * tokens.length);
+        if (tokensPerCategory.get(categoryId) === 0) tokensPerCategory.delete(categoryId);
+    };
+
+    const forget = (expenseId: string) => {
+        const example = trained.get(expenseId);
+        if (!example) return;
+        adjust(example.categoryId, example.tokens, -1);
+        trained.delete(expenseId);
+    };
+
+    const learn = (expense: Expense) => {
+        forget(expense.id);
+        const tokens = [...tokenizeDescription(expense.description), amountToken(expense.amount)];
+        adjust(expense.categoryId, tokens, 1);
+        trained.set(expense.id, { key: trainingKey(expense), categoryId: expense.categoryId, tokens });
+    };
+
+    const sync = (expenses: Expense[]) => {
+        const currentIds = new Set(expenses.map(e => e.id));
+        [...trained.keys()].filter(id => !currentIds.has(id)).forEach(forget);
+        expenses.forEach(expense => {
+            if (trained.get(expense.id)?.key !== trainingKey(expense)) learn(expense);
+        });
+    };
+
+    const predict = (description: string, amountInCents: number): CategoryPrediction | undefined => {
+        const words = tokenizeDescription(description);
+        // Without a single familiar word, the amount alone is not enough to go on.
+        if (exampleCount === 0 || !words.some(word => vocabulary.has(word))) return undefined;
+
+        const tokens = [...words, amountToken(amountInCents)];
+        const scores = [...examplesPerCategory.entries()].map(([categoryId, examples]) => {
+            const counts = tokenCounts.get(categoryId);
+            const denominator = (tokensPerCategory.get(categoryId) || 0) + vocabulary.size;
+            const logLikelihood = tokens.reduce((sum, token) => sum + Math.log(((counts?.get(token) || 0) + 1) / denominator), 0);
+            return { categoryId, score: Math.log(examples / exampleCount) + logLikelihood };
+        });
+
+        // Softmax over the log scores gives each category's posterior probability.
+        const best = scores.reduce((a, b) => (b.score > a.score ? b : a));
+        const total = scores.reduce((sum, s) => sum + Math.exp(s.score - best.score), 0);
+        return { categoryId: best.categoryId, confidence: 1 / total };
+    };
+
+    return { learn, forget, sync, predict };
+};
+
+const householdClassifier = createCategoryClassifier();
+
+/**
+ * Keeps the shared classifier up to date with every expense in the household, trips included.
+ * `Household.expenses` holds only recent months, so the app loads the full list for this.
+ */
+export const syncCategoryClassifier = (expenses: Expense[]) => {
+    householdClassifier.sync(expenses);
+};
+
+export const getCategoryClassifier = (): CategoryClassifier => householdClassifier;
+
+/**
+ * The household's rules win outright; otherwise the classifier's guess, however confident.
+ * Callers compare `confidence` with MIN_CONFIDENCE to decide whether to trust it.
+ */
+export const suggestCategoryWithConfidence = (
+    subject: RuleSubject,
+    household: Household,
+    classifier: CategoryClassifier = getCategoryClassifier()
+): CategorySuggestion | undefined => {
+    const rule = findMatchingRule(household.rules, subject);
+    if (rule) return { categoryId: rule.categoryId, confidence: 1, source: 'rule', ruleId: rule.id };
+
+    const prediction = classifier.predict(subject.description, subject.amount);
+    if (!prediction || !household.categories.some(c => c.id === prediction.categoryId)) return undefined;
+    return { ...prediction, source: 'history' };
+};
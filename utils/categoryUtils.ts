@@ -0,0 +1,74 @@
+import { Category, Household } from '../types';
+import type { CategoryTotal } from '../services/dbCore';
+
+// Categories are at most two levels deep: a top-level category and its sub-categories.
+
+export const getSubcategories = (categories: Category[], parentId: string): Category[] => {
+    return categories.filter(c => c.parentId === parentId);
+};
+
+// The category plus its sub-categories, i.e. every category whose spend counts towards it.
+export const getCategoryFamilyIds = (categories: Category[], categoryId: string): string[] => {
+    return [categoryId, ...getSubcategories(categories, categoryId).map(c => c.id)];
+};
+
+// e.g. "Utilities › Electricity" for a sub-category, "Utilities" for a top-level one.
+export const getCategoryPath = (categories: Category[], categoryId: string): string => {
+    const category = categories.find(c => c.id === categoryId);
+    if (!category) return 'Uncategorized';
+    const parent = category.parentId ? categories.find(c => c.id === category.parentId) : undefined;
+    return parent ? `${parent.name} › ${category.name}` : category.name;
+};
+
+/**
+ * Top-level categories in their stored order, each followed by its sub-categories,
+ * for select boxes and lists. `depth` is 1 for sub-categories.
+ */
+export const getCategoryTree = (categories: Category[]): Array<{ category: Category; depth: 0 | 1 }> => {
+    const ids = new Set(categories.map(c => c.id));
+    // A sub-category whose parent is missing is shown as top-level rather than hidden.
+    const topLevel = categories.filter(c => !c.parentId || !ids.has(c.parentId));
+    return topLevel.flatMap(category => [
+        { category, depth: 0 as const },
+        ...getSubcategories(categories, category.id).map(child => ({ category: child, depth: 1 as const })),
+    ]);
+};
+
+// Label for an <option>, indenting sub-categories under their parent. Browsers drop plain leading spaces there.
+export const getCategoryOptionLabel = (category: Category, depth: 0 | 1): string => {
+    return `${depth === 1 ? '\u00A0\u00A0\u00A0\u00A0' : ''}${category.icon} ${category.name}`;
+};
+
+// How many records point at a category. A category in use has to be merged rather than deleted.
+// `categoryTotals` are the totals of every expense, trips included.
+export const getCategoryUsage = (household: Household, categoryId: string, categoryTotals: CategoryTotal[]) => ({
+    expenses: categoryTotals.find(t => t.categoryId === categoryId)?.count ?? 0,
+    budgets: household.budgets.filter(b => b.categoryId === categoryId && b.amount > 0).length,
+    rules: household.rules.filter(r => r.categoryId === categoryId).length,
+    subscriptions: household.subscriptions.filter(s => s.categoryId === categoryId).length,
+    subcategories: getSubcategories(household.categories, categoryId).length,
+});
+
+// Returns why `parentId` can't be the parent of `categoryId`, or null if it can.
+export const getParentError = (categories: Category[], categoryId: string | null, parentId: string | null): string | null => {
+    if (!parentId) return null;
+    const parent = categories.find(c => c.id === parentId);
+    if (!parent) return 'The parent category no longer exists.';
+    if (parentId === categoryId) return 'A category cannot be its own parent.';
+    if (parent.parentId) return `"${parent.name}" is already a sub-category; sub-categories cannot have their own.`;
+    if (categoryId && getSubcategories(categories, categoryId).length > 0) return 'This category has sub-categories, so it cannot become one.';
+    return null;
+};
+
+// Returns why `sourceId` can't be merged into `targetId`, or null if it can.
+export const getMergeError = (categories: Category[], sourceId: string, targetId: string): string | null => {
+    if (!targetId || sourceId === targetId) return 'Choose a different category to merge into.';
+    const target = categories.find(c => c.id === targetId);
+    if (!target) return 'The category to merge into no longer exists.';
+    if (target.parentId === sourceId) return `"${target.name}" is a sub-category of this one; move it out first.`;
+    // The source's sub-categories move to the target, which must then be able to hold them.
+    if (target.parentId && getSubcategories(categories, sourceId).length > 0) {
+        return `"${target.name}" is a sub-category, so it cannot take this category's sub-categories.`;
+    }
+    return null;
+};
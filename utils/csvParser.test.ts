@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import {
+    parseCsv, parseCsvAmount, parseCsvDate, detectDateFormat, detectDelimiter, detectDecimalSeparator,
+    guessColumnMapping, applyColumnMapping,
+} from './csvParser';
+
+describe('parseCsvAmount', () => {
+    it('reads point-decimal amounts with grouping and currency symbols', () => {
+        expect(parseCsvAmount('₹1,250.50')).toBe(1250.5);
+        expect(parseCsvAmount('1,00,000.00')).toBe(100000);
+        expect(parseCsvAmount('45')).toBe(45);
+    });
+
+    it('reads comma-decimal amounts', () => {
+        expect(parseCsvAmount('12,50', ',')).toBe(12.5);
+        expect(parseCsvAmount('1.250,50', ',')).toBe(1250.5);
+        expect(parseCsvAmount('-1.250,50 €', ',')).toBe(-1250.5);
+        expect(parseCsvAmount('1 250,50', ',')).toBe(1250.5);
+    });
+
+    it('treats a leading or trailing minus, parentheses and Dr as negative', () => {
+        expect(parseCsvAmount('-45')).toBe(-45);
+        expect(parseCsvAmount('-₹45')).toBe(-45);
+        expect(parseCsvAmount('₹-45')).toBe(-45);
+        expect(parseCsvAmount('45-')).toBe(-45);
+        expect(parseCsvAmount('(300.00)')).toBe(-300);
+        expect(parseCsvAmount('1,200.00 Dr')).toBe(-1200);
+        expect(parseCsvAmount('1,200.00 Cr')).toBe(1200);
+    });
+
+    it('ignores hyphens inside the value', () => {
+        expect(parseCsvAmount('12-34')).toBe(1234);
+    });
+
+    it('returns null for empty or non-numeric cells', () => {
+        expect(parseCsvAmount('')).toBeNull();
+        expect(parseCsvAmount('  ')).toBeNull();
+        expect(parseCsvAmount('n/a')).toBeNull();
+    });
+});
+
+describe('detectDecimalSeparator', () => {
+    it('detects a comma from decimal-comma samples', () => {
+        expect(detectDecimalSeparator(['12,50', '1.250,00', '-3,99'])).toBe(',');
+    });
+
+    it('detects a point from point-decimal samples', () => {
+        expect(detectDecimalSeparator(['12.50', '1,250.00', '-3.99'])).toBe('.');
+    });
+
+    it('does not take a three-digit group for decimals', () => {
+        expect(detectDecimalSeparator(['1,250', '2,000', '12.5'])).toBe('.');
+    });
+});
+
+describe('parseCsvDate', () => {
+    it('reads numeric dates in each format', () => {
+        expect(parseCsvDate('15/08/2024', 'DD/MM/YYYY')).toBe('2024-08-15');
+        expect(parseCsvDate('08/15/2024', 'MM/DD/YYYY')).toBe('2024-08-15');
+        expect(parseCsvDate('2024-08-15T10:30:00', 'YYYY-MM-DD')).toBe('2024-08-15');
+        expect(parseCsvDate('15.08.24', 'DD/MM/YYYY')).toBe('2024-08-15');
+    });
+
+    it('reads month-name dates whatever the format', () => {
+        expect(parseCsvDate('15 Aug 2024', 'DD/MM/YYYY')).toBe('2024-08-15');
+        expect(parseCsvDate('15-Aug-24', 'MM/DD/YYYY')).toBe('2024-08-15');
+        expect(parseCsvDate('15 August 2024', 'YYYY-MM-DD')).toBe('2024-08-15');
+        expect(parseCsvDate('Aug 15, 2024', 'DD/MM/YYYY')).toBe('2024-08-15');
+        expect(parseCsvDate('5 Sept 2024 10:30', 'DD/MM/YYYY')).toBe('2024-09-05');
+    });
+
+    it('returns null for unreadable dates', () => {
+        expect(parseCsvDate('15 Foo 2024', 'DD/MM/YYYY')).toBeNull();
+        expect(parseCsvDate('Opening balance', 'DD/MM/YYYY')).toBeNull();
+        expect(parseCsvDate('32/01/2024', 'DD/MM/YYYY')).toBeNull();
+    });
+});
+
+describe('detectDateFormat', () => {
+    it('uses days above 12 to tell the order apart', () => {
+        expect(detectDateFormat(['01/02/2024', '25/02/2024'])).toBe('DD/MM/YYYY');
+        expect(detectDateFormat(['01/02/2024', '02/25/2024'])).toBe('MM/DD/YYYY');
+        expect(detectDateFormat(['2024-02-25'])).toBe('YYYY-MM-DD');
+    });
+});
+
+describe('parseCsv', () => {
+    it('detects semicolons and skips preamble lines', () => {
+        const text = 'Account;12345\n\nDate;Description;Amount\n15.08.2024;Coffee;-3,50\n16.08.2024;"Salary; August";2.000,00\n';
+        expect(detectDelimiter(text)).toBe(';');
+        const csv = parseCsv(text);
+        expect(csv.headers).toEqual(['Date', 'Description', 'Amount']);
+        expect(csv.rows).toEqual([
+            ['15.08.2024', 'Coffee', '-3,50'],
+            ['16.08.2024', 'Salary; August', '2.000,00'],
+        ]);
+    });
+});
+
+describe('applyColumnMapping', () => {
+    it('imports a decimal-comma statement through the guessed mapping', () => {
+        const csv = parseCsv('Datum;Buchungstext;Betrag\n15.08.2024;Supermarkt;-12,50\n16.08.2024;Gehalt;1.250,00\n');
+        const mapping = guessColumnMapping(csv.headers, csv.rows);
+        expect(mapping.decimalSeparator).toBe(',');
+        expect(applyColumnMapping(csv.rows, mapping)).toEqual([
+            { date: '2024-08-15', description: 'Supermarkt', amount: 12.5, type: 'debit' },
+            { date: '2024-08-16', description: 'Gehalt', amount: 1250, type: 'credit' },
+        ]);
+    });
+
+    it('detects the separator for profiles saved without one', () => {
+        const rows = [['15 Aug 2024', 'Rent', '1.250,00', '']];
+        const transactions = applyColumnMapping(rows, {
+            dateColumn: 0, descriptionColumn: 1, amountMode: 'split', debitColumn: 2, creditColumn: 3,
+            negativeIsDebit: true, dateFormat: 'DD/MM/YYYY',
+        });
+        expect(transactions).toEqual([{ date: '2024-08-15', description: 'Rent', amount: 1250, type: 'debit' }]);
+    });
+
+    it('reads point-decimal debit and credit columns', () => {
+        const csv = parseCsv('Txn Date,Narration,Withdrawal,Deposit\n01/08/2024,UPI Swiggy,"1,250.50",\n02/08/2024,Salary,,"85,000.00"\n');
+        const mapping = guessColumnMapping(csv.headers, csv.rows);
+        expect(mapping.amountMode).toBe('split');
+        expect(applyColumnMapping(csv.rows, mapping)).toEqual([
+            { date: '2024-08-01', description: 'UPI Swiggy', amount: 1250.5, type: 'debit' },
+            { date: '2024-08-02', description: 'Salary', amount: 85000, type: 'credit' },
+        ]);
+    });
+});
@@ -0,0 +1,289 @@
+import { CsvColumnMapping, CsvDateFormat, CsvDecimalSeparator, ParsedTransaction } from '../types';
+
+type UncategorizedTransaction = Omit<ParsedTransaction, 'categoryId' | 'memberId'>;
+
+export interface ParsedCsv {
+    headers: string[];
+    rows: string[][];
+}
+
+const DELIMITER_CANDIDATES = [',', ';', '\t', '|'];
+const QUOTE_CANDIDATES = ['"', "'"];
+
+// Splits a single line, honouring quoted fields and doubled quotes inside them.
+const splitLine = (line: string, delimiter: string, quote: string): string[] => {
+    const cells: string[] = [];
+    let current = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (inQuotes) {
+            if (char === quote && line[i + 1] === quote) {
+                current += quote;
+                i++;
+            } else if (char === quote) {
+                inQuotes = false;
+            } else {
+                current += char;
+            }
+        } else if (char === quote && current.trim() === '') {
+            inQuotes = true;
+            current = '';
+        } else if (char === delimiter) {
+            cells.push(current.trim());
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    cells.push(current.trim());
+    return cells;
+};
+
+// Joins physical lines back together when a quoted field contains a line break.
+const splitRecords = (text: string, quote: string): string[] => {
+    const records: string[] = [];
+    let current = '';
+    let quoteCount = 0;
+    for (const line of text.replace(/^\uFEFF/, '').split(/\r\n|\n|\r/)) {
+        current = current ? `${current}\n${line}` : line;
+        quoteCount += line.split(quote).length - 1;
+        if (quoteCount % 2 === 0) {
+            records.push(current);
+            current = '';
+            quoteCount = 0;
+        }
+    }
+    if (current) records.push(current);
+    return records.filter(r => r.trim() !== '');
+};
+
+export const detectQuoteChar = (text: string): string => {
+    const sample = text.slice(0, 5000);
+    const counts = QUOTE_CANDIDATES.map(q => ({ quote: q, count: (sample.match(new RegExp(`(^|[,;\\t|])${q}`, 'gm')) || []).length }));
+    counts.sort((a, b) => b.count - a.count);
+    return counts[0].count > 0 ? counts[0].quote : '"';
+};
+
+/**
+ * Picks the delimiter that splits the most sample lines into the same,
+ * largest number of columns.
+ */
+export const detectDelimiter = (text: string, quote: string = '"'): string => {
+    const lines = splitRecords(text, quote).slice(0, 20);
+    let best = { delimiter: ',', score: 0 };
+
+    for (const delimiter of DELIMITER_CANDIDATES) {
+        const columnCounts = lines.map(line => splitLine(line, delimiter, quote).length);
+        const frequency = new Map<number, number>();
+        columnCounts.forEach(c => frequency.set(c, (frequency.get(c) || 0) + 1));
+        const [columns, occurrences] = [...frequency.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0] || [1, 0];
+        const score = columns > 1 ? occurrences * columns : 0;
+        if (score > best.score) best = { delimiter, score };
+    }
+    return best.delimiter;
+};
+
+/**
+ * Parses CSV text into a header row and data rows.
+ * Bank exports often start with account details, so the header is taken to be the
+ * first row that has the most common column count.
+ */
+export const parseCsv = (text: string): ParsedCsv => {
+    const quote = detectQuoteChar(text);
+    const delimiter = detectDelimiter(text, quote);
+    const records = splitRecords(text, quote).map(line => splitLine(line, delimiter, quote));
+    if (records.length === 0) return { headers: [], rows: [] };
+
+    const frequency = new Map<number, number>();
+    records.forEach(r => frequency.set(r.length, (frequency.get(r.length) || 0) + 1));
+    const [columnCount] = [...frequency.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0];
+    const headerIndex = records.findIndex(r => r.length === columnCount);
+
+    return {
+        headers: records[headerIndex],
+        rows: records.slice(headerIndex + 1).filter(r => r.length === columnCount),
+    };
+};
+
+export const getHeaderSignature = (headers: string[]): string => {
+    return headers.map(h => h.trim().toLowerCase().replace(/\s+/g, ' ')).join('|');
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * The three parts of the date in a value, in the order written: "15/08/2024", "2024-08-15T10:30",
+ * "15 Aug 2024" and "15-Aug-24" give day or year first; "Aug 15, 2024" is reordered to day first.
+ */
+const splitDate = (value: string): string[] => {
+    const trimmed = value.trim();
+    const dayThenMonthName = trimmed.match(/^(\d{1,2})[\s\-\/.]+([a-z]{3,})\.?[\s\-\/.,]+(\d{2,4})\b/i);
+    if (dayThenMonthName) return dayThenMonthName.slice(1, 4);
+    const monthNameThenDay = trimmed.match(/^([a-z]{3,})\.?\s+(\d{1,2}),?\s+(\d{2,4})\b/i);
+    if (monthNameThenDay) return [monthNameThenDay[2], monthNameThenDay[1], monthNameThenDay[3]];
+    return trimmed.split(/[\s,T]+/)[0].split(/[\/\-.]/);
+};
+
+/**
+ * Guesses the date order from sample values. A day above 12 in the first position
+ * means DD/MM, in the second position MM/DD. Ambiguous samples default to DD/MM/YYYY.
+ */
+export const detectDateFormat = (values: string[]): CsvDateFormat => {
+    let dayFirst = 0;
+    let monthFirst = 0;
+    for (const value of values) {
+        const parts = splitDate(value);
+        if (parts.length !== 3) continue;
+        if (parts[0].length === 4) return 'YYYY-MM-DD';
+        const [first, second] = parts.map(p => parseInt(p, 10));
+        if (first > 12) dayFirst++;
+        if (second > 12) monthFirst++;
+    }
+    return monthFirst > dayFirst ? 'MM/DD/YYYY' : 'DD/MM/YYYY';
+};
+
+// Returns the date as "YYYY-MM-DD", or null when it cannot be read with the given format.
+export const parseCsvDate = (value: string, format: CsvDateFormat): string | null => {
+    const parts = splitDate(value);
+    if (parts.length !== 3) return null;
+
+    let year: number;
+    let month: number;
+    let day: number;
+    const [a, b, c] = parts;
+    // Month names such as "15-Aug-2024" are unambiguous whatever the format.
+    const isNamedMonth = /^[a-z]+$/i.test(b);
+    if (format === 'YYYY-MM-DD' && !isNamedMonth) {
+        [year, month, day] = parts.map(p => parseInt(p, 10));
+    } else {
+        if (isNamedMonth) {
+            day = parseInt(a, 10);
+            month = MONTH_NAMES.indexOf(b.slice(0, 3).toLowerCase()) + 1;
+        } else if (format === 'DD/MM/YYYY') {
+            day = parseInt(a, 10);
+            month = parseInt(b, 10);
+        } else {
+            month = parseInt(a, 10);
+            day = parseInt(b, 10);
+        }
+        year = parseInt(c, 10);
+        if (c.length === 2) year += 2000;
+    }
+
+    if (!year || !month || !day || month > 12 || day > 31) return null;
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+/**
+ * Guesses the decimal separator from sample amounts. When both '.' and ',' appear, the last one is
+ * the decimal separator ("1.250,50"); a lone separator followed by one or two digits is one too ("12,50").
+ * A lone separator followed by three digits ("1,250") is taken as grouping and doesn't count.
+ */
+export const detectDecimalSeparator = (values: string[]): CsvDecimalSeparator => {
+    let point = 0;
+    let comma = 0;
+    for (const value of values) {
+        const digits = value.replace(/[^\d.,]/g, '');
+        const lastPoint = digits.lastIndexOf('.');
+        const lastComma = digits.lastIndexOf(',');
+        if (lastPoint >= 0 && lastComma >= 0) {
+            if (lastComma > lastPoint) comma++; else point++;
+        } else if (lastComma >= 0 && /,\d{1,2}$/.test(digits)) {
+            comma++;
+        } else if (lastPoint >= 0 && /\.\d{1,2}$/.test(digits)) {
+            point++;
+        }
+    }
+    return comma > point ? ',' : '.';
+};
+
+/**
+ * Reads amounts like "₹1,250.50", "(300.00)", "-45", "45-", "1,200.00 Dr" or, with a ',' separator,
+ * "1.250,50". A minus only counts at the start or end, so references like "12-34" aren't negative.
+ * Empty cells return null.
+ */
+export const parseCsvAmount = (value: string, decimalSeparator: CsvDecimalSeparator = '.'): number | null => {
+    const trimmed = value.trim();
+    if (!trimmed) return null;
+    const isDebitMarked = /(^|[\s\d])dr\.?$/i.test(trimmed);
+    const body = trimmed.replace(/(^|[\s\d])(dr|cr)\.?$/i, '$1').trim();
+    const isParenthesized = /^\(.*\)$/.test(body);
+    // The sign may sit outside a currency symbol: "-₹45" or "₹-45".
+    const isNegative = isParenthesized || isDebitMarked || /^[^\d]*-/.test(body) || /-$/.test(body);
+    const groupSeparator = decimalSeparator === ',' ? '.' : ',';
+    const normalized = body
+        .split(groupSeparator).join('')
+        .replace(decimalSeparator, '.')
+        .replace(/[^\d.]/g, '');
+    const numeric = parseFloat(normalized);
+    if (isNaN(numeric)) return null;
+    return isNegative ? -numeric : numeric;
+};
+
+const findColumn = (headers: string[], patterns: RegExp[]): number | undefined => {
+    for (const pattern of patterns) {
+        const index = headers.findIndex(h => pattern.test(h.toLowerCase()));
+        if (index >= 0) return index;
+    }
+    return undefined;
+};
+
+const getAmountSamples = (rows: string[][], columns: (number | undefined)[]): string[] => {
+    return rows.slice(0, 50).flatMap(r => columns.filter(c => c !== undefined).map(c => r[c!] || ''));
+};
+
+// Proposes a mapping from common bank header names, for the user to confirm.
+export const guessColumnMapping = (headers: string[], rows: string[][]): CsvColumnMapping => {
+    const dateColumn = findColumn(headers, [/(trans|txn|posting).*date/, /date/]) ?? 0;
+    const descriptionColumn = findColumn(headers, [/desc/, /narration/, /particular/, /detail/, /remark/, /memo/, /payee/]) ?? 1;
+    const debitColumn = findColumn(headers, [/debit/, /withdraw/, /paid out/, /^dr\b/]);
+    const creditColumn = findColumn(headers, [/credit/, /deposit/, /paid in/, /^cr\b/]);
+    const amountColumn = findColumn(headers, [/amount/, /amt/, /value/]);
+
+    const isSplit = debitColumn !== undefined && creditColumn !== undefined;
+    return {
+        dateColumn,
+        descriptionColumn,
+        amountMode: isSplit ? 'split' : 'single',
+        amountColumn: isSplit ? undefined : amountColumn ?? 2,
+        debitColumn: isSplit ? debitColumn : undefined,
+        creditColumn: isSplit ? creditColumn : undefined,
+        negativeIsDebit: true,
+        dateFormat: detectDateFormat(rows.slice(0, 50).map(r => r[dateColumn] || '')),
+        decimalSeparator: detectDecimalSeparator(getAmountSamples(rows, isSplit ? [debitColumn, creditColumn] : [amountColumn ?? 2])),
+    };
+};
+
+/**
+ * Turns data rows into transactions using the mapping.
+ * Rows without a readable date or amount (totals, balances, blank lines) are skipped.
+ */
+export const applyColumnMapping = (rows: string[][], mapping: CsvColumnMapping): UncategorizedTransaction[] => {
+    const transactions: UncategorizedTransaction[] = [];
+    const decimalSeparator = mapping.decimalSeparator ?? detectDecimalSeparator(getAmountSamples(rows,
+        mapping.amountMode === 'split' ? [mapping.debitColumn, mapping.creditColumn] : [mapping.amountColumn]));
+
+    for (const row of rows) {
+        const date = parseCsvDate(row[mapping.dateColumn] || '', mapping.dateFormat);
+        const description = (row[mapping.descriptionColumn] || '').trim();
+        if (!date || !description) continue;
+
+        if (mapping.amountMode === 'split') {
+            const debit = parseCsvAmount(row[mapping.debitColumn ?? -1] || '', decimalSeparator);
+            const credit = parseCsvAmount(row[mapping.creditColumn ?? -1] || '', decimalSeparator);
+            if (debit) {
+                transactions.push({ date, description, amount: Math.abs(debit), type: 'debit' });
+            } else if (credit) {
+                transactions.push({ date, description, amount: Math.abs(credit), type: 'credit' });
+            }
+        } else {
+            const amount = parseCsvAmount(row[mapping.amountColumn ?? -1] || '', decimalSeparator);
+            if (!amount) continue;
+            const isDebit = mapping.negativeIsDebit ? amount < 0 : amount > 0;
+            transactions.push({ date, description, amount: Math.abs(amount), type: isDebit ? 'debit' : 'credit' });
+        }
+    }
+    return transactions;
+};
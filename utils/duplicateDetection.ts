@@ -0,0 +1,81 @@
+import { Expense, ParsedTransaction } from '../types';
+
+export interface DuplicateMatch {
+    recordId: string; // the matching expense or income
+    reason: string;
+}
+
+// The fields shared by expenses and incomes that duplicate matching looks at.
+export type DuplicateCandidate = Pick<Expense, 'id' | 'description' | 'amount' | 'date' | 'externalId'>;
+
+// How many days apart a transaction and its duplicate can be.
+export const DUPLICATE_WINDOW_DAYS = 3;
+const MIN_DESCRIPTION_SIMILARITY = 0.4;
+
+// Strips reference numbers and punctuation that banks add around the merchant name.
+const normalizeDescription = (description: string): string => {
+    return description.toLowerCase().replace(/[^a-z]+/g, ' ').trim();
+};
+
+const bigrams = (value: string): Map<string, number> => {
+    const counts = new Map<string, number>();
+    for (let i = 0; i < value.length - 1; i++) {
+        const pair = value.slice(i, i + 2);
+        counts.set(pair, (counts.get(pair) || 0) + 1);
+    }
+    return counts;
+};
+
+// Dice coefficient over character bigrams: 1 for identical text, 0 for nothing in common.
+export const descriptionSimilarity = (a: string, b: string): number => {
+    const first = normalizeDescription(a);
+    const second = normalizeDescription(b);
+    if (!first || !second) return 0;
+    if (first === second || first.includes(second) || second.includes(first)) return 1;
+
+    const firstBigrams = bigrams(first);
+    const secondBigrams = bigrams(second);
+    let overlap = 0;
+    firstBigrams.forEach((count, pair) => {
+        overlap += Math.min(count, secondBigrams.get(pair) || 0);
+    });
+    return (2 * overlap) / (first.length - 1 + second.length - 1);
+};
+
+const daysBetween = (a: string, b: string): number => {
+    const toDay = (date: string) => new Date(date.split('T')[0]).getTime();
+    return Math.abs(toDay(a) - toDay(b)) / 86400000;
+};
+
+/**
+ * Looks for an existing record that a parsed transaction likely duplicates.
+ * A matching bank transaction ID is conclusive; otherwise the amount must be equal,
+ * the dates close and the descriptions similar.
+ */
+export const findDuplicate = (
+    transaction: Omit<ParsedTransaction, 'categoryId' | 'memberId'>,
+    records: DuplicateCandidate[]
+): DuplicateMatch | null => {
+    if (transaction.externalId) {
+        const byId = records.find(r => r.externalId === transaction.externalId);
+        if (byId) return { recordId: byId.id, reason: 'Same bank transaction ID' };
+    }
+
+    const amountInCents = Math.round(transaction.amount * 100);
+    let best: { record: DuplicateCandidate; similarity: number; days: number } | null = null;
+
+    for (const record of records) {
+        if (record.amount !== amountInCents) continue;
+        const days = daysBetween(transaction.date, record.date);
+        if (days > DUPLICATE_WINDOW_DAYS) continue;
+        const similarity = descriptionSimilarity(transaction.description, record.description);
+        if (similarity < MIN_DESCRIPTION_SIMILARITY) continue;
+        if (!best || similarity > best.similarity || (similarity === best.similarity && days < best.days)) {
+            best = { record, similarity, days };
+        }
+    }
+
+    if (!best) return null;
+    const when = best.days === 0 ? 'on the same day' : `${best.days} day(s) apart`;
+    return { recordId: best.record.id, reason: `Same amount ${when}, ${Math.round(best.similarity * 100)}% similar description` };
+};
@@ -1,11 +1,7 @@
-import { Rule, Category } from '../types';
+import { Trip } from '../types';
 
-export const suggestCategory = (description: string, rules: Rule[], categories: Category[]): string | undefined => {
-  const lowercasedDescription = description.toLowerCase();
-  for (const rule of rules) {
-    if (lowercasedDescription.includes(rule.keyword.toLowerCase())) {
-      return rule.categoryId;
-    }
-  }
-  return undefined;
+// Returns the trip whose date range (inclusive) contains the given date.
+export const findTripForDate = (date: string, trips: Trip[]): Trip | undefined => {
+  const day = date.split('T')[0];
+  return trips.find(t => t.startDate.split('T')[0] <= day && day <= t.endDate.split('T')[0]);
 };
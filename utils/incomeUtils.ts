@@ -0,0 +1,98 @@
+import { Expense, Income, IncomeKind, ParsedTransaction } from '../types';
+import { descriptionSimilarity } from './duplicateDetection';
+
+const SALARY_PATTERN = /salary|payroll|\bsal\b|wages|stipend/i;
+const REFUND_PATTERN = /refund|reversal|reversed|return|\brev\b/i;
+// How many days after an expense a refund of it can arrive.
+export const REFUND_WINDOW_DAYS = 90;
+const MIN_REFUND_SIMILARITY = 0.4;
+
+export interface RefundCandidate {
+    expense: Expense;
+    similarity: number;
+}
+
+/**
+ * Expenses a credit could be refunding: earlier than the credit, within the refund
+ * window and at least as large. Best description matches come first.
+ */
+export const getRefundCandidates = (
+    credit: Pick<ParsedTransaction, 'date' | 'description' | 'amount'>,
+    expenses: Expense[]
+): RefundCandidate[] => {
+    const creditTime = new Date(credit.date).getTime();
+    const amountInCents = Math.round(credit.amount * 100);
+    return expenses
+        .filter(e => {
+            const ageInDays = (creditTime - new Date(e.date.split('T')[0]).getTime()) / 86400000;
+            return ageInDays >= 0 && ageInDays <= REFUND_WINDOW_DAYS && e.amount >= amountInCents;
+        })
+        .map(expense => ({ expense, similarity: descriptionSimilarity(credit.description, expense.description) }))
+        .sort((a, b) => b.similarity - a.similarity || new Date(b.expense.date).getTime() - new Date(a.expense.date).getTime());
+};
+
+// Suggests how an imported credit should be recorded; the user can change it in the review.
+export const classifyCredit = (
+    credit: Pick<ParsedTransaction, 'date' | 'description' | 'amount'>,
+    expenses: Expense[]
+): { kind: IncomeKind; refundOfExpenseId: string | null } => {
+    if (SALARY_PATTERN.test(credit.description)) return { kind: 'salary', refundOfExpenseId: null };
+
+    const [best] = getRefundCandidates(credit, expenses);
+    if (best && best.similarity >= MIN_REFUND_SIMILARITY) {
+        return { kind: 'refund', refundOfExpenseId: best.expense.id };
+    }
+    if (REFUND_PATTERN.test(credit.description)) return { kind: 'refund', refundOfExpenseId: null };
+    return { kind: 'other', refundOfExpenseId: null };
+};
+
+export const getRefundedAmount = (expenseId: string, incomes: Income[]): number => {
+    return incomes
+        .filter(i => i.kind === 'refund' && i.refundOfExpenseId === expenseId)
+        .reduce((sum, i) => sum + i.amount, 0);
+};
+
+// What an expense still costs after refunds linked to it. Used for category spend and budgets.
+export const getNetExpenseAmount = (expense: Expense, incomes: Income[]): number => {
+    return Math.max(0, expense.amount - getRefundedAmount(expense.id, incomes));
+};
+
+export const isInMonth = (date: string, month: Date): boolean => {
+    const d = new Date(date);
+    return d.getFullYear() === month.getFullYear() && d.getMonth() === month.getMonth();
+};
+
+export interface CashFlow {
+    inflow: number; // in cents
+    outflow: number; // in cents
+    net: number; // in cents
+}
+
+// Money in minus money out by transaction date, so a refund counts in the month it arrives.
+export const computeCashFlow = (expenses: Expense[], incomes: Income[], month: Date): CashFlow => {
+    const inflow = incomes.filter(i => isInMonth(i.date, month)).reduce((sum, i) => sum + i.amount, 0);
+    const outflow = expenses.filter(e => isInMonth(e.date, month)).reduce((sum, e) => sum + e.amount, 0);
+    return { inflow, outflow, net: inflow - outflow };
+};
+
+export type SalaryStatus = 'not-set' | 'pending' | 'partial' | 'received';
+
+export interface SalaryReconciliation {
+    expected: number; // in cents
+    received: number; // in cents
+    difference: number; // received minus expected, in cents
+    status: SalaryStatus;
+}
+
+// Compares salary credits in the month against the household's expected monthly income.
+export const reconcileSalary = (incomes: Income[], monthlyIncome: number, month: Date): SalaryReconciliation => {
+    const received = incomes
+        .filter(i => i.kind === 'salary' && isInMonth(i.date, month))
+        .reduce((sum, i) => sum + i.amount, 0);
+    let status: SalaryStatus;
+    if (monthlyIncome <= 0) status = 'not-set';
+    else if (received === 0) status = 'pending';
+    else if (received < monthlyIncome) status = 'partial';
+    else status = 'received';
+    return { expected: monthlyIncome, received, difference: received - monthlyIncome, status };
+};
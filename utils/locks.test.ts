@@ -0,0 +1,26 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { withLock, withLockIfAvailable } from './locks';
+
+describe('without Web Locks', () => {
+    beforeEach(() => vi.stubGlobal('navigator', {}));
+    afterEach(() => vi.unstubAllGlobals());
+
+    it('runs withLock tasks straight away', async () => {
+        await expect(withLock('test', async () => 'done')).resolves.toBe('done');
+    });
+
+    it('reports the lock as held while another task has it', async () => {
+        let release!: () => void;
+        const first = withLockIfAvailable('test', lockHeld => new Promise<boolean>(resolve => { release = () => resolve(lockHeld); }));
+        await expect(withLockIfAvailable('test', async lockHeld => lockHeld)).resolves.toBe(false);
+        await expect(withLockIfAvailable('other', async lockHeld => lockHeld)).resolves.toBe(true);
+        release();
+        await expect(first).resolves.toBe(true);
+        await expect(withLockIfAvailable('test', async lockHeld => lockHeld)).resolves.toBe(true);
+    });
+
+    it('releases the lock when the task fails', async () => {
+        await expect(withLockIfAvailable('test', async () => { throw new Error('failed'); })).rejects.toThrow('failed');
+        await expect(withLockIfAvailable('test', async lockHeld => lockHeld)).resolves.toBe(true);
+    });
+});
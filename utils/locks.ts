@@ -0,0 +1,23 @@
+// Web Locks with a fallback for browsers without the API. There the locks only hold within one
+// tab or worker, so anything they guard across tabs must also be safe to run twice.
+
+// Names of the locks held in this tab or worker by `withLockIfAvailable` when Web Locks are missing.
+const heldLocks = new Set<string>();
+
+// Runs `task` holding the lock `name`, waiting for it if another tab holds it. Without Web Locks it runs straight away.
+export const withLock = <T>(name: string, task: () => Promise<T>): Promise<T> => {
+    if (!navigator.locks) return task();
+    return navigator.locks.request(name, task);
+};
+
+// Runs `task` with `lockHeld` false, instead of waiting, when the lock `name` is already held.
+export const withLockIfAvailable = async <T>(name: string, task: (lockHeld: boolean) => Promise<T>): Promise<T> => {
+    if (navigator.locks) return navigator.locks.request(name, { ifAvailable: true }, lock => task(lock !== null));
+    if (heldLocks.has(name)) return task(false);
+    heldLocks.add(name);
+    try {
+        return await task(true);
+    } finally {
+        heldLocks.delete(name);
+    }
+};
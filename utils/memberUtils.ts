@@ -0,0 +1,33 @@
+import { Household, Member } from '../types';
+import type { MemberTotal } from '../services/dbCore';
+
+/**
+ * Members who can be picked for new records. `keepIds` keeps archived members that
+ * the record being edited already refers to, so editing it doesn't drop them.
+ */
+export const getActiveMembers = (members: Member[], keepIds: string[] = []): Member[] => {
+    return members.filter(m => !m.archived || keepIds.includes(m.id));
+};
+
+// How much is recorded against a member. A member with any history has to be reassigned or archived.
+// `memberTotals` are the totals of every expense, trips included.
+export const getMemberUsage = (household: Household, memberId: string, memberTotals: MemberTotal[]) => {
+    const expenseTotals = memberTotals.find(t => t.memberId === memberId);
+    return {
+        paidExpenses: expenseTotals?.paidCount ?? 0,
+        splits: expenseTotals?.shareCount ?? 0,
+        incomes: household.incomes.filter(i => i.memberId === memberId).length,
+        settlements: household.settlements.filter(s => s.fromMemberId === memberId || s.toMemberId === memberId).length,
+        rules: household.rules.filter(r => r.payerMemberId === memberId || r.splitTemplate?.some(s => s.memberId === memberId)).length,
+    };
+};
+
+export const hasMemberHistory = (household: Household, memberId: string, memberTotals: MemberTotal[]): boolean => {
+    return Object.values(getMemberUsage(household, memberId, memberTotals)).some(count => count > 0);
+};
+
+export const getInitials = (name: string): string => {
+    const words = name.trim().split(/\s+/).filter(Boolean);
+    if (words.length === 0) return '?';
+    return (words.length === 1 ? words[0].slice(0, 2) : words[0][0] + words[words.length - 1][0]).toUpperCase();
+};
@@ -0,0 +1,44 @@
+import { Expense, Household, PendingAnalysis } from '../types';
+import { ReceiptAnalysis } from '../services/aiValidation';
+import { suggestCategoryWithConfidence, MIN_CONFIDENCE } from './categoryClassifier';
+import { applySplitTemplate } from './ruleEngine';
+import { getActiveMembers } from './memberUtils';
+
+// A receipt whose analysis failed this often is no longer retried automatically; the user can retry or discard it.
+export const MAX_ANALYSIS_ATTEMPTS = 3;
+
+export const isAwaitingAnalysis = (pending: PendingAnalysis): boolean => pending.attempts < MAX_ANALYSIS_ATTEMPTS;
+
+/**
+ * The expense for a receipt scanned offline, filled in the way the Add Expense form would have been:
+ * the AI's category if it names one of ours, otherwise the rule or classifier suggestion.
+ */
+export const buildExpenseFromReceipt = (pending: PendingAnalysis, analysis: ReceiptAnalysis, household: Household): Expense => {
+    const amount = Math.round(analysis.amount * 100);
+    const subject = { description: analysis.description, amount, date: pending.date };
+    const suggestion = suggestCategoryWithConfidence(subject, household);
+    const namedCategory = analysis.categoryName
+        ? household.categories.find(c => c.name.toLowerCase() === analysis.categoryName.toLowerCase())
+        : undefined;
+    const categoryId = namedCategory?.id
+        || (suggestion && suggestion.confidence >= MIN_CONFIDENCE ? suggestion.categoryId : household.categories[0]?.id);
+
+    // The payer may have been archived or removed since the receipt was scanned.
+    const activeMembers = getActiveMembers(household.members);
+    const memberId = activeMembers.some(m => m.id === pending.memberId) ? pending.memberId : pending.createdBy;
+    const splitTemplate = household.rules.find(r => r.id === suggestion?.ruleId)?.splitTemplate;
+
+    return {
+        id: `exp-${crypto.randomUUID()}`,
+        description: analysis.description,
+        amount,
+        categoryId,
+        memberId,
+        date: pending.date,
+        splits: splitTemplate?.length
+            ? applySplitTemplate(splitTemplate, amount, memberId).filter(s => s.amount > 0)
+            : [{ memberId, amount }],
+        tripId: pending.tripId,
+        createdBy: pending.createdBy,
+    };
+};
@@ -0,0 +1,178 @@
+import { ApprovalRequest, Budget, Expense, Household, Member, MemberRole, Trip } from '../types';
+
+export type Permission =
+    | 'recordExpenses' // add and edit expenses and record settle-up payments
+    | 'editOthersExpenses' // change the amount, payer or split of an expense another member paid or shares
+    | 'editBudgets'
+    | 'editIncome' // the household's monthly income
+    | 'deleteExpenses' // and settle-up payments
+    | 'deleteTrips'
+    | 'viewAllSplits' // see other members' shares of expenses and their balances
+    | 'manageMembers' // add, remove and archive members and change roles
+    | 'manageEncryption' // turn encryption of the stored database on or off and manage its keys
+    | 'manageAutoLock' // the household's auto-lock timeout
+    | 'manageBackups' // export the whole household, and restore or merge backups
+    | 'manageCategories' // add, edit, remove and merge categories
+    | 'manageRules' // categorisation rules, and accepting or dismissing rule suggestions
+    | 'manageSubscriptions'
+    | 'manageGoals' // savings goals and transfers into them
+    | 'manageSettings' // the AI provider and its keys, and email alerts
+    | 'requestApprovals' // ask an owner to make a change the role doesn't allow
+    | 'approveRequests';
+
+const ROLE_PERMISSIONS: Record<MemberRole, Permission[]> = {
+    owner: [
+        'recordExpenses', 'editOthersExpenses', 'editBudgets', 'editIncome', 'deleteExpenses', 'deleteTrips', 'viewAllSplits', 'manageMembers',
+        'manageEncryption', 'manageAutoLock', 'manageBackups', 'manageCategories', 'manageRules', 'manageSubscriptions', 'manageGoals',
+        'manageSettings', 'approveRequests',
+    ],
+    adult: ['recordExpenses', 'editOthersExpenses', 'deleteExpenses', 'viewAllSplits', 'manageCategories', 'manageRules', 'manageSubscriptions', 'manageGoals', 'requestApprovals'],
+    viewer: ['recordExpenses', 'requestApprovals'],
+};
+
+/**
+ * The permission needed to change each part of the household through updateHousehold. Trips and
+ * CSV profiles come with recording expenses; removing a trip also needs `deleteTrips`.
+ */
+export const HOUSEHOLD_UPDATE_PERMISSIONS: Partial<Record<keyof Omit<Household, 'id'>, Permission>> = {
+    categories: 'manageCategories',
+    rules: 'manageRules',
+    budgets: 'editBudgets',
+    bucketGoals: 'manageGoals',
+    trips: 'recordExpenses',
+    subscriptions: 'manageSubscriptions',
+    csvProfiles: 'recordExpenses',
+    aiSettings: 'manageSettings',
+    autoLockMinutes: 'manageAutoLock',
+    monthlyIncome: 'editIncome',
+    emailAlertsEnabled: 'manageSettings',
+};
+
+export const ROLE_LABELS: Record<MemberRole, string> = {
+    owner: 'Owner',
+    adult: 'Adult',
+    viewer: 'Viewer',
+};
+
+export const ROLE_DESCRIPTIONS: Record<MemberRole, string> = {
+    owner: 'Full access. Manages members and approves requests.',
+    adult: 'Adds, edits and deletes expenses and manages categories, rules, subscriptions and goals. Budget, income and trip changes need an owner’s approval.',
+    viewer: 'Adds expenses and edits only their own. Sees only their own shares; deleting anything needs an owner’s approval.',
+};
+
+export const roleHasPermission = (role: MemberRole | undefined, permission: Permission): boolean => {
+    return !!role && (ROLE_PERMISSIONS[role] || []).includes(permission);
+};
+
+export const hasPermission = (member: Member | undefined, permission: Permission): boolean => {
+    return !!member && !member.archived && roleHasPermission(member.role, permission);
+};
+
+/**
+ * Thrown by the database when the acting member's role doesn't allow a change. The UI turns
+ * restricted changes into approval requests before they get that far, so this is a safety net.
+ */
+export class PermissionError extends Error {
+    permission: Permission;
+
+    constructor(permission: Permission) {
+        super(`Your role does not allow this change (${permission}).`);
+        this.name = 'PermissionError';
+        this.permission = permission;
+    }
+}
+
+// Whether anyone other than `memberId` paid for the expense or has a share of it.
+export const involvesOtherMembers = (expense: Pick<Expense, 'memberId' | 'splits'>, memberId: string): boolean => {
+    return expense.memberId !== memberId || expense.splits.some(s => s.memberId !== memberId && s.amount > 0);
+};
+
+const describeMoney = (expense: Expense): string => {
+    const shares = expense.splits.filter(s => s.amount > 0).map(s => `${s.memberId}:${s.amount}`).sort();
+    return JSON.stringify([expense.amount, expense.memberId, shares]);
+};
+
+/**
+ * The permission needed to save `updated` over the stored `previous` version. Editing an expense
+ * another member paid for, or changing the amount, payer or split of one that involves other
+ * members before or after the change, needs `editOthersExpenses`; anything else `recordExpenses`.
+ */
+export const getExpenseEditPermission = (previous: Expense | null, updated: Expense, memberId: string): Permission => {
+    if (!previous) return 'recordExpenses';
+    if (previous.memberId !== memberId) return 'editOthersExpenses';
+    const changesMoney = describeMoney(previous) !== describeMoney(updated);
+    const isShared = involvesOtherMembers(previous, memberId) || involvesOtherMembers(updated, memberId);
+    return changesMoney && isShared ? 'editOthersExpenses' : 'recordExpenses';
+};
+
+// An approval request before it is stored: who asked and when are filled in by the caller.
+export type ApprovalDraft = Pick<ApprovalRequest, 'action' | 'payload' | 'summary'>;
+
+const formatCurrency = (amountInCents: number): string => {
+    const amount = amountInCents / 100;
+    return new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(amount);
+};
+
+export const buildDeleteExpenseRequest = (expense: Expense): ApprovalDraft => ({
+    action: 'deleteExpense',
+    payload: { targetId: expense.id },
+    summary: `Delete the expense "${expense.description}" (${formatCurrency(expense.amount)})`,
+});
+
+/**
+ * Splits a household update into the part `member` may apply and approval requests for the rest.
+ * Budget and income changes are held back whole; removed trips are kept until an owner approves.
+ */
+export const splitRestrictedUpdate = (household: Household, data: Partial<Omit<Household, 'id'>>, member: Member | undefined) => {
+    const allowed = { ...data };
+    const requests: ApprovalDraft[] = [];
+
+    if (data.budgets && !hasPermission(member, 'editBudgets')) {
+        delete allowed.budgets;
+        const changed = data.budgets.filter(b => (household.budgets.find(existing => existing.categoryId === b.categoryId)?.amount || 0) !== b.amount);
+        if (changed.length > 0) {
+            const getName = (categoryId: string) => household.categories.find(c => c.id === categoryId)?.name || 'a category';
+            requests.push({
+                action: 'setBudgets',
+                payload: { budgets: changed },
+                summary: changed.map(b => `Set the ${getName(b.categoryId)} budget to ${formatCurrency(b.amount)}`).join('; '),
+            });
+        }
+    }
+
+    if (data.monthlyIncome !== undefined && !hasPermission(member, 'editIncome')) {
+        delete allowed.monthlyIncome;
+        if (data.monthlyIncome !== household.monthlyIncome) {
+            requests.push({
+                action: 'setMonthlyIncome',
+                payload: { monthlyIncome: data.monthlyIncome },
+                summary: `Change the monthly household income to ${formatCurrency(data.monthlyIncome)}`,
+            });
+        }
+    }
+
+    if (data.trips && !hasPermission(member, 'deleteTrips')) {
+        const updatedTrips = data.trips;
+        const removed = household.trips.filter(t => !updatedTrips.some(u => u.id === t.id));
+        if (removed.length > 0) {
+            // Edits to the remaining trips still go through, in their current order.
+            allowed.trips = [
+                ...household.trips.map(t => updatedTrips.find(u => u.id === t.id) || t),
+                ...updatedTrips.filter(u => !household.trips.some(t => t.id === u.id)),
+            ];
+            removed.forEach((trip: Trip) => requests.push({
+                action: 'deleteTrip',
+                payload: { targetId: trip.id },
+                summary: `Delete the trip "${trip.name}" and its expenses`,
+            }));
+        }
+    }
+
+    return { allowed, requests };
+};
+
+// The household's budgets with an approved request's budgets applied over them.
+export const mergeBudgets = (current: Budget[], changed: Budget[]): Budget[] => {
+    const merged = current.map(b => changed.find(c => c.categoryId === b.categoryId) || b);
+    return [...merged, ...changed.filter(c => !current.some(b => b.categoryId === c.categoryId))];
+};
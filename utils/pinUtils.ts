@@ -0,0 +1,37 @@
+// PINs are never stored. Only a salted PBKDF2 hash is kept, so a copied database doesn't reveal them.
+
+const PBKDF2_ITERATIONS = 100000;
+
+export const PIN_PATTERN = /^\d{4,8}$/;
+
+// Returns what is wrong with a new PIN, or null if it can be used.
+export const getPinError = (pin: string): string | null => {
+    if (!PIN_PATTERN.test(pin)) return 'A PIN is 4 to 8 digits.';
+    if (/^(\d)\1+$/.test(pin)) return 'Choose a PIN that is not one digit repeated.';
+    return null;
+};
+
+const toHex = (bytes: ArrayBuffer | Uint8Array): string => {
+    return Array.from(new Uint8Array(bytes)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const fromHex = (hex: string): Uint8Array => {
+    return new Uint8Array((hex.match(/.{2}/g) || []).map(byte => parseInt(byte, 16)));
+};
+
+export const hashPin = async (pin: string, saltHex?: string): Promise<{ hash: string; salt: string }> => {
+    const salt = saltHex ? fromHex(saltHex) : crypto.getRandomValues(new Uint8Array(16));
+    const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' }, key, 256);
+    return { hash: toHex(bits), salt: toHex(salt) };
+};
+
+export const verifyPin = async (pin: string, hash: string, saltHex: string): Promise<boolean> => {
+    const { hash: candidate } = await hashPin(pin, saltHex);
+    // Compare every character so the time taken doesn't hint at how much matched.
+    let difference = candidate.length ^ hash.length;
+    for (let i = 0; i < Math.min(candidate.length, hash.length); i++) {
+        difference |= candidate.charCodeAt(i) ^ hash.charCodeAt(i);
+    }
+    return difference === 0;
+};
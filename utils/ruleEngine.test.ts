@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { ruleMatches, findMatchingRule, applySplitTemplate, applyRuleToExpense, previewRule, describeRuleConditions } from './ruleEngine';
+import { Expense, Rule } from '../types';
+
+const rule = (overrides: Partial<Rule>): Rule => ({ id: 'rule-1', keyword: 'swiggy', matchMode: 'contains', priority: 0, categoryId: 'cat-3', ...overrides });
+
+const expense = (overrides: Partial<Expense>): Expense => ({
+    id: 'exp-1', description: 'SWIGGY ORDER 1234', amount: 45000, date: '2024-08-15T00:00:00.000Z',
+    memberId: 'mem-1', categoryId: 'cat-8', splits: [{ memberId: 'mem-1', amount: 45000 }], tripId: null,
+    ...overrides,
+});
+
+describe('ruleMatches', () => {
+    const subject = { description: 'AMZN Marketplace', amount: 120000, date: '2024-08-30' };
+
+    it('matches text by mode, ignoring case', () => {
+        expect(ruleMatches(rule({ keyword: 'market', matchMode: 'contains' }), subject)).toBe(true);
+        expect(ruleMatches(rule({ keyword: 'amzn', matchMode: 'starts-with' }), subject)).toBe(true);
+        expect(ruleMatches(rule({ keyword: 'amzn', matchMode: 'exact' }), subject)).toBe(false);
+        expect(ruleMatches(rule({ keyword: '^amzn\\s+mark', matchMode: 'regex' }), subject)).toBe(true);
+    });
+
+    it('never matches an invalid regular expression', () => {
+        expect(ruleMatches(rule({ keyword: '(amzn', matchMode: 'regex' }), subject)).toBe(false);
+    });
+
+    it('checks inclusive amount limits', () => {
+        expect(ruleMatches(rule({ keyword: 'amzn', minAmount: 120000 }), subject)).toBe(true);
+        expect(ruleMatches(rule({ keyword: 'amzn', maxAmount: 119999 }), subject)).toBe(false);
+    });
+
+    it('wraps day-of-month ranges around the end of the month', () => {
+        const wrapping = rule({ keyword: 'amzn', dayOfMonthFrom: 28, dayOfMonthTo: 3 });
+        expect(ruleMatches(wrapping, subject)).toBe(true);
+        expect(ruleMatches(wrapping, { ...subject, date: '2024-09-02T10:00:00.000Z' })).toBe(true);
+        expect(ruleMatches(wrapping, { ...subject, date: '2024-09-15' })).toBe(false);
+    });
+});
+
+describe('findMatchingRule', () => {
+    it('takes the highest priority, then the earliest rule', () => {
+        const rules = [rule({ id: 'low' }), rule({ id: 'high', priority: 5 }), rule({ id: 'also-high', priority: 5 })];
+        expect(findMatchingRule(rules, expense({}))?.id).toBe('high');
+        expect(findMatchingRule(rules, expense({ description: 'Zomato' }))).toBeUndefined();
+    });
+});
+
+describe('applySplitTemplate', () => {
+    it('gives the rounding leftover to the payer', () => {
+        const template = [{ memberId: 'mem-1', percent: 33 }, { memberId: 'mem-2', percent: 67 }];
+        expect(applySplitTemplate(template, 1001, 'mem-1')).toEqual([{ memberId: 'mem-1', amount: 331 }, { memberId: 'mem-2', amount: 670 }]);
+    });
+
+    it('adds a split for a payer outside the template', () => {
+        const template = [{ memberId: 'mem-2', percent: 50 }, { memberId: 'mem-3', percent: 50 }];
+        expect(applySplitTemplate(template, 1001, 'mem-1')).toEqual([
+            { memberId: 'mem-2', amount: 500 }, { memberId: 'mem-3', amount: 500 }, { memberId: 'mem-1', amount: 1 },
+        ]);
+    });
+});
+
+describe('applyRuleToExpense', () => {
+    it('moves a payer-only expense to the new payer', () => {
+        const after = applyRuleToExpense(rule({ payerMemberId: 'mem-2' }), expense({}));
+        expect(after).toMatchObject({ categoryId: 'cat-3', memberId: 'mem-2', splits: [{ memberId: 'mem-2', amount: 45000 }], tripId: null });
+    });
+
+    it('keeps shared splits when only the payer changes', () => {
+        const splits = [{ memberId: 'mem-1', amount: 22500 }, { memberId: 'mem-2', amount: 22500 }];
+        expect(applyRuleToExpense(rule({ payerMemberId: 'mem-2' }), expense({ splits })).splits).toBe(splits);
+    });
+});
+
+describe('previewRule', () => {
+    it('lists the changes only where the rule would win', () => {
+        const expenses = [
+            expense({ id: 'exp-1' }),
+            expense({ id: 'exp-2', categoryId: 'cat-3' }),
+            expense({ id: 'exp-3', description: 'SWIGGY INSTAMART' }),
+        ];
+        const instamart = rule({ id: 'rule-2', keyword: 'instamart', priority: 10, categoryId: 'cat-1' });
+        const preview = previewRule(rule({}), [instamart], expenses);
+        expect(preview.map(item => [item.before.id, item.changedFields])).toEqual([['exp-1', ['categoryId']]]);
+    });
+});
+
+describe('describeRuleConditions', () => {
+    it('describes every condition', () => {
+        const described = describeRuleConditions(rule({ keyword: 'amzn', matchMode: 'starts-with', minAmount: 50000, dayOfMonthFrom: 28 }));
+        expect(described).toBe('description starts with "amzn" and amount is at least ₹500 and day of month is 28-31');
+    });
+});
@@ -0,0 +1,152 @@
+import { Rule, Expense, Split, SplitShare, Subscription } from '../types';
+
+// What a rule's conditions are checked against.
+export interface RuleSubject {
+    description: string;
+    amount: number; // in cents
+    date: string; // ISO string or "YYYY-MM-DD"
+}
+
+// Returns why a pattern is not a valid regular expression, or null if it is.
+export const getRegexError = (pattern: string): string | null => {
+    try {
+        new RegExp(pattern, 'i');
+        return null;
+    } catch (err) {
+        return err instanceof Error ? err.message : 'Invalid regular expression';
+    }
+};
+
+const matchesText = (rule: Rule, description: string): boolean => {
+    const text = description.toLowerCase().trim();
+    const keyword = rule.keyword.toLowerCase().trim();
+    switch (rule.matchMode) {
+        case 'starts-with': return text.startsWith(keyword);
+        case 'exact': return text === keyword;
+        case 'regex': return getRegexError(rule.keyword) === null && new RegExp(rule.keyword, 'i').test(description);
+        default: return text.includes(keyword);
+    }
+};
+
+const matchesDayOfMonth = (rule: Rule, date: string): boolean => {
+    const from = rule.dayOfMonthFrom ?? 1;
+    const to = rule.dayOfMonthTo ?? 31;
+    const day = Number(date.split('T')[0].split('-')[2]);
+    // A range such as 28-3 wraps around the end of the month.
+    return from <= to ? day >= from && day <= to : day >= from || day <= to;
+};
+
+export const ruleMatches = (rule: Rule, subject: RuleSubject): boolean => {
+    if (rule.minAmount != null && subject.amount < rule.minAmount) return false;
+    if (rule.maxAmount != null && subject.amount > rule.maxAmount) return false;
+    if ((rule.dayOfMonthFrom != null || rule.dayOfMonthTo != null) && !matchesDayOfMonth(rule, subject.date)) return false;
+    return matchesText(rule, subject.description);
+};
+
+// Highest priority first; rules with equal priority keep their order.
+export const sortRulesByPriority = (rules: Rule[]): Rule[] => {
+    return rules.map((rule, index) => ({ rule, index }))
+        .sort((a, b) => b.rule.priority - a.rule.priority || a.index - b.index)
+        .map(({ rule }) => rule);
+};
+
+export const findMatchingRule = (rules: Rule[], subject: RuleSubject): Rule | undefined => {
+    return sortRulesByPriority(rules).find(rule => ruleMatches(rule, subject));
+};
+
+// Divides the amount by the template's percentages. Rounding leftovers go to the payer.
+export const applySplitTemplate = (template: SplitShare[], totalAmountCents: number, payerId: string): Split[] => {
+    const splits = template.map(share => ({ memberId: share.memberId, amount: Math.floor(totalAmountCents * share.percent / 100) }));
+    const remainder = totalAmountCents - splits.reduce((sum, split) => sum + split.amount, 0);
+    const payerSplit = splits.find(split => split.memberId === payerId);
+    if (payerSplit) {
+        payerSplit.amount += remainder;
+    } else if (remainder !== 0) {
+        splits.push({ memberId: payerId, amount: remainder });
+    }
+    return splits;
+};
+
+// The expense as it would be after the rule's actions. Fields the rule doesn't set are unchanged.
+export const applyRuleToExpense = (rule: Rule, expense: Expense): Expense => {
+    const memberId = rule.payerMemberId || expense.memberId;
+    let splits = expense.splits;
+    if (rule.splitTemplate?.length) {
+        splits = applySplitTemplate(rule.splitTemplate, expense.amount, memberId);
+    } else if (memberId !== expense.memberId && expense.splits.every(s => s.memberId === expense.memberId || s.amount === 0)) {
+        // The old payer covered everything, so the new payer does.
+        splits = [{ memberId, amount: expense.amount }];
+    }
+    return {
+        ...expense,
+        categoryId: rule.categoryId,
+        memberId,
+        splits,
+        tripId: rule.tripId !== undefined && rule.tripId !== null ? rule.tripId : expense.tripId,
+    };
+};
+
+const sameSplits = (a: Split[], b: Split[]): boolean => {
+    const nonZero = (splits: Split[]) => splits.filter(s => s.amount !== 0).map(s => `${s.memberId}:${s.amount}`).sort().join(',');
+    return nonZero(a) === nonZero(b);
+};
+
+export interface RulePreviewItem {
+    before: Expense;
+    after: Expense;
+    changedFields: Array<'categoryId' | 'memberId' | 'splits' | 'tripId'>;
+}
+
+/**
+ * The existing expenses this rule would change if it were saved alongside `rules`.
+ * An expense only counts when this rule would be the highest-priority match for it.
+ */
+export const previewRule = (rule: Rule, rules: Rule[], expenses: Expense[]): RulePreviewItem[] => {
+    const ruleSet = [...rules.filter(r => r.id !== rule.id), rule];
+    return expenses.flatMap(expense => {
+        if (findMatchingRule(ruleSet, expense)?.id !== rule.id) return [];
+        const after = applyRuleToExpense(rule, expense);
+        const changedFields: RulePreviewItem['changedFields'] = [];
+        if (after.categoryId !== expense.categoryId) changedFields.push('categoryId');
+        if (after.memberId !== expense.memberId) changedFields.push('memberId');
+        if (!sameSplits(after.splits, expense.splits)) changedFields.push('splits');
+        if ((after.tripId || null) !== (expense.tripId || null)) changedFields.push('tripId');
+        return changedFields.length > 0 ? [{ before: expense, after, changedFields }] : [];
+    });
+};
+
+/**
+ * Monthly subscriptions for new expenses whose rule says to track them,
+ * skipping any description that is already a subscription.
+ */
+export const getRuleSubscriptions = (expenses: Expense[], rules: Rule[], existing: Subscription[]): Omit<Subscription, 'id'>[] => {
+    const tracked = new Set(existing.map(s => s.description.toLowerCase().trim()));
+    return expenses.flatMap(expense => {
+        const key = expense.description.toLowerCase().trim();
+        if (tracked.has(key) || !findMatchingRule(rules, expense)?.markAsSubscription) return [];
+        tracked.add(key);
+        const nextDueDate = new Date(expense.date);
+        nextDueDate.setMonth(nextDueDate.getMonth() + 1);
+        return [{ description: expense.description, amount: expense.amount, frequency: 'monthly' as const, nextDueDate: nextDueDate.toISOString(), categoryId: expense.categoryId }];
+    });
+};
+
+const formatRupees = (amountInCents: number): string => {
+    return new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', minimumFractionDigits: 0, maximumFractionDigits: 2 }).format(amountInCents / 100);
+};
+
+// e.g. `description starts with "amzn" and amount is at least ₹500`
+export const describeRuleConditions = (rule: Rule): string => {
+    const textCondition = {
+        'contains': `description contains "${rule.keyword}"`,
+        'starts-with': `description starts with "${rule.keyword}"`,
+        'exact': `description is exactly "${rule.keyword}"`,
+        'regex': `description matches /${rule.keyword}/`,
+    }[rule.matchMode] || `description contains "${rule.keyword}"`;
+    const conditions = [textCondition];
+    if (rule.minAmount != null && rule.maxAmount != null) conditions.push(`amount is between ${formatRupees(rule.minAmount)} and ${formatRupees(rule.maxAmount)}`);
+    else if (rule.minAmount != null) conditions.push(`amount is at least ${formatRupees(rule.minAmount)}`);
+    else if (rule.maxAmount != null) conditions.push(`amount is at most ${formatRupees(rule.maxAmount)}`);
+    if (rule.dayOfMonthFrom != null || rule.dayOfMonthTo != null) conditions.push(`day of month is ${rule.dayOfMonthFrom ?? 1}-${rule.dayOfMonthTo ?? 31}`);
+    return conditions.join(' and ');
+};
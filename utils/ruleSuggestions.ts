@@ -0,0 +1,69 @@
+import { CategoryCorrection, Household, Rule } from '../types';
+import { tokenizeDescription } from './categoryClassifier';
+import { findMatchingRule } from './ruleEngine';
+
+// A merchant has to be corrected this many times before a rule is suggested for it.
+const MIN_CORRECTIONS = 2;
+// Shorter words ("in", "co") match too many unrelated descriptions to make a keyword.
+const MIN_TOKEN_LENGTH = 3;
+
+export interface RuleSuggestion {
+    merchantToken: string;
+    categoryId: string;
+    corrections: CategoryCorrection[]; // every unresolved correction for this merchant
+    agreeing: number; // how many of them moved the expense to `categoryId`
+}
+
+// The word that names the merchant, e.g. "swiggy" for "UPI-SWIGGY ORDER 8812". Empty if there is none.
+export const getMerchantToken = (description: string): string => {
+    return tokenizeDescription(description).find(token => token.length >= MIN_TOKEN_LENGTH) || '';
+};
+
+// Returns undefined when the category didn't change or the description has no usable merchant word.
+export const createCategoryCorrection = (
+    expense: { description: string; amount: number; date: string },
+    fromCategoryId: string,
+    toCategoryId: string
+): Omit<CategoryCorrection, 'id' | 'createdAt'> | undefined => {
+    const merchantToken = getMerchantToken(expense.description);
+    if (!merchantToken || !fromCategoryId || fromCategoryId === toCategoryId) return undefined;
+    return { merchantToken, description: expense.description, amount: expense.amount, date: expense.date, fromCategoryId, toCategoryId };
+};
+
+/**
+ * Merchants the user keeps re-categorising the same way, most corrected first.
+ * A merchant is skipped once an existing rule already sends its latest correction to that category.
+ */
+export const getRuleSuggestions = (household: Household): RuleSuggestion[] => {
+    const byMerchant = new Map<string, CategoryCorrection[]>();
+    household.categoryCorrections.forEach(correction => {
+        byMerchant.set(correction.merchantToken, [...(byMerchant.get(correction.merchantToken) || []), correction]);
+    });
+
+    const suggestions: RuleSuggestion[] = [];
+    byMerchant.forEach((corrections, merchantToken) => {
+        const votes = new Map<string, number>();
+        corrections.forEach(c => votes.set(c.toCategoryId, (votes.get(c.toCategoryId) || 0) + 1));
+        const [categoryId, agreeing] = [...votes.entries()].reduce((a, b) => (b[1] > a[1] ? b : a));
+        if (agreeing < MIN_CORRECTIONS || agreeing * 2 <= corrections.length) return;
+        if (!household.categories.some(c => c.id === categoryId)) return;
+
+        const latest = corrections.reduce((a, b) => (b.createdAt > a.createdAt ? b : a));
+        if (findMatchingRule(household.rules, latest)?.categoryId === categoryId) return;
+
+        suggestions.push({ merchantToken, categoryId, corrections, agreeing });
+    });
+    return suggestions.sort((a, b) => b.agreeing - a.agreeing);
+};
+
+// The rule a suggestion turns into. It goes above every existing rule so the user's latest choice wins.
+export const buildSuggestedRule = (suggestion: RuleSuggestion, rules: Rule[]): Rule => {
+    const topPriority = rules.reduce((max, rule) => Math.max(max, rule.priority), 0);
+    return {
+        id: `rule-${Date.now()}`,
+        keyword: suggestion.merchantToken,
+        matchMode: 'contains',
+        priority: topPriority + 1,
+        categoryId: suggestion.categoryId,
+    };
+};
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { computeBalances, simplifyDebts } from './settleUtils';
+import { Member, Settlement } from '../types';
+
+const member = (id: string): Member => ({ id, name: id, avatarUrl: '', role: 'adult' });
+const members = [member('mem-1'), member('mem-2'), member('mem-3')];
+
+const total = (memberId: string, paid: number, share: number) => ({ memberId, paid, paidCount: paid ? 1 : 0, share, shareCount: share ? 1 : 0 });
+const settlement = (fromMemberId: string, toMemberId: string, amount: number): Settlement => ({
+    id: `set-${fromMemberId}-${toMemberId}`, fromMemberId, toMemberId, amount, date: '2024-08-01T00:00:00.000Z', tripId: null,
+});
+
+describe('computeBalances', () => {
+    it('nets what each member paid against their share', () => {
+        // mem-1 paid 90,000 for an expense split three ways.
+        const totals = [total('mem-1', 90000, 30000), total('mem-2', 0, 30000), total('mem-3', 0, 30000)];
+        expect(computeBalances(totals, [], members)).toEqual([
+            { memberId: 'mem-1', balance: 60000 },
+            { memberId: 'mem-2', balance: -30000 },
+            { memberId: 'mem-3', balance: -30000 },
+        ]);
+    });
+
+    it('moves settlements from the receiver to the payer', () => {
+        const totals = [total('mem-1', 90000, 30000), total('mem-2', 0, 30000), total('mem-3', 0, 30000)];
+        const balances = computeBalances(totals, [settlement('mem-2', 'mem-1', 30000)], members);
+        expect(balances.map(b => b.balance)).toEqual([30000, 0, -30000]);
+    });
+
+    it('lists members without totals at zero and keeps members no longer in the list', () => {
+        const balances = computeBalances([total('mem-9', 5000, 0)], [], members);
+        expect(balances).toEqual([
+            { memberId: 'mem-1', balance: 0 },
+            { memberId: 'mem-2', balance: 0 },
+            { memberId: 'mem-3', balance: 0 },
+            { memberId: 'mem-9', balance: 5000 },
+        ]);
+    });
+});
+
+describe('simplifyDebts', () => {
+    it('matches the largest debtor with the largest creditor', () => {
+        const transfers = simplifyDebts([
+            { memberId: 'mem-1', balance: 70000 },
+            { memberId: 'mem-2', balance: -50000 },
+            { memberId: 'mem-3', balance: -20000 },
+        ]);
+        expect(transfers).toEqual([
+            { fromMemberId: 'mem-2', toMemberId: 'mem-1', amount: 50000 },
+            { fromMemberId: 'mem-3', toMemberId: 'mem-1', amount: 20000 },
+        ]);
+    });
+
+    it('needs at most one transfer fewer than the members with a balance', () => {
+        const balances = [
+            { memberId: 'mem-1', balance: 30000 },
+            { memberId: 'mem-2', balance: 10000 },
+            { memberId: 'mem-3', balance: -25000 },
+            { memberId: 'mem-4', balance: -15000 },
+            { memberId: 'mem-5', balance: 0 },
+        ];
+        const transfers = simplifyDebts(balances);
+        expect(transfers.length).toBeLessThanOrEqual(3);
+
+        const settled = new Map(balances.map(b => [b.memberId, b.balance]));
+        for (const transfer of transfers) {
+            settled.set(transfer.fromMemberId, settled.get(transfer.fromMemberId)! + transfer.amount);
+            settled.set(transfer.toMemberId, settled.get(transfer.toMemberId)! - transfer.amount);
+        }
+        expect([...settled.values()].every(balance => balance === 0)).toBe(true);
+    });
+
+    it('returns no transfers when everyone is settled', () => {
+        expect(simplifyDebts([{ memberId: 'mem-1', balance: 0 }, { memberId: 'mem-2', balance: 0 }])).toEqual([]);
+    });
+});
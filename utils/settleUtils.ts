@@ -0,0 +1,59 @@
+import { Member, Settlement } from '../types';
+import type { MemberTotal } from '../services/dbCore';
+
+export interface MemberBalance {
+    memberId: string;
+    balance: number; // in cents; positive means the member is owed money
+}
+
+export interface Transfer {
+    fromMemberId: string;
+    toMemberId: string;
+    amount: number; // in cents
+}
+
+/**
+ * Nets what each member paid against their share of the expenses the totals cover.
+ * Recorded settlements move the payer's balance up and the receiver's down.
+ */
+export const computeBalances = (totals: MemberTotal[], settlements: Settlement[], members: Member[]): MemberBalance[] => {
+    const balances = new Map<string, number>(members.map(m => [m.id, 0]));
+    const adjust = (memberId: string, amount: number) => balances.set(memberId, (balances.get(memberId) || 0) + amount);
+
+    for (const total of totals) {
+        adjust(total.memberId, total.paid - total.share);
+    }
+    for (const settlement of settlements) {
+        adjust(settlement.fromMemberId, settlement.amount);
+        adjust(settlement.toMemberId, -settlement.amount);
+    }
+
+    return Array.from(balances, ([memberId, balance]) => ({ memberId, balance }));
+};
+
+/**
+ * Turns balances into a short list of transfers that brings everyone to zero.
+ * Repeatedly matches the largest debtor with the largest creditor, which needs
+ * at most one transfer fewer than the number of members with a balance.
+ */
+export const simplifyDebts = (balances: MemberBalance[]): Transfer[] => {
+    const creditors = balances.filter(b => b.balance > 0).map(b => ({ ...b }));
+    const debtors = balances.filter(b => b.balance < 0).map(b => ({ ...b, balance: -b.balance }));
+    const transfers: Transfer[] = [];
+
+    while (creditors.length > 0 && debtors.length > 0) {
+        creditors.sort((a, b) => b.balance - a.balance);
+        debtors.sort((a, b) => b.balance - a.balance);
+        const creditor = creditors[0];
+        const debtor = debtors[0];
+        const amount = Math.min(creditor.balance, debtor.balance);
+
+        transfers.push({ fromMemberId: debtor.memberId, toMemberId: creditor.memberId, amount });
+        creditor.balance -= amount;
+        debtor.balance -= amount;
+        if (creditor.balance === 0) creditors.shift();
+        if (debtor.balance === 0) debtors.shift();
+    }
+
+    return transfers;
+};
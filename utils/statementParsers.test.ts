@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { detectStatementFormat, parseOfx, parseQif } from './statementParsers';
+
+const ofx = `OFXHEADER:100
+DATA:OFXSGML
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20240815120000.000[+5.30:IST]
+<TRNAMT>-1250.50
+<FITID>TXN-001
+<NAME>BIG BAZAAR
+<MEMO>Groceries &amp; household
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20240816
+<TRNAMT>85000.00
+<FITID>TXN-002
+<NAME>SALARY AUG
+<MEMO>SALARY
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20240817
+<TRNAMT>0.00
+<FITID>TXN-003
+</STMTTRN>
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+
+describe('detectStatementFormat', () => {
+    it('recognises statements by extension or content', () => {
+        expect(detectStatementFormat('statement.QFX', '')).toBe('ofx');
+        expect(detectStatementFormat('download', ofx)).toBe('ofx');
+        expect(detectStatementFormat('export.txt', '!Type:Bank\nD15/08/2024\n^')).toBe('qif');
+        expect(detectStatementFormat('stmt.xml', '<?xml version="1.0"?><Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">')).toBe('camt053');
+    });
+
+    it('returns null for other files', () => {
+        expect(detectStatementFormat('statement.csv', 'Date,Narration,Amount')).toBeNull();
+        expect(detectStatementFormat('feed.xml', '<?xml version="1.0"?><rss>')).toBeNull();
+    });
+});
+
+describe('parseOfx', () => {
+    it('reads each transaction with its sign, description and ID', () => {
+        expect(parseOfx(ofx)).toEqual([
+            { date: '2024-08-15', description: 'BIG BAZAAR - Groceries & household', amount: 1250.5, type: 'debit', externalId: 'TXN-001' },
+            { date: '2024-08-16', description: 'SALARY AUG', amount: 85000, type: 'credit', externalId: 'TXN-002' },
+        ]);
+    });
+});
+
+describe('parseQif', () => {
+    it('reads day-first dates from Indian bank exports', () => {
+        const qif = '!Type:Bank\nD15/08/2024\nT-1,250.50\nPBIG BAZAAR\n^\nD16/08/2024\nT85,000.00\nMSALARY\n^\n';
+        expect(parseQif(qif)).toEqual([
+            { date: '2024-08-15', description: 'BIG BAZAAR', amount: 1250.5, type: 'debit' },
+            { date: '2024-08-16', description: 'SALARY', amount: 85000, type: 'credit' },
+        ]);
+    });
+
+    it("reads MM/DD'YY dates and skips records without an amount", () => {
+        const qif = "!Type:CCard\r\nD08/15'24\r\nU-45.00\r\nPCAFE\r\n^\r\nD08/16'24\r\nPNO AMOUNT\r\n^\r\n";
+        expect(parseQif(qif)).toEqual([{ date: '2024-08-15', description: 'CAFE', amount: 45, type: 'debit' }]);
+    });
+});
@@ -0,0 +1,176 @@
+import { ParsedTransaction } from '../types';
+import { detectDateFormat, parseCsvDate, parseCsvAmount } from './csvParser';
+
+type UncategorizedTransaction = Omit<ParsedTransaction, 'categoryId' | 'memberId'>;
+
+export type StatementFormat = 'ofx' | 'qif' | 'camt053';
+
+/**
+ * Recognises the structured statement formats that can be parsed locally.
+ * Returns null for anything else (CSV, PDF, images).
+ */
+export const detectStatementFormat = (fileName: string, content: string): StatementFormat | null => {
+    const extension = fileName.toLowerCase().split('.').pop();
+    if (extension === 'ofx' || extension === 'qfx' || /<OFX>/i.test(content.slice(0, 2000))) return 'ofx';
+    if (extension === 'qif' || /^!Type:/im.test(content.slice(0, 200))) return 'qif';
+    if ((extension === 'xml' || content.trimStart().startsWith('<?xml')) && /camt\.053|BkToCstmrStmt/.test(content.slice(0, 2000))) return 'camt053';
+    return null;
+};
+
+export const parseStatement = (format: StatementFormat, content: string): UncategorizedTransaction[] => {
+    switch (format) {
+        case 'ofx': return parseOfx(content);
+        case 'qif': return parseQif(content);
+        case 'camt053': return parseCamt053(content);
+    }
+};
+
+// --- OFX / QFX ---
+
+// OFX 1.x is SGML where leaf elements have no closing tag, so a value runs to the next tag or line end.
+const readOfxField = (block: string, tag: string): string | undefined => {
+    const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+    const value = match?.[1].trim();
+    return value ? decodeXmlEntities(value) : undefined;
+};
+
+const decodeXmlEntities = (value: string): string => {
+    return value
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&');
+};
+
+// OFX dates look like "20240815" or "20240815120000.000[+5.30:IST]".
+const parseOfxDate = (value: string): string | null => {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+    return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+export const parseOfx = (content: string): UncategorizedTransaction[] => {
+    const transactions: UncategorizedTransaction[] = [];
+    const blocks = content.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+
+    for (const block of blocks) {
+        const date = parseOfxDate(readOfxField(block, 'DTPOSTED') || '');
+        const amount = parseFloat(readOfxField(block, 'TRNAMT') || '');
+        if (!date || isNaN(amount) || amount === 0) continue;
+
+        const name = readOfxField(block, 'NAME');
+        const memo = readOfxField(block, 'MEMO');
+        const description = name && memo && !name.includes(memo) ? `${name} - ${memo}` : name || memo || readOfxField(block, 'TRNTYPE') || 'Unknown';
+
+        transactions.push({
+            date,
+            description,
+            amount: Math.abs(amount),
+            type: amount < 0 ? 'debit' : 'credit',
+            externalId: readOfxField(block, 'FITID'),
+        });
+    }
+    return transactions;
+};
+
+// --- QIF ---
+
+interface QifRecord {
+    date?: string;
+    amount?: string;
+    payee?: string;
+    memo?: string;
+}
+
+export const parseQif = (content: string): UncategorizedTransaction[] => {
+    const records: QifRecord[] = [];
+    let current: QifRecord = {};
+
+    for (const rawLine of content.split(/\r\n|\n|\r/)) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('!')) continue;
+        const code = line[0];
+        const value = line.slice(1).trim();
+        switch (code) {
+            case 'D': current.date = value; break;
+            case 'T':
+            case 'U': current.amount = value; break;
+            case 'P': current.payee = value; break;
+            case 'M': current.memo = value; break;
+            case '^':
+                records.push(current);
+                current = {};
+                break;
+        }
+    }
+
+    // QIF dates are usually MM/DD'YY, but exports from Indian banks use DD/MM/YYYY.
+    const normalizeDate = (value: string) => value.replace(/'\s*/, '/').replace(/\s+/g, '');
+    const dateFormat = detectDateFormat(records.map(r => normalizeDate(r.date || '')));
+
+    const transactions: UncategorizedTransaction[] = [];
+    for (const record of records) {
+        const date = parseCsvDate(normalizeDate(record.date || ''), dateFormat);
+        const amount = parseCsvAmount(record.amount || '');
+        if (!date || !amount) continue;
+        transactions.push({
+            date,
+            description: record.payee || record.memo || 'Unknown',
+            amount: Math.abs(amount),
+            type: amount < 0 ? 'debit' : 'credit',
+        });
+    }
+    return transactions;
+};
+
+// --- ISO 20022 CAMT.053 ---
+
+// Walks a path of child elements by local name, so any camt.053 namespace version works.
+const findElement = (parent: Element, path: string[]): Element | undefined => {
+    let current: Element | undefined = parent;
+    for (const name of path) {
+        current = current ? Array.from(current.children).find(child => child.localName === name) : undefined;
+    }
+    return current;
+};
+
+const findText = (parent: Element, path: string[]): string | undefined => {
+    return findElement(parent, path)?.textContent?.trim() || undefined;
+};
+
+export const parseCamt053 = (content: string): UncategorizedTransaction[] => {
+    const document = new DOMParser().parseFromString(content, 'application/xml');
+    if (document.getElementsByTagName('parsererror').length > 0) {
+        throw new Error('Invalid CAMT.053 XML');
+    }
+
+    const transactions: UncategorizedTransaction[] = [];
+    for (const entry of Array.from(document.getElementsByTagNameNS('*', 'Ntry'))) {
+        const amount = parseFloat(findText(entry, ['Amt']) || '');
+        const dateValue = findText(entry, ['BookgDt', 'Dt']) || findText(entry, ['BookgDt', 'DtTm']) || findText(entry, ['ValDt', 'Dt']);
+        const date = dateValue?.slice(0, 10);
+        if (!date || isNaN(amount) || amount === 0) continue;
+
+        const isDebit = findText(entry, ['CdtDbtInd']) === 'DBIT';
+        const details = findElement(entry, ['NtryDtls', 'TxDtls']) || entry;
+        const counterparty = isDebit
+            ? findText(details, ['RltdPties', 'Cdtr', 'Nm']) || findText(details, ['RltdPties', 'Cdtr', 'Pty', 'Nm'])
+            : findText(details, ['RltdPties', 'Dbtr', 'Nm']) || findText(details, ['RltdPties', 'Dbtr', 'Pty', 'Nm']);
+        const remittance = findText(details, ['RmtInf', 'Ustrd']);
+        const description = [counterparty, remittance].filter(Boolean).join(' - ') || findText(entry, ['AddtlNtryInf']) || 'Unknown';
+
+        transactions.push({
+            date,
+            description,
+            amount: Math.abs(amount),
+            type: isDebit ? 'debit' : 'credit',
+            externalId: [
+                findText(entry, ['AcctSvcrRef']),
+                findText(details, ['Refs', 'AcctSvcrRef']),
+                findText(entry, ['NtryRef']),
+                findText(details, ['Refs', 'EndToEndId']),
+            ].find(ref => ref && ref !== 'NOTPROVIDED'),
+        });
+    }
+    return transactions;
+};
@@ -1,7 +1,27 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import crypto from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Adds the service worker (sw.js) to production builds, with the list of files it should cache for offline use.
+const serviceWorker = (): Plugin => ({
+  name: 'financelyai-service-worker',
+  apply: 'build',
+  generateBundle(_options, bundle) {
+    const publicFiles = fs.existsSync('public') ? fs.readdirSync('public') : [];
+    const builtFiles = [...Object.keys(bundle), ...publicFiles].map(file => `/${file}`);
+    const files = [...new Set(['/', '/index.html', ...builtFiles])].sort();
+    const version = crypto.createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12);
+    const source = fs.readFileSync(path.resolve(__dirname, 'sw.js'), 'utf-8');
+    this.emitFile({
+      type: 'asset',
+      fileName: 'sw.js',
+      source: `self.__PRECACHE_FILES__ = ${JSON.stringify(files)};\nself.__CACHE_VERSION__ = '${version}';\n${source}`,
+    });
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +29,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)